@@ -0,0 +1,156 @@
+/**
+ * Store 查询性能基准: npm run bench
+ *
+ * 生成 10k 书签的 store, 测量 provider 常用的查询 (codeLens/decoration/hover 的 getBookmarksByFile,
+ * 侧边栏的 getBookmark/hasChildren/getGroupBookmarkTrees) 在使用索引时的耗时, 并与线性扫描对比.
+ * 任一 provider 查询的平均耗时超过预算时以非 0 退出.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BookmarkStoreManagerStandalone } from '../store/bookmarkStoreStandalone';
+import { Bookmark, BookmarkGroup, BookmarkStore, STORE_SCHEMA_VERSION } from '../store/types';
+import { STORE_FILE_NAME } from '../store/storeLayout';
+import { StoreIndex } from '../store/storeIndex';
+
+const GROUP_COUNT = 100;
+const BOOKMARKS_PER_GROUP = 100;
+const FILE_COUNT = 500;
+// provider 查询的单次预算 (毫秒), 远低于一帧的时间
+const QUERY_BUDGET_MS = 1;
+
+interface Result {
+  name: string;
+  indexedMs: number;
+  linearMs?: number;
+}
+
+function main(): void {
+  const workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-bookmarks-bench-'));
+  try {
+    const generated = generateStore();
+    fs.mkdirSync(path.join(workspaceRoot, '.vscode'));
+    fs.writeFileSync(path.join(workspaceRoot, '.vscode', STORE_FILE_NAME), JSON.stringify(generated), 'utf-8');
+
+    const store = new BookmarkStoreManagerStandalone(workspaceRoot);
+    const bookmarks = generated.groups.flatMap(g => g.bookmarks);
+    const files = Array.from({ length: FILE_COUNT }, (_, i) => filePathFor(i));
+    const pick = <T>(list: T[], i: number) => list[(i * 7919) % list.length];
+
+    const snapshot = store.getSnapshot();
+    const results: Result[] = [];
+
+    // 写盘的变更之后索引被丢弃, 之后的第一次查询承担重建的开销 (行号漂移就地更新, 不重建)
+    results.push({
+      name: 'build index (first query after a change)',
+      indexedMs: measure(20, () => new StoreIndex(snapshot))
+    });
+
+    results.push({
+      name: 'getBookmarksByFile (codeLens/decorations/hover)',
+      indexedMs: measure(2000, i => store.getBookmarksByFile(path.join(workspaceRoot, pick(files, i)))),
+      linearMs: measure(200, i => store.listBookmarks({ filePath: pick(files, i) }))
+    });
+
+    results.push({
+      name: 'getBookmark',
+      indexedMs: measure(20000, i => store.getBookmark(pick(bookmarks, i).id)),
+      linearMs: measure(2000, i => linearFind(snapshot, pick(bookmarks, i).id, false))
+    });
+
+    results.push({
+      name: 'hasChildren',
+      indexedMs: measure(20000, i => store.hasChildren(pick(bookmarks, i).id)),
+      linearMs: measure(2000, i => linearFind(snapshot, pick(bookmarks, i).id, true))
+    });
+
+    results.push({
+      name: 'getGroupBookmarkTrees (one group)',
+      indexedMs: measure(500, i => store.getGroupBookmarkTrees(pick(generated.groups, i).id))
+    });
+
+    report(results, bookmarks.length);
+
+    // 重建索引只在写盘的变更后发生一次, 不计入预算
+    const overBudget = results.slice(1).filter(r => r.indexedMs > QUERY_BUDGET_MS);
+    if (overBudget.length > 0) {
+      console.error(`Over the ${QUERY_BUDGET_MS}ms budget: ${overBudget.map(r => r.name).join(', ')}`);
+      process.exitCode = 1;
+    }
+
+    store.dispose();
+  } finally {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  }
+}
+
+/** 每个分组 100 个书签, 每 5 个书签中 4 个是前一个顶层书签的子书签, 位置分布在 500 个文件中 */
+function generateStore(): BookmarkStore {
+  const now = new Date().toISOString();
+  const groups: BookmarkGroup[] = [];
+  let n = 0;
+
+  for (let g = 0; g < GROUP_COUNT; g++) {
+    const bookmarks: Bookmark[] = [];
+    let parentId: string | undefined;
+
+    for (let b = 0; b < BOOKMARKS_PER_GROUP; b++, n++) {
+      const isTopLevel = b % 5 === 0;
+      const id = `bookmark-${n}`;
+      bookmarks.push({
+        id,
+        parentId: isTopLevel ? undefined : parentId,
+        order: isTopLevel ? b / 5 + 1 : b % 5,
+        location: `${filePathFor(n % FILE_COUNT)}:${(n % 400) + 1}`,
+        title: `Bookmark ${n}`,
+        description: `Generated bookmark ${n}`,
+        category: 'note'
+      });
+      if (isTopLevel) {
+        parentId = id;
+      }
+    }
+
+    groups.push({ id: `group-${g}`, title: `Group ${g}`, createdAt: now, updatedAt: now, createdBy: 'ai', bookmarks });
+  }
+
+  return { version: STORE_SCHEMA_VERSION, revision: 1, projectName: 'bench', groups };
+}
+
+function filePathFor(i: number): string {
+  return `src/module${i % 25}/file${i}.ts`;
+}
+
+// 索引之前的实现: 遍历全部分组和书签
+function linearFind(store: BookmarkStore, bookmarkId: string, byParent: boolean): boolean {
+  for (const group of store.groups) {
+    for (const bookmark of group.bookmarks) {
+      if ((byParent ? bookmark.parentId : bookmark.id) === bookmarkId) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/** @returns 每次调用的平均耗时 (毫秒) */
+function measure(iterations: number, fn: (i: number) => void): number {
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < iterations; i++) {
+    fn(i);
+  }
+  return Number(process.hrtime.bigint() - start) / 1e6 / iterations;
+}
+
+function report(results: Result[], bookmarkCount: number): void {
+  const format = (ms: number | undefined) => ms === undefined ? '-' : `${ms.toFixed(4)} ms`;
+
+  console.log(`${bookmarkCount} bookmarks in ${GROUP_COUNT} groups, ${FILE_COUNT} files\n`);
+  console.log(`${'query'.padEnd(50)}${'indexed'.padStart(14)}${'linear'.padStart(14)}`);
+  for (const r of results) {
+    console.log(`${r.name.padEnd(50)}${format(r.indexedMs).padStart(14)}${format(r.linearMs).padStart(14)}`);
+  }
+}
+
+main();
@@ -1,10 +1,11 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
-import { Bookmark, BookmarkCategory } from '../store/types';
-import { parseLocation, toAbsolutePath } from '../utils';
+import { Bookmark, BookmarkStatus, BOOKMARK_STATUSES, isClosedStatus } from '../store/types';
+import { parseLocation, toAbsolutePath, getStatusDisplayName, getStatusIcon } from '../utils';
 import { extractBookmark } from '../shared/itemHelpers';
-import { editTextInEditor } from '../shared/editorHelpers';
-import { BOOKMARK_CATEGORIES } from '../shared/constants';
+import { editTextInEditor, pickBookmarkLocation, getLocationRange, getSelectionLocation, readWorkspaceFile } from '../shared/editorHelpers';
+import { getCategoryQuickPickItems } from '../shared/constants';
 import { CommandDependencies } from './types';
 
 export function registerBookmarkCommands(
@@ -15,26 +16,26 @@ export function registerBookmarkCommands(
 
   // Jump to bookmark command
   context.subscriptions.push(
-    vscode.commands.registerCommand('mcpBookmarks.jumpTo', async (bookmark: Bookmark) => {
+    vscode.commands.registerCommand('mcpBookmarks.jumpTo', async (bookmark: Bookmark, locationIndex?: number) => {
       if (!bookmark) {
         return;
       }
 
-      const parsed = parseLocation(bookmark.location);
+      // 多位置书签: 未指定位置时选择要跳转的位置
+      const target = await pickBookmarkLocation(bookmark, locationIndex);
+      if (!target) {
+        return;
+      }
+
+      const parsed = parseLocation(target.location);
 
       // Helper to open and jump to document
       const jumpToDocument = async (uri: vscode.Uri) => {
         const document = await vscode.workspace.openTextDocument(uri);
         const editor = await vscode.window.showTextDocument(document);
 
-        // 跳转到目标行并选中范围
-        const startLine = Math.max(0, parsed.startLine - 1);
-        const endLine = Math.max(0, parsed.endLine - 1);
-
-        const range = new vscode.Range(
-          new vscode.Position(startLine, 0),
-          new vscode.Position(endLine, document.lineAt(endLine).text.length)
-        );
+        // 跳转到目标位置并选中范围 (带列的位置精确选中)
+        const range = getLocationRange(document, parsed);
 
         editor.selection = new vscode.Selection(range.start, range.end);
         editor.revealRange(range, vscode.TextEditorRevealType.InCenter);
@@ -151,16 +152,8 @@ export function registerBookmarkCommands(
         return;
       }
 
-      // Get current selection or cursor position
-      const selection = editor.selection;
-      const startLine = selection.start.line + 1;
-      const endLine = selection.end.line + 1;
-
-      // Get file path relative to workspace
-      const relativePath = path.relative(workspaceRoot, editor.document.uri.fsPath);
-      const location = startLine === endLine
-        ? `${relativePath}:${startLine}`
-        : `${relativePath}:${startLine}-${endLine}`;
+      // Get file path relative to workspace from the selection (part of a single line keeps the columns)
+      const location = getSelectionLocation(editor, workspaceRoot);
 
       // Get or create group
       const groups = store.listGroups();
@@ -219,21 +212,13 @@ export function registerBookmarkCommands(
       }
 
       // Get category
-      const selectedCategory = await vscode.window.showQuickPick(BOOKMARK_CATEGORIES, {
+      const selectedCategory = await vscode.window.showQuickPick(getCategoryQuickPickItems(store.getCategories()), {
         placeHolder: 'Select a category (optional)'
       });
 
-      // Capture code snapshot
-      const startIdx = Math.max(0, startLine - 1);
-      const endIdx = Math.min(editor.document.lineCount, endLine);
-      const codeSnapshot = editor.document.getText(
-        new vscode.Range(startIdx, 0, endIdx, 0)
-      ).trim();
-
-      // Add bookmark with code snapshot
+      // Add bookmark (the store captures the code snapshot from the editor)
       store.addBookmark(groupId, location, title, description, {
-        category: selectedCategory?.label as BookmarkCategory | undefined,
-        codeSnapshot
+        category: selectedCategory?.categoryId
       });
 
       vscode.window.showInformationMessage(`Bookmark "${title}" added`);
@@ -259,16 +244,8 @@ export function registerBookmarkCommands(
         return;
       }
 
-      // Get current selection or cursor position
-      const selection = editor.selection;
-      const startLine = selection.start.line + 1;
-      const endLine = selection.end.line + 1;
-
-      // Get file path relative to workspace
-      const relativePath = path.relative(workspaceRoot, editor.document.uri.fsPath);
-      const location = startLine === endLine
-        ? `${relativePath}:${startLine}`
-        : `${relativePath}:${startLine}-${endLine}`;
+      // Get file path relative to workspace from the selection (part of a single line keeps the columns)
+      const location = getSelectionLocation(editor, workspaceRoot);
 
       // Get bookmark title
       const title = await vscode.window.showInputBox({
@@ -291,22 +268,14 @@ export function registerBookmarkCommands(
       }
 
       // Get category
-      const selectedCategory = await vscode.window.showQuickPick(BOOKMARK_CATEGORIES, {
+      const selectedCategory = await vscode.window.showQuickPick(getCategoryQuickPickItems(store.getCategories()), {
         placeHolder: 'Select a category (optional)'
       });
 
-      // Capture code snapshot
-      const startIdx = Math.max(0, startLine - 1);
-      const endIdx = Math.min(editor.document.lineCount, endLine);
-      const codeSnapshot = editor.document.getText(
-        new vscode.Range(startIdx, 0, endIdx, 0)
-      ).trim();
-
       // Add child bookmark with parentId
       store.addBookmark(group.id, location, title, description, {
         parentId: parentBookmark.id,
-        category: selectedCategory?.label as BookmarkCategory | undefined,
-        codeSnapshot
+        category: selectedCategory?.categoryId
       });
 
       vscode.window.showInformationMessage(`Child bookmark "${title}" added under "${parentBookmark.title}"`);
@@ -328,7 +297,9 @@ export function registerBookmarkCommands(
       const editOptions = [
         { label: 'Title', description: bookmark.title },
         { label: 'Description (Double-click in sidebar)', description: bookmark.description.substring(0, 50) + '...' },
-        { label: 'Category', description: bookmark.category || 'None' }
+        { label: 'Category', description: bookmark.category || 'None' },
+        { label: 'Tags', description: bookmark.tags?.join(', ') || 'None' },
+        { label: 'Status', description: bookmark.status ? getStatusDisplayName(bookmark.status) : 'None' }
       ];
 
       const selected = await vscode.window.showQuickPick(editOptions, {
@@ -363,27 +334,87 @@ export function registerBookmarkCommands(
         }
         case 'Category': {
           const categories = [
-            { label: 'None', description: 'No category' },
-            { label: 'entry-point', description: 'Entry point' },
-            { label: 'core-logic', description: 'Core logic' },
-            { label: 'issue', description: 'Issue' },
-            { label: 'note', description: 'Note' }
+            { label: 'None', description: 'No category', categoryId: '' },
+            ...getCategoryQuickPickItems(store.getCategories())
           ];
           const newCat = await vscode.window.showQuickPick(categories, {
             placeHolder: 'Select new category'
           });
           if (newCat) {
-            const category = newCat.label === 'None' ? undefined : newCat.label as BookmarkCategory;
+            const category = newCat.categoryId || undefined;
             store.updateBookmark(bookmark.id, { category });
             vscode.window.showInformationMessage('Category updated');
           }
           break;
         }
+        case 'Tags': {
+          const input = await vscode.window.showInputBox({
+            prompt: 'Enter tags, separated by commas (leave empty to clear)',
+            value: bookmark.tags?.join(', ') ?? ''
+          });
+          if (input !== undefined) {
+            store.updateBookmark(bookmark.id, { tags: input.split(',') });
+            vscode.window.showInformationMessage('Tags updated');
+          }
+          break;
+        }
+        case 'Status': {
+          await vscode.commands.executeCommand('mcpBookmarks.setStatus', item);
+          break;
+        }
       }
     })
   );
 
-  // Check bookmark validity command
+  // Set issue status command (侧边栏的 Resolve / Reopen 会直接传入 status)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpBookmarks.setStatus', async (item: unknown, status?: BookmarkStatus | null) => {
+      const selectedBookmark = extractBookmark(item);
+      const bookmark = selectedBookmark && store.getBookmark(selectedBookmark.id)?.bookmark;
+      if (!bookmark) {
+        vscode.window.showErrorMessage('Please select a bookmark to set its status');
+        return;
+      }
+
+      if (status === undefined) {
+        const items = [
+          ...BOOKMARK_STATUSES.map(s => ({
+            label: `$(${getStatusIcon(s)}) ${getStatusDisplayName(s)}`,
+            description: s === bookmark.status ? 'current' : undefined,
+            status: s as BookmarkStatus | null
+          })),
+          { label: '$(close) Clear Status', description: undefined, status: null }
+        ];
+        const selected = await vscode.window.showQuickPick(items, {
+          placeHolder: `Set status of "${bookmark.title}"`
+        });
+        if (!selected) {
+          return;
+        }
+        status = selected.status;
+      }
+
+      // 关闭问题时记录处理说明
+      let resolution: string | undefined;
+      if (isClosedStatus(status ?? undefined)) {
+        resolution = await vscode.window.showInputBox({
+          prompt: `Resolution note for "${bookmark.title}" (optional)`,
+          placeHolder: status === 'wontfix' ? "Why it won't be fixed" : 'How it was resolved',
+          value: bookmark.resolution ?? ''
+        });
+        if (resolution === undefined) {
+          return;
+        }
+      }
+
+      store.updateBookmark(bookmark.id, { status, resolution });
+      vscode.window.showInformationMessage(
+        status ? `Status set to ${getStatusDisplayName(status)}` : 'Status cleared'
+      );
+    })
+  );
+
+  // Check bookmark validity command (代码有变化时在详情面板中显示与快照的差异)
   context.subscriptions.push(
     vscode.commands.registerCommand('mcpBookmarks.checkValidity', async (item: unknown) => {
       const bookmarkItem = item as { type: string; bookmark?: Bookmark };
@@ -393,46 +424,30 @@ export function registerBookmarkCommands(
       }
 
       const bookmark = bookmarkItem.bookmark;
-
-      // Function to read file content
-      const getFileContent = async (filePath: string): Promise<string | undefined> => {
-        try {
-          const uri = vscode.Uri.file(filePath);
-          const document = await vscode.workspace.openTextDocument(uri);
-          return document.getText();
-        } catch {
-          return undefined;
+      const result = await store.checkBookmarkValidity(bookmark.id, async filePath => readWorkspaceFile(filePath));
+
+      if (result.comparison) {
+        deps.detailProvider.showBookmarkDetail(bookmark.id);
+        const message = `Bookmark "${bookmark.title}" ${result.valid ? 'code changed' : 'may be invalid'}: ${result.reason}`;
+        if (result.valid) {
+          vscode.window.showInformationMessage(message);
+        } else {
+          vscode.window.showWarningMessage(message);
         }
-      };
-
-      const result = await store.checkBookmarkValidity(bookmark.id, getFileContent);
-
-      if (result.valid) {
+      } else if (result.valid) {
         vscode.window.showInformationMessage(
           `Bookmark "${bookmark.title}" is valid. ${result.reason || ''}`
         );
       } else {
+        // 文件不存在或行号超出范围, 没有可比较的代码
         const action = await vscode.window.showWarningMessage(
           `Bookmark "${bookmark.title}" may be invalid: ${result.reason}`,
-          'Update Snapshot',
+          'Relocate',
           'Delete Bookmark'
         );
 
-        if (action === 'Update Snapshot') {
-          // Update the code snapshot
-          try {
-            const parsed = parseLocation(bookmark.location);
-            const absolutePath = toAbsolutePath(parsed.filePath, workspaceRoot);
-            const content = await getFileContent(absolutePath);
-            if (content) {
-              const lines = content.split('\n');
-              const snapshot = lines.slice(parsed.startLine - 1, parsed.endLine).join('\n');
-              store.updateBookmarkSnapshot(bookmark.id, snapshot);
-              vscode.window.showInformationMessage('Bookmark snapshot updated');
-            }
-          } catch (error) {
-            vscode.window.showErrorMessage(`Failed to update snapshot: ${error}`);
-          }
+        if (action === 'Relocate') {
+          await vscode.commands.executeCommand('mcpBookmarks.relocateBookmark', bookmarkItem);
         } else if (action === 'Delete Bookmark') {
           store.removeBookmark(bookmark.id);
           vscode.window.showInformationMessage('Bookmark deleted');
@@ -440,4 +455,156 @@ export function registerBookmarkCommands(
       }
     })
   );
-}
+
+  // Accept the code currently at the bookmark as its snapshot
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpBookmarks.acceptSnapshot', async (item: unknown) => {
+      const selectedBookmark = extractBookmark(item);
+      const bookmark = selectedBookmark && store.getBookmark(selectedBookmark.id)?.bookmark;
+      if (!bookmark) {
+        vscode.window.showErrorMessage('Please select a bookmark to update its snapshot');
+        return;
+      }
+
+      const snapshot = store.captureCodeSnapshot(bookmark.location);
+      if (!snapshot) {
+        vscode.window.showErrorMessage(`Cannot read the code at ${bookmark.location}`);
+        return;
+      }
+      store.updateBookmarkSnapshot(bookmark.id, snapshot);
+      vscode.window.showInformationMessage('Bookmark snapshot updated');
+    })
+  );
+
+  // Relocate one bookmark from its code snapshot (候选位置不确定时由用户选择)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpBookmarks.relocateBookmark', async (item: unknown) => {
+      const selectedBookmark = extractBookmark(item);
+      const bookmark = selectedBookmark && store.getBookmark(selectedBookmark.id)?.bookmark;
+      if (!bookmark) {
+        vscode.window.showErrorMessage('Please select a bookmark to relocate');
+        return;
+      }
+      if (!bookmark.codeSnapshot) {
+        vscode.window.showWarningMessage(`Bookmark "${bookmark.title}" has no code snapshot to relocate from`);
+        return;
+      }
+
+      try {
+        const parsed = parseLocation(bookmark.location);
+        const content = readWorkspaceFile(toAbsolutePath(parsed.filePath, workspaceRoot));
+        if (content === undefined) {
+          vscode.window.showErrorMessage(`File not found: ${parsed.filePath}`);
+          return;
+        }
+
+        const result = store.relocateBookmark(bookmark.id, content);
+        if (!result || result.kind === 'unchanged') {
+          vscode.window.showInformationMessage(`Bookmark "${bookmark.title}" is already at its snapshot`);
+        } else if (result.kind === 'moved') {
+          vscode.window.showInformationMessage(
+            `Moved "${bookmark.title}" to line ${result.startLine} (${Math.round(result.similarity * 100)}% similar)`
+          );
+        } else if (result.kind === 'not-found') {
+          vscode.window.showWarningMessage(`Could not find the snapshot of "${bookmark.title}" in ${parsed.filePath}`);
+        } else {
+          const lines = content.split(/\r?\n/);
+          const picked = await vscode.window.showQuickPick(
+            result.candidates.map(candidate => ({
+              label: `$(location) Line ${candidate.startLine}`,
+              description: `${Math.round(candidate.similarity * 100)}% similar`,
+              detail: lines[candidate.startLine - 1]?.trim(),
+              candidate
+            })),
+            { placeHolder: `Where is the code of "${bookmark.title}" now?` }
+          );
+          if (picked) {
+            store.moveBookmarkStart(bookmark.id, picked.candidate.startLine);
+            vscode.window.showInformationMessage(`Moved "${bookmark.title}" to line ${picked.candidate.startLine}`);
+          }
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to relocate bookmark: ${error}`);
+      }
+    })
+  );
+
+  // Reattach a bookmark whose file was deleted to another file
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpBookmarks.reattachBookmark', async (item: unknown) => {
+      const selectedBookmark = extractBookmark(item);
+      const bookmark = selectedBookmark && store.getBookmark(selectedBookmark.id)?.bookmark;
+      if (!bookmark?.orphaned) {
+        vscode.window.showErrorMessage('Please select a bookmark whose file is missing');
+        return;
+      }
+
+      // 从已删除文件所在的目录开始选择 (目录可能也已不存在)
+      const missingDir = path.dirname(toAbsolutePath(bookmark.orphaned.files[0], workspaceRoot));
+      const uris = await vscode.window.showOpenDialog({
+        defaultUri: vscode.Uri.file(fs.existsSync(missingDir) ? missingDir : workspaceRoot),
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: false,
+        openLabel: 'Reattach',
+        title: `Reattach "${bookmark.title}" (was ${bookmark.orphaned.files.join(', ')})`
+      });
+      if (!uris || uris.length === 0) {
+        return;
+      }
+
+      if (!store.reattachBookmark(bookmark.id, uris[0].fsPath)) {
+        vscode.window.showWarningMessage(`Bookmark "${bookmark.title}" is no longer missing its file`);
+        return;
+      }
+      vscode.window.showInformationMessage(`Reattached "${bookmark.title}" to ${path.relative(workspaceRoot, uris[0].fsPath)}`);
+
+      // 行号沿用原来的位置, 有代码快照时在新文件中查找
+      const reattached = store.getBookmark(bookmark.id)?.bookmark;
+      if (reattached?.codeSnapshot) {
+        await vscode.commands.executeCommand('mcpBookmarks.relocateBookmark', { type: 'bookmark', bookmark: reattached });
+      }
+    })
+  );
+
+  // Relocate all bookmarks from their code snapshots (after branch switches, pulls, ...)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpBookmarks.relocateAll', async () => {
+      const { moved, flagged } = store.relocateAll(readWorkspaceFile);
+      if (moved.length === 0 && flagged.length === 0) {
+        vscode.window.showInformationMessage('All bookmarks match their code snapshots');
+        return;
+      }
+
+      const message = `Relocated ${moved.length} bookmark(s)` +
+        (flagged.length > 0 ? `, ${flagged.length} need review` : '');
+      if (flagged.length === 0) {
+        vscode.window.showInformationMessage(message);
+        return;
+      }
+
+      const action = await vscode.window.showWarningMessage(message, 'Review');
+      if (action !== 'Review') {
+        return;
+      }
+
+      const items = flagged
+        .map(id => store.getBookmark(id)?.bookmark)
+        .filter((bookmark): bookmark is Bookmark => !!bookmark?.needsReview)
+        .map(bookmark => ({
+          label: `$(warning) ${bookmark.title}`,
+          description: bookmark.location,
+          detail: bookmark.needsReview!.message,
+          bookmark
+        }));
+      const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Bookmarks whose code could not be located with confidence',
+        matchOnDescription: true,
+        matchOnDetail: true
+      });
+      if (picked) {
+        await vscode.commands.executeCommand('mcpBookmarks.jumpTo', picked.bookmark);
+      }
+    })
+  );
+}
\ No newline at end of file
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { extractBookmark, extractGroup } from '../shared/itemHelpers';
+import { ConfigManager } from '../config/settings';
 import { CommandDependencies } from './types';
 
 export function registerCopyCommands(
@@ -97,17 +98,23 @@ export function registerCopyCommands(
       const os = await import('os');
       const launcherPath = path.join(os.homedir(), '.vscode', 'mcp-bookmarks-launcher.js');
 
+      // 自定义了 store 目录时, MCP server 需要同样的参数才能找到书签
+      const storeDir = ConfigManager.get<string>('storeDirectory', '').trim();
+      const serverArgs = storeDir ? ['--store-dir', storeDir] : [];
+      const shellArgs = serverArgs.map(arg => ` "${arg}"`).join('');
+      const jsonArgs = [launcherPath, ...serverArgs].map(arg => `"${arg}"`).join(', ');
+
       // Generate commands for different tools
       const commands = [
         {
           label: 'Claude Code',
           description: 'Auto-updates with extension, no npm required',
-          command: `claude mcp add -s user mcp-bookmarks -- node "${launcherPath}"`
+          command: `claude mcp add -s user mcp-bookmarks -- node "${launcherPath}"${shellArgs}`
         },
         {
           label: 'Gemini',
           description: 'Auto-updates with extension, no npm required',
-          command: `gemini mcp add -s user mcp-bookmarks node "${launcherPath}"`
+          command: `gemini mcp add -s user mcp-bookmarks node "${launcherPath}"${shellArgs}`
         },
         {
           label: 'Codex (config.toml)',
@@ -115,7 +122,7 @@ export function registerCopyCommands(
           command:
             `[mcp_servers."mcp-bookmarks"]\n` +
             `command = "node"\n` +
-            `args = ["${launcherPath}"]`
+            `args = [${jsonArgs}]`
         },
         {
           label: 'VSCode (Manual Configuration)',
@@ -146,7 +153,7 @@ export function registerCopyCommands(
           `    "mcp-bookmarks": {\n` +
           `      "type": "stdio",\n` +
           `      "command": "node",\n` +
-          `      "args": ["${launcherPath}"]\n` +
+          `      "args": [${jsonArgs}]\n` +
           `    }\n` +
           `  }\n` +
           `}`,
@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { MERGE_DRIVER_NAME } from '../merge-driver';
+import { STORE_FILE_NAME, SPLIT_DIR_NAME } from '../store/storeLayout';
+import { HISTORY_FILE_NAME } from '../store/operationJournal';
+import { CommandDependencies } from './types';
+
+const execFileAsync = promisify(execFile);
+
+export function registerGitCommands(
+  context: vscode.ExtensionContext,
+  deps: CommandDependencies
+): void {
+  const { store, workspaceRoot } = deps;
+
+  // Register the bookmark merge driver in .gitattributes and the local git config
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpBookmarks.installMergeDriver', async () => {
+      try {
+        const repoRoot = await git(workspaceRoot, 'rev-parse', '--show-toplevel');
+
+        // 优先使用固定位置的 launcher, 扩展更新后 git config 仍然有效
+        const launcherPath = path.join(os.homedir(), '.vscode', 'mcp-bookmarks-launcher.js');
+        const serverPath = fs.existsSync(launcherPath)
+          ? launcherPath
+          : path.join(context.extensionPath, 'dist', 'mcp-server.js');
+
+        await git(repoRoot, 'config', `merge.${MERGE_DRIVER_NAME}.name`, 'MCP Bookmarks JSON merge');
+        await git(repoRoot, 'config', `merge.${MERGE_DRIVER_NAME}.driver`, `node "${serverPath}" merge %O %A %B`);
+
+        const attributesPath = path.join(repoRoot, '.gitattributes');
+        const added = addGitAttributes(attributesPath, repoRoot, store.getStoreDir());
+
+        const action = await vscode.window.showInformationMessage(
+          added > 0
+            ? 'Bookmark merge driver installed. Commit .gitattributes so teammates use it too (each clone still needs this command).'
+            : 'Bookmark merge driver installed in the local git config.',
+          'Open .gitattributes'
+        );
+        if (action) {
+          const document = await vscode.workspace.openTextDocument(vscode.Uri.file(attributesPath));
+          await vscode.window.showTextDocument(document, { preview: false });
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to install merge driver: ${error}`);
+      }
+    })
+  );
+}
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd });
+  return stdout.trim();
+}
+
+/**
+ * 为单文件和 split 布局的书签文件以及操作历史添加 merge 属性, 已存在的行不重复添加.
+ *
+ * @returns 新增的行数
+ */
+function addGitAttributes(attributesPath: string, repoRoot: string, storeDirPath: string): number {
+  // store 目录可能位于仓库的子目录, .gitattributes 中的路径相对于仓库根目录
+  const storeDir = path.relative(repoRoot, storeDirPath).split(path.sep).join('/');
+  const lines = [
+    `${storeDir}/${STORE_FILE_NAME} merge=${MERGE_DRIVER_NAME}`,
+    `${storeDir}/${SPLIT_DIR_NAME}/*.json merge=${MERGE_DRIVER_NAME}`,
+    `${storeDir}/${HISTORY_FILE_NAME} merge=${MERGE_DRIVER_NAME}`
+  ];
+
+  const content = fs.existsSync(attributesPath) ? fs.readFileSync(attributesPath, 'utf-8') : '';
+  const existing = new Set(content.split(/\r?\n/).map(line => line.trim()));
+  const missing = lines.filter(line => !existing.has(line));
+  if (missing.length === 0) {
+    return 0;
+  }
+
+  const separator = content === '' || content.endsWith('\n') ? '' : '\n';
+  fs.writeFileSync(attributesPath, content + separator + missing.join('\n') + '\n', 'utf-8');
+  return missing.length;
+}
@@ -135,4 +135,38 @@ export function registerGroupCommands(
       }
     })
   );
+
+  // Move group between the shared store and the private per-user store
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpBookmarks.toggleGroupPrivate', async (item: unknown) => {
+      const groupItem = item as { type: string; group?: { id: string } } | undefined;
+      let groupId = groupItem?.type === 'group' ? groupItem.group?.id : undefined;
+
+      // 从命令面板调用时选择分组
+      if (!groupId) {
+        const picked = await vscode.window.showQuickPick(
+          store.listGroups().map(g => ({
+            label: g.title,
+            description: g.private ? 'Private' : 'Shared',
+            groupId: g.id
+          })),
+          { placeHolder: 'Select a group to move between shared and private bookmarks' }
+        );
+        groupId = picked?.groupId;
+      }
+
+      const group = groupId ? store.getGroup(groupId) : undefined;
+      if (!group) {
+        return;
+      }
+
+      const toPrivate = !group.private;
+      store.setGroupPrivate(group.id, toPrivate);
+      vscode.window.showInformationMessage(
+        toPrivate
+          ? `Group "${group.title}" moved to your private bookmarks (${store.getPrivateStoreDir()})`
+          : `Group "${group.title}" moved to the shared bookmarks`
+      );
+    })
+  );
 }
@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { HistoryReplayResult } from '../store/bookmarkStoreBase';
+import { BackupInfo } from '../store/storeBackups';
+import { stringifyWithUnicode } from '../utils';
+import { writeFileAtomic } from '../store/storeIO';
+import { CommandDependencies } from './types';
+
+export function registerHistoryCommands(
+  context: vscode.ExtensionContext,
+  deps: CommandDependencies
+): void {
+  const { store } = deps;
+
+  // Undo last bookmark operation (including operations made by AI via MCP)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpBookmarks.undo', () => {
+      try {
+        showReplayResult('Undid', store.undo(), 'Nothing to undo');
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to undo: ${error}`);
+      }
+    })
+  );
+
+  // Redo last undone bookmark operation
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpBookmarks.redo', () => {
+      try {
+        showReplayResult('Redid', store.redo(), 'Nothing to redo');
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to redo: ${error}`);
+      }
+    })
+  );
+
+  // Restore bookmarks from an automatic backup, with a diff preview against the current store
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpBookmarks.restoreBackup', async () => {
+      try {
+        const backups = store.listBackups();
+        if (backups.length === 0) {
+          vscode.window.showInformationMessage('No bookmark backups yet');
+          return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+          backups.map(backup => ({
+            label: new Date(backup.createdAt).toLocaleString(),
+            description: backup.reason,
+            detail: `${backup.groupCount} group(s), ${backup.bookmarkCount} bookmark(s)`,
+            backup
+          })),
+          { placeHolder: 'Select a backup to preview and restore' }
+        );
+        if (!picked) {
+          return;
+        }
+
+        await previewBackup(picked.backup, stringifyWithUnicode(store.getSnapshot(), 2));
+
+        const confirm = await vscode.window.showWarningMessage(
+          `Replace all bookmarks with the backup from ${picked.label}? The current bookmarks are backed up first and the restore can be undone.`,
+          'Restore'
+        );
+        if (confirm !== 'Restore') {
+          return;
+        }
+
+        const result = store.restoreBackup(picked.backup.id);
+        if (!result) {
+          vscode.window.showErrorMessage('Backup not found or unreadable');
+          return;
+        }
+        vscode.window.showInformationMessage(
+          `Restored ${result.groupCount} group(s) with ${result.bookmarkCount} bookmark(s)`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to restore backup: ${error}`);
+      }
+    })
+  );
+}
+
+/** 以 "当前 ↔ 备份" 的方向打开 diff, 当前内容写入临时文件 */
+async function previewBackup(backup: BackupInfo, currentContent: string): Promise<void> {
+  const currentPath = path.join(os.tmpdir(), 'mcp-bookmarks.current.json');
+  writeFileAtomic(currentPath, currentContent);
+
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    vscode.Uri.file(currentPath),
+    vscode.Uri.file(backup.path),
+    `Current bookmarks ↔ backup (${new Date(backup.createdAt).toLocaleString()})`,
+    { preview: true }
+  );
+}
+
+function showReplayResult(verb: string, result: HistoryReplayResult | undefined, emptyMessage: string): void {
+  if (!result) {
+    vscode.window.showInformationMessage(emptyMessage);
+    return;
+  }
+
+  const { entry, applied, skipped } = result;
+  const source = entry.source === 'ai' ? ' (AI)' : '';
+
+  if (applied === 0) {
+    vscode.window.showWarningMessage(
+      `${verb} nothing, everything touched was modified afterwards: ${entry.label}${source}`
+    );
+  } else if (skipped > 0) {
+    vscode.window.showWarningMessage(
+      `${verb}: ${entry.label}${source} (${skipped} change(s) skipped because they were modified afterwards)`
+    );
+  } else {
+    vscode.window.showInformationMessage(`${verb}: ${entry.label}${source}`);
+  }
+}
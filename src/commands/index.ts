@@ -6,6 +6,8 @@ import { registerNavigationCommands } from './navigationCommands';
 import { registerCopyCommands } from './copyCommands';
 import { registerViewCommands } from './viewCommands';
 import { registerUtilityCommands } from './utilityCommands';
+import { registerHistoryCommands } from './historyCommands';
+import { registerGitCommands } from './gitCommands';
 
 export { CommandDependencies } from './types';
 
@@ -19,4 +21,6 @@ export function registerAllCommands(
   registerCopyCommands(context, deps);
   registerViewCommands(context, deps);
   registerUtilityCommands(context, deps);
+  registerHistoryCommands(context, deps);
+  registerGitCommands(context, deps);
 }
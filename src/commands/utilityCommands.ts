@@ -3,6 +3,8 @@ import * as path from 'path';
 import { Bookmark, BookmarkGroup, createDefaultStore } from '../store/types';
 import { extractBookmark } from '../shared/itemHelpers';
 import { toAbsolutePath } from '../utils';
+import { SQLITE_FILE_NAME } from '../store/sqliteBackend';
+import { CATEGORIES_FILE_NAME, DEFAULT_CATEGORIES, writeCategories } from '../store/categoryConfig';
 import { CommandDependencies } from './types';
 
 export function registerUtilityCommands(
@@ -103,7 +105,14 @@ export function registerUtilityCommands(
     vscode.commands.registerCommand('mcpBookmarks.openStoreFile', async () => {
       try {
         const fs = await import('fs');
-        const storePath = path.join(workspaceRoot, '.vscode', 'mcp-bookmarks.json');
+        // split 布局下打开 index.json
+        const storePath = store.getStoreLocation();
+
+        // SQLite 数据库无法作为文本打开, 在系统文件管理器中显示
+        if (path.basename(storePath) === SQLITE_FILE_NAME) {
+          await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(storePath));
+          return;
+        }
 
         if (!fs.existsSync(storePath)) {
           const defaultStore = createDefaultStore(path.basename(workspaceRoot));
@@ -119,6 +128,26 @@ export function registerUtilityCommands(
     })
   );
 
+  // Open (or create) the workspace category config
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpBookmarks.configureCategories', async () => {
+      try {
+        const fs = await import('fs');
+        const categoriesPath = store.getCategoriesLocation();
+
+        // 首次配置时写入内置分类作为模板
+        if (!fs.existsSync(categoriesPath)) {
+          writeCategories(path.dirname(categoriesPath), DEFAULT_CATEGORIES);
+        }
+
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(categoriesPath));
+        await vscode.window.showTextDocument(document, { preview: false });
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to open ${CATEGORIES_FILE_NAME}: ${error}`);
+      }
+    })
+  );
+
   // Move bookmark up command
   context.subscriptions.push(
     vscode.commands.registerCommand('mcpBookmarks.moveBookmarkUp', (item: unknown) => {
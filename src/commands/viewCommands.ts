@@ -1,11 +1,12 @@
 import * as vscode from 'vscode';
 import { CommandDependencies } from './types';
+import { BookmarkSortBy } from '../store/types';
 
 export function registerViewCommands(
   context: vscode.ExtensionContext,
   deps: CommandDependencies
 ): void {
-  const { sidebarProvider } = deps;
+  const { store, sidebarProvider } = deps;
 
   // Expand all command
   context.subscriptions.push(
@@ -54,4 +55,86 @@ export function registerViewCommands(
       sidebarProvider.switchViewStyle();
     })
   );
+
+  // Filter by tag command (详情面板的标签 chip 会传入 tag)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpBookmarks.filterByTag', async (tag?: string) => {
+      if (typeof tag !== 'string') {
+        const tags = store.listTags();
+        if (tags.length === 0) {
+          vscode.window.showInformationMessage('No bookmarks have tags yet');
+          return;
+        }
+
+        const items = [
+          { label: '$(close) Clear Tag Filter', tag: undefined as string | undefined },
+          ...tags.map(t => ({ label: `#${t.tag}`, description: `${t.count} bookmark(s)`, tag: t.tag as string | undefined }))
+        ];
+        const selected = await vscode.window.showQuickPick(items, {
+          placeHolder: 'Select a tag to filter bookmarks'
+        });
+        if (!selected) {
+          return;
+        }
+        tag = selected.tag;
+      }
+
+      sidebarProvider.filterByTag(tag);
+      await vscode.commands.executeCommand('mcpBookmarks.focus');
+    })
+  );
+
+  // Sort bookmarks by manual order or by recency
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpBookmarks.sortBookmarks', async () => {
+      const items: Array<vscode.QuickPickItem & { sortBy: BookmarkSortBy }> = [
+        { label: '$(list-ordered) Manual Order', sortBy: 'order' },
+        { label: '$(add) Recently Created', description: 'Newest first', sortBy: 'created' },
+        { label: '$(edit) Recently Updated', description: 'Most recently changed first', sortBy: 'updated' }
+      ];
+      for (const item of items) {
+        if (item.sortBy === sidebarProvider.sortBy) {
+          item.detail = 'Current';
+        }
+      }
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Sort bookmarks within each group'
+      });
+      if (selected) {
+        sidebarProvider.setSortBy(selected.sortBy);
+      }
+    })
+  );
+
+  // Only show bookmarks created or changed recently
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpBookmarks.filterByRecency', async () => {
+      const items = [
+        { label: '$(close) Clear Recency Filter', duration: undefined as string | undefined },
+        { label: 'Last 24 hours', duration: '24h' as string | undefined },
+        { label: 'Last 7 days', duration: '7d' as string | undefined },
+        { label: 'Last 30 days', duration: '30d' as string | undefined }
+      ];
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Show bookmarks created or changed within...'
+      });
+      if (!selected) {
+        return;
+      }
+
+      sidebarProvider.filterByRecency(selected.duration, selected.label);
+      await vscode.commands.executeCommand('mcpBookmarks.focus');
+    })
+  );
+
+  // Show/hide resolved issues (resolved / wontfix) in the sidebar
+  context.subscriptions.push(
+    vscode.commands.registerCommand('mcpBookmarks.toggleResolvedIssues', async () => {
+      const config = vscode.workspace.getConfiguration('mcpBookmarks');
+      const hide = !config.get<boolean>('hideResolvedIssues', false);
+      await config.update('hideResolvedIssues', hide, vscode.ConfigurationTarget.Workspace);
+      vscode.window.showInformationMessage(hide ? 'Resolved issues hidden' : 'Resolved issues shown');
+    })
+  );
 }
@@ -1,12 +1,16 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { BookmarkStoreManager } from './store/bookmarkStore';
+import { initSqlite } from './store/sqliteBackend';
 import { BookmarkSidebarProvider } from './providers/sidebarProvider';
 import { DecorationProvider } from './providers/decorationProvider';
 import { BookmarkHoverProvider } from './providers/hoverProvider';
 import { BookmarkCodeLensProvider } from './providers/codeLensProvider';
 import { BookmarkDetailProvider } from './providers/webviewProvider';
-import { parseLocation } from './utils';
+import { SymbolAnchorProvider } from './providers/symbolAnchorProvider';
+import { RelocationProvider } from './providers/relocationProvider';
+import { FileTrackingProvider } from './providers/fileTrackingProvider';
+import { parseBookmarkLocations } from './utils';
 import { registerAllCommands } from './commands';
 
 let bookmarkStore: BookmarkStoreManager | undefined;
@@ -14,9 +18,12 @@ let sidebarProvider: BookmarkSidebarProvider | undefined;
 let decorationProvider: DecorationProvider | undefined;
 let codeLensProvider: BookmarkCodeLensProvider | undefined;
 let detailProvider: BookmarkDetailProvider | undefined;
+let symbolAnchorProvider: SymbolAnchorProvider | undefined;
+let relocationProvider: RelocationProvider | undefined;
+let fileTrackingProvider: FileTrackingProvider | undefined;
 let statusBarItem: vscode.StatusBarItem | undefined;
 
-export function activate(context: vscode.ExtensionContext): void {
+export async function activate(context: vscode.ExtensionContext): Promise<void> {
 
   // Install/update launcher script to fixed location
   installLauncher(context).catch((err: any) => {
@@ -31,6 +38,15 @@ export function activate(context: vscode.ExtensionContext): void {
 
   const workspaceRoot = workspaceFolders[0].uri.fsPath;
 
+  // SQLite 后端的读写是同步的, 创建 store 之前先加载 sql.js
+  if (BookmarkStoreManager.usesSqlite(workspaceRoot)) {
+    try {
+      await initSqlite();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to load SQLite support for bookmarks: ${error}`);
+    }
+  }
+
   // Initialize bookmark store
   bookmarkStore = new BookmarkStoreManager(workspaceRoot);
 
@@ -43,6 +59,15 @@ export function activate(context: vscode.ExtensionContext): void {
   // Initialize decoration provider
   decorationProvider = new DecorationProvider(bookmarkStore, workspaceRoot);
 
+  // Re-resolve symbol-anchored bookmarks through the document symbol provider
+  symbolAnchorProvider = new SymbolAnchorProvider(bookmarkStore, workspaceRoot);
+
+  // Relocate bookmarks from their code snapshots when files are opened
+  relocationProvider = new RelocationProvider(bookmarkStore, workspaceRoot);
+
+  // Follow renamed, moved and deleted files
+  fileTrackingProvider = new FileTrackingProvider(bookmarkStore, workspaceRoot);
+
   // Initialize hover provider
   const hoverProvider = new BookmarkHoverProvider(bookmarkStore, workspaceRoot);
   context.subscriptions.push(
@@ -88,20 +113,26 @@ export function activate(context: vscode.ExtensionContext): void {
         return;
       }
 
-      // 计算行号变化
+      // 按编辑调整书签位置 (行号漂移和同一行内的列平移), 转为 1-indexed
       for (const change of event.contentChanges) {
-        const startLine = change.range.start.line + 1; // 转为 1-indexed
-        const oldLineCount = change.range.end.line - change.range.start.line + 1;
-        const newLineCount = change.text.split('\n').length;
-        const lineDelta = newLineCount - oldLineCount;
-
-        if (lineDelta !== 0) {
-          bookmarkStore.adjustBookmarksForFileChange(
-            document.uri.fsPath,
-            startLine,
-            lineDelta
-          );
-        }
+        bookmarkStore.adjustBookmarksForFileChange(document.uri.fsPath, {
+          startLine: change.range.start.line + 1,
+          startColumn: change.range.start.character + 1,
+          endLine: change.range.end.line + 1,
+          endColumn: change.range.end.character + 1,
+          text: change.text
+        });
+      }
+    })
+  );
+
+  // Save line drift kept in memory while editing
+  context.subscriptions.push(
+    vscode.workspace.onDidSaveTextDocument(() => {
+      try {
+        bookmarkStore?.flushPendingChanges();
+      } catch (error) {
+        console.error('Failed to save bookmark locations:', error);
       }
     })
   );
@@ -122,6 +153,9 @@ export function activate(context: vscode.ExtensionContext): void {
       bookmarkStore?.dispose();
       sidebarProvider?.dispose();
       decorationProvider?.dispose();
+      symbolAnchorProvider?.dispose();
+      relocationProvider?.dispose();
+      fileTrackingProvider?.dispose();
     }
   });
 }
@@ -145,14 +179,9 @@ function updateStatusBar(): void {
       const workspaceRoot = workspaceFolders[0].uri.fsPath;
       const relativePath = path.relative(workspaceRoot, editor.document.uri.fsPath);
 
-      currentFileCount = allBookmarks.filter(({ bookmark }) => {
-        try {
-          const parsed = parseLocation(bookmark.location);
-          return parsed.filePath === relativePath;
-        } catch {
-          return false;
-        }
-      }).length;
+      currentFileCount = allBookmarks.filter(({ bookmark }) =>
+        parseBookmarkLocations(bookmark).some(parsed => parsed.filePath === relativePath)
+      ).length;
 
       if (currentFileCount > 0) {
         currentFileInfo = ` (${currentFileCount} in file)`;
@@ -231,6 +260,9 @@ async function installLauncher(context: vscode.ExtensionContext): Promise<void>
 export function deactivate(): void {
   bookmarkStore?.dispose();
   decorationProvider?.dispose();
+  symbolAnchorProvider?.dispose();
+  relocationProvider?.dispose();
+  fileTrackingProvider?.dispose();
   codeLensProvider?.dispose();
   detailProvider?.dispose();
 }
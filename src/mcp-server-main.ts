@@ -7,6 +7,7 @@
  * Usage:
  *   node mcp-server.js /path/to/workspace
  *   node mcp-server.js  # uses cwd or WORKSPACE_ROOT env
+ *   node mcp-server.js --store-dir .bookmarks  # store directory (default .vscode, or MCP_BOOKMARKS_STORE_DIR env)
  *
  * In mcp.json:
  *   {
@@ -15,32 +16,72 @@
  *       "args": ["/path/to/mcp-server.js", "/path/to/project"]
  *     }
  *   }
+ *
+ * Git merge driver mode (see merge-driver.ts):
+ *   node mcp-server.js merge %O %A %B
  */
 
 import * as fs from 'fs';
 import { WorkspaceManager } from './store/workspaceManager';
 import { MCPServerStandalone } from './mcp/serverStandalone';
+import { runMergeDriver } from './merge-driver';
+import { initSqlite } from './store/sqliteBackend';
+
+if (process.argv[2] === 'merge') {
+  process.exit(runMergeDriver(process.argv.slice(3)));
+}
+
+const USAGE = 'Usage: node mcp-server.js [workspace-path] [--store-dir <dir>]';
+
+/**
+ * 解析命令行: 第一个位置参数为工作区, --store-dir <dir> 或 --store-dir=<dir> 指定 store 目录
+ */
+function parseArgs(argv: string[]): { workspace?: string; storeDir?: string } {
+  const result: { workspace?: string; storeDir?: string } = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--store-dir') {
+      result.storeDir = argv[++i];
+      if (!result.storeDir) {
+        console.error('--store-dir requires a directory');
+        console.error(USAGE);
+        process.exit(1);
+      }
+    } else if (arg.startsWith('--store-dir=')) {
+      result.storeDir = arg.slice('--store-dir='.length);
+    } else if (!result.workspace) {
+      result.workspace = arg;
+    }
+  }
+  return result;
+}
+
+const args = parseArgs(process.argv.slice(2));
 
 // Get workspace from: 1) command line arg, 2) env var, 3) cwd
-const defaultWorkspace = process.argv[2] || process.env.WORKSPACE_ROOT || process.cwd();
+const defaultWorkspace = args.workspace || process.env.WORKSPACE_ROOT || process.cwd();
 
 // Verify default workspace exists
 if (!fs.existsSync(defaultWorkspace)) {
   console.error(`Workspace does not exist: ${defaultWorkspace}`);
-  console.error('Usage: node mcp-server.js [workspace-path]');
+  console.error(USAGE);
   process.exit(1);
 }
 
 // Initialize workspace manager and server
 // WorkspaceManager supports dynamic workspace switching via projectRoot parameter
-const workspaceManager = new WorkspaceManager(defaultWorkspace);
+const workspaceManager = new WorkspaceManager(defaultWorkspace, args.storeDir);
 const server = new MCPServerStandalone(workspaceManager);
 
 // Start server
-server.start().catch((error) => {
-  console.error('Failed to start MCP server:', error);
-  process.exit(1);
-});
+// SQLite 后端的读写是同步的, 先加载 sql.js 再处理请求. 加载失败只影响使用 SQLite 的工作区
+initSqlite()
+  .catch((error) => console.error('Failed to load SQLite support:', error))
+  .then(() => server.start())
+  .catch((error) => {
+    console.error('Failed to start MCP server:', error);
+    process.exit(1);
+  });
 
 // Handle graceful shutdown
 process.on('SIGINT', async () => {
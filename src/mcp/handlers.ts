@@ -1,5 +1,5 @@
 import { BookmarkStoreManager } from '../store/bookmarkStore';
-import { HANDLER_MAP, ToolResult } from './handlersCore';
+import { dispatchTool, ToolResult } from './handlersCore';
 
 export { ToolResult };
 
@@ -7,11 +7,7 @@ export class MCPHandlers {
   constructor(private store: BookmarkStoreManager) {}
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  handle(toolName: string, args: any): ToolResult {
-    const handler = HANDLER_MAP[toolName];
-    if (!handler) {
-      return { success: false, error: `Unknown tool: ${toolName}` };
-    }
-    return handler(this.store, args);
+  handle(toolName: string, args: any, client?: string): ToolResult {
+    return dispatchTool(this.store, toolName, args, client);
   }
 }
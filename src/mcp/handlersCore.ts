@@ -1,8 +1,15 @@
-import { BookmarkStoreBase } from '../store/bookmarkStoreBase';
+import { BookmarkStoreBase, getTrashItemTitle } from '../store/bookmarkStoreBase';
 import {
+  Bookmark,
   BookmarkCategory,
-  BookmarkWithChildren
+  BookmarkLocation,
+  BookmarkWithChildren,
+  BOOKMARK_STATUSES,
+  BOOKMARK_LINK_TYPES
 } from '../store/types';
+import { formatConflict } from '../store/storeMerge';
+import { formatRepairReport } from '../store/storeRepair';
+import { parseSince } from '../utils';
 
 // --- 公共类型 ---
 
@@ -12,10 +19,6 @@ export interface ToolResult {
   error?: string;
 }
 
-export const VALID_CATEGORIES: BookmarkCategory[] = [
-  'entry-point', 'core-logic', 'issue', 'note'
-];
-
 // --- 辅助函数 ---
 
 function validateRequired(value: unknown, name: string): string | null {
@@ -25,13 +28,132 @@ function validateRequired(value: unknown, name: string): string | null {
   return null;
 }
 
-function validateCategory(category: BookmarkCategory | undefined): string | null {
-  if (category && !VALID_CATEGORIES.includes(category)) {
-    return `Invalid category. Must be one of: ${VALID_CATEGORIES.join(', ')}`;
+/**
+ * 位置参数: location (单个位置) 或 locations (有序列表, 每项 { location, label? }), 二选一.
+ * @param required 新建书签时必须提供其中之一
+ */
+function validateLocationArgs(location: unknown, locations: unknown, required: boolean): string | null {
+  if (locations === undefined) {
+    if (location === undefined) {
+      return required ? 'location or locations is required' : null;
+    }
+    return validateRequired(location, 'location');
+  }
+  if (location !== undefined) {
+    return 'Pass either location or locations, not both';
+  }
+  if (!Array.isArray(locations) || locations.length === 0) {
+    return 'locations must be a non-empty array of { location, label? }';
+  }
+  for (let i = 0; i < locations.length; i++) {
+    const entry = locations[i];
+    if (!entry || typeof entry.location !== 'string' || !entry.location) {
+      return `locations[${i}].location is required and must be a string`;
+    }
+    if (entry.label !== undefined && typeof entry.label !== 'string') {
+      return `locations[${i}].label must be a string`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 符号锚点参数: symbol (如 "BetService.placeBet") 和可选的 symbolOffset.
+ * 主位置只有文件路径时按符号确定行号 (见 resolveSymbolLocation). 返回要保存的位置和锚点
+ */
+function resolveSymbolArgs(
+  store: BookmarkStoreBase,
+  location: string | undefined,
+  locations: BookmarkLocation[] | undefined,
+  symbol: unknown,
+  symbolOffset: unknown
+): { error: string } | { location?: string; locations?: BookmarkLocation[]; symbol?: string; symbolOffset?: number } {
+  if (symbol === undefined) {
+    return symbolOffset === undefined ? { location, locations } : { error: 'symbolOffset requires symbol' };
+  }
+  if (typeof symbol !== 'string' || !symbol.trim()) {
+    return { error: 'symbol must be a non-empty string such as "BetService.placeBet"' };
+  }
+  if (symbolOffset !== undefined && !Number.isInteger(symbolOffset)) {
+    return { error: 'symbolOffset must be an integer' };
+  }
+
+  const primary = locations ? locations[0].location : location;
+  if (primary === undefined) {
+    return { symbol: symbol.trim(), symbolOffset: symbolOffset as number | undefined };
+  }
+
+  const resolved = store.resolveSymbolLocation(primary, symbol.trim(), symbolOffset as number | undefined);
+  if (!resolved) {
+    return { error: `Symbol "${symbol}" not found in "${primary}"; pass a line number in the location` };
+  }
+
+  return {
+    ...(locations
+      ? { locations: [{ ...locations[0], location: resolved.location }, ...locations.slice(1)] }
+      : { location: resolved.location }),
+    symbol: symbol.trim(),
+    symbolOffset: resolved.symbolOffset
+  };
+}
+
+/** 分类必须是工作区配置中的 id (见 categoryConfig) */
+function validateCategory(store: BookmarkStoreBase, category: BookmarkCategory | undefined): string | null {
+  if (!category) {
+    return null;
+  }
+  const ids = store.getCategories().map(c => c.id);
+  if (typeof category !== 'string' || !ids.includes(category)) {
+    return `Invalid category "${category}". Must be one of: ${ids.join(', ')}`;
+  }
+  return null;
+}
+
+/** 标签参数必须是字符串数组 */
+function validateTags(tags: unknown, name: string = 'tags'): string | null {
+  if (tags !== undefined && (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string'))) {
+    return `${name} must be an array of strings`;
+  }
+  return null;
+}
+
+/** 状态必须是 BOOKMARK_STATUSES 之一 */
+function validateStatus(status: unknown): string | null {
+  if (typeof status !== 'string' || !(BOOKMARK_STATUSES as string[]).includes(status)) {
+    return `Invalid status "${status}". Must be one of: ${BOOKMARK_STATUSES.join(', ')}`;
+  }
+  return null;
+}
+
+/** 链接类型必须是 BOOKMARK_LINK_TYPES 之一 */
+function validateLinkType(type: unknown): string | null {
+  if (typeof type !== 'string' || !(BOOKMARK_LINK_TYPES as string[]).includes(type)) {
+    return `Invalid link type "${type}". Must be one of: ${BOOKMARK_LINK_TYPES.join(', ')}`;
   }
   return null;
 }
 
+/** 问题状态字段, 未设置状态时均为 undefined (不出现在 JSON 中) */
+function formatStatus(bookmark: Bookmark): object {
+  return {
+    status: bookmark.status,
+    resolution: bookmark.resolution,
+    statusChangedAt: bookmark.statusChangedAt,
+    resolvedAt: bookmark.resolvedAt
+  };
+}
+
+/** 创建/修改时间和来源, 旧书签没有这些字段 */
+function formatProvenance(bookmark: Bookmark): object {
+  return {
+    createdAt: bookmark.createdAt,
+    updatedAt: bookmark.updatedAt,
+    createdBy: bookmark.createdBy,
+    author: bookmark.author,
+    client: bookmark.client
+  };
+}
+
 /** 将 BookmarkWithChildren 转换为响应格式 (包含 collapsed 字段) */
 function formatTree(node: BookmarkWithChildren): object {
   return {
@@ -39,9 +161,16 @@ function formatTree(node: BookmarkWithChildren): object {
     parentId: node.parentId || null,
     order: node.order,
     location: node.location,
+    locations: node.locations,
+    symbol: node.symbol,
+    symbolOffset: node.symbolOffset,
+    needsReview: node.needsReview,
+    orphaned: node.orphaned,
     title: node.title,
     description: node.description,
     category: node.category,
+    tags: node.tags ?? [],
+    ...formatStatus(node),
     collapsed: node.collapsed,
     children: node.children.map(formatTree)
   };
@@ -54,9 +183,16 @@ function formatTreeWithDepth(node: BookmarkWithChildren, depth: number = 0): obj
     parentId: node.parentId || null,
     order: node.order,
     location: node.location,
+    locations: node.locations,
+    symbol: node.symbol,
+    symbolOffset: node.symbolOffset,
+    needsReview: node.needsReview,
+    orphaned: node.orphaned,
     title: node.title,
     description: node.description,
     category: node.category,
+    tags: node.tags ?? [],
+    ...formatStatus(node),
     collapsed: node.collapsed,
     depth,
     children: node.children.map(child => formatTreeWithDepth(child, depth + 1))
@@ -80,8 +216,11 @@ export function handleCreateGroup(store: BookmarkStoreBase, args: any): ToolResu
     if (err) {
       return { success: false, error: err };
     }
+    if (args.private !== undefined && typeof args.private !== 'boolean') {
+      return { success: false, error: 'private must be a boolean' };
+    }
 
-    const groupId = store.createGroup(groupTitle, description, 'ai');
+    const groupId = store.createGroup(groupTitle, description, 'ai', args.private === true);
 
     return {
       success: true,
@@ -98,24 +237,42 @@ export function handleCreateGroup(store: BookmarkStoreBase, args: any): ToolResu
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function handleAddBookmark(store: BookmarkStoreBase, args: any): ToolResult {
   try {
-    const { groupId, parentId, location, title, description, order, category } = args;
+    const { groupId, parentId, location, locations, symbol, symbolOffset, title, description, order, category, tags } = args;
 
-    for (const [val, name] of [[groupId, 'groupId'], [location, 'location'], [title, 'title'], [description, 'description']] as const) {
+    for (const [val, name] of [[groupId, 'groupId'], [title, 'title'], [description, 'description']] as const) {
       const err = validateRequired(val, name);
       if (err) {
         return { success: false, error: err };
       }
     }
 
-    const catErr = validateCategory(category);
+    const locErr = validateLocationArgs(location, locations, true);
+    if (locErr) {
+      return { success: false, error: locErr };
+    }
+
+    const catErr = validateCategory(store, category);
     if (catErr) {
       return { success: false, error: catErr };
     }
 
-    const bookmarkId = store.addBookmark(groupId, location, title, description, {
+    const tagErr = validateTags(tags);
+    if (tagErr) {
+      return { success: false, error: tagErr };
+    }
+
+    const anchor = resolveSymbolArgs(store, location, locations, symbol, symbolOffset);
+    if ('error' in anchor) {
+      return { success: false, error: anchor.error };
+    }
+
+    const bookmarkId = store.addBookmark(groupId, anchor.locations ?? anchor.location!, title, description, {
       parentId,
       order,
-      category
+      category,
+      tags,
+      symbol: anchor.symbol,
+      symbolOffset: anchor.symbolOffset
     });
 
     if (!bookmarkId) {
@@ -149,23 +306,41 @@ export function handleAddBookmark(store: BookmarkStoreBase, args: any): ToolResu
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function handleAddChildBookmark(store: BookmarkStoreBase, args: any): ToolResult {
   try {
-    const { parentBookmarkId, location, title, description, order, category } = args;
+    const { parentBookmarkId, location, locations, symbol, symbolOffset, title, description, order, category, tags } = args;
 
-    for (const [val, name] of [[parentBookmarkId, 'parentBookmarkId'], [location, 'location'], [title, 'title'], [description, 'description']] as const) {
+    for (const [val, name] of [[parentBookmarkId, 'parentBookmarkId'], [title, 'title'], [description, 'description']] as const) {
       const err = validateRequired(val, name);
       if (err) {
         return { success: false, error: err };
       }
     }
 
-    const catErr = validateCategory(category);
+    const locErr = validateLocationArgs(location, locations, true);
+    if (locErr) {
+      return { success: false, error: locErr };
+    }
+
+    const catErr = validateCategory(store, category);
     if (catErr) {
       return { success: false, error: catErr };
     }
 
-    const bookmarkId = store.addChildBookmark(parentBookmarkId, location, title, description, {
+    const tagErr = validateTags(tags);
+    if (tagErr) {
+      return { success: false, error: tagErr };
+    }
+
+    const anchor = resolveSymbolArgs(store, location, locations, symbol, symbolOffset);
+    if ('error' in anchor) {
+      return { success: false, error: anchor.error };
+    }
+
+    const bookmarkId = store.addChildBookmark(parentBookmarkId, anchor.locations ?? anchor.location!, title, description, {
       order,
-      category
+      category,
+      tags,
+      symbol: anchor.symbol,
+      symbolOffset: anchor.symbolOffset
     });
 
     if (!bookmarkId) {
@@ -207,6 +382,7 @@ export function handleListGroups(store: BookmarkStoreBase, args: any): ToolResul
           createdAt: g.createdAt,
           updatedAt: g.updatedAt,
           createdBy: g.createdBy,
+          private: g.private === true,
           bookmarkCount: g.bookmarks.length
         })),
         total: groups.length
@@ -220,32 +396,86 @@ export function handleListGroups(store: BookmarkStoreBase, args: any): ToolResul
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function handleListBookmarks(store: BookmarkStoreBase, args: any): ToolResult {
   try {
-    const { groupId, parentId, includeDescendants, filePath, category } = args;
+    const { groupId, parentId, includeDescendants, filePath, category, tags, createdBy, sortBy, limit } = args;
+    // 单个状态也可以直接传字符串
+    const status = typeof args.status === 'string' ? [args.status] : args.status;
 
-    const catErr = validateCategory(category);
+    const catErr = validateCategory(store, category);
     if (catErr) {
       return { success: false, error: catErr };
     }
 
+    const tagErr = validateTags(tags);
+    if (tagErr) {
+      return { success: false, error: tagErr };
+    }
+
+    if (status !== undefined) {
+      const statusErr = Array.isArray(status)
+        ? status.map(validateStatus).find(e => e !== null) ?? null
+        : 'status must be an array of statuses';
+      if (statusErr) {
+        return { success: false, error: statusErr };
+      }
+    }
+
+    if (createdBy !== undefined && createdBy !== 'ai' && createdBy !== 'user') {
+      return { success: false, error: 'createdBy must be "ai" or "user"' };
+    }
+    if (sortBy !== undefined && !['order', 'created', 'updated'].includes(sortBy)) {
+      return { success: false, error: 'sortBy must be one of: order, created, updated' };
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return { success: false, error: 'limit must be a positive integer' };
+    }
+
+    // 接受 ISO 时间或 "24h"、"7d" 这样的相对时间
+    const since: { createdSince?: string; updatedSince?: string } = {};
+    for (const key of ['createdSince', 'updatedSince'] as const) {
+      if (args[key] === undefined) {
+        continue;
+      }
+      const cutoff = typeof args[key] === 'string' ? parseSince(args[key]) : undefined;
+      if (!cutoff) {
+        return { success: false, error: `${key} must be an ISO timestamp or a duration such as "24h" or "7d"` };
+      }
+      since[key] = cutoff;
+    }
+
     const results = store.listBookmarks({
       groupId,
       parentId,
       includeDescendants,
       filePath,
-      category
+      category,
+      tags,
+      status,
+      createdBy,
+      ...since,
+      sortBy
     });
+    // total 为 limit 之前的匹配数量, 调用方据此判断结果是否被截断
+    const shown = limit !== undefined ? results.slice(0, limit) : results;
 
     return {
       success: true,
       data: {
-        bookmarks: results.map(r => ({
+        bookmarks: shown.map(r => ({
           id: r.bookmark.id,
           parentId: r.bookmark.parentId || null,
           order: r.bookmark.order,
           location: r.bookmark.location,
+          locations: r.bookmark.locations,
+          symbol: r.bookmark.symbol,
+          symbolOffset: r.bookmark.symbolOffset,
+          needsReview: r.bookmark.needsReview,
+          orphaned: r.bookmark.orphaned,
           title: r.bookmark.title,
           description: r.bookmark.description,
           category: r.bookmark.category,
+          tags: r.bookmark.tags ?? [],
+          ...formatStatus(r.bookmark),
+          ...formatProvenance(r.bookmark),
           collapsed: r.bookmark.collapsed,
           hasChildren: store.hasChildren(r.bookmark.id),
           groupId: r.group.id,
@@ -259,6 +489,29 @@ export function handleListBookmarks(store: BookmarkStoreBase, args: any): ToolRe
   }
 }
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function handleListTags(store: BookmarkStoreBase, args: any): ToolResult {
+  try {
+    const { groupId } = args;
+
+    if (groupId !== undefined && !store.getGroup(groupId)) {
+      return { success: false, error: `Group with id "${groupId}" not found` };
+    }
+
+    const tags = store.listTags(groupId);
+
+    return {
+      success: true,
+      data: {
+        tags,
+        total: tags.length
+      }
+    };
+  } catch (error) {
+    return { success: false, error: `Failed to list tags: ${error}` };
+  }
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function handleUpdateGroup(store: BookmarkStoreBase, args: any): ToolResult {
   try {
@@ -270,8 +523,11 @@ export function handleUpdateGroup(store: BookmarkStoreBase, args: any): ToolResu
       return { success: false, error: err };
     }
 
-    if (groupTitle === undefined && description === undefined) {
-      return { success: false, error: 'At least one of title or description must be provided' };
+    if (groupTitle === undefined && description === undefined && args.private === undefined) {
+      return { success: false, error: 'At least one of title, description or private must be provided' };
+    }
+    if (args.private !== undefined && typeof args.private !== 'boolean') {
+      return { success: false, error: 'private must be a boolean' };
     }
 
     const updates: { title?: string; description?: string } = {};
@@ -282,8 +538,18 @@ export function handleUpdateGroup(store: BookmarkStoreBase, args: any): ToolResu
       updates.description = description;
     }
 
-    const success = store.updateGroup(groupId, updates);
-    if (!success) {
+    // 字段修改和共享/私有切换合并为一次变更, 历史中只占一条记录
+    const currentTitle = store.getGroup(groupId)?.title ?? groupId;
+    const found = store.transaction(`Update group "${currentTitle}"`, () => {
+      if (updates.title !== undefined || updates.description !== undefined) {
+        if (!store.updateGroup(groupId, updates)) {
+          return false;
+        }
+      }
+      // 在共享 store 和私有 store 之间移动
+      return args.private === undefined || store.setGroupPrivate(groupId, args.private);
+    });
+    if (!found) {
       return { success: false, error: `Group with id "${groupId}" not found` };
     }
 
@@ -299,30 +565,92 @@ export function handleUpdateGroup(store: BookmarkStoreBase, args: any): ToolResu
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function handleUpdateBookmark(store: BookmarkStoreBase, args: any): ToolResult {
   try {
-    const { bookmarkId, parentId, location, title, description, order, category } = args;
+    const {
+      bookmarkId, parentId, location, locations, symbol, symbolOffset, title, description, order, category, tags, addTags, removeTags,
+      status, resolution
+    } = args;
 
     const err = validateRequired(bookmarkId, 'bookmarkId');
     if (err) {
       return { success: false, error: err };
     }
 
-    if (location === undefined && title === undefined && description === undefined &&
-        order === undefined && category === undefined && parentId === undefined) {
+    if (location === undefined && locations === undefined && symbol === undefined && symbolOffset === undefined &&
+        title === undefined && description === undefined &&
+        order === undefined && category === undefined && parentId === undefined &&
+        tags === undefined && addTags === undefined && removeTags === undefined &&
+        status === undefined && resolution === undefined) {
       return { success: false, error: 'At least one update field must be provided' };
     }
 
-    const catErr = validateCategory(category);
+    const catErr = validateCategory(store, category);
     if (catErr) {
       return { success: false, error: catErr };
     }
 
+    const tagErr = validateTags(tags) ?? validateTags(addTags, 'addTags') ?? validateTags(removeTags, 'removeTags');
+    if (tagErr) {
+      return { success: false, error: tagErr };
+    }
+
+    const locErr = validateLocationArgs(location, locations, false);
+    if (locErr) {
+      return { success: false, error: locErr };
+    }
+
+    // 设置符号锚点时按当前主位置计算偏移; 已有锚点时 location 可以只写文件路径
+    const existingSymbol = store.getBookmark(bookmarkId)?.bookmark.symbol;
+    let anchor: { location?: string; locations?: BookmarkLocation[]; symbol?: string; symbolOffset?: number } =
+      { location, locations, symbolOffset };
+    if (symbol !== null && (symbol !== undefined || (existingSymbol && (location !== undefined || locations !== undefined)))) {
+      const target = location === undefined && locations === undefined
+        ? store.getBookmark(bookmarkId)?.bookmark.location
+        : location;
+      const resolved = resolveSymbolArgs(store, target, locations, symbol ?? existingSymbol, symbolOffset);
+      if ('error' in resolved) {
+        return { success: false, error: resolved.error };
+      }
+      anchor = {
+        ...resolved,
+        symbol: symbol === undefined ? undefined : resolved.symbol
+      };
+    } else if (symbolOffset !== undefined && !Number.isInteger(symbolOffset)) {
+      return { success: false, error: 'symbolOffset must be an integer' };
+    }
+
+    if (status !== undefined && status !== null) {
+      const statusErr = validateStatus(status);
+      if (statusErr) {
+        return { success: false, error: statusErr };
+      }
+    }
+    if (resolution !== undefined) {
+      if (typeof resolution !== 'string') {
+        return { success: false, error: 'resolution must be a string' };
+      }
+      // 处理说明依附于状态: 同时设置状态, 或书签已有状态
+      const existing = store.getBookmark(bookmarkId)?.bookmark;
+      const hasStatus = status !== undefined ? status !== null : !!existing?.status;
+      if (existing && !hasStatus) {
+        return { success: false, error: 'resolution requires a status; set status in the same call' };
+      }
+    }
+
     const result = store.updateBookmark(bookmarkId, {
       parentId,
-      location,
+      location: anchor.location,
+      locations: anchor.locations,
+      symbol: symbol === null ? null : anchor.symbol,
+      symbolOffset: anchor.symbolOffset,
       title,
       description,
       order,
-      category
+      category,
+      tags,
+      addTags,
+      removeTags,
+      status,
+      resolution
     });
 
     if (result === 'not_found') {
@@ -400,7 +728,7 @@ export function handleRemoveGroup(store: BookmarkStoreBase, args: any): ToolResu
     return {
       success: true,
       data: {
-        message: `Successfully removed group "${group.title}" with ${bookmarkCount} bookmark(s)`
+        message: `Successfully removed group "${group.title}" with ${bookmarkCount} bookmark(s) (moved to trash)`
       }
     };
   } catch (error) {
@@ -436,15 +764,24 @@ export function handleGetGroup(store: BookmarkStoreBase, args: any): ToolResult
           createdAt: group.createdAt,
           updatedAt: group.updatedAt,
           createdBy: group.createdBy,
+          private: group.private === true,
           // 扁平列表 (向后兼容)
           bookmarks: group.bookmarks.map(b => ({
             id: b.id,
             parentId: b.parentId || null,
             order: b.order,
             location: b.location,
+            locations: b.locations,
+            symbol: b.symbol,
+            symbolOffset: b.symbolOffset,
+            needsReview: b.needsReview,
+            orphaned: b.orphaned,
             title: b.title,
             description: b.description,
             category: b.category,
+            tags: b.tags ?? [],
+            ...formatStatus(b),
+            ...formatProvenance(b),
             collapsed: b.collapsed,
             hasChildren: store.hasChildren(b.id)
           })),
@@ -484,13 +821,40 @@ export function handleGetBookmark(store: BookmarkStoreBase, args: any): ToolResu
           parentId: bookmark.parentId || null,
           order: bookmark.order,
           location: bookmark.location,
+          locations: bookmark.locations,
+          symbol: bookmark.symbol,
+          symbolOffset: bookmark.symbolOffset,
+          needsReview: bookmark.needsReview,
+          orphaned: bookmark.orphaned,
           title: bookmark.title,
           description: bookmark.description,
           category: bookmark.category,
+          tags: bookmark.tags ?? [],
+          ...formatStatus(bookmark),
+          ...formatProvenance(bookmark),
           collapsed: bookmark.collapsed,
           codeSnapshot: bookmark.codeSnapshot,
+          codeHash: bookmark.codeHash,
           hasChildren: children.length > 0,
-          childCount: children.length
+          childCount: children.length,
+          // 出链: 目标不存在时 missing 为 true
+          links: store.getLinks(bookmarkId).map(({ link, target }) => ({
+            type: link.type,
+            targetId: link.targetId,
+            note: link.note,
+            ...(target
+              ? { title: target.bookmark.title, location: target.bookmark.location, groupId: target.group.id, groupTitle: target.group.title }
+              : { missing: true })
+          })),
+          backlinks: store.getBacklinks(bookmarkId).map(({ link, bookmark: source, group: sourceGroup }) => ({
+            type: link.type,
+            sourceId: source.id,
+            note: link.note,
+            title: source.title,
+            location: source.location,
+            groupId: sourceGroup.id,
+            groupTitle: sourceGroup.title
+          }))
         },
         group: {
           id: group.id,
@@ -503,6 +867,83 @@ export function handleGetBookmark(store: BookmarkStoreBase, args: any): ToolResu
   }
 }
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function handleLinkBookmarks(store: BookmarkStoreBase, args: any): ToolResult {
+  try {
+    const { sourceId, targetId, type, note } = args;
+
+    const err = validateRequired(sourceId, 'sourceId') ?? validateRequired(targetId, 'targetId');
+    if (err) {
+      return { success: false, error: err };
+    }
+
+    const typeErr = validateLinkType(type);
+    if (typeErr) {
+      return { success: false, error: typeErr };
+    }
+    if (note !== undefined && typeof note !== 'string') {
+      return { success: false, error: 'note must be a string' };
+    }
+
+    const result = store.linkBookmarks(sourceId, targetId, type, note);
+
+    if (result === 'source_not_found') {
+      return { success: false, error: `Bookmark with id "${sourceId}" not found` };
+    }
+    if (result === 'target_not_found') {
+      return { success: false, error: `Bookmark with id "${targetId}" not found` };
+    }
+    if (result === 'self_link') {
+      return { success: false, error: 'Cannot link a bookmark to itself' };
+    }
+
+    return {
+      success: true,
+      data: { message: `Successfully linked "${sourceId}" ${type} "${targetId}"` }
+    };
+  } catch (error) {
+    return { success: false, error: `Failed to link bookmarks: ${error}` };
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function handleUnlinkBookmarks(store: BookmarkStoreBase, args: any): ToolResult {
+  try {
+    const { sourceId, targetId, type } = args;
+
+    const err = validateRequired(sourceId, 'sourceId') ?? validateRequired(targetId, 'targetId');
+    if (err) {
+      return { success: false, error: err };
+    }
+
+    if (type !== undefined) {
+      const typeErr = validateLinkType(type);
+      if (typeErr) {
+        return { success: false, error: typeErr };
+      }
+    }
+
+    const result = store.unlinkBookmarks(sourceId, targetId, type);
+
+    if (result === 'not_found') {
+      return { success: false, error: `Bookmark with id "${sourceId}" not found` };
+    }
+    if (result === 0) {
+      return { success: false, error: `No ${type ? `"${type}" ` : ''}link from "${sourceId}" to "${targetId}"` };
+    }
+
+    return {
+      success: true,
+      data: {
+        removedCount: result,
+        message: `Successfully removed ${result} link(s)`
+      }
+    };
+  } catch (error) {
+    return { success: false, error: `Failed to unlink bookmarks: ${error}` };
+  }
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function handleGetBookmarkTree(store: BookmarkStoreBase, args: any): ToolResult {
   try {
@@ -569,39 +1010,58 @@ export function handleBatchAddBookmarks(store: BookmarkStoreBase, args: any): To
     const results: Array<{ index: number; bookmarkId?: string; error?: string }> = [];
     let successCount = 0;
 
-    for (let i = 0; i < bookmarks.length; i++) {
-      const b = bookmarks[i];
+    // 整批只写一次盘, 在操作历史中只占一条记录
+    store.transaction(`Add ${bookmarks.length} bookmarks to group "${group.title}"`, () => {
+      for (let i = 0; i < bookmarks.length; i++) {
+        const b = bookmarks[i];
 
-      if (!b.location || typeof b.location !== 'string') {
-        results.push({ index: i, error: 'location is required' });
-        continue;
-      }
-      if (!b.title || typeof b.title !== 'string') {
-        results.push({ index: i, error: 'title is required' });
-        continue;
-      }
-      if (!b.description || typeof b.description !== 'string') {
-        results.push({ index: i, error: 'description is required' });
-        continue;
-      }
-      if (b.category && !VALID_CATEGORIES.includes(b.category)) {
-        results.push({ index: i, error: `Invalid category: ${b.category}` });
-        continue;
-      }
+        const locErr = validateLocationArgs(b.location, b.locations, true);
+        if (locErr) {
+          results.push({ index: i, error: locErr });
+          continue;
+        }
+        if (!b.title || typeof b.title !== 'string') {
+          results.push({ index: i, error: 'title is required' });
+          continue;
+        }
+        if (!b.description || typeof b.description !== 'string') {
+          results.push({ index: i, error: 'description is required' });
+          continue;
+        }
+        const catErr = validateCategory(store, b.category);
+        if (catErr) {
+          results.push({ index: i, error: catErr });
+          continue;
+        }
+        const tagErr = validateTags(b.tags);
+        if (tagErr) {
+          results.push({ index: i, error: tagErr });
+          continue;
+        }
 
-      const bookmarkId = store.addBookmark(groupId, b.location, b.title, b.description, {
-        parentId,
-        order: b.order,
-        category: b.category
-      });
+        const anchor = resolveSymbolArgs(store, b.location, b.locations, b.symbol, b.symbolOffset);
+        if ('error' in anchor) {
+          results.push({ index: i, error: anchor.error });
+          continue;
+        }
 
-      if (bookmarkId) {
-        results.push({ index: i, bookmarkId });
-        successCount++;
-      } else {
-        results.push({ index: i, error: 'Failed to add bookmark' });
+        const bookmarkId = store.addBookmark(groupId, anchor.locations ?? anchor.location!, b.title, b.description, {
+          parentId,
+          order: b.order,
+          category: b.category,
+          tags: b.tags,
+          symbol: anchor.symbol,
+          symbolOffset: anchor.symbolOffset
+        });
+
+        if (bookmarkId) {
+          results.push({ index: i, bookmarkId });
+          successCount++;
+        } else {
+          results.push({ index: i, error: 'Failed to add bookmark' });
+        }
       }
-    }
+    });
 
     const message = parentId
       ? `Added ${successCount}/${bookmarks.length} child bookmarks under parent "${parentId}"`
@@ -632,22 +1092,25 @@ export function handleBatchRemoveBookmarks(store: BookmarkStoreBase, args: any):
     const results: Array<{ bookmarkId: string; success: boolean; error?: string }> = [];
     let successCount = 0;
 
-    for (const bookmarkId of bookmarkIds) {
-      if (!bookmarkId || typeof bookmarkId !== 'string') {
-        results.push({ bookmarkId: bookmarkId || '(invalid)', success: false, error: 'Invalid bookmark ID' });
-        continue;
-      }
+    store.transaction(`Remove ${bookmarkIds.length} bookmarks`, () => {
+      store.backup('batch-remove');
+      for (const bookmarkId of bookmarkIds) {
+        if (!bookmarkId || typeof bookmarkId !== 'string') {
+          results.push({ bookmarkId: bookmarkId || '(invalid)', success: false, error: 'Invalid bookmark ID' });
+          continue;
+        }
 
-      // FIX: removeBookmark 返回 { success: boolean; removedCount: number },
-      // 必须检查 result.success 而不是直接对 result 做 truthy 判断
-      const result = store.removeBookmark(bookmarkId);
-      if (result.success) {
-        results.push({ bookmarkId, success: true });
-        successCount++;
-      } else {
-        results.push({ bookmarkId, success: false, error: 'Bookmark not found or failed to remove' });
+        // FIX: removeBookmark 返回 { success: boolean; removedCount: number },
+        // 必须检查 result.success 而不是直接对 result 做 truthy 判断
+        const result = store.removeBookmark(bookmarkId);
+        if (result.success) {
+          results.push({ bookmarkId, success: true });
+          successCount++;
+        } else {
+          results.push({ bookmarkId, success: false, error: 'Bookmark not found or failed to remove' });
+        }
       }
-    }
+    });
 
     return {
       success: successCount > 0,
@@ -678,7 +1141,7 @@ export function handleClearAllBookmarks(store: BookmarkStoreBase, args: any): To
     return {
       success: true,
       data: {
-        message: 'Successfully cleared all bookmarks',
+        message: 'Successfully cleared all bookmarks (moved to trash, use restore_from_trash to recover)',
         groupsRemoved,
         bookmarksRemoved
       }
@@ -688,6 +1151,176 @@ export function handleClearAllBookmarks(store: BookmarkStoreBase, args: any): To
   }
 }
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function handleListTrash(store: BookmarkStoreBase, args: any): ToolResult {
+  try {
+    const items = store.listTrash();
+
+    return {
+      success: true,
+      data: {
+        total: items.length,
+        items: items.map(item => ({
+          trashId: item.id,
+          kind: item.kind,
+          title: getTrashItemTitle(item),
+          groupId: item.groupId,
+          groupTitle: item.groupTitle,
+          bookmarkCount: item.kind === 'group' ? item.group?.bookmarks.length ?? 0 : item.bookmarks?.length ?? 0,
+          locations: item.kind === 'bookmark' ? item.bookmarks?.map(b => b.location) : undefined,
+          deletedAt: item.deletedAt,
+          deletedBy: item.deletedBy
+        }))
+      }
+    };
+  } catch (error) {
+    return { success: false, error: `Failed to list trash: ${error}` };
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function handleRestoreFromTrash(store: BookmarkStoreBase, args: any): ToolResult {
+  try {
+    const { trashId, targetGroupId } = args;
+
+    const err = validateRequired(trashId, 'trashId');
+    if (err) {
+      return { success: false, error: err };
+    }
+
+    const item = store.getTrashItem(trashId);
+    const result = store.restoreFromTrash(trashId, targetGroupId);
+
+    if (result === 'not_found' || !item) {
+      return { success: false, error: `Trash item with id "${trashId}" not found` };
+    }
+    if (result === 'group_not_found') {
+      return {
+        success: false,
+        error: targetGroupId
+          ? `Group with id "${targetGroupId}" not found`
+          : `Original group "${item.groupTitle}" no longer exists. Restore the group first or pass targetGroupId`
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        message: `Restored ${item.kind} "${getTrashItemTitle(item)}" with ${result.restoredCount} bookmark(s)`,
+        groupId: result.groupId,
+        restoredCount: result.restoredCount
+      }
+    };
+  } catch (error) {
+    return { success: false, error: `Failed to restore from trash: ${error}` };
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function handleUndoLastOperation(store: BookmarkStoreBase, args: any): ToolResult {
+  try {
+    const result = store.undo();
+    if (!result) {
+      return { success: false, error: 'Nothing to undo' };
+    }
+
+    const { entry, applied, skipped } = result;
+    const message = skipped > 0
+      ? `Undid: ${entry.label} (${skipped} change(s) skipped because they were modified afterwards)`
+      : `Undid: ${entry.label}`;
+
+    return {
+      success: applied > 0,
+      data: {
+        message,
+        operationId: entry.id,
+        label: entry.label,
+        applied,
+        skipped
+      }
+    };
+  } catch (error) {
+    return { success: false, error: `Failed to undo last operation: ${error}` };
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function handleListHistory(store: BookmarkStoreBase, args: any): ToolResult {
+  try {
+    const { limit = 20 } = args;
+    if (!Number.isInteger(limit) || limit < 1) {
+      return { success: false, error: 'limit must be a positive integer' };
+    }
+
+    const history = store.listHistory();
+
+    return {
+      success: true,
+      data: {
+        total: history.undo.length,
+        redoAvailable: history.redo.length,
+        operations: history.undo.slice(0, limit).map(entry => ({
+          id: entry.id,
+          label: entry.label,
+          timestamp: entry.timestamp,
+          source: entry.source,
+          changeCount: entry.changeCount
+        }))
+      }
+    };
+  } catch (error) {
+    return { success: false, error: `Failed to list history: ${error}` };
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function handleListBackups(store: BookmarkStoreBase, args: any): ToolResult {
+  try {
+    const backups = store.listBackups();
+    return {
+      success: true,
+      data: {
+        total: backups.length,
+        backups: backups.map(backup => ({
+          backupId: backup.id,
+          createdAt: backup.createdAt,
+          reason: backup.reason,
+          groupCount: backup.groupCount,
+          bookmarkCount: backup.bookmarkCount
+        }))
+      }
+    };
+  } catch (error) {
+    return { success: false, error: `Failed to list backups: ${error}` };
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function handleRestoreBackup(store: BookmarkStoreBase, args: any): ToolResult {
+  try {
+    const { backupId } = args;
+    if (!backupId) {
+      return { success: false, error: 'backupId is required' };
+    }
+
+    const result = store.restoreBackup(backupId);
+    if (!result) {
+      return { success: false, error: `Backup not found or unreadable: ${backupId}` };
+    }
+
+    return {
+      success: true,
+      data: {
+        message: `Restored ${result.groupCount} group(s) with ${result.bookmarkCount} bookmark(s) from backup ${backupId}. ` +
+          'The previous bookmarks were backed up first; use undo_last_operation to revert.',
+        ...result
+      }
+    };
+  } catch (error) {
+    return { success: false, error: `Failed to restore backup: ${error}` };
+  }
+}
+
 // --- Dispatch map ---
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -697,6 +1330,7 @@ export const HANDLER_MAP: Record<string, (store: BookmarkStoreBase, args: any) =
   'add_child_bookmark': handleAddChildBookmark,
   'list_groups': handleListGroups,
   'list_bookmarks': handleListBookmarks,
+  'list_tags': handleListTags,
   'update_group': handleUpdateGroup,
   'update_bookmark': handleUpdateBookmark,
   'remove_bookmark': handleRemoveBookmark,
@@ -704,7 +1338,66 @@ export const HANDLER_MAP: Record<string, (store: BookmarkStoreBase, args: any) =
   'get_group': handleGetGroup,
   'get_bookmark': handleGetBookmark,
   'get_bookmark_tree': handleGetBookmarkTree,
+  'link_bookmarks': handleLinkBookmarks,
+  'unlink_bookmarks': handleUnlinkBookmarks,
   'batch_add_bookmarks': handleBatchAddBookmarks,
   'batch_remove_bookmarks': handleBatchRemoveBookmarks,
   'clear_all_bookmarks': handleClearAllBookmarks,
+  'list_trash': handleListTrash,
+  'restore_from_trash': handleRestoreFromTrash,
+  'undo_last_operation': handleUndoLastOperation,
+  'list_history': handleListHistory,
+  'list_backups': handleListBackups,
+  'restore_backup': handleRestoreBackup,
 };
+
+/**
+ * 分发工具调用.
+ * 写入时如果与其他进程的修改冲突 (外部修改被保留), 结果标记为失败并附带冲突列表,
+ * 让调用方重新读取后再决定是否重试.
+ *
+ * @param client MCP 客户端名称 (initialize 握手中的 clientInfo.name), 记录到新建的书签上
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function dispatchTool(store: BookmarkStoreBase, toolName: string, args: any, client?: string): ToolResult {
+  const handler = HANDLER_MAP[toolName];
+  if (!handler) {
+    return { success: false, error: `Unknown tool: ${toolName}` };
+  }
+
+  store.takeConflicts();
+  const result = store.runAsAi(client, () => handler(store, args ?? {}));
+
+  // 文件损坏已被修复 (可能发生在 store 创建时): 即使操作成功也返回错误, 让调用方确认数据
+  const repairs = store.takeRepairReports();
+  if (repairs.length > 0) {
+    const outcome = result.success
+      ? 'The requested operation was applied to the repaired store.'
+      : `The requested operation failed: ${result.error}`;
+    return {
+      success: false,
+      error: `${repairs.map(formatRepairReport).join(' ')}. ${outcome} Verify the bookmarks before continuing.`,
+      data: {
+        ...(typeof result.data === 'object' && result.data !== null ? result.data : {}),
+        repairs,
+        revision: store.getRevision()
+      }
+    };
+  }
+
+  const conflicts = store.takeConflicts();
+  if (conflicts.length === 0) {
+    return result;
+  }
+
+  return {
+    success: false,
+    error: `Conflicting external edit: ${conflicts.map(formatConflict).join('; ')}. ` +
+      'Non-conflicting changes were saved. Re-read the affected bookmarks and retry if still needed.',
+    data: {
+      ...(typeof result.data === 'object' && result.data !== null ? result.data : {}),
+      conflicts,
+      revision: store.getRevision()
+    }
+  };
+}
@@ -1,6 +1,6 @@
 import * as fs from 'fs';
 import { WorkspaceManager } from '../store/workspaceManager';
-import { HANDLER_MAP, ToolResult } from './handlersCore';
+import { dispatchTool, ToolResult } from './handlersCore';
 
 export { ToolResult };
 
@@ -8,7 +8,7 @@ export class MCPHandlersStandalone {
   constructor(private workspaceManager: WorkspaceManager) {}
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  handle(toolName: string, args: any): ToolResult {
+  handle(toolName: string, args: any, client?: string): ToolResult {
     // standalone 专属工具
     if (toolName === 'set_workspace') {
       return this.setWorkspace(args);
@@ -19,12 +19,10 @@ export class MCPHandlersStandalone {
 
     // 通过 projectRoot 获取对应 store, 委托给 handlersCore
     const store = this.workspaceManager.getStore(args?.projectRoot);
+    // 书签引用的文件在此期间可能被重命名或删除
+    store.reconcileFilesIfDue();
 
-    const handler = HANDLER_MAP[toolName];
-    if (!handler) {
-      return { success: false, error: `Unknown tool: ${toolName}` };
-    }
-    return handler(store, args);
+    return dispatchTool(store, toolName, args, client);
   }
 
   private setWorkspace(args: { path: string }): ToolResult {
@@ -41,14 +39,15 @@ export class MCPHandlersStandalone {
 
       this.workspaceManager.setDefaultWorkspace(path);
       // 预先获取 store 以验证并初始化
-      this.workspaceManager.getStore(path);
+      const store = this.workspaceManager.getStore(path);
 
       return {
         success: true,
         data: {
           workspace: path,
           message: `Workspace set to: ${path}`,
-          bookmarkFile: `${path}/.vscode/mcp-bookmarks.json`
+          bookmarkFile: store.getStoreLocation(),
+          privateBookmarkFile: store.getPrivateStoreLocation() ?? null
         }
       };
     } catch (error) {
@@ -60,13 +59,15 @@ export class MCPHandlersStandalone {
     try {
       const defaultWorkspace = this.workspaceManager.getDefaultWorkspace();
       const activeWorkspaces = this.workspaceManager.listActiveWorkspaces();
+      const store = this.workspaceManager.getStore();
 
       return {
         success: true,
         data: {
           currentWorkspace: defaultWorkspace,
           activeWorkspaces,
-          bookmarkFile: `${defaultWorkspace}/.vscode/mcp-bookmarks.json`
+          bookmarkFile: store.getStoreLocation(),
+          privateBookmarkFile: store.getPrivateStoreLocation() ?? null
         }
       };
     } catch (error) {
@@ -6,13 +6,13 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { BookmarkStoreManager } from '../store/bookmarkStore';
 import { MCPHandlers } from './handlers';
-import { TOOLS } from './toolDefinitions';
+import { TOOLS, withCategories } from './toolDefinitions';
 
 export class MCPServer {
   private server: Server;
   private handlers: MCPHandlers;
 
-  constructor(store: BookmarkStoreManager) {
+  constructor(private readonly store: BookmarkStoreManager) {
     this.handlers = new MCPHandlers(store);
     this.server = new Server(
       { name: 'mcp-bookmarks', version: '0.1.0' },
@@ -23,12 +23,14 @@ export class MCPServer {
 
   private setupHandlers(): void {
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return { tools: TOOLS };
+      // 每次请求时生成, 分类配置修改后无需重启
+      return { tools: withCategories(TOOLS, this.store.getCategories()) };
     });
 
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
-      const result = this.handlers.handle(name, args);
+      // 客户端名称来自 initialize 握手, 记录为书签的来源
+      const result = this.handlers.handle(name, args, this.server.getClientVersion()?.name);
       return {
         content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         isError: !result.success
@@ -6,7 +6,8 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { WorkspaceManager } from '../store/workspaceManager';
 import { MCPHandlersStandalone } from './handlersStandalone';
-import { TOOLS, STANDALONE_TOOLS, withProjectRoot } from './toolDefinitions';
+import { TOOLS, STANDALONE_TOOLS, withProjectRoot, withCategories } from './toolDefinitions';
+import { CategoryDefinition, DEFAULT_CATEGORIES } from '../store/categoryConfig';
 
 // standalone 版本: 共享工具注入 projectRoot 参数, 再拼接 standalone 独有工具
 const allTools = [...withProjectRoot(TOOLS), ...STANDALONE_TOOLS];
@@ -15,7 +16,7 @@ export class MCPServerStandalone {
   private server: Server;
   private handlers: MCPHandlersStandalone;
 
-  constructor(workspaceManager: WorkspaceManager) {
+  constructor(private readonly workspaceManager: WorkspaceManager) {
     this.handlers = new MCPHandlersStandalone(workspaceManager);
     this.server = new Server(
       { name: 'mcp-bookmarks', version: '0.1.0' },
@@ -26,12 +27,13 @@ export class MCPServerStandalone {
 
   private setupHandlers(): void {
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return { tools: allTools };
+      return { tools: withCategories(allTools, this.getCategories()) };
     });
 
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
-      const result = this.handlers.handle(name, args);
+      // 客户端名称来自 initialize 握手, 记录为书签的来源
+      const result = this.handlers.handle(name, args, this.server.getClientVersion()?.name);
       return {
         content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         isError: !result.success
@@ -39,6 +41,15 @@ export class MCPServerStandalone {
     });
   }
 
+  /** 默认工作区的分类配置, 工作区不可用时使用内置分类 */
+  private getCategories(): CategoryDefinition[] {
+    try {
+      return this.workspaceManager.getStore().getCategories();
+    } catch {
+      return DEFAULT_CATEGORIES;
+    }
+  }
+
   async start(): Promise<void> {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
@@ -1,4 +1,31 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CategoryDefinition } from '../store/categoryConfig';
+import { BOOKMARK_LINK_TYPES, BOOKMARK_STATUSES } from '../store/types';
+
+// 多位置书签的 locations 参数 (add_bookmark / add_child_bookmark / batch_add_bookmarks / update_bookmark 共用)
+const LOCATIONS_PROPERTY = {
+  type: 'array',
+  description: 'Use instead of `location` when one concept lives in several places (e.g. an interface, its implementation and the registration call). Ordered list; the first entry is the primary location. Each entry has a location (same format as `location`) and an optional short label such as "interface" or "registration".',
+  items: {
+    type: 'object',
+    properties: {
+      location: { type: 'string', description: 'Location in format "path/to/file:line", "path/to/file:start-end" or "path/to/file:line:col-line:col"' },
+      label: { type: 'string', description: 'What lives at this location, e.g. "implementation"' }
+    },
+    required: ['location']
+  }
+};
+
+const SYMBOL_PROPERTIES = {
+  symbol: {
+    type: 'string',
+    description: 'Anchor the bookmark to a symbol, e.g. "BetService.placeBet". Survives edits made outside the editor (git pull, formatters): the extension re-resolves it through the language\'s symbol provider when the file is opened. With a symbol, `location` may be just the file path ("src/bet.ts") and the line is looked up'
+  },
+  symbolOffset: {
+    type: 'integer',
+    description: 'Lines from the symbol declaration to the bookmarked line (default: 0, or computed from the line in `location`)'
+  }
+};
 
 // 共享工具定义: embedded 和 standalone 版本都使用这些定义
 // standalone 版本通过 withProjectRoot() 注入 projectRoot 参数
@@ -16,6 +43,10 @@ export const TOOLS: Tool[] = [
         description: {
           type: 'string',
           description: 'Group description'
+        },
+        private: {
+          type: 'boolean',
+          description: 'Keep the group in the private per-user store instead of the shared bookmark file (default: false)'
         }
       },
       required: ['title']
@@ -37,6 +68,7 @@ export const TOOLS: Tool[] = [
 - Example: \`Grep pattern="function handleRequest" path="src/handler.ts"\` to find exact line
 - Guessing line numbers makes bookmarks useless - they will point to wrong code
 - **LSP/Serena returns 0-indexed line numbers!** If using Serena MCP, add 1: bookmark_line = serena_line + 1
+- Line numbers break when files change outside the editor. When the bookmark belongs to a function or class, also pass \`symbol\` (e.g. "BetService.placeBet"); you may then give \`location\` as just the file path
 
 **CRITICAL - Location Guidelines (CALL SITE vs DEFINITION):**
 - For call chain/flow analysis: Mark the CALL SITE (where function is called), NOT the function definition
@@ -96,7 +128,8 @@ CORRECT: 1. handleRequest (parent) → 1.1 validateInput (child at call site) 
         },
         location: {
           type: 'string',
-          description: `Location in format "path/to/file:line" or "path/to/file:start-end" for ranges
+          description: `Location in format "path/to/file:line" or "path/to/file:start-end" for ranges.
+Use "path/to/file:line:col-line:col" (1-based, end column exclusive) to mark an exact span such as an expression or identifier
 
 **PATH FORMAT - CRITICAL:**
 - **Relative path** (recommended): Use path relative to the project root (e.g., "src/game/crash.go:45")
@@ -105,6 +138,8 @@ CORRECT: 1. handleRequest (parent) → 1.1 validateInput (child at call site) 
 - When using Serena MCP or analyzing files with absolute paths, use the absolute path in the location
 - When analyzing the current project, use relative paths for better portability`
         },
+        locations: LOCATIONS_PROPERTY,
+        ...SYMBOL_PROPERTIES,
         title: {
           type: 'string',
           description: 'Describe the ACTION/PURPOSE of this line (e.g., "验证用户余额"), NOT just function name!'
@@ -148,11 +183,15 @@ When describing related code, use Markdown links for easy navigation:
         },
         category: {
           type: 'string',
-          enum: ['entry-point', 'core-logic', 'issue', 'note'],
           description: 'Bookmark category'
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Free-form tags (e.g. ["auth", "perf"]). Normalized to lowercase, leading "#" removed'
         }
       },
-      required: ['groupId', 'location', 'title', 'description']
+      required: ['groupId', 'title', 'description']
     }
   },
   {
@@ -195,7 +234,8 @@ Parent bookmark: "handleRequest" at handler.go:50 (function definition or entry
         },
         location: {
           type: 'string',
-          description: `Location in format "path/to/file:line" or "path/to/file:start-end" for ranges
+          description: `Location in format "path/to/file:line" or "path/to/file:start-end" for ranges.
+Use "path/to/file:line:col-line:col" (1-based, end column exclusive) to mark an exact span such as an expression or identifier
 
 **PATH FORMAT - CRITICAL:**
 - **Relative path** (recommended): Use path relative to the project root (e.g., "src/game/crash.go:45")
@@ -204,6 +244,8 @@ Parent bookmark: "handleRequest" at handler.go:50 (function definition or entry
 - When using Serena MCP or analyzing files with absolute paths, use the absolute path in the location
 - When analyzing the current project, use relative paths for better portability`
         },
+        locations: LOCATIONS_PROPERTY,
+        ...SYMBOL_PROPERTIES,
         title: {
           type: 'string',
           description: 'Describe the ACTION/PURPOSE of this line (e.g., "验证用户余额"), NOT just function name!'
@@ -247,11 +289,15 @@ When describing related code, use Markdown links for easy navigation:
         },
         category: {
           type: 'string',
-          enum: ['entry-point', 'core-logic', 'issue', 'note'],
           description: 'Bookmark category'
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Free-form tags (e.g. ["auth", "perf"]). Normalized to lowercase, leading "#" removed'
         }
       },
-      required: ['parentBookmarkId', 'location', 'title', 'description']
+      required: ['parentBookmarkId', 'title', 'description']
     }
   },
   {
@@ -270,7 +316,7 @@ When describing related code, use Markdown links for easy navigation:
   },
   {
     name: 'list_bookmarks',
-    description: 'List bookmarks with optional filters. Supports hierarchical filtering via parentId.',
+    description: 'List bookmarks with optional filters. Supports hierarchical filtering via parentId and recency filters. Each bookmark includes createdAt, updatedAt, createdBy, author (git user name) and client (MCP client that created it) when recorded.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -292,15 +338,59 @@ When describing related code, use Markdown links for easy navigation:
         },
         category: {
           type: 'string',
-          enum: ['entry-point', 'core-logic', 'issue', 'note'],
           description: 'Filter by category'
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only bookmarks that have ALL of these tags'
+        },
+        status: {
+          type: 'array',
+          items: { type: 'string', enum: BOOKMARK_STATUSES },
+          description: 'Only bookmarks with one of these statuses, e.g. ["open", "in-progress"] for unresolved issues. Bookmarks without a status never match.'
+        },
+        createdBy: {
+          type: 'string',
+          enum: ['ai', 'user'],
+          description: 'Only bookmarks created by an AI tool call ("ai") or by the user in the editor ("user")'
+        },
+        createdSince: {
+          type: 'string',
+          description: 'Only bookmarks created at or after this time: an ISO timestamp or a duration such as "30m", "24h", "7d", "2w"'
+        },
+        updatedSince: {
+          type: 'string',
+          description: 'Only bookmarks changed at or after this time (ISO timestamp or duration such as "24h")'
+        },
+        sortBy: {
+          type: 'string',
+          enum: ['order', 'created', 'updated'],
+          description: 'Sort order: "order" (default, position within the group), "created" or "updated" (most recent first)'
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of bookmarks to return, applied after sorting (e.g. sortBy "updated" with limit 10 for the 10 most recently changed). total still counts every match'
+        }
+      }
+    }
+  },
+  {
+    name: 'list_tags',
+    description: 'List all tags used by bookmarks with their usage counts, most used first. Use the tags filter of list_bookmarks to find the tagged bookmarks.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        groupId: {
+          type: 'string',
+          description: 'Only count tags in this group'
         }
       }
     }
   },
   {
     name: 'update_group',
-    description: 'Update a bookmark group\'s title or description. Use `title` for the group name; `name` is deprecated and should not be used.',
+    description: 'Update a bookmark group\'s title or description, or move it between the shared and private stores. Use `title` for the group name; `name` is deprecated and should not be used.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -315,6 +405,10 @@ When describing related code, use Markdown links for easy navigation:
         description: {
           type: 'string',
           description: 'New group description'
+        },
+        private: {
+          type: 'boolean',
+          description: 'true moves the group to the private per-user store (not shared through the repository), false moves it back to the shared store'
         }
       },
       required: ['groupId']
@@ -334,6 +428,7 @@ When describing related code, use Markdown links for easy navigation:
 - To fix description: update_bookmark({ bookmarkId, description: "new desc" })
 - To move to different parent: update_bookmark({ bookmarkId, parentId: "newParentId" })
 - To change location: update_bookmark({ bookmarkId, location: "file:line" })
+- To close an issue: update_bookmark({ bookmarkId, status: "resolved", resolution: "Fixed by ..." })
 
 All fields except bookmarkId are optional - only specify what you want to change.
 Circular references are automatically prevented when moving in hierarchy.`,
@@ -350,8 +445,14 @@ Circular references are automatically prevented when moving in hierarchy.`,
         },
         location: {
           type: 'string',
-          description: 'New location'
+          description: 'New location. For a multi-location bookmark only the first (primary) location is replaced'
         },
+        locations: { ...LOCATIONS_PROPERTY, description: 'Replace all locations of the bookmark (ordered, first is primary, each with an optional label). Use instead of `location`' },
+        symbol: {
+          type: ['string', 'null'],
+          description: 'Set the symbol anchor, e.g. "BetService.placeBet"; null removes it'
+        },
+        symbolOffset: SYMBOL_PROPERTIES.symbolOffset,
         title: {
           type: 'string',
           description: 'New title'
@@ -395,8 +496,31 @@ When describing related code, use Markdown links for easy navigation:
         },
         category: {
           type: 'string',
-          enum: ['entry-point', 'core-logic', 'issue', 'note'],
           description: 'New category'
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Replace all tags (empty array clears them)'
+        },
+        addTags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Tags to add (applied after tags)'
+        },
+        removeTags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Tags to remove'
+        },
+        status: {
+          type: ['string', 'null'],
+          enum: [...BOOKMARK_STATUSES, null],
+          description: 'Issue status: open, in-progress, resolved or wontfix. Timestamps are recorded automatically. Set to null to clear the status and resolution.'
+        },
+        resolution: {
+          type: 'string',
+          description: 'How the issue was resolved, or why it will not be fixed. Requires a status. Empty string clears it.'
         }
       },
       required: ['bookmarkId']
@@ -412,7 +536,8 @@ When describing related code, use Markdown links for easy navigation:
 3. Am I aware this will delete ALL child bookmarks?
 
 Only remove a bookmark when it is truly no longer needed.
-For bulk removal, use batch_remove_bookmarks.`,
+For bulk removal, use batch_remove_bookmarks.
+Removed bookmarks are moved to the trash and can be recovered with restore_from_trash.`,
     inputSchema: {
       type: 'object',
       properties: {
@@ -426,7 +551,7 @@ For bulk removal, use batch_remove_bookmarks.`,
   },
   {
     name: 'remove_group',
-    description: 'Remove a bookmark group and all its bookmarks. This is a destructive operation.',
+    description: 'Remove a bookmark group and all its bookmarks. This is a destructive operation. The group is moved to the trash and can be recovered with restore_from_trash.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -454,7 +579,7 @@ For bulk removal, use batch_remove_bookmarks.`,
   },
   {
     name: 'get_bookmark',
-    description: 'Get a single bookmark by its ID with its group info and child count.',
+    description: 'Get a single bookmark by its ID with its group info, child count, outgoing links and backlinks.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -466,6 +591,64 @@ For bulk removal, use batch_remove_bookmarks.`,
       required: ['bookmarkId']
     }
   },
+  {
+    name: 'link_bookmarks',
+    description: `Create a typed link from one bookmark to another. Unlike parentId, links work across groups, so they can describe code flows that span topics.
+
+Link types (read as "source <type> target"):
+- calls: the source code calls the target (e.g. a handler calls a validator)
+- see-also: related code worth reading together
+- implements: the source implements the target (interface, spec, abstract method)
+- caused-by: the source (usually an issue) is caused by the target
+
+Linking the same pair with the same type again only updates the note. Backlinks are shown on the target by get_bookmark.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sourceId: {
+          type: 'string',
+          description: 'The bookmark the link starts from'
+        },
+        targetId: {
+          type: 'string',
+          description: 'The bookmark the link points to (can be in another group)'
+        },
+        type: {
+          type: 'string',
+          enum: BOOKMARK_LINK_TYPES,
+          description: 'Relation type'
+        },
+        note: {
+          type: 'string',
+          description: 'Optional short explanation of the relation'
+        }
+      },
+      required: ['sourceId', 'targetId', 'type']
+    }
+  },
+  {
+    name: 'unlink_bookmarks',
+    description: 'Remove links from one bookmark to another. Without type, all links between the two (in this direction) are removed.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sourceId: {
+          type: 'string',
+          description: 'The bookmark the link starts from'
+        },
+        targetId: {
+          type: 'string',
+          description: 'The bookmark the link points to'
+        },
+        type: {
+          type: 'string',
+          enum: BOOKMARK_LINK_TYPES,
+          description: 'Only remove links of this type'
+        }
+      },
+      required: ['sourceId', 'targetId']
+    }
+  },
   {
     name: 'get_bookmark_tree',
     description: 'Get a bookmark and all its children as a tree structure.',
@@ -552,8 +735,10 @@ batch_add_bookmarks({
             properties: {
               location: {
                 type: 'string',
-                description: 'Location in format "path/to/file:line" or "path/to/file:start-end"'
+                description: 'Location in format "path/to/file:line", "path/to/file:start-end" or "path/to/file:line:col-line:col"'
               },
+              locations: LOCATIONS_PROPERTY,
+              ...SYMBOL_PROPERTIES,
               title: {
                 type: 'string',
                 description: 'Short title (5-30 chars). DO NOT repeat in description.'
@@ -597,11 +782,15 @@ When describing related code, use Markdown links for easy navigation:
               },
               category: {
                 type: 'string',
-                enum: ['entry-point', 'core-logic', 'issue', 'note'],
                 description: 'Bookmark category'
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Free-form tags'
               }
             },
-            required: ['location', 'title', 'description']
+            required: ['title', 'description']
           }
         }
       },
@@ -633,7 +822,7 @@ you must list all bookmarks in that group first and remove them individually.`,
   },
   {
     name: 'clear_all_bookmarks',
-    description: 'Clear all bookmarks and groups. This is a destructive operation that requires explicit confirmation.',
+    description: 'Clear all bookmarks and groups. This is a destructive operation that requires explicit confirmation. Each group is moved to the trash and can be recovered with restore_from_trash.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -644,6 +833,83 @@ you must list all bookmarks in that group first and remove them individually.`,
       },
       required: ['confirm']
     }
+  },
+  {
+    name: 'list_trash',
+    description: `List removed groups and bookmarks in the trash, most recently removed first.
+
+Items are kept for a retention period (30 days by default) and then permanently deleted. Use restore_from_trash with the returned trashId to recover an item.`,
+    inputSchema: {
+      type: 'object',
+      properties: {}
+    }
+  },
+  {
+    name: 'restore_from_trash',
+    description: `Restore a removed group or bookmark (including its child bookmarks) from the trash.
+
+A group is restored with all its bookmarks. A bookmark is restored to its original position in its original group; if that group no longer exists, restore the group first or pass targetGroupId.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        trashId: {
+          type: 'string',
+          description: 'The trashId of the item to restore (from list_trash)'
+        },
+        targetGroupId: {
+          type: 'string',
+          description: 'Restore a bookmark into this group instead of its original group. Ignored for groups.'
+        }
+      },
+      required: ['trashId']
+    }
+  },
+  {
+    name: 'undo_last_operation',
+    description: `Undo the most recent bookmark operation, whether it was made by the AI or by the user in VSCode.
+
+Batch operations (batch_add_bookmarks, batch_remove_bookmarks) and clear_all_bookmarks are undone as a whole. Bookmarks or groups that were modified again after the operation are left untouched and reported as skipped. Call list_history first to see what will be undone.`,
+    inputSchema: {
+      type: 'object',
+      properties: {}
+    }
+  },
+  {
+    name: 'list_history',
+    description: 'List recent bookmark operations that can be undone, most recent first.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'number',
+          description: 'Maximum number of operations to return (default: 20)'
+        }
+      }
+    }
+  },
+  {
+    name: 'list_backups',
+    description: 'List automatic backups of the bookmark store, most recent first. A backup is taken before clear_all_bookmarks, remove_group, batch_remove_bookmarks and schema migrations.',
+    inputSchema: {
+      type: 'object',
+      properties: {}
+    }
+  },
+  {
+    name: 'restore_backup',
+    description: `Replace all groups and bookmarks with the contents of a backup from list_backups.
+
+The current bookmarks are backed up first, and the restore can be reverted with undo_last_operation. Prefer restore_from_trash or undo_last_operation for recovering individual items.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        backupId: {
+          type: 'string',
+          description: 'The backup ID returned by list_backups'
+        }
+      },
+      required: ['backupId']
+    }
   }
 ];
 
@@ -669,6 +935,34 @@ export function withProjectRoot(tools: Tool[]): Tool[] {
   }));
 }
 
+// 按工作区的分类配置生成 category 参数 (包括 batch_add_bookmarks 的数组元素) 的 enum 和说明
+export function withCategories(tools: Tool[], categories: CategoryDefinition[]): Tool[] {
+  const ids = categories.map(c => c.id);
+  const summary = categories.map(c => c.description ? `${c.id} (${c.description})` : c.id).join('; ');
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const apply = (schema: any): any => {
+    if (!schema || typeof schema !== 'object') {
+      return schema;
+    }
+    const result = { ...schema };
+    if (schema.properties) {
+      result.properties = Object.fromEntries(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        Object.entries(schema.properties).map(([key, value]: [string, any]) => key === 'category'
+          ? [key, { ...value, enum: ids, description: `${value.description}: ${summary}` }]
+          : [key, apply(value)])
+      );
+    }
+    if (schema.items) {
+      result.items = apply(schema.items);
+    }
+    return result;
+  };
+
+  return tools.map(tool => ({ ...tool, inputSchema: apply(tool.inputSchema) }));
+}
+
 // standalone 版本独有的工具
 export const STANDALONE_TOOLS: Tool[] = [
   {
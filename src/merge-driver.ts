@@ -0,0 +1,168 @@
+/**
+ * Git merge driver for bookmark files.
+ *
+ * Usage (set up by the "Install Git Merge Driver" command):
+ *   node mcp-server.js merge %O %A %B
+ *
+ * .gitattributes:
+ *   .vscode/mcp-bookmarks.json merge=mcp-bookmarks
+ *   .vscode/mcp-bookmarks/*.json merge=mcp-bookmarks
+ *   .vscode/mcp-bookmarks.history.jsonl merge=mcp-bookmarks
+ *
+ * 以分组和书签的 UUID 为单位做三方合并 (见 storeMerge), 结果写回 %A.
+ * 同时支持单文件 store 和 split 布局下的 index.json / 分组文件 / trash.json.
+ * 操作历史是各自本地的撤销记录, 直接保留本方.
+ * 两边把同一字段改成不同的值时保留本方 (%A) 的值, 并以非 0 退出码通知 git 需要人工确认.
+ */
+
+import * as fs from 'fs';
+import { execFileSync } from 'child_process';
+import { BookmarkGroup, BookmarkStore, StoreConflict, TrashItem } from './store/types';
+import { mergeStores, formatConflict, REMOVED_FIELD } from './store/storeMerge';
+import { canonicalizeStore } from './store/storeLayout';
+import { writeFileAtomic } from './store/storeIO';
+import { isJournalLog } from './store/operationJournal';
+import { stringifyWithUnicode } from './utils';
+
+export const MERGE_DRIVER_NAME = 'mcp-bookmarks';
+
+// 占位的空 store, 用于把分组文件 / 回收站 / index.json 套进 mergeStores
+const EMPTY_STORE: BookmarkStore = { version: 1, projectName: '', groups: [] };
+
+type FileKind = 'store' | 'group' | 'trash' | 'index' | 'history';
+
+/**
+ * 执行合并. 返回值即进程退出码: 0 表示干净合并, 1 表示有冲突 (结果已写入 %A), 2 表示用法错误.
+ */
+export function runMergeDriver(args: string[]): number {
+  const [basePath, oursPath, theirsPath] = args;
+  if (!basePath || !oursPath || !theirsPath) {
+    console.error('Usage: node mcp-server.js merge <base> <ours> <theirs>');
+    return 2;
+  }
+
+  // 操作历史 (JSON Lines) 直接保留本方, %A 已经是本方的版本
+  if (isJournalLog(fs.readFileSync(oursPath, 'utf-8'))) {
+    return 0;
+  }
+
+  let merged: { content: unknown; conflicts: StoreConflict[] };
+  try {
+    const base = readJson(basePath);
+    const ours = readJson(oursPath);
+    const theirs = readJson(theirsPath);
+    merged = mergeFiles(base, ours, theirs);
+  } catch (error) {
+    // 不是可识别的书签文件 (如已含冲突标记), 退回 git 默认的文本合并
+    console.error(`mcp-bookmarks merge: ${error}, falling back to a line-based merge`);
+    return fallbackMerge(basePath, oursPath, theirsPath);
+  }
+
+  writeFileAtomic(oursPath, stringifyWithUnicode(merged.content, 2) + '\n');
+
+  for (const conflict of merged.conflicts) {
+    console.error(`mcp-bookmarks merge: ${formatConflict(conflict)}`);
+  }
+  // 删除/编辑冲突按规则保留编辑, 不需要人工确认
+  return merged.conflicts.some(c => c.field !== REMOVED_FIELD) ? 1 : 0;
+}
+
+function mergeFiles(
+  base: unknown,
+  ours: unknown,
+  theirs: unknown
+): { content: unknown; conflicts: StoreConflict[] } {
+  const kind = detectKind(ours) ?? detectKind(theirs);
+  if (!kind || (detectKind(theirs) ?? kind) !== kind) {
+    throw new Error('unrecognized bookmark file');
+  }
+
+  if (kind === 'history') {
+    return { content: ours, conflicts: [] };
+  }
+
+  const wrap = (value: unknown): BookmarkStore | undefined =>
+    value === undefined ? undefined : toStore(kind, value);
+
+  // 冲突时保留本方: %A 是当前分支的版本
+  const { store, conflicts } = mergeStores(wrap(base), wrap(ours)!, wrap(theirs)!, 'ours');
+  if (kind === 'store') {
+    store.revision = (store.revision ?? 0) + 1;
+    return { content: store, conflicts };
+  }
+
+  // split 布局的文件按规范形式输出, 与 extension 写入的内容一致
+  const canonical = canonicalizeStore(store);
+  switch (kind) {
+    case 'group': {
+      if (canonical.groups.length !== 1) {
+        // 分组在一边被删除 (文件被删除时 git 不会调用 driver, 这里只是防御)
+        throw new Error('group was removed on one side');
+      }
+      return { content: canonical.groups[0], conflicts };
+    }
+    case 'trash':
+      return { content: canonical.trash ?? [], conflicts };
+    case 'index': {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { groups, trash, revision, ...index } = canonical;
+      return { content: index, conflicts };
+    }
+  }
+}
+
+function detectKind(value: unknown): FileKind | undefined {
+  if (Array.isArray(value)) {
+    return 'trash';
+  }
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+
+  const record = value as Record<string, unknown>;
+  if (Array.isArray(record.groups)) {
+    return 'store';
+  }
+  if (typeof record.id === 'string' && Array.isArray(record.bookmarks)) {
+    return 'group';
+  }
+  if (Array.isArray(record.undo) && Array.isArray(record.redo)) {
+    return 'history';
+  }
+  return 'index';
+}
+
+function toStore(kind: FileKind, value: unknown): BookmarkStore {
+  switch (kind) {
+    case 'store':
+      return value as BookmarkStore;
+    case 'group':
+      return { ...EMPTY_STORE, groups: [value as BookmarkGroup] };
+    case 'trash':
+      return { ...EMPTY_STORE, trash: value as TrashItem[] };
+    case 'index':
+    case 'history':
+      return { ...EMPTY_STORE, ...(value as Partial<BookmarkStore>), groups: [] };
+  }
+}
+
+/** 读取 JSON. 文件为空 (两边同时新增该文件时 %O 为空) 返回 undefined */
+function readJson(filePath: string): unknown {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  if (content.trim() === '') {
+    return undefined;
+  }
+  return JSON.parse(content);
+}
+
+function fallbackMerge(basePath: string, oursPath: string, theirsPath: string): number {
+  try {
+    execFileSync('git', ['merge-file', '-L', 'ours', '-L', 'base', '-L', 'theirs', oursPath, basePath, theirsPath], {
+      stdio: 'inherit'
+    });
+    return 0;
+  } catch {
+    // git merge-file 以冲突数作为退出码
+    return 1;
+  }
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { BookmarkStoreManager } from '../store/bookmarkStore';
-import { parseLocation, normalizePath } from '../utils';
+import { getBookmarkLocations, getLocationsInFile, normalizePath } from '../utils';
+import { FALLBACK_CATEGORY_ICON, findCategory } from '../store/categoryConfig';
 
 export class BookmarkCodeLensProvider implements vscode.CodeLensProvider {
   private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
@@ -21,29 +22,34 @@ export class BookmarkCodeLensProvider implements vscode.CodeLensProvider {
     const bookmarks = this.store.getBookmarksByFile(filePath);
 
     const codeLenses: vscode.CodeLens[] = [];
+    const categories = this.store.getCategories();
 
     for (const { bookmark, group } of bookmarks) {
-      try {
-        const parsed = parseLocation(bookmark.location);
+      // Category icon (codicon from the workspace category config)
+      const icon = findCategory(categories, bookmark.category)?.icon ?? FALLBACK_CATEGORY_ICON;
+      const locationCount = getBookmarkLocations(bookmark).length;
+
+      // One CodeLens per location in this file (invalid locations are skipped)
+      for (const parsed of getLocationsInFile(bookmark, filePath)) {
         const line = Math.max(0, parsed.startLine - 1);
 
         // Create range at the start of the bookmark line
         const range = new vscode.Range(line, 0, line, 0);
 
-        // Category icon
-        const icon = getCategoryIcon(bookmark.category);
+        // Multi-location bookmarks show which location this is, e.g. "(registration, 3/3)"
+        const position = locationCount > 1
+          ? ` (${parsed.label ? `${parsed.label}, ` : ''}${parsed.index + 1}/${locationCount})`
+          : '';
 
         // Create CodeLens with command
         const codeLens = new vscode.CodeLens(range, {
-          title: `${icon} ${bookmark.title}`,
+          title: `$(${icon}) ${bookmark.title}${position}`,
           tooltip: `[${group.title}] ${bookmark.description}`,
           command: 'mcpBookmarks.revealBookmark',
           arguments: [bookmark, group]
         });
 
         codeLenses.push(codeLens);
-      } catch {
-        // Skip invalid locations
       }
     }
 
@@ -54,13 +60,3 @@ export class BookmarkCodeLensProvider implements vscode.CodeLensProvider {
     this._onDidChangeCodeLenses.dispose();
   }
 }
-
-function getCategoryIcon(category?: string): string {
-  switch (category) {
-    case 'entry-point': return '\u25B6'; // Play symbol
-    case 'core-logic': return '\u2699';  // Gear
-    case 'issue': return '\u26A0';       // Warning (bug/todo/warning)
-    case 'note': return '\u2139';        // Info (explanation/reference)
-    default: return '\u2691';            // Flag
-  }
-}
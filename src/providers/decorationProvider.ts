@@ -1,19 +1,15 @@
 import * as vscode from 'vscode';
 import { BookmarkStoreManager } from '../store/bookmarkStore';
-import { Bookmark } from '../store/types';
-import { parseLocation, normalizePath } from '../utils';
+import { Bookmark, isClosedStatus } from '../store/types';
+import { getLocationsInFile, normalizePath } from '../utils';
+import { FALLBACK_CATEGORY_COLOR, findCategory } from '../store/categoryConfig';
+import { getLocationRange } from '../shared/editorHelpers';
 
-// Category colors (simplified to 4 categories)
-const CATEGORY_COLORS: Record<string, string> = {
-  'entry-point': '#4CAF50',   // Green
-  'core-logic': '#2196F3',    // Blue
-  'issue': '#FFC107',         // Amber (warning/bug/todo)
-  'note': '#607D8B'           // Gray (explanation/reference)
-};
-
-const DEFAULT_COLOR = '#888888';
+// 列范围高亮的背景不透明度 (#rrggbbaa 的 aa)
+const RANGE_HIGHLIGHT_ALPHA = '40';
 
 export class DecorationProvider implements vscode.Disposable {
+  // Decoration types keyed by gutter color (and closed state); category colors come from the workspace category config
   private decorationTypes: Map<string, vscode.TextEditorDecorationType> = new Map();
   private disposables: vscode.Disposable[] = [];
 
@@ -21,9 +17,6 @@ export class DecorationProvider implements vscode.Disposable {
     private store: BookmarkStoreManager,
     private workspaceRoot: string
   ) {
-    // Create decoration types for each category
-    this.createDecorationTypes();
-
     // Listen for store changes
     this.disposables.push(
       store.onDidChange(() => {
@@ -51,27 +44,42 @@ export class DecorationProvider implements vscode.Disposable {
     this.updateAllEditors();
   }
 
-  private createDecorationTypes(): void {
-    // Create decoration type for each category (gutter icon on first line only)
-    for (const [category, color] of Object.entries(CATEGORY_COLORS)) {
-      const decorationType = vscode.window.createTextEditorDecorationType({
-        gutterIconPath: this.createGutterIcon(color),
+  private getDecorationType(color: string, closed: boolean): vscode.TextEditorDecorationType {
+    const key = closed ? `${color}:closed` : color;
+    let decorationType = this.decorationTypes.get(key);
+    if (!decorationType) {
+      // Gutter icon on first line only
+      decorationType = vscode.window.createTextEditorDecorationType({
+        gutterIconPath: this.createGutterIcon(color, closed),
         gutterIconSize: 'contain'
       });
-      this.decorationTypes.set(category, decorationType);
+      this.decorationTypes.set(key, decorationType);
     }
+    return decorationType;
+  }
 
-    // Default decoration type
-    const defaultDecorationType = vscode.window.createTextEditorDecorationType({
-      gutterIconPath: this.createGutterIcon(DEFAULT_COLOR),
-      gutterIconSize: 'contain'
-    });
-    this.decorationTypes.set('default', defaultDecorationType);
+  // Background highlight for column-precise ranges
+  private getRangeDecorationType(color: string): vscode.TextEditorDecorationType {
+    const key = `${color}:range`;
+    let decorationType = this.decorationTypes.get(key);
+    if (!decorationType) {
+      decorationType = vscode.window.createTextEditorDecorationType({
+        backgroundColor: toTranslucent(color),
+        borderRadius: '2px'
+      });
+      this.decorationTypes.set(key, decorationType);
+    }
+    return decorationType;
   }
 
-  private createGutterIcon(color: string): vscode.Uri {
-    // Small dot icon for gutter
-    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16">
+  private createGutterIcon(color: string, closed: boolean): vscode.Uri {
+    // Small dot icon for gutter; resolved / wontfix issues get a faded ring with a check mark
+    const svg = closed
+      ? `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16" opacity="0.6">
+      <circle cx="8" cy="8" r="4.5" fill="none" stroke="${color}" stroke-width="1.5"/>
+      <path d="M6 8.2l1.4 1.4L10.2 6.6" fill="none" stroke="${color}" stroke-width="1.3"/>
+    </svg>`
+      : `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16">
       <circle cx="8" cy="8" r="4" fill="${color}"/>
     </svg>`;
     return vscode.Uri.parse(`data:image/svg+xml,${encodeURIComponent(svg)}`);
@@ -96,41 +104,34 @@ export class DecorationProvider implements vscode.Disposable {
     // Get bookmarks for this file
     const bookmarks = this.store.getBookmarksByFile(filePath);
 
-    // Group bookmarks by category
-    const bookmarksByCategory: Map<string, Array<{ bookmark: Bookmark; range: vscode.Range }>> = new Map();
+    // Group bookmarks by category color and closed state
+    const categories = this.store.getCategories();
+    const bookmarksByType: Map<string, { color: string; closed: boolean; items: Array<{ bookmark: Bookmark; range: vscode.Range; precise: boolean }> }> = new Map();
 
     for (const { bookmark } of bookmarks) {
-      try {
-        const parsed = parseLocation(bookmark.location);
-
-        // Create range (VSCode is 0-indexed, our format is 1-indexed)
-        const startLine = Math.max(0, parsed.startLine - 1);
-        const endLine = Math.max(0, parsed.endLine - 1);
-
-        // 获取行末位置, 避免使用 MAX_SAFE_INTEGER
-        const endLineLength = editor.document.lineAt(Math.min(endLine, editor.document.lineCount - 1)).text.length;
-        const range = new vscode.Range(
-          new vscode.Position(startLine, 0),
-          new vscode.Position(endLine, endLineLength)
-        );
-
-        const category = bookmark.category || 'default';
-        if (!bookmarksByCategory.has(category)) {
-          bookmarksByCategory.set(category, []);
+      const color = findCategory(categories, bookmark.category)?.color ?? FALLBACK_CATEGORY_COLOR;
+      const closed = isClosedStatus(bookmark.status);
+      const key = closed ? `${color}:closed` : color;
+
+      // 多位置书签在该文件中的每个位置都显示
+      for (const parsed of getLocationsInFile(bookmark, filePath)) {
+        const range = getLocationRange(editor.document, parsed);
+        const precise = parsed.startColumn !== undefined && parsed.endColumn !== undefined;
+
+        if (!bookmarksByType.has(key)) {
+          bookmarksByType.set(key, { color, closed, items: [] });
         }
-        bookmarksByCategory.get(category)!.push({ bookmark, range });
-      } catch (error) {
-        console.error(`Failed to parse bookmark location: ${bookmark.location}`, error);
+        bookmarksByType.get(key)!.items.push({ bookmark, range, precise });
       }
     }
 
     // Clear all decorations first
     this.clearDecorations(editor);
 
-    // Apply decorations by category
+    // Apply decorations by color
     // Note: hover content is provided by hoverProvider.ts, not here
-    for (const [category, items] of bookmarksByCategory) {
-      const decorationType = this.decorationTypes.get(category) || this.decorationTypes.get('default')!;
+    for (const { color, closed, items } of bookmarksByType.values()) {
+      const decorationType = this.getDecorationType(color, closed);
 
       // Only show gutter icon on the first line of each bookmark
       const decorations: vscode.DecorationOptions[] = items.map(({ range }) => ({
@@ -139,6 +140,19 @@ export class DecorationProvider implements vscode.Disposable {
 
       editor.setDecorations(decorationType, decorations);
     }
+
+    // 带列的位置额外高亮精确范围. 关闭的 issue 与未关闭的使用同一颜色, 先合并
+    const highlights: Map<string, vscode.Range[]> = new Map();
+    for (const { color, items } of bookmarksByType.values()) {
+      for (const { range, precise } of items) {
+        if (precise && !range.isEmpty) {
+          highlights.set(color, [...(highlights.get(color) ?? []), range]);
+        }
+      }
+    }
+    for (const [color, ranges] of highlights) {
+      editor.setDecorations(this.getRangeDecorationType(color), ranges);
+    }
   }
 
   private clearDecorations(editor: vscode.TextEditor): void {
@@ -153,3 +167,10 @@ export class DecorationProvider implements vscode.Disposable {
     this.decorationTypes.clear();
   }
 }
+
+/** #rgb / #rrggbb / #rrggbbaa -> 半透明的 #rrggbbaa */
+function toTranslucent(color: string): string {
+  const hex = color.slice(1);
+  const rgb = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex.slice(0, 6);
+  return `#${rgb}${RANGE_HIGHLIGHT_ALPHA}`;
+}
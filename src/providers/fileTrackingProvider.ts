@@ -0,0 +1,158 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BookmarkStoreManager } from '../store/bookmarkStore';
+import { filterGitIgnored } from '../store/gitRenames';
+
+// 终端中的 git mv、切换分支等修改会产生一连串文件事件, 合并后再检查
+const RECONCILE_DELAY_MS = 2000;
+// 启动时的检查推迟到激活之后, 不占用激活过程
+const STARTUP_RECONCILE_DELAY_MS = 3000;
+// store 目录中书签自身的文件 (mcp-bookmarks.json、历史、备份等), 每次写入都会产生事件
+const STORE_FILE_PREFIX = 'mcp-bookmarks';
+
+/**
+ * 跟随文件的重命名、移动和删除.
+ *
+ * 资源管理器中的重命名和删除直接修改书签位置或标记 orphaned; 编辑器之外的修改 (git mv、切换分支)
+ * 只能看到文件的删除和创建, 只检查文件是否存在; 通过 git 的重命名检测找到新路径 (reconcileFiles)
+ * 只在启动时 (激活之后) 和用户要求时进行, git 在后台执行. 忽略 store 自身的文件和被 .gitignore 忽略的文件.
+ */
+export class FileTrackingProvider implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private reconcileTimer: NodeJS.Timeout | undefined;
+  private startupTimer: NodeJS.Timeout | undefined;
+  private pendingPaths = new Set<string>();
+  private disposed = false;
+
+  constructor(
+    private store: BookmarkStoreManager,
+    private workspaceRoot: string
+  ) {
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*', false, true, false);
+    this.disposables.push(
+      vscode.workspace.onDidRenameFiles(event => this.onRename(event)),
+      vscode.workspace.onDidDeleteFiles(event => this.onDelete(event)),
+      watcher,
+      watcher.onDidCreate(uri => this.onFileEvent(uri)),
+      watcher.onDidDelete(uri => this.onFileEvent(uri))
+    );
+
+    this.startupTimer = setTimeout(() => {
+      this.startupTimer = undefined;
+      void this.reconcile(true);
+    }, STARTUP_RECONCILE_DELAY_MS);
+  }
+
+  private onRename(event: vscode.FileRenameEvent): void {
+    const renames = event.files
+      .filter(file => file.oldUri.scheme === 'file' && file.newUri.scheme === 'file')
+      .map(file => ({ oldPath: file.oldUri.fsPath, newPath: file.newUri.fsPath }));
+    if (renames.length === 0) {
+      return;
+    }
+
+    try {
+      const updated = this.store.renameFiles(renames);
+      if (updated.length > 0) {
+        vscode.window.setStatusBarMessage(`$(bookmark) Updated ${updated.length} bookmark(s) to the new path`, 5000);
+      }
+    } catch (error) {
+      console.error('Failed to update bookmarks for renamed files:', error);
+    }
+  }
+
+  private onDelete(event: vscode.FileDeleteEvent): void {
+    const paths = event.files.filter(uri => uri.scheme === 'file').map(uri => uri.fsPath);
+    if (paths.length === 0) {
+      return;
+    }
+
+    try {
+      void this.report(this.store.markFilesDeleted(paths));
+    } catch (error) {
+      console.error('Failed to mark bookmarks in deleted files:', error);
+    }
+  }
+
+  private onFileEvent(uri: vscode.Uri): void {
+    if (uri.scheme !== 'file' || this.isStoreFile(uri.fsPath)) {
+      return;
+    }
+    this.pendingPaths.add(uri.fsPath);
+
+    if (this.reconcileTimer) {
+      clearTimeout(this.reconcileTimer);
+    }
+    this.reconcileTimer = setTimeout(() => {
+      this.reconcileTimer = undefined;
+      void this.flushPending();
+    }, RECONCILE_DELAY_MS);
+  }
+
+  private async flushPending(): Promise<void> {
+    const paths = [...this.pendingPaths];
+    this.pendingPaths.clear();
+
+    const relevant = await filterGitIgnored(this.workspaceRoot, paths);
+    if (relevant.length > 0 && !this.disposed) {
+      await this.reconcile(false);
+    }
+  }
+
+  private isStoreFile(filePath: string): boolean {
+    const relative = path.relative(this.store.getStoreDir(), filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative) && relative.startsWith(STORE_FILE_PREFIX);
+  }
+
+  /**
+   * @param followRenames 是否通过 git 查找重命名 (启动时和用户要求时)
+   */
+  private async reconcile(followRenames: boolean): Promise<void> {
+    try {
+      const { renamed, orphaned } = await this.store.reconcileFiles(followRenames);
+      if (this.disposed) {
+        return;
+      }
+      if (renamed.length > 0) {
+        vscode.window.setStatusBarMessage(`$(bookmark) Followed ${renamed.length} bookmark(s) to renamed files`, 5000);
+      }
+      void this.report(orphaned, !followRenames);
+    } catch (error) {
+      console.error('Failed to check bookmarked files:', error);
+    }
+  }
+
+  /**
+   * @param offerRenames 提供通过 git 查找重命名的选项 (文件可能是在编辑器之外被移动的)
+   */
+  private async report(orphaned: string[], offerRenames = false): Promise<void> {
+    if (orphaned.length === 0) {
+      return;
+    }
+
+    const message = `${orphaned.length} bookmark(s) point to deleted files. Reattach or remove them under "Missing Files" in the sidebar.`;
+    if (!offerRenames) {
+      vscode.window.showWarningMessage(message);
+      return;
+    }
+    const action = await vscode.window.showWarningMessage(message, 'Find Moved Files');
+    if (action === 'Find Moved Files' && !this.disposed) {
+      await this.reconcile(true);
+    }
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.pendingPaths.clear();
+    if (this.reconcileTimer) {
+      clearTimeout(this.reconcileTimer);
+      this.reconcileTimer = undefined;
+    }
+    if (this.startupTimer) {
+      clearTimeout(this.startupTimer);
+      this.startupTimer = undefined;
+    }
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
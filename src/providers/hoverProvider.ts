@@ -1,7 +1,18 @@
 import * as vscode from 'vscode';
 import { BookmarkStoreManager } from '../store/bookmarkStore';
 import { Bookmark, BookmarkGroup } from '../store/types';
-import { parseLocation, normalizePath, getCategoryDisplayName } from '../utils';
+import {
+  parseLocation,
+  normalizePath,
+  getStatusDisplayName,
+  getStatusIcon,
+  getLinkTypeDisplayName,
+  getLocationsInFile,
+  parseBookmarkLocations,
+  formatLocation,
+  describeLocation
+} from '../utils';
+import { findCategory } from '../store/categoryConfig';
 
 export class BookmarkHoverProvider implements vscode.HoverProvider {
   constructor(
@@ -24,15 +35,9 @@ export class BookmarkHoverProvider implements vscode.HoverProvider {
     const matchingBookmarks: Array<{ bookmark: Bookmark; group: BookmarkGroup }> = [];
 
     for (const { bookmark, group } of bookmarks) {
-      try {
-        const parsed = parseLocation(bookmark.location);
-
-        // Check if the cursor line is within the bookmark's range
-        if (line >= parsed.startLine && line <= parsed.endLine) {
-          matchingBookmarks.push({ bookmark, group });
-        }
-      } catch (error) {
-        console.error(`Failed to parse bookmark location: ${bookmark.location}`, error);
+      // Check if the cursor line is within the range of any of the bookmark's locations in this file
+      if (getLocationsInFile(bookmark, filePath).some(parsed => line >= parsed.startLine && line <= parsed.endLine)) {
+        matchingBookmarks.push({ bookmark, group });
       }
     }
 
@@ -52,6 +57,7 @@ export class BookmarkHoverProvider implements vscode.HoverProvider {
     const md = new vscode.MarkdownString();
     md.isTrusted = true;
     md.supportHtml = true;
+    md.supportThemeIcons = true;
 
     // Simple header
     md.appendMarkdown(`#### MCP Bookmarks\n\n`);
@@ -77,7 +83,28 @@ export class BookmarkHoverProvider implements vscode.HoverProvider {
 
       // Metadata on separate lines for clarity
       if (bookmark.category) {
-        md.appendMarkdown(`**Category:** ${getCategoryDisplayName(bookmark.category)}\n\n`);
+        const category = findCategory(this.store.getCategories(), bookmark.category);
+        md.appendMarkdown(`**Category:** ${category ? `$(${category.icon}) ${category.label}` : bookmark.category}\n\n`);
+      }
+      if (bookmark.tags) {
+        md.appendMarkdown(`**Tags:** ${bookmark.tags.map(tag => `\`#${tag}\``).join(' ')}\n\n`);
+      }
+      this.appendLocations(md, bookmark);
+      if (bookmark.symbol) {
+        md.appendMarkdown(`**Symbol:** \`${bookmark.symbol}\`${bookmark.symbolOffset ? ` (line offset ${bookmark.symbolOffset})` : ''}\n\n`);
+      }
+      if (bookmark.needsReview) {
+        md.appendMarkdown(`$(warning) **Location needs review:** ${bookmark.needsReview.message}\n\n`);
+      }
+      if (bookmark.orphaned) {
+        md.appendMarkdown(`$(warning) **File missing:** ${bookmark.orphaned.files.map(file => `\`${file}\``).join(', ')}\n\n`);
+      }
+      this.appendLinks(md, bookmark);
+      if (bookmark.status) {
+        md.appendMarkdown(`**Status:** $(${getStatusIcon(bookmark.status)}) ${getStatusDisplayName(bookmark.status)}\n\n`);
+        if (bookmark.resolution) {
+          md.appendMarkdown(`**Resolution:** ${bookmark.resolution}\n\n`);
+        }
       }
 
     }
@@ -85,6 +112,50 @@ export class BookmarkHoverProvider implements vscode.HoverProvider {
     return md;
   }
 
+  /**
+   * All locations of a multi-location bookmark, each opening that location
+   */
+  private appendLocations(md: vscode.MarkdownString, bookmark: Bookmark): void {
+    if (!bookmark.locations) {
+      return;
+    }
+
+    const lines = parseBookmarkLocations(bookmark).map(parsed => {
+      const args = encodeURIComponent(JSON.stringify([{ path: parsed.filePath, line: parsed.startLine }]));
+      const text = describeLocation({ location: formatLocation(parsed), label: parsed.label }).replace(/[[\]]/g, '\\$&');
+      return `${parsed.index + 1}. [${text}](command:mcpBookmarks.openFile?${args})`;
+    });
+    md.appendMarkdown(`**Locations:**\n\n${lines.join('\n')}\n\n`);
+  }
+
+  /**
+   * Outgoing links and backlinks, each opening the other bookmark's location
+   */
+  private appendLinks(md: vscode.MarkdownString, bookmark: Bookmark): void {
+    const lines: string[] = [];
+
+    for (const { link, target } of this.store.getLinks(bookmark.id)) {
+      const name = getLinkTypeDisplayName(link.type, 'outgoing');
+      const label = target ? this.createBookmarkLink(target.bookmark, target.group) : '*(missing bookmark)*';
+      lines.push(`- ${name} ${label}${link.note ? ` — ${link.note}` : ''}`);
+    }
+    for (const { link, bookmark: source, group } of this.store.getBacklinks(bookmark.id)) {
+      const name = getLinkTypeDisplayName(link.type, 'incoming');
+      lines.push(`- ${name} ${this.createBookmarkLink(source, group)}${link.note ? ` — ${link.note}` : ''}`);
+    }
+
+    if (lines.length > 0) {
+      md.appendMarkdown(`**Links:**\n\n${lines.join('\n')}\n\n`);
+    }
+  }
+
+  private createBookmarkLink(bookmark: Bookmark, group: BookmarkGroup): string {
+    const parsed = parseLocation(bookmark.location);
+    const args = encodeURIComponent(JSON.stringify([{ path: parsed.filePath, line: parsed.startLine }]));
+    const title = bookmark.title.replace(/[[\]]/g, '\\$&');
+    return `[${title}](command:mcpBookmarks.openFile?${args}) *(${group.title})*`;
+  }
+
   /**
    * Convert markdown links [name](path) or [name](path:line) to VSCode command links
    */
@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BookmarkStoreManager } from '../store/bookmarkStore';
+
+/**
+ * 文件打开时按代码快照重新定位其中的书签 (见 snapshotRelocation).
+ *
+ * 打开时的内容即磁盘内容, 分支切换、git pull 等编辑器之外的修改在这里得到处理;
+ * 之后编辑器中的修改由行号漂移跟随. 有未保存修改的文件不处理.
+ */
+export class RelocationProvider implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private store: BookmarkStoreManager,
+    private workspaceRoot: string
+  ) {
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument(document => this.relocate(document))
+    );
+
+    // 激活之前已经打开的文件
+    vscode.workspace.textDocuments.forEach(document => this.relocate(document));
+  }
+
+  private relocate(document: vscode.TextDocument): void {
+    if (document.uri.scheme !== 'file' || document.isDirty) {
+      return;
+    }
+
+    try {
+      const { moved, flagged } = this.store.relocateBookmarksInFile(document.uri.fsPath, document.getText());
+      if (moved.length === 0 && flagged.length === 0) {
+        return;
+      }
+
+      const parts = [
+        moved.length > 0 ? `relocated ${moved.length}` : '',
+        flagged.length > 0 ? `${flagged.length} need review` : ''
+      ].filter(Boolean);
+      const fileName = path.relative(this.workspaceRoot, document.uri.fsPath);
+      vscode.window.setStatusBarMessage(`$(bookmark) Bookmarks in ${fileName}: ${parts.join(', ')}`, 5000);
+    } catch (error) {
+      console.error('Failed to relocate bookmarks:', error);
+    }
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
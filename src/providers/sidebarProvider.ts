@@ -2,8 +2,10 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { BookmarkStoreManager } from '../store/bookmarkStore';
-import { BookmarkGroup, Bookmark } from '../store/types';
-import { parseLocation, toAbsolutePath } from '../utils';
+import { getTrashItemTitle } from '../store/bookmarkStoreBase';
+import { BookmarkGroup, Bookmark, BookmarkStatus, BookmarkSortBy } from '../store/types';
+import { parseLocation, toAbsolutePath, normalizeTags, parseSince, getBookmarkLocations } from '../utils';
+import { findCategory } from '../store/categoryConfig';
 import { ConfigManager } from '../config/settings';
 
 export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
@@ -12,6 +14,12 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
   private _view?: vscode.WebviewView;
   private _disposables: vscode.Disposable[] = [];
   private _viewMode: 'group' | 'file' = 'group';
+  /** 当前的标签过滤, 保存在扩展端, Webview 重新加载后仍然有效 */
+  private _tagFilter?: string;
+  /** 书签的排序方式, 'created' / 'updated' 时同级书签按时间倒序 */
+  private _sortBy: BookmarkSortBy = 'order';
+  /** 只显示最近修改的书签, duration 为 "24h"、"7d" 这样的相对时间 */
+  private _recencyFilter?: { duration: string; label: string };
 
   /**
    * 获取当前视图模式
@@ -43,7 +51,8 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
     // 监听视图风格变化
     this._disposables.push(
       vscode.workspace.onDidChangeConfiguration(e => {
-        if (e.affectsConfiguration('mcpBookmarks.viewStyle')) {
+        if (e.affectsConfiguration('mcpBookmarks.viewStyle') ||
+            e.affectsConfiguration('mcpBookmarks.hideResolvedIssues')) {
           this.refresh();
         }
       })
@@ -94,6 +103,24 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
     }
 
     const groups = this.bookmarkStore.listGroups();
+    const trash = this.bookmarkStore.listTrash().map(item => ({
+      id: item.id,
+      kind: item.kind,
+      title: getTrashItemTitle(item),
+      groupTitle: item.groupTitle,
+      bookmarkCount: item.kind === 'group' ? item.group?.bookmarks.length ?? 0 : item.bookmarks?.length ?? 0,
+      deletedAt: item.deletedAt,
+      deletedBy: item.deletedBy
+    }));
+    // 位置所在的文件已被删除的书签
+    const orphaned = this.bookmarkStore.listOrphanedBookmarks().map(({ bookmark, group }) => ({
+      id: bookmark.id,
+      title: bookmark.title,
+      location: bookmark.location,
+      files: bookmark.orphaned!.files,
+      orphanedAt: bookmark.orphaned!.orphanedAt,
+      groupTitle: group.title
+    }));
     const config = vscode.workspace.getConfiguration('mcpBookmarks');
     const viewMode = config.get<string>('viewMode') || 'group';
     const viewStyle = config.get<string>('viewStyle') || 'nested';
@@ -102,8 +129,18 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
       type: 'refresh',
       data: {
         groups,
+        trash,
+        orphaned,
         viewMode,
-        viewStyle
+        viewStyle,
+        tagFilter: this._tagFilter ?? null,
+        sortBy: this._sortBy,
+        // 截止时间在每次刷新时重新计算
+        recencyFilter: this._recencyFilter
+          ? { label: this._recencyFilter.label, since: parseSince(this._recencyFilter.duration) }
+          : null,
+        hideResolved: config.get<boolean>('hideResolvedIssues', false),
+        categories: this.bookmarkStore.getCategories()
       }
     });
 
@@ -214,6 +251,36 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
     });
   }
 
+  /**
+   * 只显示带指定标签的书签, tag 为空时清除过滤
+   */
+  public filterByTag(tag: string | undefined): void {
+    this._tagFilter = tag ? normalizeTags([tag])?.[0] : undefined;
+    this.refresh();
+  }
+
+  public get sortBy(): BookmarkSortBy {
+    return this._sortBy;
+  }
+
+  /**
+   * 设置书签排序方式
+   */
+  public setSortBy(sortBy: BookmarkSortBy): void {
+    this._sortBy = sortBy;
+    this.refresh();
+  }
+
+  /**
+   * 只显示在 duration 内创建或修改过的书签, duration 为空时清除过滤
+   */
+  public filterByRecency(duration: string | undefined, label?: string): void {
+    this._recencyFilter = duration && parseSince(duration)
+      ? { duration, label: label ?? duration }
+      : undefined;
+    this.refresh();
+  }
+
   /**
    * 聚焦到指定书签 (用于 CodeLens 点击)
    */
@@ -234,6 +301,7 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
     type: string;
     bookmarkId?: string;
     groupId?: string;
+    trashId?: string;
     expanded?: boolean;
     query?: string;
     message?: string;
@@ -241,7 +309,9 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
     location?: string;
     path?: string;
     line?: number;
-    updates?: { title: string; location: string; description: string };
+    updates?: { title: string; location: string; description: string; tags?: string[] };
+    tag?: string | null;
+    status?: BookmarkStatus | null;
     payload?: any;
   }): Promise<void> {
     switch (message.type) {
@@ -341,6 +411,49 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
         }
         break;
 
+      case 'toggleGroupPrivate':
+        if (message.groupId) {
+          vscode.commands.executeCommand('mcpBookmarks.toggleGroupPrivate', {
+            type: 'group',
+            group: { id: message.groupId }
+          });
+        }
+        break;
+
+      case 'filterByTag':
+        this.filterByTag(message.tag ?? undefined);
+        break;
+
+      case 'filterByRecency':
+        // 过滤栏只能清除过滤
+        this.filterByRecency(undefined);
+        break;
+
+      case 'setStatus':
+        // status 未指定时由命令弹出选择
+        if (message.bookmarkId) {
+          const statusResult = this.bookmarkStore.getBookmark(message.bookmarkId);
+          if (statusResult) {
+            vscode.commands.executeCommand('mcpBookmarks.setStatus', {
+              type: 'bookmark',
+              bookmark: statusResult.bookmark
+            }, message.status);
+          }
+        }
+        break;
+
+      case 'reattachBookmark':
+        if (message.bookmarkId) {
+          const orphanResult = this.bookmarkStore.getBookmark(message.bookmarkId);
+          if (orphanResult) {
+            vscode.commands.executeCommand('mcpBookmarks.reattachBookmark', {
+              type: 'bookmark',
+              bookmark: orphanResult.bookmark
+            });
+          }
+        }
+        break;
+
       case 'ready':
         // Webview 已加载完成, 发送初始数据
         this.refresh();
@@ -422,11 +535,74 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
         }
         break;
 
+      case 'restoreFromTrash':
+        if (message.trashId) {
+          await this.handleRestoreFromTrash(message.trashId);
+        }
+        break;
+
+      case 'deleteFromTrash':
+        if (message.trashId) {
+          const confirm = await vscode.window.showWarningMessage(
+            'Permanently delete this item? It cannot be restored from the trash afterwards.',
+            { modal: true },
+            'Delete'
+          );
+          if (confirm === 'Delete') {
+            this.bookmarkStore.deleteFromTrash(message.trashId);
+          }
+        }
+        break;
+
+      case 'emptyTrash': {
+        const confirm = await vscode.window.showWarningMessage(
+          'Permanently delete all items in the trash?',
+          { modal: true },
+          'Empty Trash'
+        );
+        if (confirm === 'Empty Trash') {
+          this.bookmarkStore.emptyTrash();
+        }
+        break;
+      }
+
       default:
         console.warn(`Unknown message type: ${message.type}`);
     }
   }
 
+  /**
+   * 从回收站恢复. 书签原来的分组已被删除时, 让用户选择恢复到哪个分组
+   */
+  private async handleRestoreFromTrash(trashId: string): Promise<void> {
+    try {
+      let result = this.bookmarkStore.restoreFromTrash(trashId);
+
+      if (result === 'group_not_found') {
+        const groups = this.bookmarkStore.listGroups();
+        if (groups.length === 0) {
+          vscode.window.showWarningMessage('The original group no longer exists. Restore the group or create a new one first.');
+          return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+          groups.map(g => ({ label: g.title, description: g.description, groupId: g.id })),
+          { placeHolder: 'The original group no longer exists. Restore into:' }
+        );
+        if (!picked) {
+          return;
+        }
+        result = this.bookmarkStore.restoreFromTrash(trashId, picked.groupId);
+      }
+
+      if (result === 'not_found') {
+        vscode.window.showWarningMessage('This item is no longer in the trash');
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to restore from trash: ${error}`);
+    }
+  }
+
   /**
    * 跳转到书签位置
    */
@@ -513,6 +689,14 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
     });
   }
 
+  /**
+   * 侧边栏添加的书签使用 mcpBookmarks.defaultCategory, 未设置或不在分类配置中时不设置分类
+   */
+  private getDefaultCategory(): string | undefined {
+    const id = vscode.workspace.getConfiguration('mcpBookmarks').get<string>('defaultCategory')?.trim();
+    return findCategory(this.bookmarkStore.getCategories(), id)?.id;
+  }
+
   /**
    * 处理添加书签 (在目标书签后添加同级书签)
    */
@@ -524,7 +708,6 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
       title: string;
       location: string;
       description: string;
-      category: string;
     };
   }): Promise<void> {
     try {
@@ -536,24 +719,12 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
           return;
         }
 
-        const { bookmark: targetBookmark, group } = targetResult;
+        const { bookmark: targetBookmark } = targetResult;
 
         // 2. 计算新书签的 order (在目标书签后面)
         const newOrder = targetBookmark.order + 1;
 
-        // 3. 获取所有同级书签 (相同 parentId)
-        const siblings = group.bookmarks.filter(
-          b => b.parentId === targetBookmark.parentId
-        );
-
-        // 4. 调整后续书签的 order (+1)
-        siblings.forEach(sibling => {
-          if (sibling.order >= newOrder && sibling.id !== payload.targetBookmarkId) {
-            sibling.order += 1;
-          }
-        });
-
-        // 5. 添加新书签
+        // 3. 添加新书签, 后续同级书签的 order 由 store 在同一次写入中 +1
         const newBookmarkId = this.bookmarkStore.addBookmark(
           payload.groupId,
           payload.bookmark.location,
@@ -562,7 +733,8 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
           {
             parentId: payload.parentId || undefined,
             order: newOrder,
-            category: payload.bookmark.category as any
+            category: this.getDefaultCategory(),
+            shiftSiblings: true
           }
         );
 
@@ -580,7 +752,7 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
           payload.bookmark.description,
           {
             parentId: payload.parentId || undefined,
-            category: payload.bookmark.category as any
+            category: this.getDefaultCategory()
           }
         );
 
@@ -605,7 +777,6 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
       title: string;
       location: string;
       description: string;
-      category: string;
     };
   }): Promise<void> {
     try {
@@ -615,7 +786,7 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
         payload.bookmark.title,
         payload.bookmark.description,
         {
-          category: payload.bookmark.category as any
+          category: this.getDefaultCategory()
         }
       );
 
@@ -646,12 +817,20 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
 
     const allBookmarks = this.bookmarkStore.getAllBookmarks();
     const lowerQuery = query.toLowerCase();
+    // "#tag" 只匹配标签
+    const tagQuery = lowerQuery.startsWith('#') ? lowerQuery.slice(1).trim() : undefined;
 
     const results = allBookmarks.filter(({ bookmark, group }) => {
+      if (tagQuery !== undefined) {
+        return bookmark.tags?.some(tag => tag.includes(tagQuery)) ?? false;
+      }
       return (
         bookmark.title.toLowerCase().includes(lowerQuery) ||
+        (bookmark.tags?.some(tag => tag.includes(lowerQuery)) ?? false) ||
         bookmark.description.toLowerCase().includes(lowerQuery) ||
-        bookmark.location.toLowerCase().includes(lowerQuery) ||
+        getBookmarkLocations(bookmark).some(entry =>
+          entry.location.toLowerCase().includes(lowerQuery) || (entry.label?.toLowerCase().includes(lowerQuery) ?? false)
+        ) ||
         group.title.toLowerCase().includes(lowerQuery)
       );
     });
@@ -670,7 +849,7 @@ export class BookmarkSidebarProvider implements vscode.WebviewViewProvider {
    */
   private async handleUpdateBookmarkFull(
     bookmarkId: string,
-    updates: { title: string; location: string; description: string }
+    updates: { title: string; location: string; description: string; tags?: string[] }
   ): Promise<void> {
     try {
       // 1. 解析 location 格式
@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import { BookmarkStoreManager } from '../store/bookmarkStore';
+import { Bookmark } from '../store/types';
+import { normalizePath, parseLocation, splitSymbolPath } from '../utils';
+
+/**
+ * 符号锚点: 带 symbol 的书签通过语言服务的 document symbol provider 重新定位.
+ *
+ * 文件打开时 (git pull、格式化工具等编辑器之外的修改之后), 主位置移到符号声明行 + symbolOffset;
+ * 文件保存时, 编辑器中的修改已由行号漂移跟随, 反过来按当前位置更新 symbolOffset.
+ * 语言服务尚未就绪时没有结果, 切换到该文件的编辑器时再次尝试.
+ */
+export class SymbolAnchorProvider implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private store: BookmarkStoreManager,
+    private workspaceRoot: string
+  ) {
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument(document => {
+        this.resolve(document, 'move');
+      }),
+      vscode.workspace.onDidSaveTextDocument(document => {
+        this.resolve(document, 'refresh');
+      }),
+      vscode.window.onDidChangeActiveTextEditor(editor => {
+        // 有未保存的修改时位置由行号漂移跟随, 偏移可能已经过期
+        if (editor && !editor.document.isDirty) {
+          this.resolve(editor.document, 'move');
+        }
+      })
+    );
+
+    // 激活之前已经打开的文件
+    vscode.workspace.textDocuments.forEach(document => this.resolve(document, 'move'));
+  }
+
+  private async resolve(document: vscode.TextDocument, mode: 'move' | 'refresh'): Promise<void> {
+    if (document.uri.scheme !== 'file') {
+      return;
+    }
+
+    // 符号锚点只作用于主位置
+    const filePath = normalizePath(document.uri.fsPath, this.workspaceRoot);
+    const anchored = this.store.getBookmarksByFile(filePath)
+      .map(({ bookmark }) => bookmark)
+      .filter(bookmark => bookmark.symbol && isPrimaryIn(bookmark, filePath));
+    if (anchored.length === 0) {
+      return;
+    }
+
+    const version = document.version;
+    let symbols: Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined;
+    try {
+      symbols = await vscode.commands.executeCommand<Array<vscode.DocumentSymbol | vscode.SymbolInformation>>(
+        'vscode.executeDocumentSymbolProvider',
+        document.uri
+      );
+    } catch (error) {
+      console.error(`Failed to get document symbols for ${filePath}:`, error);
+      return;
+    }
+
+    // 等待期间文档又被修改, 结果已经过期
+    if (!symbols || symbols.length === 0 || document.version !== version) {
+      return;
+    }
+
+    const candidates = flattenSymbols(symbols);
+    const symbolLines = new Map<string, number>();
+    for (const bookmark of anchored) {
+      const line = findSymbol(candidates, bookmark.symbol!);
+      if (line !== undefined) {
+        symbolLines.set(bookmark.id, line);
+      }
+    }
+
+    try {
+      if (mode === 'move') {
+        this.store.moveToSymbolAnchors(symbolLines);
+      } else {
+        this.store.refreshSymbolOffsets(symbolLines);
+      }
+    } catch (error) {
+      console.error(`Failed to update symbol anchors for ${filePath}:`, error);
+    }
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
+
+interface SymbolCandidate {
+  path: string[];                // 包含容器的完整路径, 如 ["BetService", "placeBet"]
+  line: number;                  // 符号名所在行 (1-based)
+}
+
+function isPrimaryIn(bookmark: Bookmark, filePath: string): boolean {
+  try {
+    return parseLocation(bookmark.location).filePath === filePath;
+  } catch {
+    return false;
+  }
+}
+
+/** 按文档顺序展开符号树. 部分语言服务返回扁平的 SymbolInformation, 容器由 containerName 给出 */
+function flattenSymbols(
+  symbols: Array<vscode.DocumentSymbol | vscode.SymbolInformation>,
+  container: string[] = []
+): SymbolCandidate[] {
+  const result: SymbolCandidate[] = [];
+  for (const symbol of symbols) {
+    if ('selectionRange' in symbol) {
+      const path = [...container, ...splitSymbolPath(symbol.name)];
+      result.push({ path, line: symbol.selectionRange.start.line + 1 });
+      result.push(...flattenSymbols(symbol.children ?? [], path));
+    } else {
+      const path = [...splitSymbolPath(symbol.containerName ?? ''), ...splitSymbolPath(symbol.name)];
+      result.push({ path, line: symbol.location.range.start.line + 1 });
+    }
+  }
+  return result;
+}
+
+/** 完整路径相同的符号优先, 否则取第一个路径以锚点结尾的符号 (如锚点 "placeBet" 匹配 "BetService.placeBet") */
+function findSymbol(candidates: SymbolCandidate[], symbol: string): number | undefined {
+  const wanted = splitSymbolPath(symbol);
+  if (wanted.length === 0) {
+    return undefined;
+  }
+
+  const endsWith = (path: string[]) =>
+    path.length >= wanted.length && wanted.every((name, i) => path[path.length - wanted.length + i] === name);
+
+  return (candidates.find(c => c.path.length === wanted.length && endsWith(c.path))
+    ?? candidates.find(c => endsWith(c.path)))?.line;
+}
@@ -3,7 +3,9 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { BookmarkStoreManager } from '../store/bookmarkStore';
 import { Bookmark, BookmarkGroup } from '../store/types';
-import { parseLocation, getCategoryDisplayName, toAbsolutePath } from '../utils';
+import { parseLocation, toAbsolutePath, getLinkTypeDisplayName } from '../utils';
+import { findCategory } from '../store/categoryConfig';
+import { pickBookmarkLocation, getLocationRange, readWorkspaceFile } from '../shared/editorHelpers';
 
 export class BookmarkDetailProvider {
   private static currentPanel: vscode.WebviewPanel | undefined;
@@ -121,9 +123,24 @@ export class BookmarkDetailProvider {
           id: bookmark.id,
           title: bookmark.title,
           location: bookmark.location,
+          // 多位置书签的全部位置, 单位置书签为 undefined
+          locations: bookmark.locations,
           description: bookmark.description,
           category: bookmark.category,
-          order: bookmark.order
+          // 分类的显示名称、颜色和图标来自工作区配置
+          categoryInfo: findCategory(this.bookmarkStore.getCategories(), bookmark.category),
+          tags: bookmark.tags ?? [],
+          status: bookmark.status,
+          resolution: bookmark.resolution,
+          statusChangedAt: bookmark.statusChangedAt,
+          resolvedAt: bookmark.resolvedAt,
+          createdAt: bookmark.createdAt,
+          updatedAt: bookmark.updatedAt,
+          createdBy: bookmark.createdBy,
+          author: bookmark.author,
+          client: bookmark.client,
+          order: bookmark.order,
+          hasSnapshot: !!bookmark.codeSnapshot
         },
         group: {
           id: group.id,
@@ -132,19 +149,64 @@ export class BookmarkDetailProvider {
         },
         parent: parentInfo,
         children,
-        hasChildren: children.length > 0
+        hasChildren: children.length > 0,
+        links: this.bookmarkStore.getLinks(bookmarkId).map(({ link, target }) => ({
+          id: link.targetId,
+          typeLabel: getLinkTypeDisplayName(link.type, 'outgoing'),
+          note: link.note,
+          ...(target
+            ? { title: target.bookmark.title, location: target.bookmark.location, groupTitle: target.group.title }
+            : { missing: true })
+        })),
+        backlinks: this.bookmarkStore.getBacklinks(bookmarkId).map(({ link, bookmark: source, group: sourceGroup }) => ({
+          id: source.id,
+          typeLabel: getLinkTypeDisplayName(link.type, 'incoming'),
+          note: link.note,
+          title: source.title,
+          location: source.location,
+          groupTitle: sourceGroup.title
+        }))
       }
     });
 
     // 更新面板标题
     panel.title = `📍 ${bookmark.title}`;
+
+    if (bookmark.codeSnapshot) {
+      this.postSnapshotComparison(bookmark);
+    }
   }
 
-  private handleWebviewMessage(message: { type: string; bookmarkId?: string }): void {
+  /**
+   * 比较代码快照与当前代码, 结果发送给 Webview 显示 inline diff
+   */
+  private async postSnapshotComparison(bookmark: Bookmark): Promise<void> {
+    const result = await this.bookmarkStore.checkBookmarkValidity(bookmark.id, async filePath => readWorkspaceFile(filePath));
+
+    // 比较期间切换到了其他书签
+    const panel = BookmarkDetailProvider.currentPanel;
+    if (!panel || this.currentBookmarkId !== bookmark.id) {
+      return;
+    }
+
+    let startLine = 1;
+    try {
+      startLine = parseLocation(bookmark.location).startLine;
+    } catch {
+      // 位置无效时 result 中已有说明
+    }
+
+    panel.webview.postMessage({
+      type: 'snapshot',
+      data: { bookmarkId: bookmark.id, startLine, ...result }
+    });
+  }
+
+  private handleWebviewMessage(message: { type: string; bookmarkId?: string; tag?: string; locationIndex?: number }): void {
     switch (message.type) {
       case 'jumpToCode':
         if (message.bookmarkId) {
-          this.jumpToBookmark(message.bookmarkId);
+          this.jumpToBookmark(message.bookmarkId, message.locationIndex);
         }
         break;
 
@@ -154,35 +216,51 @@ export class BookmarkDetailProvider {
         }
         break;
 
+      case 'filterByTag':
+        if (message.tag) {
+          vscode.commands.executeCommand('mcpBookmarks.filterByTag', message.tag);
+        }
+        break;
+
+      case 'setStatus':
+      case 'acceptSnapshot':
+      case 'relocateBookmark':
+        if (message.bookmarkId) {
+          const result = this.bookmarkStore.getBookmark(message.bookmarkId);
+          if (result) {
+            vscode.commands.executeCommand(`mcpBookmarks.${message.type}`, { type: 'bookmark', bookmark: result.bookmark });
+          }
+        }
+        break;
+
       default:
         console.warn(`Unknown message type: ${message.type}`);
     }
   }
 
-  private async jumpToBookmark(bookmarkId: string): Promise<void> {
+  private async jumpToBookmark(bookmarkId: string, locationIndex?: number): Promise<void> {
     const result = this.bookmarkStore.getBookmark(bookmarkId);
     if (!result) {
       vscode.window.showErrorMessage(`Bookmark not found: ${bookmarkId}`);
       return;
     }
 
-    const { bookmark } = result;
+    // 多位置书签: 未指定位置时选择要跳转的位置
+    const target = await pickBookmarkLocation(result.bookmark, locationIndex);
+    if (!target) {
+      return;
+    }
 
     try {
-      const parsed = parseLocation(bookmark.location);
+      const parsed = parseLocation(target.location);
       const absolutePath = toAbsolutePath(parsed.filePath, this.workspaceRoot);
 
       const uri = vscode.Uri.file(absolutePath);
       const document = await vscode.workspace.openTextDocument(uri);
       const editor = await vscode.window.showTextDocument(document, vscode.ViewColumn.One);
 
-      // 跳转到指定行并选中范围
-      const range = new vscode.Range(
-        parsed.startLine - 1,
-        0,
-        parsed.endLine - 1,
-        document.lineAt(parsed.endLine - 1).text.length
-      );
+      // 跳转到指定位置并选中范围 (带列的位置精确选中)
+      const range = getLocationRange(document, parsed);
 
       editor.selection = new vscode.Selection(range.start, range.end);
       editor.revealRange(range, vscode.TextEditorRevealType.InCenter);
@@ -1,9 +1,16 @@
-import { BookmarkCategory } from '../store/types';
+import * as vscode from 'vscode';
+import { CategoryDefinition } from '../store/categoryConfig';
 
-// 书签分类定义, 用于 QuickPick 等 UI 组件
-export const BOOKMARK_CATEGORIES: Array<{ label: BookmarkCategory; description: string }> = [
-  { label: 'entry-point', description: 'Entry point to a feature or module' },
-  { label: 'core-logic', description: 'Core business logic' },
-  { label: 'issue', description: 'Problem, bug, or todo item' },
-  { label: 'note', description: 'Explanation or reference' }
-];
+export interface CategoryQuickPickItem extends vscode.QuickPickItem {
+  categoryId: string;
+}
+
+// 书签分类的 QuickPick 选项, 分类来自工作区的分类配置
+export function getCategoryQuickPickItems(categories: CategoryDefinition[]): CategoryQuickPickItem[] {
+  return categories.map(c => ({
+    label: `$(${c.icon}) ${c.label}`,
+    description: c.id,
+    detail: c.description || undefined,
+    categoryId: c.id
+  }));
+}
@@ -1,7 +1,92 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
 import { BookmarkStoreManager } from '../store/bookmarkStore';
-import { parseLocation } from '../utils';
+import { Bookmark, BookmarkLocation, ParsedLocation } from '../store/types';
+import { parseBookmarkLocations, getBookmarkLocations } from '../utils';
+
+/**
+ * 选择书签要跳转的位置: 单位置书签直接返回, 多位置书签弹出选择
+ * @param locationIndex 指定位置的序号时不弹出选择
+ * @returns 选中的位置, 取消则返回 undefined
+ */
+export async function pickBookmarkLocation(bookmark: Bookmark, locationIndex?: number): Promise<BookmarkLocation | undefined> {
+  const locations = getBookmarkLocations(bookmark);
+  if (locationIndex !== undefined) {
+    return locations[locationIndex] ?? locations[0];
+  }
+  if (locations.length === 1) {
+    return locations[0];
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    locations.map((entry, index) => ({
+      label: `$(location) ${entry.label ?? `Location ${index + 1}`}`,
+      description: entry.location,
+      entry
+    })),
+    { placeHolder: `"${bookmark.title}" has ${locations.length} locations` }
+  );
+  return selected?.entry;
+}
+
+/**
+ * 书签位置在文档中的范围: 带列的位置精确到列, 否则覆盖整行
+ */
+export function getLocationRange(document: vscode.TextDocument, parsed: ParsedLocation): vscode.Range {
+  // VSCode 是 0-indexed, 书签位置是 1-indexed. 超出文档的行号限制在最后一行
+  const lastLine = Math.max(0, document.lineCount - 1);
+  const startLine = Math.min(Math.max(0, parsed.startLine - 1), lastLine);
+  const endLine = Math.min(Math.max(0, parsed.endLine - 1), lastLine);
+
+  if (parsed.startColumn !== undefined && parsed.endColumn !== undefined) {
+    // validatePosition 把超出行末的列限制在行末
+    return new vscode.Range(
+      document.validatePosition(new vscode.Position(startLine, parsed.startColumn - 1)),
+      document.validatePosition(new vscode.Position(endLine, parsed.endColumn - 1))
+    );
+  }
+
+  return new vscode.Range(
+    new vscode.Position(startLine, 0),
+    new vscode.Position(endLine, document.lineAt(endLine).text.length)
+  );
+}
+
+/**
+ * 读取文件内容: 已打开的文件使用编辑器中的内容 (与行号漂移后的位置一致), 否则读取磁盘
+ * @returns 文件不存在时返回 undefined
+ */
+export function readWorkspaceFile(absolutePath: string): string | undefined {
+  const document = vscode.workspace.textDocuments.find(d => d.uri.fsPath === absolutePath);
+  if (document) {
+    return document.getText();
+  }
+  try {
+    return fs.readFileSync(absolutePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 当前选区对应的书签位置. 选中一行中的一部分时精确到列, 否则按行
+ */
+export function getSelectionLocation(editor: vscode.TextEditor, workspaceRoot: string): string {
+  const { start, end } = editor.selection;
+  const relativePath = path.relative(workspaceRoot, editor.document.uri.fsPath);
+
+  const lineLength = editor.document.lineAt(start.line).text.length;
+  const partialLine = start.line === end.line && !start.isEqual(end) &&
+    (start.character > 0 || end.character < lineLength);
+  if (partialLine) {
+    return `${relativePath}:${start.line + 1}:${start.character + 1}-${end.line + 1}:${end.character + 1}`;
+  }
+
+  return start.line === end.line
+    ? `${relativePath}:${start.line + 1}`
+    : `${relativePath}:${start.line + 1}-${end.line + 1}`;
+}
 
 /**
  * 在临时编辑器中编辑多行文本, 关闭后确认保存
@@ -100,11 +185,14 @@ export async function navigateBookmark(
   }
 
   // 按文件和行号排序
+  // 多位置书签的每个位置都是一个导航点
   const sortedBookmarks = allBookmarks
-    .map(({ bookmark }) => {
-      const parsed = parseLocation(bookmark.location);
-      return { bookmark, filePath: parsed.filePath, line: parsed.startLine };
-    })
+    .flatMap(({ bookmark }) => parseBookmarkLocations(bookmark).map(parsed => ({
+      bookmark,
+      index: parsed.index,
+      filePath: parsed.filePath,
+      line: parsed.startLine
+    })))
     .sort((a, b) => {
       if (a.filePath !== b.filePath) {
         return a.filePath.localeCompare(b.filePath);
@@ -142,6 +230,7 @@ export async function navigateBookmark(
   }
 
   if (targetIdx >= 0 && targetIdx < sortedBookmarks.length) {
-    await vscode.commands.executeCommand('mcpBookmarks.jumpTo', sortedBookmarks[targetIdx].bookmark);
+    const target = sortedBookmarks[targetIdx];
+    await vscode.commands.executeCommand('mcpBookmarks.jumpTo', target.bookmark, target.index);
   }
 }
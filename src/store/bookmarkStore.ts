@@ -1,17 +1,45 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { BookmarkStoreBase } from './bookmarkStoreBase';
+import { BookmarkStoreBase, DEFAULT_TRASH_RETENTION_DAYS } from './bookmarkStoreBase';
 import {
   BookmarkStore,
   BookmarkGroup,
   Bookmark,
+  BookmarkLocation,
+  BookmarkReview,
+  CodeSnapshot,
+  LocationEdit,
+  ParsedLocation,
+  RelocationSummary,
+  StoreConflict,
   createDefaultStore
 } from './types';
-import { nowISO, parseLocation, normalizePath, formatLocation, adjustLineNumbers, stringifyWithUnicode } from '../utils';
-
-const STORE_FILE_NAME = 'mcp-bookmarks.json';
-const STORE_DIR = '.vscode';
+import { nowISO, parseLocation, normalizePath, formatLocation, adjustLocationForEdit, getBookmarkLocations, toAbsolutePath } from '../utils';
+import { RelocationCandidate, RelocationResult, SNAPSHOT_CONTEXT_LINES, relocateSnapshot, hashSnapshotCode, limitSnapshotCode } from './snapshotRelocation';
+import { SnapshotComparison, compareSnapshot } from './snapshotDiff';
+import { withFileLock } from './storeIO';
+import { formatConflict } from './storeMerge';
+import { HISTORY_FILE_NAME } from './operationJournal';
+import { MigrationResult, formatMigrationResult } from './storeMigrations';
+import { RepairReport, formatRepairReport } from './storeRepair';
+import { DEFAULT_BACKUP_RETENTION } from './storeBackups';
+import {
+  StorageLayout,
+  STORE_FILE_NAME,
+  SPLIT_DIR_NAME,
+  detectLayout,
+  convertLayout
+} from './storeLayout';
+import { StorageBackendKind, detectBackend, convertBackend } from './storageBackend';
+import { SQLITE_FILE_NAME, initSqlite } from './sqliteBackend';
+import { resolveStoreDir } from './storeLocation';
+import { CATEGORIES_FILE_NAME } from './categoryConfig';
+import { ConfigManager } from '../config/settings';
+
+const LOCK_FILE_NAME = 'mcp-bookmarks.json.lock';
+// 编辑停止多久后写入行号漂移 (保存文件时立即写入)
+const LOCATION_SAVE_DELAY_MS = 2000;
 
 /**
  * VSCode 版 BookmarkStoreManager.
@@ -19,56 +47,68 @@ const STORE_DIR = '.vscode';
  * 只实现 I/O, 通知, 以及 VSCode 特有功能.
  */
 export class BookmarkStoreManager extends BookmarkStoreBase {
-  private storePath: string;
   private fileWatcher: vscode.FileSystemWatcher | undefined;
+  private privateFileWatcher: vscode.FileSystemWatcher | undefined;
+  private categoriesWatcher: vscode.FileSystemWatcher | undefined;
+  private configListener: vscode.Disposable | undefined;
+  private locationSaveTimer: NodeJS.Timeout | undefined;
 
   private readonly _onDidChange = new vscode.EventEmitter<void>();
   public readonly onDidChange = this._onDidChange.event;
 
   constructor(workspaceRoot: string) {
-    // 先计算 storePath, 因为 super() 会调用 loadFromDisk() 需要用到
-    // 但 super() 必须在第一行, 所以 storePath 在 loadFromDisk() 内部自行计算
-    super(workspaceRoot);
-    this.storePath = path.join(workspaceRoot, STORE_DIR, STORE_FILE_NAME);
+    // super() 会调用 loadFromDisk(), 此时子类字段尚未初始化, 路径均在方法内部现场计算
+    super(workspaceRoot, BookmarkStoreManager.resolveStoreDir(workspaceRoot));
     this.setupFileWatcher();
+    this.applyStorageLayout();
+    void this.applyStorageBackend();
+
+    this.configListener = vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('mcpBookmarks.storageLayout')) {
+        this.applyStorageLayout();
+      }
+      if (e.affectsConfiguration('mcpBookmarks.storageBackend')) {
+        void this.applyStorageBackend();
+      }
+      if (e.affectsConfiguration('mcpBookmarks.storeDirectory')) {
+        void this.promptReloadForStoreDirectory();
+      }
+    });
+  }
+
+  /** 设置 mcpBookmarks.storeDirectory, 环境变量 MCP_BOOKMARKS_STORE_DIR, 或默认的 .vscode */
+  static resolveStoreDir(workspaceRoot: string): string {
+    return resolveStoreDir(workspaceRoot, ConfigManager.get<string>('storeDirectory', ''));
+  }
+
+  /** 工作区是否使用 SQLite 后端, 是则需要在创建 store 之前加载 sql.js (见 initSqlite) */
+  static usesSqlite(workspaceRoot: string): boolean {
+    const storeDir = BookmarkStoreManager.resolveStoreDir(workspaceRoot);
+    return (detectBackend(storeDir) ?? ConfigManager.get<string>('storageBackend', 'auto')) === 'sqlite';
   }
 
   // --- 抽象方法实现 ---
 
   protected loadFromDisk(): BookmarkStore {
-    // storePath 可能还没被 constructor 赋值 (super() 调用时), 需要现场计算
-    const storePath = path.join(this.workspaceRoot, STORE_DIR, STORE_FILE_NAME);
+    const storeDir = this.getStoreDir();
 
-    try {
-      // 数据迁移: 如果旧的 ai-bookmarks.json 存在且新文件不存在, 自动重命名
-      const oldPath = path.join(this.workspaceRoot, STORE_DIR, 'ai-bookmarks.json');
-      if (fs.existsSync(oldPath) && !fs.existsSync(storePath)) {
-        fs.renameSync(oldPath, storePath);
-      }
-
-      if (fs.existsSync(storePath)) {
-        const content = fs.readFileSync(storePath, 'utf-8');
-        const parsed = JSON.parse(content) as BookmarkStore;
-        const { store, migrated } = this.migrateStore(parsed);
-        if (migrated) {
-          this.writeStoreToFile(store, storePath);
-        }
-        return store;
-      }
-    } catch (error) {
-      console.error('Failed to load bookmark store:', error);
+    // 数据迁移: 如果旧的 ai-bookmarks.json 存在且新文件不存在, 自动重命名
+    const oldPath = path.join(storeDir, 'ai-bookmarks.json');
+    if (fs.existsSync(oldPath) && !detectBackend(storeDir)) {
+      fs.renameSync(oldPath, path.join(storeDir, STORE_FILE_NAME));
     }
 
-    return createDefaultStore(path.basename(this.workspaceRoot));
+    // 读取失败时抛出异常, 不能返回默认 store, 否则下次写入会覆盖原文件
+    const store = this.readAndUpgrade();
+    return store ?? createDefaultStore(path.basename(this.workspaceRoot));
   }
 
-  protected saveToDisk(): void {
+  protected saveToDisk(store: BookmarkStore): BookmarkStore {
     try {
-      const storePath = this.storePath ?? path.join(this.workspaceRoot, STORE_DIR, STORE_FILE_NAME);
-      this.writeStoreToFile(this.store, storePath);
+      return this.getBackend().save(store);
     } catch (error) {
-      console.error('Failed to save bookmark store:', error);
       vscode.window.showErrorMessage(`Failed to save bookmarks: ${error}`);
+      throw error;
     }
   }
 
@@ -76,21 +116,209 @@ export class BookmarkStoreManager extends BookmarkStoreBase {
     this._onDidChange.fire();
   }
 
-  // --- 私有工具方法 ---
+  protected withStoreLock<T>(fn: () => T): T {
+    return withFileLock(path.join(this.getStoreDir(), LOCK_FILE_NAME), fn);
+  }
+
+  protected getJournalPath(): string {
+    return path.join(this.getStoreDir(), HISTORY_FILE_NAME);
+  }
+
+  protected getTrashRetentionDays(): number {
+    return ConfigManager.get<number>('trashRetentionDays', DEFAULT_TRASH_RETENTION_DAYS);
+  }
+
+  protected getBackupRetention(): number {
+    return ConfigManager.get<number>('backupRetention', DEFAULT_BACKUP_RETENTION);
+  }
+
+  protected getSnapshotContextLines(): number {
+    return ConfigManager.get<number>('snapshotContextLines', SNAPSHOT_CONTEXT_LINES);
+  }
+
+  // 已打开的文件使用编辑器中的内容, 与书签位置一致
+  protected readSnapshotSource(absolutePath: string): string | undefined {
+    const document = vscode.workspace.textDocuments.find(d => d.uri.fsPath === absolutePath);
+    return document ? document.getText() : super.readSnapshotSource(absolutePath);
+  }
+
+  protected reportMigration(result: MigrationResult): void {
+    const message = formatMigrationResult(result);
+    if (result.newerThanSupported) {
+      vscode.window.showWarningMessage(message);
+      return;
+    }
+
+    const backupPath = result.backupPath;
+    vscode.window.showInformationMessage(message, ...(backupPath ? ['Open Backup'] : [])).then(selection => {
+      if (selection === 'Open Backup' && backupPath) {
+        vscode.window.showTextDocument(vscode.Uri.file(backupPath), { preview: true });
+      }
+    });
+  }
+
+  protected reportRepair(report: RepairReport): void {
+    const actions = report.files.length > 0 ? ['Open Diff', 'Show Details'] : ['Show Details'];
+    vscode.window.showWarningMessage(formatRepairReport(report), ...actions).then(selection => {
+      if (selection === 'Open Diff') {
+        void this.openRepairDiff(report);
+      } else if (selection === 'Show Details') {
+        vscode.window.showInformationMessage(report.repairs.join('\n'), { modal: true });
+      }
+    });
+  }
+
+  protected reportCategoryError(error: string): void {
+    vscode.window.showWarningMessage(`${error}. Using the built-in categories.`, 'Open File').then(selection => {
+      if (selection === 'Open File') {
+        void vscode.window.showTextDocument(vscode.Uri.file(this.getCategoriesLocation()));
+      }
+    });
+  }
+
+  /** 对比隔离的原始内容与修复后的文件, 多个文件被修复时先选择 */
+  private async openRepairDiff(report: RepairReport): Promise<void> {
+    let file = report.files[0];
+    if (report.files.length > 1) {
+      const picked = await vscode.window.showQuickPick(
+        report.files.map(f => ({ label: path.basename(f.path), file: f })),
+        { placeHolder: 'Select a repaired file to compare' }
+      );
+      if (!picked) {
+        return;
+      }
+      file = picked.file;
+    }
+
+    const original = vscode.Uri.file(file.quarantinePath);
+    // 修复后文件可能已不存在 (如回收站被清空后 trash.json 会被删除)
+    if (!fs.existsSync(file.path)) {
+      await vscode.window.showTextDocument(original, { preview: true });
+      return;
+    }
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      original,
+      vscode.Uri.file(file.path),
+      `${path.basename(file.path)} (original ↔ repaired)`
+    );
+  }
+
+  protected reportConflicts(conflicts: StoreConflict[]): void {
+    const details = conflicts.map(formatConflict);
+    const summary = conflicts.length === 1
+      ? details[0]
+      : `${conflicts.length} bookmark changes conflicted with an external edit. ${details[0]}; ...`;
+
+    vscode.window.showWarningMessage(summary, 'Show Details', 'Open Store File').then(selection => {
+      if (selection === 'Show Details') {
+        vscode.window.showInformationMessage(details.join('\n'), { modal: true });
+      } else if (selection === 'Open Store File') {
+        vscode.commands.executeCommand('mcpBookmarks.openStoreFile');
+      }
+    });
+  }
+
+  // --- 存储布局 ---
+
+  /** 设置为 auto 时沿用磁盘上已有的布局, 不会改动队友选择的布局 */
+  private getPreferredLayout(): StorageLayout | undefined {
+    const setting = ConfigManager.get<string>('storageLayout', 'auto');
+    return setting === 'single' || setting === 'split' ? setting : undefined;
+  }
+
+  protected getLayout(): StorageLayout {
+    return detectLayout(this.getStoreDir()) ?? this.getPreferredLayout() ?? 'single';
+  }
+
+  /** 与布局一样, 设置为 auto 时沿用磁盘上已有的后端 */
+  private getPreferredBackend(): StorageBackendKind | undefined {
+    const setting = ConfigManager.get<string>('storageBackend', 'auto');
+    return setting === 'json' || setting === 'sqlite' ? setting : undefined;
+  }
+
+  protected getBackendKind(): StorageBackendKind {
+    return detectBackend(this.getStoreDir()) ?? this.getPreferredBackend() ?? 'json';
+  }
+
+  /** 磁盘上的布局与设置不一致时, 转换为设置的布局 */
+  private applyStorageLayout(): void {
+    const target = this.getPreferredLayout();
+    if (!target) {
+      return;
+    }
+
+    try {
+      const converted = this.withStoreLock(() => convertLayout(this.getStoreDir(), target));
+      if (converted) {
+        const description = target === 'split'
+          ? `one file per group in ${this.getDisplayStoreDir()}/${SPLIT_DIR_NAME}/`
+          : `a single ${this.getDisplayStoreDir()}/${STORE_FILE_NAME}`;
+        vscode.window.showInformationMessage(`Bookmarks are now stored as ${description}`);
+        this.reload();
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to switch bookmark storage layout: ${error}`);
+    }
+  }
+
+  /** 磁盘上的后端与设置不一致时, 转换为设置的后端 */
+  private async applyStorageBackend(): Promise<void> {
+    const target = this.getPreferredBackend();
+    const current = detectBackend(this.getStoreDir());
+    if (!target || !current || current === target) {
+      return;
+    }
+
+    try {
+      // 转换的两个方向都要读写 SQLite 文件
+      await initSqlite();
+      const converted = this.withStoreLock(() => convertBackend(this.getStoreDir(), target, this.getLayout()));
+      if (converted) {
+        const description = target === 'sqlite'
+          ? `a SQLite database (${this.getDisplayStoreDir()}/${SQLITE_FILE_NAME})`
+          : 'JSON files';
+        vscode.window.showInformationMessage(`Bookmarks are now stored in ${description}`);
+        this.reload();
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to switch bookmark storage backend: ${error}`);
+    }
+  }
+
+  /**
+   * 已加载的 store 不会跟随设置移动, 重新加载窗口后从新目录读取.
+   * 原目录中的文件不会被移动或删除.
+   */
+  private async promptReloadForStoreDirectory(): Promise<void> {
+    const target = BookmarkStoreManager.resolveStoreDir(this.workspaceRoot);
+    if (target === this.getStoreDir()) {
+      return;
+    }
 
-  private writeStoreToFile(store: BookmarkStore, storePath: string): void {
-    const dir = path.dirname(storePath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
+    const choice = await vscode.window.showInformationMessage(
+      `Bookmarks will be read from ${target} after reloading the window. Existing files in ${this.getStoreDir()} are not moved.`,
+      'Reload Window'
+    );
+    if (choice === 'Reload Window') {
+      await vscode.commands.executeCommand('workbench.action.reloadWindow');
     }
-    fs.writeFileSync(storePath, stringifyWithUnicode(store, 2), 'utf-8');
+  }
+
+  /** 消息中展示的 store 目录, 工作区内的目录显示为相对路径 */
+  private getDisplayStoreDir(): string {
+    const relative = path.relative(this.workspaceRoot, this.getStoreDir());
+    return relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+      ? relative.split(path.sep).join('/')
+      : this.getStoreDir();
   }
 
   // --- FileWatcher ---
 
   private setupFileWatcher(): void {
+    // 同时监听两种布局和 SQLite 文件, 另一个进程切换布局或后端后也能感知
     this.fileWatcher = vscode.workspace.createFileSystemWatcher(
-      new vscode.RelativePattern(path.dirname(this.storePath), STORE_FILE_NAME)
+      new vscode.RelativePattern(this.getStoreDir(), `{${STORE_FILE_NAME},${SPLIT_DIR_NAME}/*.json,${SQLITE_FILE_NAME}}`)
     );
 
     this.fileWatcher.onDidChange(() => {
@@ -102,23 +330,52 @@ export class BookmarkStoreManager extends BookmarkStoreBase {
     });
 
     this.fileWatcher.onDidDelete(() => {
-      this.store = createDefaultStore(path.basename(this.workspaceRoot));
-      this.notifyChange();
+      this.reload();
     });
+
+    // 另一个进程 (如 MCP server) 修改私有分组时只会写入私有 store
+    this.privateFileWatcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(this.getPrivateStoreDir(), STORE_FILE_NAME)
+    );
+
+    this.privateFileWatcher.onDidChange(() => {
+      this.reload();
+    });
+
+    this.privateFileWatcher.onDidCreate(() => {
+      this.reload();
+    });
+
+    this.privateFileWatcher.onDidDelete(() => {
+      this.reload();
+    });
+
+    // 分类配置在下次读取时自动重新加载, 这里只需通知 UI 重新渲染
+    this.categoriesWatcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(this.getStoreDir(), CATEGORIES_FILE_NAME)
+    );
+    this.categoriesWatcher.onDidChange(() => this.notifyChange());
+    this.categoriesWatcher.onDidCreate(() => this.notifyChange());
+    this.categoriesWatcher.onDidDelete(() => this.notifyChange());
   }
 
   private reload(): void {
-    this.store = this.loadFromDisk();
-    this.notifyChange();
+    try {
+      if (this.syncFromDisk()) {
+        this.notifyChange();
+      }
+    } catch (error) {
+      console.error('Failed to reload bookmark store:', error);
+    }
   }
 
   // --- VSCode 特有功能 ---
 
-  // 检查书签的代码是否发生了显著变化
+  // 检查书签的代码是否发生了显著变化, 代码有变化时返回与快照的差异
   async checkBookmarkValidity(
     bookmarkId: string,
     getFileContent: (filePath: string) => Promise<string | undefined>
-  ): Promise<{ valid: boolean; reason?: string }> {
+  ): Promise<{ valid: boolean; reason?: string; comparison?: SnapshotComparison }> {
     const result = this.getBookmark(bookmarkId);
     if (!result) {
       return { valid: false, reason: 'Bookmark not found' };
@@ -132,7 +389,7 @@ export class BookmarkStoreManager extends BookmarkStoreBase {
 
     try {
       const parsed = parseLocation(bookmark.location);
-      const absolutePath = path.join(this.workspaceRoot, parsed.filePath);
+      const absolutePath = toAbsolutePath(parsed.filePath, this.workspaceRoot);
       const content = await getFileContent(absolutePath);
 
       if (!content) {
@@ -147,194 +404,545 @@ export class BookmarkStoreManager extends BookmarkStoreBase {
         return { valid: false, reason: 'Line range out of bounds' };
       }
 
-      const currentCode = lines.slice(startIdx, endIdx).join('\n');
-
-      if (currentCode === bookmark.codeSnapshot) {
+      const current = lines.slice(startIdx, endIdx).join('\n');
+      if (bookmark.codeHash && hashSnapshotCode(current) === bookmark.codeHash) {
         return { valid: true };
       }
 
-      const similarity = this.calculateSimilarity(bookmark.codeSnapshot, currentCode);
-      if (similarity < 0.5) {
-        return { valid: false, reason: `Code changed significantly (${Math.round(similarity * 100)}% similar)` };
+      // 快照被截断时只比较当前代码的相同部分, 之后的变化由 codeHash 发现
+      const compared = bookmark.snapshotTruncated ? limitSnapshotCode(current).text : current;
+      const comparison = compareSnapshot(bookmark.codeSnapshot, compared);
+      if (comparison.changedLines.length === 0 && comparison.removedCount === 0) {
+        return bookmark.snapshotTruncated
+          ? { valid: true, reason: 'Code changed after the part kept in the snapshot' }
+          : { valid: true };
       }
 
-      return { valid: true, reason: `Code slightly changed (${Math.round(similarity * 100)}% similar)` };
+      const similarity = Math.round(comparison.similarity * 100);
+      const changed = describeChangedLines(comparison, parsed.startLine);
+      if (comparison.similarity < 0.5) {
+        return { valid: false, reason: `Code changed significantly (${similarity}% similar; ${changed})`, comparison };
+      }
+
+      return { valid: true, reason: `Code slightly changed (${similarity}% similar; ${changed})`, comparison };
     } catch (error) {
       return { valid: false, reason: `Error checking validity: ${error}` };
     }
   }
 
-  // 简单相似度计算 (Jaccard-like)
-  private calculateSimilarity(str1: string, str2: string): number {
-    const set1 = new Set(str1.split(/\s+/));
-    const set2 = new Set(str2.split(/\s+/));
+  // 更新书签的代码快照 (见 captureCodeSnapshot), 同时清除重新定位的确认标记
+  updateBookmarkSnapshot(bookmarkId: string, snapshot: CodeSnapshot): boolean {
+    const label = `Update snapshot of "${this.getBookmark(bookmarkId)?.bookmark.title ?? bookmarkId}"`;
+    return this.mutate(label, () => {
+      const result = this.getBookmark(bookmarkId);
+      if (!result) {
+        return false;
+      }
+
+      this.applySnapshot(result.bookmark, snapshot);
+      result.bookmark.needsReview = undefined;
+      result.group.updatedAt = nowISO();
 
-    let intersection = 0;
-    for (const word of set1) {
-      if (set2.has(word)) {
-        intersection++;
+      return true;
+    }, updated => updated);
+  }
+
+  // 在同级书签中重新排序
+  reorderBookmark(bookmarkId: string, direction: 'up' | 'down'): boolean {
+    const label = `Move bookmark "${this.getBookmark(bookmarkId)?.bookmark.title ?? bookmarkId}" ${direction}`;
+    return this.mutate(label, () => {
+      const result = this.getBookmark(bookmarkId);
+      if (!result) {
+        return false;
       }
-    }
 
-    const union = set1.size + set2.size - intersection;
-    return union === 0 ? 1 : intersection / union;
+      const { bookmark, group } = result;
+
+      const siblings = group.bookmarks
+        .filter(b => b.parentId === bookmark.parentId)
+        .sort((a, b) => a.order - b.order);
+
+      const currentIndex = siblings.findIndex(b => b.id === bookmarkId);
+
+      if (currentIndex === -1) {
+        return false;
+      }
+
+      const newIndex = direction === 'up' ? currentIndex - 1 : currentIndex + 1;
+
+      if (newIndex < 0 || newIndex >= siblings.length) {
+        return false;
+      }
+
+      // 交换 order
+      const otherBookmark = siblings[newIndex];
+      const tempOrder = bookmark.order;
+      bookmark.order = otherBookmark.order;
+      otherBookmark.order = tempOrder;
+
+      group.updatedAt = nowISO();
+
+      return true;
+    }, moved => moved);
   }
 
-  // 更新书签的代码快照
-  updateBookmarkSnapshot(bookmarkId: string, codeSnapshot: string): boolean {
-    const result = this.getBookmark(bookmarkId);
-    if (!result) {
-      return false;
-    }
+  // 移动书签(及其子书签)到另一个分组
+  moveBookmarkToGroup(bookmarkId: string, targetGroupId: string): { success: boolean; movedCount: number } {
+    const title = this.getBookmark(bookmarkId)?.bookmark.title ?? bookmarkId;
+    const label = `Move bookmark "${title}" to group "${this.getGroup(targetGroupId)?.title ?? targetGroupId}"`;
+    return this.mutate(label, () => {
+      let sourceGroup: BookmarkGroup | undefined;
+      let bookmark: Bookmark | undefined;
+
+      for (const group of this.store.groups) {
+        const found = group.bookmarks.find(b => b.id === bookmarkId);
+        if (found) {
+          sourceGroup = group;
+          bookmark = found;
+          break;
+        }
+      }
+
+      if (!sourceGroup || !bookmark) {
+        return { success: false, movedCount: 0 };
+      }
+
+      const targetGroup = this.store.groups.find(g => g.id === targetGroupId);
+      if (!targetGroup) {
+        return { success: false, movedCount: 0 };
+      }
+
+      if (sourceGroup.id === targetGroup.id) {
+        return { success: false, movedCount: 0 };
+      }
+
+      // 获取书签及其所有后代 (使用基类的 protected 方法)
+      const descendants = this.getDescendants(sourceGroup, bookmarkId);
+      const idsToMove = new Set([bookmarkId, ...descendants.map(d => d.id)]);
 
-    result.bookmark.codeSnapshot = codeSnapshot;
-    result.group.updatedAt = nowISO();
+      // 从源分组中移除
+      const bookmarksToMove = sourceGroup.bookmarks.filter(b => idsToMove.has(b.id));
+      sourceGroup.bookmarks = sourceGroup.bookmarks.filter(b => !idsToMove.has(b.id));
+      sourceGroup.updatedAt = nowISO();
 
-    this.saveToDisk();
-    this.notifyChange();
+      // 移动的书签变为顶层
+      bookmark.parentId = undefined;
 
-    return true;
+      // 计算在目标分组中的 order
+      const topLevelInTarget = targetGroup.bookmarks.filter(b => !b.parentId);
+      bookmark.order = topLevelInTarget.length > 0
+        ? Math.max(...topLevelInTarget.map(b => b.order)) + 1
+        : 1;
+
+      // 添加到目标分组
+      for (const b of bookmarksToMove) {
+        targetGroup.bookmarks.push(b);
+      }
+      targetGroup.updatedAt = nowISO();
+
+      return { success: true, movedCount: bookmarksToMove.length };
+    }, result => result.success);
   }
 
-  // 在同级书签中重新排序
-  reorderBookmark(bookmarkId: string, direction: 'up' | 'down'): boolean {
-    const result = this.getBookmark(bookmarkId);
-    if (!result) {
-      return false;
+  // 文档变更时调整书签位置 (行号漂移处理, 列范围在同一行的编辑后平移列)
+  adjustBookmarksForFileChange(filePath: string, edit: LocationEdit): void {
+    const normalizedPath = normalizePath(filePath, this.workspaceRoot);
+
+    // 每次按键都会调用. 先用索引判断是否有位置需要调整, 避免遍历所有书签
+    const affected = this.getBookmarksByFile(normalizedPath).some(({ bookmark }) =>
+      this.adjustLocations(bookmark, normalizedPath, edit) !== undefined
+    );
+    if (!affected) {
+      return;
     }
 
-    const { bookmark, group } = result;
+    // 每次按键都写盘代价太高: 先只修改内存, 编辑停止或保存文件时再写入
+    const changed = this.mutateInMemory(() => {
+      let hasChanges = false;
 
-    const siblings = group.bookmarks
-      .filter(b => b.parentId === bookmark.parentId)
-      .sort((a, b) => a.order - b.order);
+      for (const group of this.store.groups) {
+        for (const bookmark of group.bookmarks) {
+          const locations = this.adjustLocations(bookmark, normalizedPath, edit);
+          if (locations) {
+            this.setLocations(bookmark, locations);
+            hasChanges = true;
+          }
+        }
 
-    const currentIndex = siblings.findIndex(b => b.id === bookmarkId);
+        if (hasChanges) {
+          group.updatedAt = nowISO();
+        }
+      }
 
-    if (currentIndex === -1) {
-      return false;
+      return hasChanges;
+    });
+    if (changed) {
+      this.scheduleLocationSave();
     }
+  }
 
-    const newIndex = direction === 'up' ? currentIndex - 1 : currentIndex + 1;
+  private scheduleLocationSave(): void {
+    if (this.locationSaveTimer) {
+      clearTimeout(this.locationSaveTimer);
+    }
+    this.locationSaveTimer = setTimeout(() => {
+      this.locationSaveTimer = undefined;
+      try {
+        this.flushPendingChanges();
+      } catch (error) {
+        console.error('Failed to save bookmark locations:', error);
+      }
+    }, LOCATION_SAVE_DELAY_MS);
+  }
 
-    if (newIndex < 0 || newIndex >= siblings.length) {
-      return false;
+  flushPendingChanges(): void {
+    if (this.locationSaveTimer) {
+      clearTimeout(this.locationSaveTimer);
+      this.locationSaveTimer = undefined;
     }
+    super.flushPendingChanges();
+  }
 
-    // 交换 order
-    const otherBookmark = siblings[newIndex];
-    const tempOrder = bookmark.order;
-    bookmark.order = otherBookmark.order;
-    otherBookmark.order = tempOrder;
+  /**
+   * 按符号锚点重新定位 (文件打开时): 主位置的起始行移到符号声明行 + symbolOffset, 保留范围长度和列.
+   * 与行号漂移一样自动发生, 不记入操作历史
+   * @param symbolLines 书签 ID -> 语言服务给出的符号声明行 (1-based)
+   */
+  moveToSymbolAnchors(symbolLines: Map<string, number>): void {
+    const moves = this.getSymbolAnchorMoves(symbolLines);
+    if (moves.size === 0) {
+      return;
+    }
 
-    group.updatedAt = nowISO();
+    this.mutate(null, () => {
+      let hasChanges = false;
+      for (const [bookmarkId, delta] of this.getSymbolAnchorMoves(symbolLines)) {
+        const result = this.getBookmark(bookmarkId);
+        if (!result) {
+          continue;
+        }
 
-    this.saveToDisk();
-    this.notifyChange();
+        this.shiftPrimaryLocation(result.bookmark, delta);
+        result.group.updatedAt = nowISO();
+        hasChanges = true;
+      }
+      return hasChanges;
+    }, hasChanges => hasChanges);
+  }
+
+  /**
+   * 按当前位置重新计算 symbolOffset (文件保存时). 编辑器中的修改已由行号漂移跟随,
+   * 此时位置是准确的, 符号内部增删行后偏移随之更新
+   * @param symbolLines 书签 ID -> 语言服务给出的符号声明行 (1-based)
+   */
+  refreshSymbolOffsets(symbolLines: Map<string, number>): void {
+    const offsets = this.getSymbolOffsets(symbolLines);
+    if (offsets.size === 0) {
+      return;
+    }
 
-    return true;
+    this.mutate(null, () => {
+      let hasChanges = false;
+      for (const [bookmarkId, offset] of this.getSymbolOffsets(symbolLines)) {
+        const result = this.getBookmark(bookmarkId);
+        if (result) {
+          result.bookmark.symbolOffset = offset;
+          hasChanges = true;
+        }
+      }
+      return hasChanges;
+    }, hasChanges => hasChanges);
   }
 
-  // 移动书签(及其子书签)到另一个分组
-  moveBookmarkToGroup(bookmarkId: string, targetGroupId: string): { success: boolean; movedCount: number } {
-    let sourceGroup: BookmarkGroup | undefined;
-    let bookmark: Bookmark | undefined;
+  /** 需要移动的锚定书签: 书签 ID -> 行号变化 */
+  private getSymbolAnchorMoves(symbolLines: Map<string, number>): Map<string, number> {
+    const moves = new Map<string, number>();
+    for (const [bookmarkId, symbolLine] of symbolLines) {
+      const bookmark = this.getBookmark(bookmarkId)?.bookmark;
+      const startLine = bookmark?.symbol ? this.getPrimaryStartLine(bookmark) : undefined;
+      if (!bookmark || startLine === undefined) {
+        continue;
+      }
 
-    for (const group of this.store.groups) {
-      const found = group.bookmarks.find(b => b.id === bookmarkId);
-      if (found) {
-        sourceGroup = group;
-        bookmark = found;
-        break;
+      const targetLine = Math.max(1, symbolLine + (bookmark.symbolOffset ?? 0));
+      if (targetLine !== startLine) {
+        moves.set(bookmarkId, targetLine - startLine);
       }
     }
+    return moves;
+  }
 
-    if (!sourceGroup || !bookmark) {
-      return { success: false, movedCount: 0 };
+  /** symbolOffset 需要更新的锚定书签: 书签 ID -> 新的偏移 */
+  private getSymbolOffsets(symbolLines: Map<string, number>): Map<string, number> {
+    const offsets = new Map<string, number>();
+    for (const [bookmarkId, symbolLine] of symbolLines) {
+      const bookmark = this.getBookmark(bookmarkId)?.bookmark;
+      const startLine = bookmark?.symbol ? this.getPrimaryStartLine(bookmark) : undefined;
+      if (bookmark && startLine !== undefined && startLine - symbolLine !== (bookmark.symbolOffset ?? 0)) {
+        offsets.set(bookmarkId, startLine - symbolLine);
+      }
     }
+    return offsets;
+  }
 
-    const targetGroup = this.store.groups.find(g => g.id === targetGroupId);
-    if (!targetGroup) {
-      return { success: false, movedCount: 0 };
+  /**
+   * 按代码快照重新定位该文件中的书签 (文件打开时). 能确定新位置的书签直接移动,
+   * 无法确定的标记 needsReview, 重新匹配后清除. 带符号锚点的书签由符号定位, 不在此处理
+   * @param content 文件当前内容
+   */
+  relocateBookmarksInFile(filePath: string, content: string): RelocationSummary {
+    const normalizedPath = normalizePath(filePath, this.workspaceRoot);
+    if (this.planRelocation(normalizedPath, content).length === 0) {
+      return { moved: [], flagged: [] };
     }
 
-    if (sourceGroup.id === targetGroup.id) {
-      return { success: false, movedCount: 0 };
-    }
+    // 打开文件时自动发生的重新定位不记入操作历史; relocateAll 由外层事务记录一条
+    const changes = this.mutate(null, () => {
+      const applied = this.planRelocation(normalizedPath, content);
+      for (const change of applied) {
+        const result = this.getBookmark(change.bookmarkId);
+        if (!result) {
+          continue;
+        }
+        if (change.delta !== undefined) {
+          this.shiftPrimaryLocation(result.bookmark, change.delta);
+        }
+        result.bookmark.needsReview = change.review;
+        result.group.updatedAt = nowISO();
+      }
+      return applied;
+    }, applied => applied.length > 0);
 
-    // 获取书签及其所有后代 (使用基类的 protected 方法)
-    const descendants = this.getDescendants(sourceGroup, bookmarkId);
-    const idsToMove = new Set([bookmarkId, ...descendants.map(d => d.id)]);
+    return {
+      moved: changes.filter(c => c.delta !== undefined).map(c => c.bookmarkId),
+      flagged: changes.filter(c => c.review).map(c => c.bookmarkId)
+    };
+  }
 
-    // 从源分组中移除
-    const bookmarksToMove = sourceGroup.bookmarks.filter(b => idsToMove.has(b.id));
-    sourceGroup.bookmarks = sourceGroup.bookmarks.filter(b => !idsToMove.has(b.id));
-    sourceGroup.updatedAt = nowISO();
+  /**
+   * 重新定位所有带代码快照的书签 (mcpBookmarks.relocateAll), 在操作历史中只占一条记录
+   * @param readFile 读取文件内容, 文件不存在时返回 undefined (跳过)
+   */
+  relocateAll(readFile: (absolutePath: string) => string | undefined): RelocationSummary {
+    const files = new Set<string>();
+    for (const group of this.store.groups) {
+      for (const bookmark of group.bookmarks) {
+        const filePath = bookmark.codeSnapshot && !bookmark.symbol ? this.getPrimaryFile(bookmark) : undefined;
+        if (filePath) {
+          files.add(filePath);
+        }
+      }
+    }
 
-    // 移动的书签变为顶层
-    bookmark.parentId = undefined;
+    const summary: RelocationSummary = { moved: [], flagged: [] };
+    this.transaction('Relocate bookmarks', () => {
+      for (const filePath of files) {
+        const content = readFile(toAbsolutePath(filePath, this.workspaceRoot));
+        if (content === undefined) {
+          continue;
+        }
+        const result = this.relocateBookmarksInFile(filePath, content);
+        summary.moved.push(...result.moved);
+        summary.flagged.push(...result.flagged);
+      }
+    });
 
-    // 计算在目标分组中的 order
-    const topLevelInTarget = targetGroup.bookmarks.filter(b => !b.parentId);
-    bookmark.order = topLevelInTarget.length > 0
-      ? Math.max(...topLevelInTarget.map(b => b.order)) + 1
-      : 1;
+    // 之前已标记且本次没有变化的书签同样需要确认
+    for (const group of this.store.groups) {
+      for (const bookmark of group.bookmarks) {
+        if (bookmark.needsReview && !summary.flagged.includes(bookmark.id)) {
+          summary.flagged.push(bookmark.id);
+        }
+      }
+    }
+    return summary;
+  }
 
-    // 添加到目标分组
-    for (const b of bookmarksToMove) {
-      targetGroup.bookmarks.push(b);
+  /**
+   * 按代码快照重新定位单个书签 (包括带符号锚点的书签). 能确定新位置时直接移动,
+   * 否则不修改书签, 由调用方从候选位置中选择 (见 moveBookmarkStart)
+   * @param content 书签主位置所在文件的当前内容
+   */
+  relocateBookmark(bookmarkId: string, content: string): RelocationResult | undefined {
+    const bookmark = this.getBookmark(bookmarkId)?.bookmark;
+    if (!bookmark?.codeSnapshot) {
+      return undefined;
     }
-    targetGroup.updatedAt = nowISO();
 
-    this.saveToDisk();
-    this.notifyChange();
+    const parsed = parseLocation(bookmark.location);
+    const result = relocateBookmarkSnapshot(bookmark, parsed, content);
 
-    return { success: true, movedCount: bookmarksToMove.length };
+    if (result.kind === 'moved') {
+      this.moveBookmarkStart(bookmarkId, result.startLine);
+    }
+    return result;
   }
 
-  // 文档变更时调整书签行号 (行号漂移处理)
-  adjustBookmarksForFileChange(
-    filePath: string,
-    editStartLine: number,
-    lineDelta: number
-  ): void {
-    const normalizedPath = normalizePath(filePath, this.workspaceRoot);
-    let hasChanges = false;
+  /** 主位置移动到 startLine 开始 (保留范围长度), 同时清除确认标记 */
+  moveBookmarkStart(bookmarkId: string, startLine: number): boolean {
+    const label = `Relocate "${this.getBookmark(bookmarkId)?.bookmark.title ?? bookmarkId}"`;
+    return this.mutate(label, () => {
+      const result = this.getBookmark(bookmarkId);
+      const currentStart = result && this.getPrimaryStartLine(result.bookmark);
+      if (!result || currentStart === undefined) {
+        return false;
+      }
 
-    for (const group of this.store.groups) {
-      for (const bookmark of group.bookmarks) {
-        try {
-          const parsed = parseLocation(bookmark.location);
+      this.shiftPrimaryLocation(result.bookmark, startLine - currentStart);
+      result.bookmark.needsReview = undefined;
+      result.group.updatedAt = nowISO();
+      return true;
+    }, moved => moved);
+  }
 
-          if (parsed.filePath !== normalizedPath) {
-            continue;
-          }
+  /** 需要移动或修改确认标记的书签 (只读, 不修改书签) */
+  private planRelocation(
+    normalizedPath: string,
+    content: string
+  ): Array<{ bookmarkId: string; delta?: number; review?: BookmarkReview }> {
+    const changes: Array<{ bookmarkId: string; delta?: number; review?: BookmarkReview }> = [];
 
-          const adjusted = adjustLineNumbers(parsed, editStartLine, lineDelta);
+    for (const { bookmark } of this.getBookmarksByFile(normalizedPath)) {
+      if (!bookmark.codeSnapshot || bookmark.symbol || this.getPrimaryFile(bookmark) !== normalizedPath) {
+        continue;
+      }
 
-          if (adjusted.startLine !== parsed.startLine || adjusted.endLine !== parsed.endLine) {
-            bookmark.location = formatLocation(adjusted);
-            hasChanges = true;
-          }
-        } catch (error) {
-          console.error(`Failed to parse bookmark location: ${bookmark.location}`, error);
+      const parsed = parseLocation(bookmark.location);
+      const result = relocateBookmarkSnapshot(bookmark, parsed, content);
+
+      if (result.kind === 'moved') {
+        changes.push({ bookmarkId: bookmark.id, delta: result.startLine - parsed.startLine });
+      } else if (result.kind === 'unchanged') {
+        if (bookmark.needsReview) {
+          changes.push({ bookmarkId: bookmark.id });
+        }
+      } else {
+        const review = describeReview(result, parsed);
+        const previous = bookmark.needsReview;
+        if (previous?.reason !== review.reason || previous.candidates?.join() !== review.candidates?.join()) {
+          changes.push({ bookmarkId: bookmark.id, review });
         }
       }
+    }
 
-      if (hasChanges) {
-        group.updatedAt = nowISO();
-      }
+    return changes;
+  }
+
+  /** 主位置整体移动 delta 行, 保留范围长度和列 */
+  private shiftPrimaryLocation(bookmark: Bookmark, delta: number): void {
+    const [first, ...rest] = getBookmarkLocations(bookmark);
+    const parsed = parseLocation(first.location);
+    const moved = formatLocation({ ...parsed, startLine: parsed.startLine + delta, endLine: parsed.endLine + delta });
+    this.setLocations(bookmark, [{ ...first, location: moved }, ...rest]);
+  }
+
+  private getPrimaryFile(bookmark: Bookmark): string | undefined {
+    try {
+      return parseLocation(bookmark.location).filePath;
+    } catch {
+      return undefined;
     }
+  }
 
-    if (hasChanges) {
-      this.saveToDisk();
-      this.notifyChange();
+  private getPrimaryStartLine(bookmark: Bookmark): number | undefined {
+    try {
+      return parseLocation(bookmark.location).startLine;
+    } catch {
+      return undefined;
     }
   }
 
+  /**
+   * 书签在该文件中的位置 (多位置书签逐个) 按编辑调整后的全部位置, 没有变化时返回 undefined
+   */
+  private adjustLocations(bookmark: Bookmark, normalizedPath: string, edit: LocationEdit): BookmarkLocation[] | undefined {
+    let changed = false;
+    const locations = getBookmarkLocations(bookmark).map(entry => {
+      try {
+        const parsed = parseLocation(entry.location);
+        if (parsed.filePath !== normalizedPath) {
+          return entry;
+        }
+
+        const adjusted = formatLocation(adjustLocationForEdit(parsed, edit));
+        if (adjusted === entry.location) {
+          return entry;
+        }
+        changed = true;
+        return { ...entry, location: adjusted };
+      } catch (error) {
+        console.error(`Failed to parse bookmark location: ${entry.location}`, error);
+        return entry;
+      }
+    });
+
+    return changed ? locations : undefined;
+  }
+
   // 清理资源
   dispose(): void {
+    try {
+      this.flushPendingChanges();
+    } catch (error) {
+      console.error('Failed to save bookmark locations:', error);
+    }
     this.fileWatcher?.dispose();
+    this.privateFileWatcher?.dispose();
+    this.categoriesWatcher?.dispose();
+    this.configListener?.dispose();
     this._onDidChange.dispose();
+    super.dispose();
+  }
+}
+
+/** 重新定位失败时显示给用户的说明和候选位置 */
+function describeReview(result: RelocationResult, parsed: ParsedLocation): BookmarkReview {
+  const candidates = result.kind === 'review' ? result.candidates : [];
+  const toLocation = (startLine: number) => formatLocation({
+    ...parsed,
+    startLine,
+    endLine: parsed.endLine + startLine - parsed.startLine
+  });
+  const describe = (c: RelocationCandidate) => `line ${c.startLine} (${Math.round(c.similarity * 100)}%)`;
+
+  const base = { candidates: candidates.map(c => toLocation(c.startLine)), flaggedAt: nowISO() };
+  if (candidates.length > 1) {
+    return { ...base, reason: 'ambiguous', message: `Code snapshot matches ${candidates.length} places: ${candidates.map(describe).join(', ')}` };
+  }
+  if (candidates.length === 1) {
+    return { ...base, reason: 'low-confidence', message: `Closest match to the code snapshot is ${describe(candidates[0])}` };
+  }
+  return { reason: 'not-found', message: 'Code snapshot not found in the file', flaggedAt: nowISO() };
+}
+
+/** 当前位置的代码与 codeHash 一致时不再查找 */
+function relocateBookmarkSnapshot(bookmark: Bookmark, parsed: ParsedLocation, content: string): RelocationResult {
+  if (bookmark.codeHash) {
+    const current = content.split(/\r?\n/).slice(parsed.startLine - 1, parsed.endLine).join('\n');
+    if (hashSnapshotCode(current) === bookmark.codeHash) {
+      return { kind: 'unchanged' };
+    }
+  }
+
+  return relocateSnapshot(content, {
+    startLine: parsed.startLine,
+    codeSnapshot: bookmark.codeSnapshot ?? '',
+    contextBefore: bookmark.contextBefore,
+    contextAfter: bookmark.contextAfter
+  });
+}
+
+/** "changed lines 12, 14" / "2 lines removed" */
+function describeChangedLines(comparison: SnapshotComparison, startLine: number): string {
+  const parts: string[] = [];
+  if (comparison.changedLines.length > 0) {
+    const lines = comparison.changedLines.map(line => line + startLine - 1);
+    parts.push(`${lines.length === 1 ? 'line' : 'lines'} ${lines.join(', ')} changed`);
+  }
+  // 与新行配对的删除行已经算作修改
+  const removedOnly = comparison.lines.filter(line => line.kind === 'removed' && !line.segments).length;
+  if (removedOnly > 0) {
+    parts.push(`${removedOnly} ${removedOnly === 1 ? 'line' : 'lines'} removed`);
   }
+  return parts.join(', ');
 }
@@ -1,3 +1,5 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import {
   BookmarkStore,
@@ -5,9 +7,47 @@ import {
   Bookmark,
   BookmarkWithChildren,
   BookmarkCategory,
+  BookmarkStatus,
+  BookmarkSortBy,
+  BookmarkLink,
+  BookmarkLocation,
+  BookmarkLinkType,
+  ParsedLocation,
+  LinkBookmarksResult,
+  isClosedStatus,
   UpdateBookmarkResult,
+  StoreConflict,
+  TrashItem,
+  RestoreFromTrashResult,
+  CodeSnapshot,
+  BookmarkOrphan,
+  FileChangeSummary,
+  createDefaultStore,
 } from './types';
-import { nowISO, parseLocation, normalizePath } from '../utils';
+import { nowISO, parseLocation, formatLocation, normalizePath, normalizeTags, getBookmarkLocations, parseBookmarkLocations, toAbsolutePath, findSymbolLine } from '../utils';
+import { mergeStores } from './storeMerge';
+import { readGitUserName } from './gitUser';
+import { OperationJournal, JournalEntry, JournalChange, JournalSummary, HISTORY_FILE_NAME, diffStores, applyChanges } from './operationJournal';
+import { MigrationResult, migrateStore, assertSupportedVersion } from './storeMigrations';
+import { BackupInfo, BackupReason, DEFAULT_BACKUP_RETENTION, writeBackup, listBackups, readBackup } from './storeBackups';
+import { RepairReport } from './storeRepair';
+import { StoreIndex, IndexedBookmark, getBookmarkFiles } from './storeIndex';
+import { StorageBackend, StorageBackendKind, createStorageBackend } from './storageBackend';
+import { StorageLayout } from './storeLayout';
+import { getPrivateStoreDir } from './storeLocation';
+import { splitStore, combineStores, hasPrivateContent } from './privateStore';
+import { CategoryDefinition, getCategoriesPath, getCategoriesSignature, loadCategories } from './categoryConfig';
+import { SNAPSHOT_CONTEXT_LINES, captureSnapshot } from './snapshotRelocation';
+import { detectGitRenames } from './gitRenames';
+
+// 回收站默认保留天数
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export interface HistoryReplayResult {
+  entry: JournalEntry;
+  applied: number;
+  skipped: number;
+}
 
 /**
  * BookmarkStore 的抽象基类.
@@ -16,50 +56,609 @@ import { nowISO, parseLocation, normalizePath } from '../utils';
 export abstract class BookmarkStoreBase {
   protected store: BookmarkStore;
   protected workspaceRoot: string;
-
-  constructor(workspaceRoot: string) {
+  /** 共享 store 所在目录 (默认 .vscode, 见 storeLocation), 创建后不再改变 */
+  private readonly storeDir: string;
+  private mutationDepth = 0;
+
+  /** 最近一次与磁盘同步 (读取或写入成功) 时的快照, 作为三方合并的共同祖先 */
+  private syncedStore: BookmarkStore;
+  /** 内存副本与 syncedStore 一致 (没有未写盘的修改), 此时 syncedStore 可直接作为变更前的状态 */
+  private inSync = true;
+  /** 最近一次同步产生的冲突, 由 takeConflicts() 取走 */
+  private pendingConflicts: StoreConflict[] = [];
+  /** 已应用到内存但尚未写盘的变更的后续处理 (记录历史等), 下一次写盘成功后按顺序执行 */
+  private pendingCommits: Array<() => void> = [];
+  /** 最近一次写盘失败的原因 */
+  private writeError: unknown;
+  private journal?: OperationJournal;
+  private privateJournal?: OperationJournal;
+  /** 写入历史记录的操作来源, standalone server 覆盖为 'ai'; MCP 工具调用期间为 'ai' (见 runAsAi) */
+  protected operationSource: 'ai' | 'user' = 'user';
+  /** 当前 MCP 工具调用的客户端名称, 记录到新建的书签上 */
+  private operationClient?: string;
+  /** 缓存的 git user.name, null 表示已查询但没有配置 */
+  private gitUserName?: string | null;
+  /** 已提示过的过新 schema 版本 */
+  private reportedNewerVersion?: number;
+  /** 尚未回报给 MCP 调用方的修复报告, 由 takeRepairReports() 取走 */
+  private pendingRepairs: RepairReport[] = [];
+  /** 查询索引, 发生变更的写盘和重新加载后丢弃, 下次查询时重建; 行号漂移就地更新 (见 setLocations) */
+  private index?: StoreIndex;
+  /** 当前的存储后端, 由 getBackend() 按 getBackendKind() 创建 */
+  private backend?: StorageBackend;
+  /** 本机私有 store 的后端, 始终为单个 JSON 文件 */
+  private privateBackend?: StorageBackend;
+  /** 分类配置及读取时的文件签名, 文件变化后重新读取 */
+  private categoryCache?: { signature: string; categories: CategoryDefinition[] };
+
+  constructor(workspaceRoot: string, storeDir: string) {
     this.workspaceRoot = workspaceRoot;
-    this.store = this.loadFromDisk();
+    this.storeDir = storeDir;
+    try {
+      this.store = this.readFromDisk();
+    } catch (error) {
+      // 无法读取时以空 store 启动. 之后的写入会重新读盘并再次失败, 不会覆盖原文件
+      console.error('Failed to load bookmark store:', error);
+      this.store = createDefaultStore(path.basename(workspaceRoot));
+    }
+    this.syncedStore = cloneStore(this.store);
+  }
+
+  /**
+   * 以 AI 身份执行 MCP 工具调用: 历史记录、回收站和新建书签的 createdBy 记为 'ai', 并记录客户端名称
+   */
+  runAsAi<T>(client: string | undefined, fn: () => T): T {
+    const previousSource = this.operationSource;
+    const previousClient = this.operationClient;
+    this.operationSource = 'ai';
+    this.operationClient = client;
+    try {
+      return fn();
+    } finally {
+      this.operationSource = previousSource;
+      this.operationClient = previousClient;
+    }
+  }
+
+  /** 新建书签的作者 (git user.name), 每个 store 只查询一次 */
+  private getAuthor(): string | undefined {
+    if (this.gitUserName === undefined) {
+      this.gitUserName = readGitUserName(this.workspaceRoot) ?? null;
+    }
+    return this.gitUserName ?? undefined;
   }
 
   // --- 子类必须实现的抽象方法 ---
 
-  /** 从磁盘加载 store, 如果不存在则返回默认 store */
+  /** 从磁盘加载共享 store, 如果不存在则返回默认 store. 无法读取时抛出异常, 不能以默认 store 代替 */
   protected abstract loadFromDisk(): BookmarkStore;
 
-  /** 将当前 store 持久化到磁盘 */
-  protected abstract saveToDisk(): void;
+  /** 将共享 store 持久化到磁盘, 返回实际写入的 store (见 StorageBackend.save), 写入失败时抛出异常 */
+  protected abstract saveToDisk(store: BookmarkStore): BookmarkStore;
 
   /** 通知变更 (VSCode: EventEmitter.fire, Standalone: EventEmitter.emit) */
   protected abstract notifyChange(): void;
 
-  // --- 数据迁移 ---
+  /** 在跨进程锁内执行 fn, 防止多个进程同时 "读取-修改-写回" */
+  protected abstract withStoreLock<T>(fn: () => T): T;
+
+  /** 向用户报告同步冲突 (VSCode: 通知, Standalone: 日志) */
+  protected abstract reportConflicts(conflicts: StoreConflict[]): void;
+
+  /** 操作历史 (undo/redo) 文件路径 */
+  protected abstract getJournalPath(): string;
+
+  /** 报告执行了哪些 schema 迁移, 或文件版本过新 (VSCode: 通知, Standalone: 日志) */
+  protected abstract reportMigration(result: MigrationResult): void;
+
+  /** 报告损坏文件的修复结果 (VSCode: 通知, Standalone: 日志) */
+  protected abstract reportRepair(report: RepairReport): void;
+
+  /** 报告无效的分类配置, 此时使用内置分类 (VSCode: 通知, Standalone: 日志) */
+  protected abstract reportCategoryError(error: string): void;
+
+  /** 使用的存储后端, 磁盘上已有的后端优先 */
+  protected abstract getBackendKind(): StorageBackendKind;
 
-  protected migrateStore(store: BookmarkStore): { store: BookmarkStore; migrated: boolean } {
-    let migrated = false;
+  /** json 后端写入时使用的布局 */
+  protected abstract getLayout(): StorageLayout;
 
-    if (!Array.isArray(store.groups)) {
-      store.groups = [];
-      migrated = true;
+  /** 自动备份保留数量, VSCode 版从设置读取 */
+  protected getBackupRetention(): number {
+    return DEFAULT_BACKUP_RETENTION;
+  }
+
+  /** 回收站保留天数, VSCode 版从设置读取 */
+  protected getTrashRetentionDays(): number {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
+  /** 代码快照前后的上下文行数, VSCode 版从设置读取 */
+  protected getSnapshotContextLines(): number {
+    return SNAPSHOT_CONTEXT_LINES;
+  }
+
+  /** 读取截取快照的文件, VSCode 版优先使用编辑器中未保存的内容 */
+  protected readSnapshotSource(absolutePath: string): string | undefined {
+    try {
+      return fs.readFileSync(absolutePath, 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  // --- 变更周期 ---
+
+  /**
+   * 执行一次 store 变更: 加锁 -> 在内存副本上应用变更 -> 与磁盘最新版本合并 -> 原子写回.
+   * extension 和 standalone server 可能同时修改同一个文件. 变更作用于调用方看到的内存副本,
+   * 若磁盘在此期间被其他进程修改, 按分组/书签三方合并, 而不是用内存副本整体覆盖.
+   *
+   * @param label 写入操作历史的描述, null 表示不记录 (如随编辑自动调整行号)
+   * @param mutation 作用于 this.store 的变更函数
+   * @param changed 根据返回值判断是否真的发生了变更, 未变更时不写盘也不通知
+   * @param committed 写盘成功后调用 (仍持有锁), 嵌套调用时由最外层负责, 不会调用
+   * @throws 写盘失败时抛出异常. 变更保留在内存中, 与下一次成功的写入一起写盘, 届时再记录历史
+   */
+  protected mutate<T>(
+    label: string | null,
+    mutation: () => T,
+    changed: (result: T) => boolean = () => true,
+    committed?: (result: T) => void
+  ): T {
+    // 嵌套调用时已经持有锁, 直接执行, 由最外层统一写盘和记录历史
+    if (this.mutationDepth > 0) {
+      return mutation();
     }
 
-    for (const group of store.groups) {
-      const legacyGroup = group as BookmarkGroup & { name?: string; title?: string };
-      if (!legacyGroup.title || typeof legacyGroup.title !== 'string') {
-        if (typeof legacyGroup.name === 'string' && legacyGroup.name.trim().length > 0) {
-          legacyGroup.title = legacyGroup.name;
+    // 文件来自更新的版本时只读, 写回会丢失旧版本不认识的字段
+    assertSupportedVersion(this.store);
+
+    this.pendingConflicts = [];
+    this.mutationDepth++;
+    let result: T;
+    try {
+      result = this.withStoreLock(() => {
+        // 记录历史需要变更前的状态. 内存与磁盘一致时直接使用同步快照, 不必复制整个 store
+        const before = label === null ? undefined : this.inSync ? this.syncedStore : cloneStore(this.store);
+        const wasInSync = this.inSync;
+        this.inSync = false;
+        const value = mutation();
+        if (!changed(value)) {
+          this.inSync = wasInSync;
         } else {
-          legacyGroup.title = 'Untitled group';
+          const changes = before ? diffStores(before, this.store) : [];
+          const source = this.operationSource;
+          this.purgeExpiredTrash();
+          this.pendingCommits.push(() => {
+            if (label !== null) {
+              this.recordHistory(label, changes, source);
+            }
+            committed?.(value);
+          });
+          if (!this.commitToDisk()) {
+            throw new Error(
+              `Failed to save bookmark store: ${this.writeError}. ` +
+              'The change is kept in memory and will be saved with the next successful write'
+            );
+          }
         }
-        migrated = true;
+        return value;
+      });
+    } catch (error) {
+      this.index = undefined;
+      throw error;
+    } finally {
+      this.mutationDepth--;
+    }
+
+    // 没有变更时内存和磁盘都没有改变, 索引仍然有效
+    if (changed(result)) {
+      this.index = undefined;
+      this.notifyChange();
+    }
+    return result;
+  }
+
+  /**
+   * 只修改内存副本, 不加锁也不写盘, 用于随编辑频繁发生的修改 (行号漂移).
+   * 尚未写入的修改不记入操作历史, 由 flushPendingChanges 或下一次变更与磁盘版本合并后写入
+   *
+   * @returns 是否发生了变更
+   */
+  protected mutateInMemory(mutation: () => boolean): boolean {
+    assertSupportedVersion(this.store);
+
+    this.inSync = false;
+    this.mutationDepth++;
+    let changed: boolean;
+    try {
+      changed = mutation();
+    } catch (error) {
+      this.index = undefined;
+      throw error;
+    } finally {
+      this.mutationDepth--;
+    }
+
+    if (changed) {
+      this.notifyChange();
+    }
+    return changed;
+  }
+
+  /** 写入 mutateInMemory 留在内存中的修改 */
+  flushPendingChanges(): void {
+    if (!isSameContent(this.store, this.syncedStore)) {
+      this.mutate(null, () => undefined);
+    }
+  }
+
+  /**
+   * 将多个操作合并为一次变更: 只写一次盘, 在历史中只占一条记录 (一次撤销即可全部还原)
+   */
+  transaction<T>(label: string, fn: () => T): T {
+    let before = '';
+    return this.mutate(label, () => {
+      before = JSON.stringify(this.store.groups);
+      return fn();
+    }, () => JSON.stringify(this.store.groups) !== before);
+  }
+
+  /**
+   * 重新读取磁盘上的外部修改 (文件监听触发).
+   * 内存中若有尚未写入的修改 (如上次写盘失败), 与磁盘版本合并后写回, 不会被丢弃.
+   *
+   * @returns 内存数据是否发生变化
+   */
+  protected syncFromDisk(): boolean {
+    return this.withStoreLock(() => this.pullFromDisk());
+  }
+
+  /** syncFromDisk 的实现, 调用方必须持有 store 锁 */
+  private pullFromDisk(): boolean {
+    const disk = this.readFromDisk();
+    if (!isExternallyModified(this.syncedStore, disk)) {
+      return false;
+    }
+
+    this.index = undefined;
+    if (isSameContent(this.store, this.syncedStore)) {
+      this.store = disk;
+      this.syncedStore = cloneStore(disk);
+      this.inSync = true;
+      return true;
+    }
+
+    this.pendingConflicts = [];
+    this.commitToDisk(disk);
+    return true;
+  }
+
+  /**
+   * 查询索引. 变更过程中 store 随时被修改, 返回 undefined, 调用方退回线性查找.
+   */
+  private getIndex(): StoreIndex | undefined {
+    if (this.mutationDepth > 0) {
+      return undefined;
+    }
+    if (!this.index) {
+      this.index = new StoreIndex(this.store);
+    }
+    return this.index;
+  }
+
+  /**
+   * 将内存副本写入磁盘. 磁盘版本在上次同步后被修改过时, 先做三方合并.
+   * 调用方必须持有 store 锁.
+   *
+   * @returns 是否写入成功
+   */
+  private commitToDisk(disk: BookmarkStore = this.readFromDisk()): boolean {
+    assertSupportedVersion(disk);
+    if (isExternallyModified(this.syncedStore, disk)) {
+      const { store, conflicts } = mergeStores(this.syncedStore, this.store, disk);
+      this.store = store;
+      if (conflicts.length > 0) {
+        this.pendingConflicts.push(...conflicts);
+        this.reportConflicts(conflicts);
       }
-      if (legacyGroup.name !== undefined) {
-        delete (legacyGroup as { name?: string }).name;
-        migrated = true;
+    }
+
+    this.store.revision = Math.max(disk.revision ?? 0, this.store.revision ?? 0) + 1;
+
+    if (!this.writeToDisk()) {
+      return false;
+    }
+    this.syncedStore = cloneStore(this.store);
+    this.inSync = true;
+
+    for (const callback of this.pendingCommits.splice(0)) {
+      callback();
+    }
+    return true;
+  }
+
+  /** 读取共享 store, 并合并本机私有 store 中的分组 */
+  private readFromDisk(): BookmarkStore {
+    const shared = this.loadFromDisk();
+    const personal = this.readBackend(this.getPrivateBackend(), this.getPrivateStoreDir());
+    return combineStores(shared, personal);
+  }
+
+  /**
+   * 私有分组写入私有 store, 其余写入共享 store. 调用方必须持有 store 锁.
+   * 先写私有 store: 分组移入私有 store 时若共享 store 写入失败, 合并时仍以共享 store 为准.
+   */
+  private writeToDisk(): boolean {
+    const { shared, personal } = splitStore(this.store);
+    const privateBackend = this.getPrivateBackend();
+
+    let savedPersonal: BookmarkStore | undefined;
+    try {
+      // 从未使用过私有分组时不创建私有 store
+      if (hasPrivateContent(personal) || privateBackend.exists()) {
+        savedPersonal = privateBackend.save(personal);
       }
+    } catch (error) {
+      console.error('Failed to save private bookmark store:', error);
+      this.writeError = error;
+      return false;
     }
 
-    return { store, migrated };
+    let savedShared: BookmarkStore;
+    try {
+      savedShared = this.saveToDisk(shared);
+    } catch (error) {
+      console.error('Failed to save bookmark store:', error);
+      this.writeError = error;
+      return false;
+    }
+    this.store = combineStores(savedShared, savedPersonal);
+    return true;
+  }
+
+  /** 共享 store 所在目录, 备份、操作历史和锁文件也保存在这里 */
+  getStoreDir(): string {
+    return this.storeDir;
+  }
+
+  /** 本机私有 store 所在目录 */
+  getPrivateStoreDir(): string {
+    return getPrivateStoreDir(this.workspaceRoot);
+  }
+
+  /** 用于展示和打开的共享 store 文件 */
+  getStoreLocation(): string {
+    return this.getBackend().location;
+  }
+
+  /** 私有 store 文件, 尚未创建时返回 undefined */
+  getPrivateStoreLocation(): string | undefined {
+    const backend = this.getPrivateBackend();
+    return backend.exists() ? backend.location : undefined;
+  }
+
+  /** 分类配置文件 (可能尚未创建) */
+  getCategoriesLocation(): string {
+    return getCategoriesPath(this.storeDir);
+  }
+
+  /** 工作区的分类定义, 未配置时为内置分类 */
+  getCategories(): CategoryDefinition[] {
+    const signature = getCategoriesSignature(this.storeDir);
+    if (this.categoryCache?.signature !== signature) {
+      const { categories, error } = loadCategories(this.storeDir);
+      this.categoryCache = { signature, categories };
+      if (error) {
+        this.reportCategoryError(error);
+      }
+    }
+    return this.categoryCache.categories;
+  }
+
+  /** 当前 store 的副本, 用于与备份对比 */
+  getSnapshot(): BookmarkStore {
+    return cloneStore(this.store);
+  }
+
+  /** 当前数据修订号 */
+  getRevision(): number {
+    return this.store.revision ?? 0;
+  }
+
+  /** 取出并清空最近一次同步产生的冲突 (MCP handler 用来回报给调用方) */
+  takeConflicts(): StoreConflict[] {
+    const conflicts = this.pendingConflicts;
+    this.pendingConflicts = [];
+    return conflicts;
+  }
+
+  // --- 操作历史 ---
+
+  /**
+   * 涉及私有分组的操作记录在私有 store 旁边的历史中, 共享的历史文件不包含私有内容.
+   * 撤销/重做时取两个历史中较新的一条.
+   */
+  private getJournal(isPrivate: boolean): OperationJournal {
+    if (isPrivate) {
+      if (!this.privateJournal) {
+        this.privateJournal = new OperationJournal(path.join(this.getPrivateStoreDir(), HISTORY_FILE_NAME));
+      }
+      return this.privateJournal;
+    }
+    if (!this.journal) {
+      this.journal = new OperationJournal(this.getJournalPath());
+    }
+    return this.journal;
+  }
+
+  private recordHistory(label: string, changes: JournalChange[], source: 'ai' | 'user'): void {
+    try {
+      const isPrivate = changes.some(change => this.isPrivateChange(change));
+      this.getJournal(isPrivate).record(label, source, changes);
+      // 新操作使两个历史中被撤销的操作都无法再重做
+      this.getJournal(!isPrivate).clearRedo();
+    } catch (error) {
+      // 历史记录失败不影响本次变更
+      console.error('Failed to record bookmark history:', error);
+    }
+  }
+
+  /**
+   * 撤销最近一次操作 (可能来自另一个进程).
+   * 之后又被修改过的书签/分组不会被覆盖, 计入 skipped.
+   *
+   * @returns 没有可撤销的操作时返回 undefined
+   */
+  undo(): HistoryReplayResult | undefined {
+    return this.replayHistory('undo');
+  }
+
+  /** 重做最近一次被撤销的操作 */
+  redo(): HistoryReplayResult | undefined {
+    return this.replayHistory('redo');
+  }
+
+  /** 操作历史, 最新的在前 */
+  listHistory(): { undo: JournalSummary[]; redo: JournalSummary[] } {
+    const shared = this.getJournal(false).list();
+    const personal = this.getJournal(true).list();
+    const newestFirst = (a: JournalSummary, b: JournalSummary) => b.timestamp.localeCompare(a.timestamp);
+    return {
+      undo: [...shared.undo, ...personal.undo].sort(newestFirst),
+      redo: [...shared.redo, ...personal.redo].sort(newestFirst)
+    };
+  }
+
+  private isPrivateChange(change: JournalChange): boolean {
+    switch (change.kind) {
+      case 'group':
+        return !!(change.before?.private || change.after?.private);
+      case 'bookmark':
+        return !!this.store.groups.find(g => g.id === change.groupId)?.private;
+      case 'trash':
+        return !!(change.before?.private || change.after?.private);
+    }
+  }
+
+  private replayHistory(direction: 'undo' | 'redo'): HistoryReplayResult | undefined {
+    const replayed = this.mutate(null, () => {
+      // 先拉取磁盘上的最新版本, 历史记录可能是另一个进程写入的
+      this.pullFromDisk();
+
+      const shared = this.getJournal(false);
+      const personal = this.getJournal(true);
+      const sharedTimestamp = shared.peek(direction)?.timestamp ?? '';
+      const journal = (personal.peek(direction)?.timestamp ?? '') > sharedTimestamp ? personal : shared;
+      const entry = journal.peek(direction);
+      if (!entry) {
+        return undefined;
+      }
+
+      const { applied, skipped } = applyChanges(this.store, entry.changes, direction);
+      return { entry, applied, skipped, journal };
+    }, result => result !== undefined, result => {
+      // 写盘成功后才移动历史记录, 写盘失败时这一条仍然可以撤销 (重做)
+      if (direction === 'undo') {
+        result!.journal.popUndo();
+      } else {
+        result!.journal.popRedo();
+      }
+    });
+    return replayed && { entry: replayed.entry, applied: replayed.applied, skipped: replayed.skipped };
+  }
+
+  // --- 存储后端 ---
+
+  /** 当前的存储后端. 后端类型变化 (如切换设置后转换了数据) 时重新创建 */
+  protected getBackend(): StorageBackend {
+    const kind = this.getBackendKind();
+    if (!this.backend || this.backend.kind !== kind) {
+      this.backend?.dispose();
+      this.backend = createStorageBackend(kind, this.getStoreDir(), () => this.getLayout());
+    }
+    return this.backend;
+  }
+
+  private getPrivateBackend(): StorageBackend {
+    if (!this.privateBackend) {
+      this.privateBackend = createStorageBackend('json', this.getPrivateStoreDir(), () => 'single');
+    }
+    return this.privateBackend;
+  }
+
+  /** 释放存储后端持有的资源 */
+  dispose(): void {
+    this.backend?.dispose();
+    this.backend = undefined;
+    this.privateBackend?.dispose();
+    this.privateBackend = undefined;
+  }
+
+  // --- 数据迁移与修复 ---
+
+  /**
+   * 通过存储后端读取 store: 损坏的文件先隔离并修复, 再执行 schema 迁移. 不存在时返回 undefined.
+   */
+  protected readAndUpgrade(): BookmarkStore | undefined {
+    return this.readBackend(this.getBackend(), this.getStoreDir());
+  }
+
+  /** readAndUpgrade 的实现, 私有 store 也经过同样的修复和迁移 */
+  private readBackend(backend: StorageBackend, storeDir: string): BookmarkStore | undefined {
+    const result = backend.load();
+    if (!result) {
+      return undefined;
+    }
+
+    const write = (upgraded: BookmarkStore) => backend.save(upgraded);
+    let store = result.store;
+    if (result.report) {
+      // 立即写回, 之后的读取不会重复修复; 原始内容已隔离保存
+      store = write(store);
+      this.pendingRepairs.push(result.report);
+      this.reportRepair(result.report);
+    }
+    return this.applyMigrations(store, storeDir, write);
+  }
+
+  /** 取出并清空尚未回报的修复报告 (MCP handler 用来回报给调用方) */
+  takeRepairReports(): RepairReport[] {
+    const reports = this.pendingRepairs;
+    this.pendingRepairs = [];
+    return reports;
+  }
+
+  /**
+   * 对读取到的 store 执行 schema 迁移. 有迁移执行时先备份迁移前的内容, 再通过 write 写回并报告.
+   *
+   * @param storeDir 备份文件所在目录
+   * @param write 写回迁移结果, 返回实际写入的 store
+   */
+  private applyMigrations(
+    parsed: BookmarkStore,
+    storeDir: string,
+    write: (store: BookmarkStore) => BookmarkStore
+  ): BookmarkStore {
+    const result = migrateStore(parsed);
+
+    if (result.newerThanSupported) {
+      // 每次读盘都会走到这里, 同一版本只提示一次
+      if (this.reportedNewerVersion !== result.fromVersion) {
+        this.reportedNewerVersion = result.fromVersion;
+        this.reportMigration(result);
+      }
+      return result.store;
+    }
+    if (result.applied.length === 0) {
+      return result.store;
+    }
+
+    result.backupPath = writeBackup(storeDir, parsed, 'migration', this.getBackupRetention());
+    const store = write(result.store);
+    this.reportMigration(result);
+    return store;
   }
 
   // --- Group 操作 ---
@@ -67,7 +666,8 @@ export abstract class BookmarkStoreBase {
   createGroup(
     title: string,
     description?: string,
-    createdBy: 'ai' | 'user' = 'ai'
+    createdBy: 'ai' | 'user' = 'ai',
+    isPrivate = false
   ): string {
     const id = uuidv4();
     const now = nowISO();
@@ -79,17 +679,21 @@ export abstract class BookmarkStoreBase {
       createdAt: now,
       updatedAt: now,
       createdBy,
+      ...(isPrivate ? { private: true } : {}),
       bookmarks: []
     };
 
-    this.store.groups.push(group);
-    this.saveToDisk();
-    this.notifyChange();
-
-    return id;
+    return this.mutate(`Create group "${title}"`, () => {
+      this.store.groups.push(group);
+      return id;
+    });
   }
 
   getGroup(groupId: string): BookmarkGroup | undefined {
+    const index = this.getIndex();
+    if (index) {
+      return index.getGroup(groupId);
+    }
     return this.store.groups.find(g => g.id === groupId);
   }
 
@@ -101,119 +705,224 @@ export abstract class BookmarkStoreBase {
   }
 
   updateGroup(groupId: string, updates: { title?: string; description?: string }): boolean {
-    const group = this.store.groups.find(g => g.id === groupId);
-    if (!group) {
-      return false;
-    }
+    return this.mutate(`Update group "${this.getGroup(groupId)?.title ?? groupId}"`, () => {
+      const group = this.store.groups.find(g => g.id === groupId);
+      if (!group) {
+        return false;
+      }
 
-    if (updates.title !== undefined) {
-      group.title = updates.title;
-    }
-    if (updates.description !== undefined) {
-      group.description = updates.description;
-    }
-    group.updatedAt = nowISO();
+      if (updates.title !== undefined) {
+        group.title = updates.title;
+      }
+      if (updates.description !== undefined) {
+        group.description = updates.description;
+      }
+      group.updatedAt = nowISO();
 
-    this.saveToDisk();
-    this.notifyChange();
+      return true;
+    }, updated => updated);
+  }
 
-    return true;
+  /**
+   * 在共享 store 和本机私有 store 之间移动分组 (见 privateStore).
+   *
+   * @returns 分组不存在时返回 false
+   */
+  setGroupPrivate(groupId: string, isPrivate: boolean): boolean {
+    const title = this.getGroup(groupId)?.title ?? groupId;
+    let moved = false;
+
+    return this.mutate(`Move group "${title}" to ${isPrivate ? 'private' : 'shared'} bookmarks`, () => {
+      const group = this.store.groups.find(g => g.id === groupId);
+      if (!group) {
+        return false;
+      }
+
+      if ((group.private ?? false) !== isPrivate) {
+        if (isPrivate) {
+          group.private = true;
+        } else {
+          delete group.private;
+        }
+        group.updatedAt = nowISO();
+        moved = true;
+      }
+      return true;
+    }, () => moved);
   }
 
   removeGroup(groupId: string): boolean {
-    const index = this.store.groups.findIndex(g => g.id === groupId);
-    if (index === -1) {
-      return false;
-    }
-
-    this.store.groups.splice(index, 1);
-    this.saveToDisk();
-    this.notifyChange();
+    return this.mutate(`Remove group "${this.getGroup(groupId)?.title ?? groupId}"`, () => {
+      const index = this.store.groups.findIndex(g => g.id === groupId);
+      if (index === -1) {
+        return false;
+      }
 
-    return true;
+      this.backup('remove-group');
+      const [group] = this.store.groups.splice(index, 1);
+      const backlinks = this.detachLinks(new Set(group.bookmarks.map(b => b.id)));
+      this.moveToTrash({ kind: 'group', groupId: group.id, groupTitle: group.title, group, backlinks });
+      return true;
+    }, removed => removed);
   }
 
   clearAll(): { groupsRemoved: number; bookmarksRemoved: number } {
-    const groupsRemoved = this.store.groups.length;
-    const bookmarksRemoved = this.store.groups.reduce(
-      (total, group) => total + group.bookmarks.length,
-      0
-    );
+    return this.mutate('Clear all bookmarks', () => {
+      const groupsRemoved = this.store.groups.length;
+      const bookmarksRemoved = this.store.groups.reduce(
+        (total, group) => total + group.bookmarks.length,
+        0
+      );
+
+      if (groupsRemoved > 0) {
+        this.backup('clear-all');
+      }
+      for (const group of this.store.groups) {
+        this.moveToTrash({ kind: 'group', groupId: group.id, groupTitle: group.title, group });
+      }
+      this.store.groups = [];
+
+      return { groupsRemoved, bookmarksRemoved };
+    });
+  }
+
+  // --- 备份 ---
+
+  /**
+   * 将当前 store 写入备份目录. 在破坏性操作的 mutation 内调用, 备份失败时抛出异常, 操作不会执行.
+   * 备份目录位于共享 store 旁边, 只备份共享的分组; 私有分组被删除后仍可从回收站恢复.
+   *
+   * @returns 备份文件路径
+   */
+  backup(reason: BackupReason): string {
+    return writeBackup(this.getStoreDir(), splitStore(this.store).shared, reason, this.getBackupRetention());
+  }
 
-    this.store.groups = [];
-    this.saveToDisk();
-    this.notifyChange();
+  /** 列出备份, 最新的在前 */
+  listBackups(): BackupInfo[] {
+    return listBackups(this.getStoreDir());
+  }
 
-    return { groupsRemoved, bookmarksRemoved };
+  /**
+   * 用备份替换当前的分组和回收站. 替换前先备份当前内容, 且作为一次操作记入历史, 可以撤销.
+   *
+   * @returns 恢复后的分组和书签数量, 备份不存在或无法读取时返回 undefined
+   */
+  restoreBackup(backupId: string): { groupCount: number; bookmarkCount: number } | undefined {
+    const data = readBackup(this.getStoreDir(), backupId);
+    if (!data || !Array.isArray(data.groups)) {
+      return undefined;
+    }
+    // 迁移前的备份是旧版本格式
+    const { store: restored } = migrateStore(data);
+    assertSupportedVersion(restored);
+
+    return this.mutate(`Restore backup ${backupId}`, () => {
+      this.backup('restore');
+      // 备份只包含共享的分组, 私有分组保持不变
+      const { personal } = splitStore(this.store);
+      this.store.groups = [...restored.groups, ...personal.groups];
+      this.store.trash = personal.trash ? [...(restored.trash ?? []), ...personal.trash] : restored.trash;
+      return {
+        groupCount: restored.groups.length,
+        bookmarkCount: restored.groups.reduce((total, group) => total + group.bookmarks.length, 0)
+      };
+    });
   }
 
   // --- Bookmark 操作 ---
 
+  /**
+   * @param location 单个位置, 或多位置书签的全部位置 (有序, 至少一个)
+   */
   addBookmark(
     groupId: string,
-    location: string,
+    location: string | BookmarkLocation[],
     title: string,
     description: string,
     options: {
       parentId?: string;
       order?: number;
       category?: BookmarkCategory;
-      codeSnapshot?: string;
+      tags?: string[];
+      snapshot?: CodeSnapshot;       // 未指定时从主位置所在的文件截取
+      symbol?: string;
+      symbolOffset?: number;
+      shiftSiblings?: boolean;       // 指定 order 时, 将 order >= 该值的同级书签后移一位
     } = {}
   ): string | undefined {
-    const group = this.store.groups.find(g => g.id === groupId);
-    if (!group) {
-      return undefined;
-    }
-
-    // 验证 parentId 是否有效
-    if (options.parentId) {
-      const parentBookmark = group.bookmarks.find(b => b.id === options.parentId);
-      if (!parentBookmark) {
+    return this.mutate(`Add bookmark "${title}"`, () => {
+      const group = this.store.groups.find(g => g.id === groupId);
+      if (!group) {
         return undefined;
       }
-    }
 
-    const id = uuidv4();
+      // 验证 parentId 是否有效
+      if (options.parentId) {
+        const parentBookmark = group.bookmarks.find(b => b.id === options.parentId);
+        if (!parentBookmark) {
+          return undefined;
+        }
+      }
 
-    // 确定 order (在同级书签中的顺序)
-    let order = options.order;
-    if (order === undefined) {
+      const id = uuidv4();
+      const now = nowISO();
       const siblings = group.bookmarks.filter(b => b.parentId === options.parentId);
-      order = siblings.length > 0
-        ? Math.max(...siblings.map(b => b.order)) + 1
-        : 1;
-    }
-
-    const bookmark: Bookmark = {
-      id,
-      parentId: options.parentId,
-      order,
-      location: normalizePath(location, this.workspaceRoot),
-      title,
-      description,
-      category: options.category,
-      codeSnapshot: options.codeSnapshot
-    };
-
-    group.bookmarks.push(bookmark);
-    group.updatedAt = nowISO();
 
-    this.saveToDisk();
-    this.notifyChange();
+      // 确定 order (在同级书签中的顺序)
+      let order = options.order;
+      if (order === undefined) {
+        order = siblings.length > 0
+          ? Math.max(...siblings.map(b => b.order)) + 1
+          : 1;
+      } else if (options.shiftSiblings) {
+        for (const sibling of siblings) {
+          if (sibling.order >= order) {
+            sibling.order += 1;
+          }
+        }
+      }
 
-    return id;
+      const bookmark: Bookmark = {
+        id,
+        parentId: options.parentId,
+        order,
+        location: '',                // 由 setLocations 设置
+        title,
+        description,
+        category: options.category,
+        tags: normalizeTags(options.tags),
+        symbol: options.symbol,
+        symbolOffset: options.symbol ? options.symbolOffset ?? 0 : undefined,
+        createdAt: now,
+        updatedAt: now,
+        createdBy: this.operationSource,
+        author: this.getAuthor(),
+        client: this.operationSource === 'ai' ? this.operationClient : undefined
+      };
+
+      this.setLocations(bookmark, typeof location === 'string' ? [{ location }] : location);
+      this.applySnapshot(bookmark, options.snapshot ?? this.captureCodeSnapshot(bookmark.location));
+
+      group.bookmarks.push(bookmark);
+      group.updatedAt = now;
+
+      return id;
+    }, id => id !== undefined);
   }
 
   addChildBookmark(
     parentBookmarkId: string,
-    location: string,
+    location: string | BookmarkLocation[],
     title: string,
     description: string,
     options: {
       order?: number;
       category?: BookmarkCategory;
-      codeSnapshot?: string;
+      tags?: string[];
+      snapshot?: CodeSnapshot;       // 未指定时从主位置所在的文件截取
+      symbol?: string;
+      symbolOffset?: number;
     } = {}
   ): string | undefined {
     const parentResult = this.getBookmark(parentBookmarkId);
@@ -230,7 +939,77 @@ export abstract class BookmarkStoreBase {
     );
   }
 
+  /**
+   * 截取位置处的代码快照 (见 captureSnapshot)
+   * @param content 文件内容, 未指定时读取位置所在的文件
+   * @returns 位置无效、文件不可读或行号超出文件时返回 undefined
+   */
+  captureCodeSnapshot(location: string, content?: string): CodeSnapshot | undefined {
+    try {
+      const parsed = parseLocation(location);
+      const source = content ?? this.readSnapshotSource(toAbsolutePath(parsed.filePath, this.workspaceRoot));
+      return source === undefined
+        ? undefined
+        : captureSnapshot(source, parsed.startLine, parsed.endLine, this.getSnapshotContextLines());
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** 替换书签的快照字段, snapshot 为 undefined 时清除 */
+  protected applySnapshot(bookmark: Bookmark, snapshot: CodeSnapshot | undefined): void {
+    bookmark.codeSnapshot = snapshot?.codeSnapshot;
+    bookmark.codeHash = snapshot?.codeHash;
+    bookmark.snapshotTruncated = snapshot?.snapshotTruncated;
+    bookmark.contextBefore = snapshot?.contextBefore;
+    bookmark.contextAfter = snapshot?.contextAfter;
+  }
+
+  /**
+   * 按符号锚点确定位置 (扫描文件文本, 不依赖语言服务).
+   * location 只有文件路径时, 行号为符号声明行加 symbolOffset; 已有行号时保留行号, 未指定 symbolOffset 则按符号声明行计算.
+   * @returns 无法确定行号 (文件不可读或找不到符号) 时返回 undefined
+   */
+  resolveSymbolLocation(
+    location: string,
+    symbol: string,
+    symbolOffset?: number
+  ): { location: string; symbolOffset: number } | undefined {
+    let parsed: ParsedLocation | undefined;
+    try {
+      parsed = parseLocation(location);
+    } catch {
+      // 只有文件路径
+    }
+
+    const filePath = parsed?.filePath ?? location;
+    let symbolLine: number | undefined;
+    try {
+      const content = fs.readFileSync(toAbsolutePath(filePath, this.workspaceRoot), 'utf-8');
+      symbolLine = findSymbolLine(content, symbol);
+    } catch {
+      // 文件不存在或不可读
+    }
+
+    if (parsed) {
+      const offset = symbolOffset ?? (symbolLine !== undefined ? parsed.startLine - symbolLine : 0);
+      return { location, symbolOffset: offset };
+    }
+    if (symbolLine === undefined) {
+      return undefined;
+    }
+
+    const offset = symbolOffset ?? 0;
+    return { location: `${filePath}:${Math.max(1, symbolLine + offset)}`, symbolOffset: offset };
+  }
+
   getBookmark(bookmarkId: string): { bookmark: Bookmark; group: BookmarkGroup } | undefined {
+    const index = this.getIndex();
+    if (index) {
+      const entry = index.getBookmark(bookmarkId);
+      return entry && { bookmark: entry.bookmark, group: entry.group };
+    }
+
     for (const group of this.store.groups) {
       const bookmark = group.bookmarks.find(b => b.id === bookmarkId);
       if (bookmark) {
@@ -247,8 +1026,15 @@ export abstract class BookmarkStoreBase {
     topLevelOnly?: boolean;
     filePath?: string;
     category?: BookmarkCategory;
+    tags?: string[];
+    status?: BookmarkStatus[];
+    createdBy?: 'ai' | 'user';
+    createdSince?: string;           // ISO timestamp, 没有记录创建时间的书签不匹配
+    updatedSince?: string;           // ISO timestamp, 没有修改时间时使用创建时间
+    sortBy?: BookmarkSortBy;
   } = {}): Array<{ bookmark: Bookmark; group: BookmarkGroup }> {
     const results: Array<{ bookmark: Bookmark; group: BookmarkGroup }> = [];
+    const requiredTags = normalizeTags(filters.tags) ?? [];
 
     const groups = filters.groupId
       ? this.store.groups.filter(g => g.id === filters.groupId)
@@ -261,18 +1047,20 @@ export abstract class BookmarkStoreBase {
         if (filters.includeDescendants) {
           bookmarksToCheck = this.getDescendants(group, filters.parentId);
         } else {
-          bookmarksToCheck = group.bookmarks.filter(b => b.parentId === filters.parentId);
+          bookmarksToCheck = this.getDirectChildren(group, filters.parentId);
         }
       } else if (filters.topLevelOnly) {
         bookmarksToCheck = group.bookmarks.filter(b => !b.parentId);
       }
 
       for (const bookmark of bookmarksToCheck) {
+        // 多位置书签的任一位置匹配即可
         if (filters.filePath) {
-          const parsed = parseLocation(bookmark.location);
           const normalizedFilter = normalizePath(filters.filePath, this.workspaceRoot);
-          if (!parsed.filePath.includes(normalizedFilter) &&
-              !normalizedFilter.includes(parsed.filePath)) {
+          const matches = parseBookmarkLocations(bookmark).some(parsed =>
+            parsed.filePath.includes(normalizedFilter) || normalizedFilter.includes(parsed.filePath)
+          );
+          if (!matches) {
             continue;
           }
         }
@@ -281,18 +1069,64 @@ export abstract class BookmarkStoreBase {
           continue;
         }
 
+        if (!requiredTags.every(tag => bookmark.tags?.includes(tag))) {
+          continue;
+        }
+
+        if (filters.status && (!bookmark.status || !filters.status.includes(bookmark.status))) {
+          continue;
+        }
+
+        if (filters.createdBy && bookmark.createdBy !== filters.createdBy) {
+          continue;
+        }
+        if (filters.createdSince && !(bookmark.createdAt && bookmark.createdAt >= filters.createdSince)) {
+          continue;
+        }
+        const updatedAt = bookmark.updatedAt ?? bookmark.createdAt;
+        if (filters.updatedSince && !(updatedAt && updatedAt >= filters.updatedSince)) {
+          continue;
+        }
+
         results.push({ bookmark, group });
       }
     }
 
-    results.sort((a, b) => a.bookmark.order - b.bookmark.order);
+    if (filters.sortBy === 'created' || filters.sortBy === 'updated') {
+      // 最近的在前, 没有时间的排在最后
+      const key = (b: Bookmark) => (filters.sortBy === 'created' ? b.createdAt : b.updatedAt ?? b.createdAt) ?? '';
+      results.sort((a, b) => key(b.bookmark).localeCompare(key(a.bookmark)));
+    } else {
+      results.sort((a, b) => a.bookmark.order - b.bookmark.order);
+    }
 
     return results;
   }
 
+  /**
+   * 所有标签及使用次数, 按次数降序, 次数相同按名称排序
+   */
+  listTags(groupId?: string): Array<{ tag: string; count: number }> {
+    const counts = new Map<string, number>();
+    for (const group of this.store.groups) {
+      if (groupId && group.id !== groupId) {
+        continue;
+      }
+      for (const bookmark of group.bookmarks) {
+        for (const tag of bookmark.tags ?? []) {
+          counts.set(tag, (counts.get(tag) ?? 0) + 1);
+        }
+      }
+    }
+
+    return [...counts.entries()]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
   protected getDescendants(group: BookmarkGroup, parentId: string): Bookmark[] {
     const descendants: Bookmark[] = [];
-    const directChildren = group.bookmarks.filter(b => b.parentId === parentId);
+    const directChildren = this.getDirectChildren(group, parentId);
 
     for (const child of directChildren) {
       descendants.push(child);
@@ -302,6 +1136,15 @@ export abstract class BookmarkStoreBase {
     return descendants;
   }
 
+  /** 分组内 parentId 的直接子书签, 保持分组内顺序 */
+  private getDirectChildren(group: BookmarkGroup, parentId: string): Bookmark[] {
+    const index = this.getIndex();
+    if (index) {
+      return index.getChildren(parentId).filter(e => e.group === group).map(e => e.bookmark);
+    }
+    return group.bookmarks.filter(b => b.parentId === parentId);
+  }
+
   getChildBookmarks(bookmarkId: string): Array<{ bookmark: Bookmark; group: BookmarkGroup }> {
     const result = this.getBookmark(bookmarkId);
     if (!result) {
@@ -315,6 +1158,11 @@ export abstract class BookmarkStoreBase {
   }
 
   hasChildren(bookmarkId: string): boolean {
+    const index = this.getIndex();
+    if (index) {
+      return index.getChildren(bookmarkId).length > 0;
+    }
+
     for (const group of this.store.groups) {
       if (group.bookmarks.some(b => b.parentId === bookmarkId)) {
         return true;
@@ -341,8 +1189,7 @@ export abstract class BookmarkStoreBase {
     const children: BookmarkWithChildren[] = [];
 
     if (maxDepth === undefined || currentDepth < maxDepth) {
-      const directChildren = group.bookmarks
-        .filter(b => b.parentId === bookmark.id)
+      const directChildren = this.getDirectChildren(group, bookmark.id)
         .sort((a, b) => a.order - b.order);
 
       for (const child of directChildren) {
@@ -373,68 +1220,137 @@ export abstract class BookmarkStoreBase {
     bookmarkId: string,
     updates: {
       parentId?: string | null;
-      location?: string;
+      location?: string;             // 只替换第一个位置, 其余位置和标签保留
+      locations?: BookmarkLocation[]; // 替换全部位置, 在 location 之前应用
+      symbol?: string | null;        // null 移除符号锚点
+      symbolOffset?: number;         // 只有设置了符号锚点时有效
       title?: string;
       description?: string;
       order?: number;
       category?: BookmarkCategory;
+      tags?: string[];               // 替换全部标签
+      addTags?: string[];            // 在 tags 之后应用
+      removeTags?: string[];
+      status?: BookmarkStatus | null; // null 清除状态及处理说明
+      resolution?: string;           // 空字符串清除
     }
   ): UpdateBookmarkResult {
-    const result = this.getBookmark(bookmarkId);
-    if (!result) {
-      return 'not_found';
-    }
+    const label = `Update bookmark "${this.getBookmark(bookmarkId)?.bookmark.title ?? bookmarkId}"`;
+    return this.mutate(label, (): UpdateBookmarkResult => {
+      const result = this.getBookmark(bookmarkId);
+      if (!result) {
+        return 'not_found';
+      }
 
-    const { bookmark, group } = result;
+      const { bookmark, group } = result;
 
-    // 处理 parentId 变更
-    if (updates.parentId !== undefined) {
-      const newParentId = updates.parentId === null ? undefined : updates.parentId;
+      // 处理 parentId 变更
+      if (updates.parentId !== undefined) {
+        const newParentId = updates.parentId === null ? undefined : updates.parentId;
 
-      if (newParentId) {
-        const parentBookmark = group.bookmarks.find(b => b.id === newParentId);
-        if (!parentBookmark) {
-          return 'parent_not_found';
-        }
+        if (newParentId) {
+          const parentBookmark = group.bookmarks.find(b => b.id === newParentId);
+          if (!parentBookmark) {
+            return 'parent_not_found';
+          }
 
-        if (this.wouldCreateCircularReference(group, bookmarkId, newParentId)) {
-          return 'circular_reference';
+          if (this.wouldCreateCircularReference(group, bookmarkId, newParentId)) {
+            return 'circular_reference';
+          }
         }
+
+        bookmark.parentId = newParentId;
+
+        // 重新计算 order
+        const siblings = group.bookmarks.filter(
+          b => b.parentId === newParentId && b.id !== bookmarkId
+        );
+        bookmark.order = siblings.length > 0
+          ? Math.max(...siblings.map(b => b.order)) + 1
+          : 1;
       }
 
-      bookmark.parentId = newParentId;
+      if (updates.locations !== undefined && updates.locations.length > 0) {
+        this.setLocations(bookmark, updates.locations);
+      }
+      if (updates.location !== undefined) {
+        const [first, ...rest] = getBookmarkLocations(bookmark);
+        this.setLocations(bookmark, [{ ...first, location: updates.location }, ...rest]);
+      }
+      // 手动修改位置即确认了位置, 快照改为新位置的代码
+      if (updates.location !== undefined || (updates.locations?.length ?? 0) > 0) {
+        bookmark.needsReview = undefined;
+        this.applySnapshot(bookmark, this.captureCodeSnapshot(bookmark.location));
+      }
+      if (updates.symbol === null) {
+        bookmark.symbol = undefined;
+        bookmark.symbolOffset = undefined;
+      } else if (updates.symbol !== undefined) {
+        bookmark.symbol = updates.symbol;
+        bookmark.symbolOffset = updates.symbolOffset ?? bookmark.symbolOffset ?? 0;
+      } else if (updates.symbolOffset !== undefined && bookmark.symbol) {
+        bookmark.symbolOffset = updates.symbolOffset;
+      }
+      if (updates.title !== undefined) {
+        bookmark.title = updates.title;
+      }
+      if (updates.description !== undefined) {
+        bookmark.description = updates.description;
+      }
+      if (updates.order !== undefined) {
+        bookmark.order = updates.order;
+      }
+      if (updates.category !== undefined) {
+        bookmark.category = updates.category;
+      }
+      if (updates.tags !== undefined || updates.addTags || updates.removeTags) {
+        const removed = normalizeTags(updates.removeTags) ?? [];
+        const tags = normalizeTags([
+          ...(updates.tags ?? bookmark.tags ?? []),
+          ...(updates.addTags ?? [])
+        ])?.filter(tag => !removed.includes(tag));
+        bookmark.tags = tags && tags.length > 0 ? tags : undefined;
+      }
+      if (updates.status !== undefined) {
+        this.applyStatus(bookmark, updates.status);
+      }
+      if (updates.resolution !== undefined && bookmark.status) {
+        bookmark.resolution = updates.resolution.trim() || undefined;
+      }
 
-      // 重新计算 order
-      const siblings = group.bookmarks.filter(
-        b => b.parentId === newParentId && b.id !== bookmarkId
-      );
-      bookmark.order = siblings.length > 0
-        ? Math.max(...siblings.map(b => b.order)) + 1
-        : 1;
-    }
+      bookmark.updatedAt = nowISO();
+      group.updatedAt = bookmark.updatedAt;
 
-    if (updates.location !== undefined) {
-      bookmark.location = normalizePath(updates.location, this.workspaceRoot);
-    }
-    if (updates.title !== undefined) {
-      bookmark.title = updates.title;
-    }
-    if (updates.description !== undefined) {
-      bookmark.description = updates.description;
-    }
-    if (updates.order !== undefined) {
-      bookmark.order = updates.order;
+      return true;
+    }, result => result === true);
+  }
+
+  /**
+   * 修改问题状态并维护时间戳. 状态不变时不更新时间, 重新打开时清除 resolvedAt 和处理说明
+   */
+  private applyStatus(bookmark: Bookmark, status: BookmarkStatus | null): void {
+    if (status === null) {
+      bookmark.status = undefined;
+      bookmark.resolution = undefined;
+      bookmark.statusChangedAt = undefined;
+      bookmark.resolvedAt = undefined;
+      return;
     }
-    if (updates.category !== undefined) {
-      bookmark.category = updates.category;
+    if (bookmark.status === status) {
+      return;
     }
 
-    group.updatedAt = nowISO();
-
-    this.saveToDisk();
-    this.notifyChange();
-
-    return true;
+    const now = nowISO();
+    if (!isClosedStatus(status)) {
+      if (isClosedStatus(bookmark.status)) {
+        bookmark.resolution = undefined;
+      }
+      bookmark.resolvedAt = undefined;
+    } else if (!isClosedStatus(bookmark.status)) {
+      bookmark.resolvedAt = now;
+    }
+    bookmark.status = status;
+    bookmark.statusChangedAt = now;
   }
 
   protected wouldCreateCircularReference(
@@ -451,32 +1367,531 @@ export abstract class BookmarkStoreBase {
   }
 
   removeBookmark(bookmarkId: string): { success: boolean; removedCount: number } {
+    const label = `Remove bookmark "${this.getBookmark(bookmarkId)?.bookmark.title ?? bookmarkId}"`;
+    return this.mutate(label, () => {
+      for (const group of this.store.groups) {
+        const bookmark = group.bookmarks.find(b => b.id === bookmarkId);
+        if (bookmark) {
+          // 获取所有后代书签
+          const descendants = this.getDescendants(group, bookmarkId);
+          const idsToRemove = new Set([bookmarkId, ...descendants.map(d => d.id)]);
+
+          // 删除书签及其所有后代, 放入回收站
+          const originalCount = group.bookmarks.length;
+          group.bookmarks = group.bookmarks.filter(b => !idsToRemove.has(b.id));
+          const removedCount = originalCount - group.bookmarks.length;
+          const backlinks = this.detachLinks(idsToRemove);
+          this.moveToTrash({
+            kind: 'bookmark',
+            groupId: group.id,
+            groupTitle: group.title,
+            bookmarks: [bookmark, ...descendants],
+            backlinks
+          });
+
+          group.updatedAt = nowISO();
+
+          return { success: true, removedCount };
+        }
+      }
+      return { success: false, removedCount: 0 };
+    }, result => result.success);
+  }
+
+  /**
+   * 设置书签的全部位置: location 为第一个位置, 只有一个位置且没有标签时不保存 locations
+   */
+  protected setLocations(bookmark: Bookmark, locations: BookmarkLocation[]): void {
+    // 索引只在只修改内存的变更 (行号漂移) 中保留, 其余变更结束后会丢弃
+    const previousFiles = this.index && getBookmarkFiles(bookmark);
+    const normalized = locations.map(entry => {
+      const label = entry.label?.trim();
+      return {
+        location: normalizePath(entry.location, this.workspaceRoot),
+        ...(label ? { label } : {})
+      };
+    });
+
+    bookmark.location = normalized[0].location;
+    if (normalized.length > 1 || normalized[0].label) {
+      bookmark.locations = normalized;
+    } else {
+      delete bookmark.locations;
+    }
+
+    if (previousFiles && !this.index!.updateFiles(bookmark, previousFiles)) {
+      this.index = undefined;
+    }
+  }
+
+  // --- 文件重命名与删除 ---
+
+  /**
+   * 文件重命名或移动后, 指向旧路径的书签位置改为新路径. 重命名目录时同样适用于其中的文件
+   * @param renames 绝对路径或相对于工作区的路径
+   * @returns 修改了位置的书签 ID
+   */
+  renameFiles(renames: Array<{ oldPath: string; newPath: string }>): string[] {
+    const map = new Map(renames.map(r => [normalizePath(r.oldPath, this.workspaceRoot), normalizePath(r.newPath, this.workspaceRoot)]));
+    const label = renames.length === 1
+      ? `Rename ${path.basename(renames[0].oldPath)} to ${path.basename(renames[0].newPath)}`
+      : `Rename ${renames.length} files`;
+    return this.applyFileChanges(label, map, [], []).renamed;
+  }
+
+  /**
+   * 文件删除后, 位置在该文件 (或目录中的文件) 的书签标记为 orphaned
+   * @returns 新标记的书签 ID
+   */
+  markFilesDeleted(paths: string[]): string[] {
+    const deleted = paths.map(p => normalizePath(p, this.workspaceRoot));
+    const label = paths.length === 1 ? `Mark bookmarks in deleted ${path.basename(paths[0])}` : 'Mark bookmarks in deleted files';
+    return this.applyFileChanges(label, new Map(), deleted, []).orphaned;
+  }
+
+  /**
+   * 检查书签引用的文件是否存在 (启动时, 以及编辑器之外可能有修改时).
+   * git 记录了重命名的文件改为新路径, 其余不存在的文件标记为 orphaned, 文件重新出现时清除标记
+   * 文件检查和 git 都异步执行, 完成后按当时的 store 应用修改.
+   * @param followRenames 是否通过 git 查找重命名; 否则不存在的文件直接标记为 orphaned, 之后查找时仍可恢复
+   */
+  async reconcileFiles(followRenames = true): Promise<FileChangeSummary> {
+    const files = new Set<string>();
     for (const group of this.store.groups) {
-      const bookmark = group.bookmarks.find(b => b.id === bookmarkId);
-      if (bookmark) {
-        // 获取所有后代书签
-        const descendants = this.getDescendants(group, bookmarkId);
-        const idsToRemove = new Set([bookmarkId, ...descendants.map(d => d.id)]);
+      for (const bookmark of group.bookmarks) {
+        getBookmarkLocations(bookmark).forEach(entry => {
+          const filePath = this.getLocationFile(entry.location);
+          if (filePath) {
+            files.add(filePath);
+          }
+        });
+        bookmark.orphaned?.files.forEach(filePath => files.add(filePath));
+      }
+    }
 
-        // 删除书签及其所有后代
-        const originalCount = group.bookmarks.length;
-        group.bookmarks = group.bookmarks.filter(b => !idsToRemove.has(b.id));
-        const removedCount = originalCount - group.bookmarks.length;
+    const exists = (filePath: string) => fs.promises.access(toAbsolutePath(filePath, this.workspaceRoot)).then(() => true, () => false);
+    const checked = await Promise.all([...files].map(async filePath => ({ filePath, exists: await exists(filePath) })));
+    const missing = checked.filter(c => !c.exists).map(c => c.filePath);
+    const restored = checked.filter(c => c.exists).map(c => c.filePath);
+    const renames = followRenames ? await detectGitRenames(this.workspaceRoot, missing) : new Map<string, string>();
+    const deleted = missing.filter(filePath => !renames.has(filePath));
 
+    // 自动检查 (启动时 / 工具调用前), 与行号漂移一样不记入操作历史
+    return this.applyFileChanges(null, renames, deleted, restored);
+  }
+
+  /**
+   * 把 orphaned 书签的已删除文件替换为 filePath, 行号不变 (之后可按代码快照重新定位)
+   */
+  reattachBookmark(bookmarkId: string, filePath: string): boolean {
+    const label = `Reattach "${this.getBookmark(bookmarkId)?.bookmark.title ?? bookmarkId}"`;
+    const newPath = normalizePath(filePath, this.workspaceRoot);
+    return this.mutate(label, () => {
+      const result = this.getBookmark(bookmarkId);
+      const orphaned = result?.bookmark.orphaned;
+      if (!result || !orphaned) {
+        return false;
+      }
+
+      const renames = new Map(orphaned.files.map(file => [file, newPath]));
+      this.setLocations(result.bookmark, this.renameLocations(result.bookmark, renames) ?? getBookmarkLocations(result.bookmark));
+      result.bookmark.orphaned = undefined;
+      result.bookmark.needsReview = undefined;
+      result.group.updatedAt = nowISO();
+      return true;
+    }, reattached => reattached);
+  }
+
+  /** 所有 orphaned 书签 */
+  listOrphanedBookmarks(): Array<{ bookmark: Bookmark; group: BookmarkGroup }> {
+    return this.store.groups.flatMap(group =>
+      group.bookmarks.filter(bookmark => bookmark.orphaned).map(bookmark => ({ bookmark, group }))
+    );
+  }
+
+  /**
+   * 应用文件的重命名、删除和恢复, 没有需要修改的书签时不写入
+   * @param restored 存在的文件, 从书签的 orphaned 标记中移除
+   */
+  private applyFileChanges(
+    label: string | null,
+    renames: Map<string, string>,
+    deleted: string[],
+    restored: string[]
+  ): FileChangeSummary {
+    const summary: FileChangeSummary = { renamed: [], orphaned: [], restored: [] };
+    if (this.planFileChanges(renames, deleted, restored).length === 0) {
+      return summary;
+    }
+
+    this.mutate(label, () => {
+      const changes = this.planFileChanges(renames, deleted, restored);
+      for (const change of changes) {
+        const result = this.getBookmark(change.bookmarkId);
+        if (!result) {
+          continue;
+        }
+        if (change.locations) {
+          this.setLocations(result.bookmark, change.locations);
+          summary.renamed.push(change.bookmarkId);
+        }
+        if (change.orphaned !== undefined) {
+          if (change.orphaned && !result.bookmark.orphaned) {
+            summary.orphaned.push(change.bookmarkId);
+          } else if (!change.orphaned && !change.locations) {
+            summary.restored.push(change.bookmarkId);
+          }
+          result.bookmark.orphaned = change.orphaned ?? undefined;
+        }
+        result.group.updatedAt = nowISO();
+      }
+      return changes.length;
+    }, count => count > 0);
+
+    return summary;
+  }
+
+  /** 需要修改的书签 (只读). orphaned 为 null 表示清除标记 */
+  private planFileChanges(
+    renames: Map<string, string>,
+    deleted: string[],
+    restored: string[]
+  ): Array<{ bookmarkId: string; locations?: BookmarkLocation[]; orphaned?: BookmarkOrphan | null }> {
+    const changes: Array<{ bookmarkId: string; locations?: BookmarkLocation[]; orphaned?: BookmarkOrphan | null }> = [];
+    const isUnder = (filePath: string, dir: string) => filePath === dir || filePath.startsWith(dir + '/');
+
+    for (const group of this.store.groups) {
+      for (const bookmark of group.bookmarks) {
+        const locations = this.renameLocations(bookmark, renames);
+        const files = (locations ?? getBookmarkLocations(bookmark))
+          .map(entry => this.getLocationFile(entry.location))
+          .filter((filePath): filePath is string => !!filePath);
+
+        // 已重命名或重新出现的文件不再缺失
+        const previous = bookmark.orphaned?.files ?? [];
+        const missing = new Set(previous.filter(filePath =>
+          files.includes(filePath) && !restored.includes(filePath) && !renames.has(filePath)
+        ));
+        files.filter(filePath => deleted.some(dir => isUnder(filePath, dir))).forEach(filePath => missing.add(filePath));
+
+        let orphaned: BookmarkOrphan | null | undefined;
+        if (missing.size === 0) {
+          orphaned = bookmark.orphaned ? null : undefined;
+        } else if (previous.length !== missing.size || previous.some(filePath => !missing.has(filePath))) {
+          orphaned = { files: [...missing], orphanedAt: bookmark.orphaned?.orphanedAt ?? nowISO() };
+        }
+
+        if (locations || orphaned !== undefined) {
+          changes.push({ bookmarkId: bookmark.id, ...(locations ? { locations } : {}), ...(orphaned !== undefined ? { orphaned } : {}) });
+        }
+      }
+    }
+    return changes;
+  }
+
+  /** 按重命名 (文件或目录) 修改后的全部位置, 没有变化时返回 undefined */
+  private renameLocations(bookmark: Bookmark, renames: Map<string, string>): BookmarkLocation[] | undefined {
+    if (renames.size === 0) {
+      return undefined;
+    }
+
+    let changed = false;
+    const locations = getBookmarkLocations(bookmark).map(entry => {
+      try {
+        const parsed = parseLocation(entry.location);
+        for (const [oldPath, newPath] of renames) {
+          if (parsed.filePath === oldPath || parsed.filePath.startsWith(oldPath + '/')) {
+            changed = true;
+            return { ...entry, location: formatLocation({ ...parsed, filePath: newPath + parsed.filePath.slice(oldPath.length) }) };
+          }
+        }
+      } catch {
+        // 位置无效, 保持不变
+      }
+      return entry;
+    });
+    return changed ? locations : undefined;
+  }
+
+  private getLocationFile(location: string): string | undefined {
+    try {
+      return parseLocation(location).filePath;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // --- 链接 ---
+
+  /**
+   * 添加从 source 指向 target 的链接, 两者可以在不同分组. 已有同类型链接时只更新说明
+   */
+  linkBookmarks(sourceId: string, targetId: string, type: BookmarkLinkType, note?: string): LinkBookmarksResult {
+    const source = this.getBookmark(sourceId)?.bookmark;
+    const target = this.getBookmark(targetId)?.bookmark;
+    const label = `Link "${source?.title ?? sourceId}" ${type} "${target?.title ?? targetId}"`;
+
+    return this.mutate(label, (): LinkBookmarksResult => {
+      const sourceResult = this.getBookmark(sourceId);
+      if (!sourceResult) {
+        return 'source_not_found';
+      }
+      if (!this.getBookmark(targetId)) {
+        return 'target_not_found';
+      }
+      if (sourceId === targetId) {
+        return 'self_link';
+      }
+
+      const { bookmark, group } = sourceResult;
+      const links = bookmark.links ?? [];
+      const existing = links.find(l => l.targetId === targetId && l.type === type);
+      const trimmedNote = note?.trim() || undefined;
+      if (existing) {
+        existing.note = trimmedNote;
+      } else {
+        links.push({ type, targetId, ...(trimmedNote ? { note: trimmedNote } : {}) });
+      }
+      bookmark.links = links;
+      bookmark.updatedAt = nowISO();
+      group.updatedAt = bookmark.updatedAt;
+
+      return true;
+    }, result => result === true);
+  }
+
+  /**
+   * 删除从 source 指向 target 的链接, type 为空时删除所有类型
+   *
+   * @returns 删除的链接数, source 不存在时返回 'not_found'
+   */
+  unlinkBookmarks(sourceId: string, targetId: string, type?: BookmarkLinkType): number | 'not_found' {
+    const label = `Unlink "${this.getBookmark(sourceId)?.bookmark.title ?? sourceId}"`;
+
+    return this.mutate(label, (): number | 'not_found' => {
+      const sourceResult = this.getBookmark(sourceId);
+      if (!sourceResult) {
+        return 'not_found';
+      }
+
+      const { bookmark, group } = sourceResult;
+      const links = bookmark.links ?? [];
+      const remaining = links.filter(l => l.targetId !== targetId || (type !== undefined && l.type !== type));
+      const removed = links.length - remaining.length;
+      if (removed > 0) {
+        bookmark.links = remaining.length > 0 ? remaining : undefined;
+        bookmark.updatedAt = nowISO();
+        group.updatedAt = bookmark.updatedAt;
+      }
+
+      return removed;
+    }, result => typeof result === 'number' && result > 0);
+  }
+
+  /** 书签的链接及目标书签, 目标不存在 (如在其他人的私有 store 中) 时 target 为 undefined */
+  getLinks(bookmarkId: string): Array<{ link: BookmarkLink; target?: { bookmark: Bookmark; group: BookmarkGroup } }> {
+    const bookmark = this.getBookmark(bookmarkId)?.bookmark;
+    return (bookmark?.links ?? []).map(link => ({ link, target: this.getBookmark(link.targetId) }));
+  }
+
+  /** 指向该书签的链接 (反向链接) 及其源书签 */
+  getBacklinks(bookmarkId: string): Array<{ link: BookmarkLink; bookmark: Bookmark; group: BookmarkGroup }> {
+    const results: Array<{ link: BookmarkLink; bookmark: Bookmark; group: BookmarkGroup }> = [];
+    for (const group of this.store.groups) {
+      for (const bookmark of group.bookmarks) {
+        for (const link of bookmark.links ?? []) {
+          if (link.targetId === bookmarkId) {
+            results.push({ link, bookmark, group });
+          }
+        }
+      }
+    }
+    return results;
+  }
+
+  /**
+   * 删除其余书签上指向被删除书签的链接, 返回被删除的链接 (保存到回收站条目, 恢复时重新添加)
+   */
+  private detachLinks(removedIds: Set<string>): Array<BookmarkLink & { sourceId: string }> | undefined {
+    const detached: Array<BookmarkLink & { sourceId: string }> = [];
+    for (const group of this.store.groups) {
+      for (const bookmark of group.bookmarks) {
+        if (!bookmark.links || removedIds.has(bookmark.id)) {
+          continue;
+        }
+        const remaining = bookmark.links.filter(link => !removedIds.has(link.targetId));
+        if (remaining.length === bookmark.links.length) {
+          continue;
+        }
+        for (const link of bookmark.links) {
+          if (removedIds.has(link.targetId)) {
+            detached.push({ ...link, sourceId: bookmark.id });
+          }
+        }
+        bookmark.links = remaining.length > 0 ? remaining : undefined;
         group.updatedAt = nowISO();
+      }
+    }
+    return detached.length > 0 ? detached : undefined;
+  }
 
-        this.saveToDisk();
-        this.notifyChange();
+  /** 恢复回收站条目时重新添加其反向链接, 源书签已不存在或已有相同链接时跳过 */
+  private reattachLinks(backlinks: Array<BookmarkLink & { sourceId: string }> | undefined): void {
+    for (const { sourceId, ...link } of backlinks ?? []) {
+      const source = this.getBookmark(sourceId);
+      if (!source || !this.getBookmark(link.targetId)) {
+        continue;
+      }
+      const links = source.bookmark.links ?? [];
+      if (!links.some(l => l.targetId === link.targetId && l.type === link.type)) {
+        source.bookmark.links = [...links, link];
+        source.group.updatedAt = nowISO();
+      }
+    }
+  }
+
+  // --- 回收站 ---
+
+  /** 回收站中未过期的条目, 最近删除的在前 */
+  listTrash(): TrashItem[] {
+    const cutoff = this.getTrashCutoff();
+    return (this.store.trash ?? [])
+      .filter(item => item.deletedAt >= cutoff)
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  getTrashItem(trashId: string): TrashItem | undefined {
+    return this.store.trash?.find(item => item.id === trashId);
+  }
+
+  /**
+   * 从回收站恢复.
+   * 分组恢复到列表末尾; 书签恢复到原分组 (或 targetGroupId) 的原位置, 父书签已不存在时提升为顶层.
+   * 已经存在的书签 (如被撤销操作恢复过) 会被跳过.
+   */
+  restoreFromTrash(trashId: string, targetGroupId?: string): RestoreFromTrashResult {
+    const item = this.getTrashItem(trashId);
+    const label = `Restore "${item ? getTrashItemTitle(item) : trashId}" from trash`;
+
+    return this.mutate(label, (): RestoreFromTrashResult => {
+      const trash = this.store.trash ?? [];
+      const index = trash.findIndex(t => t.id === trashId);
+      if (index === -1) {
+        return 'not_found';
+      }
+
+      const trashed = trash[index];
+      const existingIds = new Set(this.store.groups.flatMap(g => g.bookmarks.map(b => b.id)));
+      const now = nowISO();
+      let group: BookmarkGroup | undefined;
+      let bookmarks: Bookmark[];
+
+      if (trashed.kind === 'group' && trashed.group) {
+        group = this.getGroup(trashed.group.id);
+        if (!group) {
+          group = { ...trashed.group, bookmarks: [] };
+          this.store.groups.push(group);
+        }
+        bookmarks = trashed.group.bookmarks.filter(b => !existingIds.has(b.id));
+      } else {
+        group = this.getGroup(targetGroupId ?? trashed.groupId);
+        if (!group) {
+          return 'group_not_found';
+        }
+        bookmarks = (trashed.bookmarks ?? [])
+          .filter(b => !existingIds.has(b.id))
+          .map(b => ({ ...b }));
+
+        const ids = new Set([...group.bookmarks.map(b => b.id), ...bookmarks.map(b => b.id)]);
+        const restoredIds = new Set(bookmarks.map(b => b.id));
+        for (const bookmark of bookmarks) {
+          if (bookmark.parentId && !ids.has(bookmark.parentId)) {
+            delete bookmark.parentId;
+          }
+          if (bookmark.parentId && restoredIds.has(bookmark.parentId)) {
+            continue;
+          }
+          // 子树的根恢复到原来的位置, 同级书签后移
+          for (const sibling of group.bookmarks) {
+            if (sibling.parentId === bookmark.parentId && sibling.order >= bookmark.order) {
+              sibling.order += 1;
+            }
+          }
+        }
+      }
+
+      group.bookmarks.push(...bookmarks);
+      group.updatedAt = now;
+      trash.splice(index, 1);
+      this.reattachLinks(trashed.backlinks);
+
+      return { groupId: group.id, restoredCount: bookmarks.length };
+    }, result => typeof result === 'object');
+  }
 
-        return { success: true, removedCount };
+  /** 从回收站永久删除 */
+  deleteFromTrash(trashId: string): boolean {
+    const item = this.getTrashItem(trashId);
+    const label = `Permanently delete "${item ? getTrashItemTitle(item) : trashId}"`;
+
+    return this.mutate(label, () => {
+      const trash = this.store.trash ?? [];
+      const index = trash.findIndex(t => t.id === trashId);
+      if (index === -1) {
+        return false;
       }
+
+      trash.splice(index, 1);
+      return true;
+    }, deleted => deleted);
+  }
+
+  /** 清空回收站, 返回删除的条目数 */
+  emptyTrash(): number {
+    return this.mutate('Empty trash', () => {
+      const count = this.store.trash?.length ?? 0;
+      this.store.trash = [];
+      return count;
+    }, count => count > 0);
+  }
+
+  private moveToTrash(item: Omit<TrashItem, 'id' | 'deletedAt' | 'deletedBy'>): void {
+    if (!this.store.trash) {
+      this.store.trash = [];
     }
-    return { success: false, removedCount: 0 };
+    // 私有分组的内容留在私有 store 的回收站中
+    const isPrivate = item.group?.private ?? this.store.groups.find(g => g.id === item.groupId)?.private;
+    this.store.trash.push({
+      id: uuidv4(),
+      ...item,
+      ...(isPrivate ? { private: true } : {}),
+      deletedAt: nowISO(),
+      deletedBy: this.operationSource
+    });
+  }
+
+  /** 清除超过保留期限的条目, 调用方必须持有 store 锁 */
+  private purgeExpiredTrash(): void {
+    if (!this.store.trash || this.store.trash.length === 0) {
+      return;
+    }
+    const cutoff = this.getTrashCutoff();
+    this.store.trash = this.store.trash.filter(item => item.deletedAt >= cutoff);
+  }
+
+  private getTrashCutoff(): string {
+    const days = this.getTrashRetentionDays();
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
   }
 
   getBookmarksByFile(filePath: string): Array<{ bookmark: Bookmark; group: BookmarkGroup }> {
     const normalizedPath = normalizePath(filePath, this.workspaceRoot);
-    return this.listBookmarks({ filePath: normalizedPath });
+    const index = this.getIndex();
+    if (!index) {
+      return this.listBookmarks({ filePath: normalizedPath });
+    }
+
+    return sortByOrder(index.getByFile(normalizedPath));
   }
 
   getAllBookmarks(): Array<{ bookmark: Bookmark; group: BookmarkGroup }> {
@@ -503,10 +1918,24 @@ export abstract class BookmarkStoreBase {
       for (const bookmark of group.bookmarks) {
         lines.push(`### ${bookmark.order}. ${bookmark.title}`);
         lines.push('');
-        lines.push(`**Location:** \`${bookmark.location}\``);
+        if (bookmark.locations) {
+          lines.push(`**Locations:** ${bookmark.locations.map(entry => entry.label ? `${entry.label} \`${entry.location}\`` : `\`${entry.location}\``).join('; ')}`);
+        } else {
+          lines.push(`**Location:** \`${bookmark.location}\``);
+        }
         if (bookmark.category) {
           lines.push(`**Category:** ${bookmark.category}`);
         }
+        if (bookmark.tags) {
+          lines.push(`**Tags:** ${bookmark.tags.map(tag => `#${tag}`).join(' ')}`);
+        }
+        const links = this.getLinks(bookmark.id).filter(({ target }) => target);
+        if (links.length > 0) {
+          lines.push(`**Links:** ${links.map(({ link, target }) => `${link.type} \`${target!.bookmark.location}\` (${target!.bookmark.title})`).join('; ')}`);
+        }
+        if (bookmark.status) {
+          lines.push(`**Status:** ${bookmark.status}${bookmark.resolution ? ` - ${bookmark.resolution}` : ''}`);
+        }
         lines.push('');
         lines.push(bookmark.description);
         lines.push('');
@@ -516,3 +1945,37 @@ export abstract class BookmarkStoreBase {
     return lines.join('\n');
   }
 }
+
+/** 回收站条目的显示标题 */
+export function getTrashItemTitle(item: TrashItem): string {
+  if (item.kind === 'group') {
+    return item.groupTitle;
+  }
+  return item.bookmarks?.[0]?.title ?? 'Untitled bookmark';
+}
+
+function cloneStore(store: BookmarkStore): BookmarkStore {
+  return JSON.parse(JSON.stringify(store)) as BookmarkStore;
+}
+
+function isSameContent(a: BookmarkStore, b: BookmarkStore): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * 磁盘版本是否在上次同步后被其他进程修改过.
+ * 修订号不同必然被修改; 修订号相同时仍比较内容, 以发现不会递增修订号的手动编辑.
+ */
+function isExternallyModified(synced: BookmarkStore, disk: BookmarkStore): boolean {
+  if ((synced.revision ?? 0) !== (disk.revision ?? 0)) {
+    return true;
+  }
+  return !isSameContent(synced, disk);
+}
+
+/** 与 listBookmarks 相同的排序: 按 order, order 相同时保持遍历顺序 */
+function sortByOrder(entries: IndexedBookmark[]): Array<{ bookmark: Bookmark; group: BookmarkGroup }> {
+  return [...entries]
+    .sort((a, b) => a.bookmark.order - b.bookmark.order || a.seq - b.seq)
+    .map(({ bookmark, group }) => ({ bookmark, group }));
+}
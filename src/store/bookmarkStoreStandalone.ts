@@ -1,11 +1,19 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import { BookmarkStoreBase } from './bookmarkStoreBase';
-import { BookmarkStore, createDefaultStore } from './types';
-import { stringifyWithUnicode } from '../utils';
+import { BookmarkStore, StoreConflict, createDefaultStore } from './types';
+import { withFileLock } from './storeIO';
+import { formatConflict } from './storeMerge';
+import { HISTORY_FILE_NAME } from './operationJournal';
+import { MigrationResult, formatMigrationResult } from './storeMigrations';
+import { RepairReport, formatRepairReport } from './storeRepair';
+import { StorageLayout, detectLayout } from './storeLayout';
+import { StorageBackendKind, detectBackend } from './storageBackend';
+import { resolveStoreDir } from './storeLocation';
+import { StoreWatcher } from './storeWatcher';
 
-const STORE_FILE_NAME = 'mcp-bookmarks.json';
-const STORE_DIR = '.vscode';
+const LOCK_FILE_NAME = 'mcp-bookmarks.json.lock';
+// 两次检查书签引用的文件 (见 reconcileFiles) 的最小间隔
+const FILE_CHECK_INTERVAL_MS = 10_000;
 
 /**
  * Standalone 版 BookmarkStoreManager.
@@ -13,44 +21,35 @@ const STORE_DIR = '.vscode';
  * 只实现 I/O 和通知, 不依赖 VSCode API.
  */
 export class BookmarkStoreManagerStandalone extends BookmarkStoreBase {
-  private storePath: string;
   private changeCallbacks: Array<() => void> = [];
+  /** 监听其他进程 (如 VSCode 扩展) 的写入, 长时间运行的 MCP 会话始终使用最新数据 */
+  private watcher?: StoreWatcher;
+  // 通过 MCP 工具发起的修改都来自 AI
+  protected operationSource: 'ai' | 'user' = 'ai';
+  private lastFileCheck = 0;
+  private checkingFiles = false;
 
-  constructor(workspaceRoot: string) {
-    super(workspaceRoot);
-    this.storePath = path.join(workspaceRoot, STORE_DIR, STORE_FILE_NAME);
+  /**
+   * @param storeDir --store-dir 参数, 未指定时使用环境变量或 .vscode (见 storeLocation)
+   */
+  constructor(workspaceRoot: string, storeDir?: string) {
+    super(workspaceRoot, resolveStoreDir(workspaceRoot, storeDir));
+    this.watcher = new StoreWatcher(this.getStoreDir(), this.getPrivateStoreDir(), () => this.reload());
   }
 
   // --- 抽象方法实现 ---
 
   protected loadFromDisk(): BookmarkStore {
-    // storePath 可能还没被 constructor 赋值 (super() 调用时), 需要现场计算
-    const storePath = path.join(this.workspaceRoot, STORE_DIR, STORE_FILE_NAME);
-
-    try {
-      if (fs.existsSync(storePath)) {
-        const content = fs.readFileSync(storePath, 'utf-8');
-        const parsed = JSON.parse(content) as BookmarkStore;
-        const { store, migrated } = this.migrateStore(parsed);
-        if (migrated) {
-          this.writeStoreToFile(store, storePath);
-        }
-        return store;
-      }
-    } catch (error) {
-      console.error('Failed to load bookmark store:', error);
-    }
-
-    return createDefaultStore(path.basename(this.workspaceRoot));
+    // 读取失败时抛出异常, 不能返回默认 store, 否则下次写入会覆盖原文件
+    const store = this.readAndUpgrade();
+    return store ?? createDefaultStore(path.basename(this.workspaceRoot));
   }
 
-  protected saveToDisk(): void {
-    try {
-      const storePath = this.storePath ?? path.join(this.workspaceRoot, STORE_DIR, STORE_FILE_NAME);
-      this.writeStoreToFile(this.store, storePath);
-    } catch (error) {
-      console.error('Failed to save bookmark store:', error);
-    }
+  protected saveToDisk(store: BookmarkStore): BookmarkStore {
+    const saved = this.getBackend().save(store);
+    // 仍持有 store 锁, 此时的文件签名只可能来自这次写入
+    this.watcher?.markSelfWrite();
+    return saved;
   }
 
   protected notifyChange(): void {
@@ -59,25 +58,90 @@ export class BookmarkStoreManagerStandalone extends BookmarkStoreBase {
     }
   }
 
+  protected withStoreLock<T>(fn: () => T): T {
+    return withFileLock(path.join(this.getStoreDir(), LOCK_FILE_NAME), fn);
+  }
+
+  protected getJournalPath(): string {
+    return path.join(this.getStoreDir(), HISTORY_FILE_NAME);
+  }
+
+  protected reportMigration(result: MigrationResult): void {
+    console.error(formatMigrationResult(result));
+  }
+
+  // 修复报告由 MCP handler 通过 takeRepairReports() 回报给调用方
+  protected reportRepair(report: RepairReport): void {
+    console.error(formatRepairReport(report));
+  }
+
+  protected reportCategoryError(error: string): void {
+    console.error(`${error}. Using the built-in categories.`);
+  }
+
+  // 冲突由 MCP handler 通过 takeConflicts() 回报给调用方, 这里只记日志 (stdout 被 MCP 协议占用)
+  protected reportConflicts(conflicts: StoreConflict[]): void {
+    for (const conflict of conflicts) {
+      console.error(`Bookmark store conflict: ${formatConflict(conflict)}`);
+    }
+  }
+
   // --- 事件订阅 ---
 
   onDidChange(callback: () => void): void {
     this.changeCallbacks.push(callback);
   }
 
+  /**
+   * 重新读取磁盘, 合并其他进程 (如 VSCode 扩展) 写入的修改. 文件变化时由 watcher 自动调用
+   */
+  reload(): void {
+    try {
+      if (this.syncFromDisk()) {
+        this.notifyChange();
+      }
+    } catch (error) {
+      // 文件可能正被手动编辑, 下一次变化或写入时会再次读取
+      console.error('Failed to reload bookmark store:', error);
+    }
+  }
+
   // --- 私有工具方法 ---
 
-  private writeStoreToFile(store: BookmarkStore, storePath: string): void {
-    const dir = path.dirname(storePath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
+  // 沿用磁盘上已有的布局和后端 (由 VSCode 扩展的设置切换), 新建的 store 使用单个 JSON 文件
+  protected getLayout(): StorageLayout {
+    return detectLayout(this.getStoreDir()) ?? 'single';
+  }
+
+  protected getBackendKind(): StorageBackendKind {
+    return detectBackend(this.getStoreDir()) ?? 'json';
+  }
+
+  /**
+   * 跟随编辑器之外的文件重命名和删除 (git mv 等). 在处理工具调用之前调用, 按间隔节流.
+   * 检查在后台进行, 不等待结果: 当前的工具调用照常处理, 之后的调用看到更新后的位置
+   */
+  reconcileFilesIfDue(): void {
+    const now = Date.now();
+    if (this.checkingFiles || now - this.lastFileCheck < FILE_CHECK_INTERVAL_MS) {
+      return;
     }
-    fs.writeFileSync(storePath, stringifyWithUnicode(store, 2), 'utf-8');
+    this.lastFileCheck = now;
+
+    this.checkingFiles = true;
+    this.reconcileFiles()
+      .catch(error => console.error('Failed to check bookmarked files:', error))
+      .finally(() => {
+        this.checkingFiles = false;
+      });
   }
 
   // --- 清理 ---
 
   dispose(): void {
+    this.watcher?.dispose();
+    this.watcher = undefined;
     this.changeCallbacks = [];
+    super.dispose();
   }
 }
@@ -0,0 +1,141 @@
+/**
+ * 书签分类配置 - VSCode 版与 Standalone 版共用
+ *
+ * 分类由 store 目录下的 mcp-bookmarks.categories.json 定义, 与 store 一起提交, 团队共用同一套分类:
+ *
+ *   { "categories": [{ "id": "security", "label": "Security", "color": "#e11d48", "icon": "shield",
+ *                      "description": "Security-sensitive code" }] }
+ *
+ * 文件不存在时使用内置的 4 个分类. 文件无效时同样退回内置分类, 并返回错误信息.
+ * MCP 工具的 enum、参数校验、gutter 图标、CodeLens 和侧边栏都由这里的定义生成.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { stringifyWithUnicode } from '../utils';
+
+export const CATEGORIES_FILE_NAME = 'mcp-bookmarks.categories.json';
+
+export interface CategoryDefinition {
+  id: string;                    // 写入书签的值, 如 "security"
+  label: string;                 // 显示名称
+  color: string;                 // #rgb / #rrggbb / #rrggbbaa
+  icon: string;                  // codicon 名称, 如 "shield"
+  description: string;           // 用途说明, 同时写入 MCP 工具说明
+}
+
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  { id: 'entry-point', label: 'Entry Point', color: '#9333ea', icon: 'rocket', description: 'Entry point to a feature or module' },
+  { id: 'core-logic', label: 'Core Logic', color: '#3b82f6', icon: 'gear', description: 'Core business logic' },
+  { id: 'issue', label: 'Issue', color: '#ef4444', icon: 'warning', description: 'Problem, bug, or todo item' },
+  { id: 'note', label: 'Note', color: '#6b7280', icon: 'note', description: 'Explanation or reference' }
+];
+
+/** 未配置的分类 (如配置修改前创建的书签) 使用的颜色和图标 */
+export const FALLBACK_CATEGORY_COLOR = '#888888';
+export const FALLBACK_CATEGORY_ICON = 'bookmark';
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const ICON_PATTERN = /^[a-z0-9-]+$/;
+
+export function getCategoriesPath(storeDir: string): string {
+  return path.join(storeDir, CATEGORIES_FILE_NAME);
+}
+
+/**
+ * 读取分类配置. 返回的 error 不为空时 categories 为内置分类.
+ */
+export function loadCategories(storeDir: string): { categories: CategoryDefinition[]; error?: string } {
+  const filePath = getCategoriesPath(storeDir);
+
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return { categories: DEFAULT_CATEGORIES };
+  }
+
+  try {
+    return { categories: parseCategories(JSON.parse(content)) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { categories: DEFAULT_CATEGORIES, error: `Invalid ${filePath}: ${message}` };
+  }
+}
+
+/** 配置文件的 mtime/size, 用于判断是否需要重新读取 */
+export function getCategoriesSignature(storeDir: string): string {
+  try {
+    const stat = fs.statSync(getCategoriesPath(storeDir));
+    return `${stat.mtimeMs}:${stat.size}`;
+  } catch {
+    return '-';
+  }
+}
+
+/** 写入分类配置 (用于生成初始文件) */
+export function writeCategories(storeDir: string, categories: CategoryDefinition[]): string {
+  const filePath = getCategoriesPath(storeDir);
+  fs.mkdirSync(storeDir, { recursive: true });
+  fs.writeFileSync(filePath, stringifyWithUnicode({ categories }) + '\n', 'utf-8');
+  return filePath;
+}
+
+/** 按 id 查找分类, 未配置时返回 undefined */
+export function findCategory(categories: CategoryDefinition[], id: string | undefined): CategoryDefinition | undefined {
+  return id ? categories.find(c => c.id === id) : undefined;
+}
+
+function parseCategories(raw: unknown): CategoryDefinition[] {
+  const list = (raw as { categories?: unknown } | null)?.categories;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error('"categories" must be a non-empty array');
+  }
+
+  const seen = new Set<string>();
+  return list.map((item, index) => {
+    const entry = (item ?? {}) as Record<string, unknown>;
+    const id = typeof entry.id === 'string' ? entry.id.trim() : '';
+    if (!ID_PATTERN.test(id)) {
+      throw new Error(`categories[${index}].id must be lowercase letters, digits and "-"`);
+    }
+    if (seen.has(id)) {
+      throw new Error(`duplicate category id "${id}"`);
+    }
+    seen.add(id);
+
+    const color = optionalString(entry, 'color', index) ?? FALLBACK_CATEGORY_COLOR;
+    if (!COLOR_PATTERN.test(color)) {
+      throw new Error(`categories[${index}].color must be a hex color such as "#e11d48"`);
+    }
+    const icon = optionalString(entry, 'icon', index) ?? FALLBACK_CATEGORY_ICON;
+    if (!ICON_PATTERN.test(icon)) {
+      throw new Error(`categories[${index}].icon must be a codicon name such as "shield"`);
+    }
+
+    return {
+      id,
+      label: optionalString(entry, 'label', index) || toLabel(id),
+      color,
+      icon,
+      description: optionalString(entry, 'description', index) ?? ''
+    };
+  });
+}
+
+function optionalString(entry: Record<string, unknown>, key: string, index: number): string | undefined {
+  const value = entry[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`categories[${index}].${key} must be a string`);
+  }
+  return value.trim();
+}
+
+/** "api-contract" -> "Api Contract" */
+function toLabel(id: string): string {
+  return id.split('-').filter(Boolean).map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+}
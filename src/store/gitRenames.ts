@@ -0,0 +1,149 @@
+/**
+ * 通过 git 的重命名检测查找文件的新路径 - VSCode 版与 Standalone 版共用
+ *
+ * 在编辑器之外重命名或移动的文件 (git mv、切换分支、git pull) 不会触发 onDidRenameFiles.
+ * 书签引用的文件不存在时, 在暂存区 (git mv 之后尚未提交) 和最近的提交中查找该文件的重命名,
+ * 连续的重命名 (a -> b -> c) 沿链条找到最终仍然存在的路径.
+ * 提交中的重命名按 HEAD 缓存, 暂存区的重命名按 index 文件的修改时间缓存, 没有变化时不再执行 git log.
+ * git 异步执行, 不阻塞 extension host 和 MCP 工具调用.
+ */
+
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// git 不可用或卡住时不能阻塞书签操作
+const GIT_TIMEOUT_MS = 5000;
+// 在最近多少个提交中查找重命名
+const MAX_LOG_COMMITS = 500;
+const MAX_RENAME_CHAIN = 20;
+
+interface RenameCache {
+  key: string;
+  renames: Array<[string, string]>;
+}
+
+// 工作区根目录 -> 缓存 (同一个 server 可能服务多个工作区)
+const committedCache = new Map<string, RenameCache>();
+const stagedCache = new Map<string, RenameCache>();
+
+/**
+ * @param missing 已不存在的文件, 相对于 workspaceRoot, 使用 "/" 分隔
+ * @returns 旧路径 -> 新路径 (相对于 workspaceRoot), 只包含新路径存在的文件
+ */
+export async function detectGitRenames(workspaceRoot: string, missing: string[]): Promise<Map<string, string>> {
+  const result = new Map<string, string>();
+  if (missing.length === 0) {
+    return result;
+  }
+
+  // 没有提交的仓库 (或不是 git 仓库) 没有可查找的重命名
+  const [gitDir, head] = (await runGit(workspaceRoot, ['rev-parse', '--absolute-git-dir', 'HEAD'])).trim().split('\n');
+  if (!gitDir || !head) {
+    return result;
+  }
+
+  // --relative: 路径相对于工作区 (工作区可能是仓库的子目录)
+  // git log 从新到旧输出, 先处理旧的提交, 同一路径以最近一次重命名为准
+  const committed = await cachedRenames(committedCache, workspaceRoot, head, async () => parseRenames(await runGit(workspaceRoot, [
+    'log', '-M', '--diff-filter=R', '--name-status', '--format=', '-z', '--relative', `-n${MAX_LOG_COMMITS}`
+  ])).reverse());
+  const staged = await cachedRenames(stagedCache, workspaceRoot, `${head}:${getIndexMtime(gitDir)}`, async () => parseRenames(await runGit(workspaceRoot, [
+    'diff', '--cached', '-M', '--diff-filter=R', '--name-status', '-z', '--relative'
+  ])));
+
+  const renames = new Map<string, string>();
+  for (const [from, to] of [...committed, ...staged]) {
+    renames.set(from, to);
+  }
+
+  for (const filePath of missing) {
+    let current = filePath;
+    for (let i = 0; i < MAX_RENAME_CHAIN && renames.has(current); i++) {
+      current = renames.get(current)!;
+    }
+    if (current !== filePath && fs.existsSync(path.join(workspaceRoot, current))) {
+      result.set(filePath, current);
+    }
+  }
+  return result;
+}
+
+/**
+ * 过滤掉被 .gitignore 忽略的路径 (异步, 不阻塞编辑器). 不是 git 仓库或 git 不可用时原样返回
+ * @param paths 绝对路径
+ */
+export function filterGitIgnored(workspaceRoot: string, paths: string[]): Promise<string[]> {
+  if (paths.length === 0) {
+    return Promise.resolve(paths);
+  }
+
+  return new Promise(resolve => {
+    const child = execFile('git', ['check-ignore', '--stdin', '-z'], {
+      cwd: workspaceRoot,
+      encoding: 'utf-8',
+      timeout: GIT_TIMEOUT_MS,
+      maxBuffer: 16 * 1024 * 1024,
+      windowsHide: true
+    }, (error, stdout) => {
+      // 没有被忽略的路径时 git check-ignore 以 1 退出
+      if (error && error.code !== 1) {
+        resolve(paths);
+        return;
+      }
+      const ignored = new Set(stdout.split('\0').filter(Boolean).map(p => path.resolve(workspaceRoot, p)));
+      resolve(paths.filter(p => !ignored.has(path.resolve(p))));
+    });
+    child.stdin?.on('error', () => undefined);
+    child.stdin?.end(paths.join('\0') + '\0');
+  });
+}
+
+async function cachedRenames(
+  cache: Map<string, RenameCache>,
+  workspaceRoot: string,
+  key: string,
+  load: () => Promise<Array<[string, string]>>
+): Promise<Array<[string, string]>> {
+  const cached = cache.get(workspaceRoot);
+  if (cached?.key === key) {
+    return cached.renames;
+  }
+  const renames = await load();
+  cache.set(workspaceRoot, { key, renames });
+  return renames;
+}
+
+function getIndexMtime(gitDir: string): number {
+  try {
+    return fs.statSync(path.join(gitDir, 'index')).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
+
+/** 异步执行 git, 失败 (不是 git 仓库、git 不可用、超时) 时返回空字符串 */
+function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise(resolve => {
+    execFile('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      timeout: GIT_TIMEOUT_MS,
+      maxBuffer: 16 * 1024 * 1024,
+      windowsHide: true
+    }, (error, stdout) => resolve(error ? '' : stdout));
+  });
+}
+
+/** --name-status -z 的输出: "R100\0old\0new\0" */
+function parseRenames(output: string): Array<[string, string]> {
+  const fields = output.split('\0').map(field => field.replace(/^\n+/, ''));
+  const renames: Array<[string, string]> = [];
+  for (let i = 0; i + 2 < fields.length; i++) {
+    if (/^R\d*$/.test(fields[i])) {
+      renames.push([fields[i + 1], fields[i + 2]]);
+      i += 2;
+    }
+  }
+  return renames;
+}
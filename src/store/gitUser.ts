@@ -0,0 +1,26 @@
+/**
+ * Git 用户名 - VSCode 版与 Standalone 版共用
+ *
+ * 新建书签时记录作者 (git config user.name). 查询结果由调用方缓存, 每个工作区只执行一次 git.
+ */
+
+import { execFileSync } from 'child_process';
+
+// git 不可用或卡住时不能阻塞书签操作
+const GIT_TIMEOUT_MS = 2000;
+
+/** 工作区的 git user.name, 未配置或 git 不可用时返回 undefined */
+export function readGitUserName(workspaceRoot: string): string | undefined {
+  try {
+    const name = execFileSync('git', ['config', 'user.name'], {
+      cwd: workspaceRoot,
+      encoding: 'utf-8',
+      timeout: GIT_TIMEOUT_MS,
+      stdio: ['ignore', 'pipe', 'ignore'],
+      windowsHide: true
+    }).trim();
+    return name || undefined;
+  } catch {
+    return undefined;
+  }
+}
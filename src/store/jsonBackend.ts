@@ -0,0 +1,42 @@
+/**
+ * JSON 存储后端: 单文件或 split 布局 (见 storeLayout).
+ * 单文件布局每次重写整个文件, split 布局只重写内容变化的分组文件.
+ */
+
+import { BookmarkStore } from './types';
+import { StorageBackend } from './storageBackend';
+import { RepairReport, readStoreWithRepair } from './storeRepair';
+import { StorageLayout, detectLayout, getStoreEntryPath, writeStore, removeStore } from './storeLayout';
+
+export class JsonStorageBackend implements StorageBackend {
+  readonly kind = 'json' as const;
+
+  constructor(
+    private readonly storeDir: string,
+    private readonly getLayout: () => StorageLayout
+  ) {}
+
+  get location(): string {
+    return getStoreEntryPath(this.storeDir);
+  }
+
+  exists(): boolean {
+    return detectLayout(this.storeDir) !== undefined;
+  }
+
+  load(): { store: BookmarkStore; report?: RepairReport } | undefined {
+    return readStoreWithRepair(this.storeDir);
+  }
+
+  save(store: BookmarkStore): BookmarkStore {
+    return writeStore(this.storeDir, store, this.getLayout());
+  }
+
+  remove(): void {
+    removeStore(this.storeDir);
+  }
+
+  dispose(): void {
+    // 不持有任何资源
+  }
+}
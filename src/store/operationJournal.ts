@@ -0,0 +1,529 @@
+/**
+ * 操作日志 (undo/redo)
+ *
+ * 每次变更记录受影响的分组和书签在变更前后的状态, 撤销/重做时应用反向变更.
+ * 日志持久化在 store 文件旁边, extension 和 standalone server 共用, 重启后依然可以撤销.
+ *
+ * 文件为 JSON Lines, 每次操作只追加一行, 不重写整个文件; 行数过多时压缩为一行快照.
+ * 变更内容较大的条目 (如清空大型 store) 单独保存在 mcp-bookmarks.history/ 中, 日志只记录摘要.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Bookmark, BookmarkGroup, BookmarkStore, TrashItem } from './types';
+import { nowISO } from '../utils';
+import { writeFileAtomic } from './storeIO';
+
+export const HISTORY_FILE_NAME = 'mcp-bookmarks.history.jsonl';
+// 旧版本的历史文件 (整个文件为一个 JSON 对象), 首次读取时迁移
+const LEGACY_HISTORY_FILE_NAME = 'mcp-bookmarks.history.json';
+// 单独保存的变更内容所在的目录 (与历史文件同目录)
+const PAYLOAD_DIR_NAME = 'mcp-bookmarks.history';
+
+// 最多保留的历史条数
+const MAX_HISTORY = 100;
+// 日志超过这么多行时压缩
+const MAX_LOG_LINES = MAX_HISTORY * 3;
+// 变更内容超过这个大小 (字节) 时单独保存
+const MAX_INLINE_CHANGES_BYTES = 64 * 1024;
+
+// 分组元数据 (不含书签列表)
+export type GroupMeta = Omit<BookmarkGroup, 'bookmarks'>;
+
+// 单个实体的变更, before/after 为 null 表示不存在 (新增或删除)
+export type JournalChange =
+  | { kind: 'group'; groupId: string; index: number; before: GroupMeta | null; after: GroupMeta | null }
+  | { kind: 'bookmark'; groupId: string; bookmarkId: string; index: number; before: Bookmark | null; after: Bookmark | null }
+  | { kind: 'trash'; trashId: string; before: TrashItem | null; after: TrashItem | null };
+
+export interface JournalEntry {
+  id: string;
+  label: string;                 // 操作描述, 如 'Remove bookmark "xxx"'
+  timestamp: string;
+  source: 'ai' | 'user';
+  changes: JournalChange[];
+}
+
+// 列出历史时不读取变更内容
+export type JournalSummary = Omit<JournalEntry, 'changes'> & { changeCount: number };
+
+// 日志中的条目: changes 缺省时保存在 PAYLOAD_DIR_NAME/<id>.json
+type StoredEntry = JournalSummary & { changes?: JournalChange[] };
+
+// 日志的一行
+type JournalLine =
+  | { op: 'snapshot'; undo: StoredEntry[]; redo: StoredEntry[] }
+  | { op: 'record'; entry: StoredEntry }
+  | { op: 'undo' | 'redo'; id: string }
+  | { op: 'clearRedo' };
+
+interface JournalData {
+  undo: StoredEntry[];           // 最新的在末尾
+  redo: StoredEntry[];
+  lines: number;
+}
+
+export interface ApplyResult {
+  applied: number;
+  skipped: number;               // 实体在此期间被再次修改, 未应用的变更数
+}
+
+export class OperationJournal {
+  /** 读取的日志及读取时的文件签名, 文件没有变化时不再重新解析 */
+  private cache?: { signature: string; data: JournalData };
+
+  constructor(private readonly filePath: string) {}
+
+  /** 记录一次操作, 并清空 redo 栈 */
+  record(label: string, source: 'ai' | 'user', changes: JournalChange[]): JournalEntry | undefined {
+    if (changes.length === 0) {
+      return undefined;
+    }
+
+    const entry: JournalEntry = { id: uuidv4(), label, timestamp: nowISO(), source, changes };
+    const stored: StoredEntry = { id: entry.id, label, timestamp: entry.timestamp, source, changeCount: changes.length };
+    const content = JSON.stringify(changes);
+    if (Buffer.byteLength(content) > MAX_INLINE_CHANGES_BYTES) {
+      writeFileAtomic(this.getPayloadPath(entry.id), content);
+    } else {
+      stored.changes = changes;
+    }
+
+    this.append({ op: 'record', entry: stored });
+    return entry;
+  }
+
+  /** 取出最近一次可撤销的操作, 移入 redo 栈 */
+  popUndo(): JournalEntry | undefined {
+    const entry = this.peek('undo');
+    if (entry) {
+      this.append({ op: 'undo', id: entry.id });
+    }
+    return entry;
+  }
+
+  /** 取出最近一次被撤销的操作, 移回 undo 栈 */
+  popRedo(): JournalEntry | undefined {
+    const entry = this.peek('redo');
+    if (entry) {
+      this.append({ op: 'redo', id: entry.id });
+    }
+    return entry;
+  }
+
+  /** 最近一次可撤销 (或可重做) 的操作, 不修改日志 */
+  peek(direction: 'undo' | 'redo'): JournalEntry | undefined {
+    const data = this.load();
+    const stack = direction === 'undo' ? data.undo : data.redo;
+    const stored = stack[stack.length - 1];
+    if (!stored) {
+      return undefined;
+    }
+
+    const { id, label, timestamp, source } = stored;
+    return { id, label, timestamp, source, changes: stored.changes ?? this.readPayload(id) };
+  }
+
+  /** 清空 redo 栈 (新操作记录在了另一个日志中) */
+  clearRedo(): void {
+    if (this.load().redo.length > 0) {
+      this.append({ op: 'clearRedo' });
+    }
+  }
+
+  /** 列出历史, 最新的在前 */
+  list(): { undo: JournalSummary[]; redo: JournalSummary[] } {
+    const data = this.load();
+    return { undo: data.undo.map(toSummary).reverse(), redo: data.redo.map(toSummary).reverse() };
+  }
+
+  private append(line: JournalLine): void {
+    const data = this.load();
+    applyLine(data, line);
+
+    try {
+      if (data.lines > MAX_LOG_LINES) {
+        this.compact(data);
+        return;
+      }
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(line) + '\n');
+    } catch (error) {
+      // 缓存已应用了这一行, 写入失败时下次重新读取
+      this.cache = undefined;
+      throw error;
+    }
+    this.cache = { signature: this.getSignature(), data };
+  }
+
+  /** 把日志重写为一行快照, 并删除不再被引用的变更内容 */
+  private compact(data: JournalData): void {
+    const snapshot: JournalLine = { op: 'snapshot', undo: data.undo, redo: data.redo };
+    writeFileAtomic(this.filePath, JSON.stringify(snapshot) + '\n');
+    data.lines = 1;
+    this.cache = { signature: this.getSignature(), data };
+
+    const referenced = new Set([...data.undo, ...data.redo].filter(e => !e.changes).map(e => `${e.id}.json`));
+    const payloadDir = path.join(path.dirname(this.filePath), PAYLOAD_DIR_NAME);
+    try {
+      for (const file of fs.existsSync(payloadDir) ? fs.readdirSync(payloadDir) : []) {
+        if (!referenced.has(file)) {
+          fs.rmSync(path.join(payloadDir, file), { force: true });
+        }
+      }
+    } catch (error) {
+      console.error('Failed to clean up bookmark history:', error);
+    }
+  }
+
+  private load(): JournalData {
+    const signature = this.getSignature();
+    if (this.cache?.signature === signature) {
+      return this.cache.data;
+    }
+
+    const data: JournalData = { undo: [], redo: [], lines: 0 };
+    try {
+      if (fs.existsSync(this.filePath)) {
+        for (const text of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+          const line = parseLine(text);
+          if (line) {
+            applyLine(data, line);
+          }
+        }
+      } else {
+        this.migrateLegacy(data);
+      }
+    } catch (error) {
+      console.error('Failed to load bookmark history:', error);
+    }
+
+    this.cache = { signature: this.getSignature(), data };
+    return data;
+  }
+
+  /** 读取旧版本的历史文件, 转换为日志后删除 */
+  private migrateLegacy(data: JournalData): void {
+    const legacyPath = path.join(path.dirname(this.filePath), LEGACY_HISTORY_FILE_NAME);
+    if (!fs.existsSync(legacyPath)) {
+      return;
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(legacyPath, 'utf-8')) as { undo?: JournalEntry[]; redo?: JournalEntry[] };
+    const toStored = (entry: JournalEntry): StoredEntry => ({ ...entry, changeCount: entry.changes.length });
+    data.undo = Array.isArray(parsed.undo) ? parsed.undo.map(toStored) : [];
+    data.redo = Array.isArray(parsed.redo) ? parsed.redo.map(toStored) : [];
+    this.compact(data);
+    fs.rmSync(legacyPath, { force: true });
+  }
+
+  private readPayload(id: string): JournalChange[] {
+    try {
+      return JSON.parse(fs.readFileSync(this.getPayloadPath(id), 'utf-8')) as JournalChange[];
+    } catch (error) {
+      console.error('Failed to load bookmark history entry:', error);
+      return [];
+    }
+  }
+
+  private getPayloadPath(id: string): string {
+    return path.join(path.dirname(this.filePath), PAYLOAD_DIR_NAME, `${id}.json`);
+  }
+
+  private getSignature(): string {
+    try {
+      const stat = fs.statSync(this.filePath);
+      return `${stat.size}:${stat.mtimeMs}`;
+    } catch {
+      return '';
+    }
+  }
+}
+
+/** 日志内容 (JSON Lines) 是否为操作历史, 供 merge driver 识别 */
+export function isJournalLog(content: string): boolean {
+  const first = content.split('\n', 1)[0];
+  return parseLine(first) !== undefined;
+}
+
+function parseLine(text: string): JournalLine | undefined {
+  if (text.trim() === '') {
+    return undefined;
+  }
+  try {
+    const line = JSON.parse(text) as JournalLine;
+    return typeof line === 'object' && line !== null && typeof line.op === 'string' ? line : undefined;
+  } catch {
+    // 写入中断留下的不完整的行
+    return undefined;
+  }
+}
+
+function applyLine(data: JournalData, line: JournalLine): void {
+  data.lines++;
+  switch (line.op) {
+    case 'snapshot':
+      data.undo = Array.isArray(line.undo) ? line.undo : [];
+      data.redo = Array.isArray(line.redo) ? line.redo : [];
+      break;
+    case 'record':
+      data.undo.push(line.entry);
+      if (data.undo.length > MAX_HISTORY) {
+        data.undo.splice(0, data.undo.length - MAX_HISTORY);
+      }
+      data.redo = [];
+      break;
+    case 'undo':
+    case 'redo': {
+      const [from, to] = line.op === 'undo' ? [data.undo, data.redo] : [data.redo, data.undo];
+      if (from[from.length - 1]?.id === line.id) {
+        to.push(from.pop()!);
+      }
+      break;
+    }
+    case 'clearRedo':
+      data.redo = [];
+      break;
+  }
+}
+
+function toSummary(entry: StoredEntry): JournalSummary {
+  const { id, label, timestamp, source, changeCount } = entry;
+  return { id, label, timestamp, source, changeCount };
+}
+
+/**
+ * 比较变更前后的 store, 生成实体级变更列表.
+ * 分组的 updatedAt 不计入变更, 撤销时由 applyChanges 刷新.
+ */
+export function diffStores(before: BookmarkStore, after: BookmarkStore): JournalChange[] {
+  const changes: JournalChange[] = [];
+  const beforeGroups = new Map(before.groups.map((g, index) => [g.id, { group: g, index }]));
+  const afterGroups = new Map(after.groups.map((g, index) => [g.id, { group: g, index }]));
+  const groupIds = new Set([...beforeGroups.keys(), ...afterGroups.keys()]);
+
+  for (const groupId of groupIds) {
+    const b = beforeGroups.get(groupId);
+    const a = afterGroups.get(groupId);
+    const beforeMeta = b ? toGroupMeta(b.group) : null;
+    const afterMeta = a ? toGroupMeta(a.group) : null;
+
+    if (!sameIgnoringUpdatedAt(beforeMeta, afterMeta)) {
+      changes.push({ kind: 'group', groupId, index: (b ?? a)!.index, before: beforeMeta, after: afterMeta });
+    }
+
+    const beforeBookmarks = new Map((b?.group.bookmarks ?? []).map((bm, index) => [bm.id, { bookmark: bm, index }]));
+    const afterBookmarks = new Map((a?.group.bookmarks ?? []).map((bm, index) => [bm.id, { bookmark: bm, index }]));
+    const bookmarkIds = new Set([...beforeBookmarks.keys(), ...afterBookmarks.keys()]);
+
+    for (const bookmarkId of bookmarkIds) {
+      const bb = beforeBookmarks.get(bookmarkId);
+      const ab = afterBookmarks.get(bookmarkId);
+      const beforeBookmark = bb ? bb.bookmark : null;
+      const afterBookmark = ab ? ab.bookmark : null;
+
+      // 只复制发生变化的书签, 大型 store 的每次变更只有少数书签变化
+      if (!sameValue(beforeBookmark, afterBookmark)) {
+        changes.push({
+          kind: 'bookmark',
+          groupId,
+          bookmarkId,
+          index: (bb ?? ab)!.index,
+          before: beforeBookmark && clone(beforeBookmark),
+          after: afterBookmark && clone(afterBookmark)
+        });
+      }
+    }
+  }
+
+  // 回收站条目只会被新增或移除, 不会被修改
+  const beforeTrash = new Map((before.trash ?? []).map(item => [item.id, item]));
+  const afterTrash = new Map((after.trash ?? []).map(item => [item.id, item]));
+  for (const [trashId, item] of beforeTrash) {
+    if (!afterTrash.has(trashId)) {
+      changes.push({ kind: 'trash', trashId, before: clone(item), after: null });
+    }
+  }
+  for (const [trashId, item] of afterTrash) {
+    if (!beforeTrash.has(trashId)) {
+      changes.push({ kind: 'trash', trashId, before: null, after: clone(item) });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * 在 store 上应用一条日志的反向 (undo) 或正向 (redo) 变更.
+ * 只有实体当前状态仍与预期一致时才应用, 避免覆盖之后的修改.
+ * 书签位置随编辑自动漂移且不记入历史, 比较时忽略; 这次操作没有修改位置时保留漂移后的位置.
+ */
+export function applyChanges(
+  store: BookmarkStore,
+  changes: JournalChange[],
+  direction: 'undo' | 'redo'
+): ApplyResult {
+  const result: ApplyResult = { applied: 0, skipped: 0 };
+  const touchedGroups = new Set<string>();
+  const from = <C extends JournalChange>(c: C): C['before'] => direction === 'undo' ? c.after : c.before;
+  const to = <C extends JournalChange>(c: C): C['before'] => direction === 'undo' ? c.before : c.after;
+
+  const groupChanges = changes.filter((c): c is Extract<JournalChange, { kind: 'group' }> => c.kind === 'group');
+  const bookmarkChanges = changes.filter((c): c is Extract<JournalChange, { kind: 'bookmark' }> => c.kind === 'bookmark');
+
+  // 1. 重建/更新分组 (删除分组放到最后, 等书签处理完)
+  for (const change of groupChanges) {
+    const target = to(change);
+    if (!target) {
+      continue;
+    }
+
+    const index = store.groups.findIndex(g => g.id === change.groupId);
+    const expected = from(change);
+    if (index === -1 && expected === null) {
+      store.groups.splice(Math.min(change.index, store.groups.length), 0, { ...clone(target), bookmarks: [] });
+      touchedGroups.add(change.groupId);
+      result.applied++;
+    } else if (index !== -1 && sameIgnoringUpdatedAt(toGroupMeta(store.groups[index]), expected)) {
+      store.groups[index] = { ...clone(target), bookmarks: store.groups[index].bookmarks };
+      touchedGroups.add(change.groupId);
+      result.applied++;
+    } else {
+      result.skipped++;
+    }
+  }
+
+  // 2. 书签: 先删除, 再按记录时的位置从前往后插入, 连续的多个书签才能回到各自的位置
+  const ordered = [...bookmarkChanges].sort((a, b) =>
+    Number(to(b) === null) - Number(to(a) === null) || a.index - b.index);
+  for (const change of ordered) {
+    const group = store.groups.find(g => g.id === change.groupId);
+    const expected = from(change);
+    const target = to(change);
+    const index = group ? group.bookmarks.findIndex(b => b.id === change.bookmarkId) : -1;
+    const current = index === -1 ? null : group!.bookmarks[index];
+
+    if (!group || !sameIgnoringDrift(current, expected)) {
+      result.skipped++;
+      continue;
+    }
+
+    if (target === null) {
+      group.bookmarks.splice(index, 1);
+    } else if (index === -1) {
+      group.bookmarks.splice(Math.min(change.index, group.bookmarks.length), 0, clone(target));
+    } else {
+      const restored = clone(target);
+      // 这次操作没有修改位置: 保留之后的行号漂移
+      if (expected && sameValue(pickLocation(expected), pickLocation(target))) {
+        restored.location = current!.location;
+        if (current!.locations) {
+          restored.locations = clone(current!.locations);
+        } else {
+          delete restored.locations;
+        }
+      }
+      group.bookmarks[index] = restored;
+    }
+    touchedGroups.add(change.groupId);
+    result.applied++;
+  }
+
+  // 3. 删除分组: 只有分组已经清空 (其中的书签都属于这次操作) 时才删除
+  for (const change of groupChanges) {
+    if (to(change) !== null) {
+      continue;
+    }
+
+    const index = store.groups.findIndex(g => g.id === change.groupId);
+    if (index !== -1 && store.groups[index].bookmarks.length === 0 &&
+        sameIgnoringUpdatedAt(toGroupMeta(store.groups[index]), from(change))) {
+      store.groups.splice(index, 1);
+      touchedGroups.delete(change.groupId);
+      result.applied++;
+    } else {
+      result.skipped++;
+    }
+  }
+
+  // 4. 回收站
+  for (const change of changes) {
+    if (change.kind !== 'trash') {
+      continue;
+    }
+
+    const trash = store.trash ?? (store.trash = []);
+    const index = trash.findIndex(item => item.id === change.trashId);
+    const target = to(change);
+    if (target === null && index !== -1) {
+      trash.splice(index, 1);
+      result.applied++;
+    } else if (target !== null && index === -1) {
+      trash.push(clone(target));
+      result.applied++;
+    } else {
+      result.skipped++;
+    }
+  }
+
+  const now = nowISO();
+  for (const group of store.groups) {
+    if (touchedGroups.has(group.id)) {
+      group.updatedAt = now;
+    }
+  }
+
+  return result;
+}
+
+function toGroupMeta(group: BookmarkGroup): GroupMeta {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { bookmarks, ...meta } = group;
+  return clone(meta);
+}
+
+function sameIgnoringUpdatedAt(a: GroupMeta | null, b: GroupMeta | null): boolean {
+  if (a === null || b === null) {
+    return a === b;
+  }
+  return sameValue({ ...a, updatedAt: undefined }, { ...b, updatedAt: undefined });
+}
+
+/** 比较书签, 忽略随编辑自动漂移的位置 (见 applyChanges) */
+function sameIgnoringDrift(a: Bookmark | null, b: Bookmark | null): boolean {
+  if (a === null || b === null) {
+    return a === b;
+  }
+  return sameValue(withoutDrift(a), withoutDrift(b));
+}
+
+function withoutDrift(bookmark: Bookmark): Omit<Bookmark, 'location' | 'locations' | 'updatedAt'> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { location, locations, updatedAt, ...rest } = bookmark;
+  return rest;
+}
+
+function pickLocation(bookmark: Bookmark): Pick<Bookmark, 'location' | 'locations'> {
+  return { location: bookmark.location, ...(bookmark.locations ? { locations: bookmark.locations } : {}) };
+}
+
+/** 深比较, 忽略 key 顺序 (split 布局重新读取的数据 key 顺序与内存中不同) */
+export function sameValue(a: unknown, b: unknown): boolean {
+  // key 顺序相同 (绝大多数情况) 时不必排序
+  return JSON.stringify(a) === JSON.stringify(b) || stableStringify(a) === stableStringify(b);
+}
+
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (typeof v !== 'object' || v === null || Array.isArray(v)) {
+      return v;
+    }
+    const record = v as Record<string, unknown>;
+    return Object.fromEntries(Object.keys(record).sort().map(key => [key, record[key]]));
+  });
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
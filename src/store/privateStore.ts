@@ -0,0 +1,57 @@
+/**
+ * 私有 store - VSCode 版与 Standalone 版共用
+ *
+ * 标记为 private 的分组 (及其回收站条目) 保存在用户目录下的私有 store (见 storeLocation),
+ * 其余内容保存在共享 store. 内存中两者合并为一个 store: 共享分组在前, 私有分组在后.
+ * 在两个 store 之间移动分组只需修改分组的 private 标记, 下次写入时自然落到另一边.
+ */
+
+import { BookmarkStore } from './types';
+
+/**
+ * 拆分内存中的 store. 两部分共用同一组顶层字段 (版本、修订号等).
+ */
+export function splitStore(store: BookmarkStore): { shared: BookmarkStore; personal: BookmarkStore } {
+  const { groups, trash, ...meta } = store;
+
+  const shared: BookmarkStore = { ...meta, groups: groups.filter(g => !g.private) };
+  if (trash) {
+    shared.trash = trash.filter(item => !item.private);
+  }
+
+  const personal: BookmarkStore = { ...meta, groups: groups.filter(g => g.private) };
+  const privateTrash = trash?.filter(item => item.private) ?? [];
+  if (privateTrash.length > 0) {
+    personal.trash = privateTrash;
+  }
+
+  return { shared, personal };
+}
+
+/**
+ * 合并共享 store 和私有 store. 读取和写入后都经过这里, 结果的顺序是确定的, 可以直接比较内容.
+ * 同一分组同时出现在两边时 (移动分组时写入中断) 以共享 store 为准.
+ */
+export function combineStores(shared: BookmarkStore, personal: BookmarkStore | undefined): BookmarkStore {
+  if (!personal || !hasPrivateContent(personal)) {
+    return shared;
+  }
+
+  const sharedIds = new Set(shared.groups.map(g => g.id));
+  const groups = [
+    ...shared.groups,
+    ...personal.groups.filter(g => !sharedIds.has(g.id)).map(g => ({ ...g, private: true }))
+  ];
+  const privateTrash = (personal.trash ?? []).map(item => ({ ...item, private: true }));
+
+  return {
+    ...shared,
+    groups,
+    ...(privateTrash.length > 0 ? { trash: [...(shared.trash ?? []), ...privateTrash] } : {})
+  };
+}
+
+/** store 是否包含私有内容 */
+export function hasPrivateContent(store: BookmarkStore): boolean {
+  return store.groups.length > 0 || (store.trash?.length ?? 0) > 0;
+}
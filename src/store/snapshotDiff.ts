@@ -0,0 +1,214 @@
+/**
+ * 代码快照与当前代码的差异 - VSCode 版与 Standalone 版共用
+ *
+ * 先按行做 Myers diff, 同一处修改中删除和新增的行两两配对, 再按 token 做 Myers diff.
+ * 相似度为两边共同 token 的比例 (Dice 系数): 调换行的顺序、修改一个运算符都会降低相似度,
+ * 而缩进和空白的变化不会. 结果同时给出逐行的差异, 用于显示 inline diff.
+ */
+
+// 配对的两行 token 相似度低于此值时视为删除一行、新增另一行, 不做 token 级高亮
+const PAIR_THRESHOLD = 0.4;
+
+// 标识符/数字, 或连续的符号 ("<=" 与 "<" 是不同的 token)
+const TOKEN_PATTERN = /[\w$]+|[^\s\w$]+/g;
+
+export interface DiffSegment {
+  text: string;
+  changed: boolean;
+}
+
+export interface DiffLine {
+  kind: 'equal' | 'removed' | 'added';
+  text: string;
+  newLine?: number;              // 在当前代码中的行 (1-based), removed 没有
+  segments?: DiffSegment[];      // 与另一侧配对的行按 token 标出修改的部分
+}
+
+export interface SnapshotComparison {
+  similarity: number;            // 0..1, 1 表示只有空白不同
+  lines: DiffLine[];
+  changedLines: number[];        // 当前代码中新增或修改的行 (1-based, 相对于当前代码)
+  removedCount: number;          // 快照中被删除或修改的行数
+}
+
+type DiffOp = { kind: 'equal' | 'removed' | 'added'; oldIndex?: number; newIndex?: number };
+
+/**
+ * 比较代码快照与当前代码
+ */
+export function compareSnapshot(snapshot: string, current: string): SnapshotComparison {
+  const oldLines = snapshot.split(/\r?\n/);
+  const newLines = current.split(/\r?\n/);
+  const oldTokens = oldLines.map(tokenize);
+  const newTokens = newLines.map(tokenize);
+
+  const ops = myersDiff(oldTokens.map(joinTokens), newTokens.map(joinTokens), (a, b) => a === b);
+
+  const lines: DiffLine[] = [];
+  let matched = 0;
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  // 一处修改 (连续的删除和新增) 结束时输出, 删除和新增的行按顺序配对
+  const flush = () => {
+    const removedRows: DiffLine[] = removed.map(i => ({ kind: 'removed', text: oldLines[i] }));
+    const addedRows: DiffLine[] = added.map(i => ({ kind: 'added', text: newLines[i], newLine: i + 1 }));
+
+    for (let p = 0; p < Math.min(removed.length, added.length); p++) {
+      const pair = compareTokens(oldLines[removed[p]], oldTokens[removed[p]], newLines[added[p]], newTokens[added[p]]);
+      if (pair.similarity >= PAIR_THRESHOLD) {
+        matched += pair.matched;
+        removedRows[p].segments = pair.oldSegments;
+        addedRows[p].segments = pair.newSegments;
+      }
+    }
+
+    lines.push(...removedRows, ...addedRows);
+    removed = [];
+    added = [];
+  };
+
+  for (const op of ops) {
+    if (op.kind === 'equal') {
+      flush();
+      matched += oldTokens[op.oldIndex!].length;
+      lines.push({ kind: 'equal', text: newLines[op.newIndex!], newLine: op.newIndex! + 1 });
+    } else if (op.kind === 'removed') {
+      removed.push(op.oldIndex!);
+    } else {
+      added.push(op.newIndex!);
+    }
+  }
+  flush();
+
+  const total = countTokens(oldTokens) + countTokens(newTokens);
+  return {
+    similarity: total === 0 ? 1 : (2 * matched) / total,
+    lines,
+    changedLines: lines.filter(line => line.kind === 'added').map(line => line.newLine!),
+    removedCount: lines.filter(line => line.kind === 'removed').length
+  };
+}
+
+interface Token {
+  text: string;
+  start: number;                 // 在行中的位置
+}
+
+function tokenize(line: string): Token[] {
+  return [...line.matchAll(TOKEN_PATTERN)].map(match => ({ text: match[0], start: match.index! }));
+}
+
+function joinTokens(tokens: Token[]): string {
+  return tokens.map(token => token.text).join(' ');
+}
+
+function countTokens(lines: Token[][]): number {
+  return lines.reduce((sum, tokens) => sum + tokens.length, 0);
+}
+
+/** 两行的 token 级差异. segments 截取原始文本, 保留原有的空白 */
+function compareTokens(
+  oldLine: string,
+  oldTokens: Token[],
+  newLine: string,
+  newTokens: Token[]
+): { similarity: number; matched: number; oldSegments: DiffSegment[]; newSegments: DiffSegment[] } {
+  const ops = myersDiff(oldTokens, newTokens, (a, b) => a.text === b.text);
+  const matched = ops.filter(op => op.kind === 'equal').length;
+  const total = oldTokens.length + newTokens.length;
+
+  const oldSegments: DiffSegment[] = [];
+  const newSegments: DiffSegment[] = [];
+  for (const op of ops) {
+    if (op.kind !== 'added') {
+      appendSegment(oldSegments, sliceToken(oldLine, oldTokens, op.oldIndex!), op.kind === 'removed');
+    }
+    if (op.kind !== 'removed') {
+      appendSegment(newSegments, sliceToken(newLine, newTokens, op.newIndex!), op.kind === 'added');
+    }
+  }
+
+  return { similarity: total === 0 ? 1 : (2 * matched) / total, matched, oldSegments, newSegments };
+}
+
+/** token 及其后的空白; 第一个 token 包含行首的缩进 */
+function sliceToken(line: string, tokens: Token[], index: number): string {
+  const start = index === 0 ? 0 : tokens[index].start;
+  const end = index + 1 < tokens.length ? tokens[index + 1].start : line.length;
+  return line.slice(start, end);
+}
+
+/** 相同状态的相邻 token 合并为一段 */
+function appendSegment(segments: DiffSegment[], text: string, changed: boolean): void {
+  const last = segments[segments.length - 1];
+  if (last && last.changed === changed) {
+    last.text += text;
+  } else {
+    segments.push({ text, changed });
+  }
+}
+
+/**
+ * Myers 差异算法 (O((N+M)D)), 返回把 a 变为 b 的最短编辑序列
+ */
+function myersDiff<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(a[x], b[y])) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m, offset);
+      }
+    }
+  }
+
+  return backtrack(trace, n, m, offset);
+}
+
+function backtrack(trace: number[][], n: number, m: number, offset: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ kind: 'equal', oldIndex: x, newIndex: y });
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ kind: 'added', newIndex: prevY });
+      } else {
+        ops.push({ kind: 'removed', oldIndex: prevX });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
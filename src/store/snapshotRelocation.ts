@@ -0,0 +1,290 @@
+/**
+ * 按代码快照重新定位书签 - VSCode 版与 Standalone 版共用
+ *
+ * 分支切换、git pull 等编辑器之外的修改不经过行号漂移处理, 书签会指向错误的行.
+ * 这里在文件中查找与创建时的代码快照 (codeSnapshot) 最相似的位置, 快照前后的上下文行
+ * (contextBefore / contextAfter) 参与评分, 用于区分内容相同的多个位置:
+ *   - 当前位置仍然匹配: 不处理
+ *   - 最佳位置足够相似且明显优于其他位置: 移动
+ *   - 有多个相近的位置, 或最佳位置不够相似: 交给用户确认
+ *
+ * 比较前每行去除首尾空白并合并连续空白, 缩进和格式化造成的差异不影响结果.
+ */
+
+import * as crypto from 'crypto';
+import { CodeSnapshot } from './types';
+
+/** 保存快照时前后各保留的上下文行数 (默认值, 可由设置修改) */
+export const SNAPSHOT_CONTEXT_LINES = 2;
+export const MAX_SNAPSHOT_CONTEXT_LINES = 10;
+
+// 快照的大小上限, 超出部分不保存 (codeHash 仍然覆盖完整的代码)
+const MAX_SNAPSHOT_LINES = 50;
+const MAX_SNAPSHOT_CHARS = 4000;
+// 上下文每行的长度上限 (如压缩过的代码)
+const MAX_CONTEXT_LINE_LENGTH = 200;
+
+// 自动移动所需的最低相似度
+const MOVE_THRESHOLD = 0.8;
+// 低于该相似度的位置不作为候选
+const CANDIDATE_THRESHOLD = 0.5;
+// 最佳位置至少领先其他位置这么多, 否则视为无法区分
+const AMBIGUITY_MARGIN = 0.1;
+// 上下文在评分中的权重
+const CONTEXT_WEIGHT = 0.25;
+// 没有完全相同的行作为线索时逐个位置比较, 超过此规模 (文件行数 × 快照行数) 时放弃
+const MAX_SCAN_COST = 200_000;
+const MAX_CANDIDATES = 3;
+
+export interface SnapshotTarget {
+  startLine: number;             // 书签当前的起始行 (1-based)
+  codeSnapshot: string;
+  contextBefore?: string;
+  contextAfter?: string;
+}
+
+export interface RelocationCandidate {
+  startLine: number;             // 1-based
+  similarity: number;            // 0..1
+}
+
+export type RelocationResult =
+  | { kind: 'unchanged' }
+  | { kind: 'moved'; startLine: number; similarity: number }
+  | { kind: 'review'; candidates: RelocationCandidate[] }   // 按相似度排序, 至少一个
+  | { kind: 'not-found' };
+
+/**
+ * 截取 [startLine, endLine] 的代码快照及前后的上下文行
+ * @returns 起始行超出文件时返回 undefined
+ */
+export function captureSnapshot(
+  content: string,
+  startLine: number,
+  endLine: number,
+  contextLines: number = SNAPSHOT_CONTEXT_LINES
+): CodeSnapshot | undefined {
+  const lines = content.split(/\r?\n/);
+  const startIdx = Math.max(0, startLine - 1);
+  const endIdx = Math.min(lines.length, endLine);
+  if (startIdx >= endIdx) {
+    return undefined;
+  }
+
+  const context = Math.min(Math.max(0, Math.floor(contextLines)), MAX_SNAPSHOT_CONTEXT_LINES);
+  const clip = (line: string) => line.slice(0, MAX_CONTEXT_LINE_LENGTH);
+  const before = lines.slice(Math.max(0, startIdx - context), startIdx).map(clip).join('\n');
+  const after = lines.slice(endIdx, endIdx + context).map(clip).join('\n');
+
+  const code = lines.slice(startIdx, endIdx).join('\n');
+  const { text, truncated } = limitSnapshotCode(code);
+
+  return {
+    codeSnapshot: text,
+    codeHash: hashSnapshotCode(code),
+    ...(truncated ? { snapshotTruncated: true } : {}),
+    ...(before.trim() ? { contextBefore: before } : {}),
+    ...(after.trim() ? { contextAfter: after } : {})
+  };
+}
+
+/**
+ * 把代码限制在快照的大小上限内: 最多 MAX_SNAPSHOT_LINES 行、MAX_SNAPSHOT_CHARS 个字符.
+ * 比较截断的快照时, 当前代码同样经过截断
+ */
+export function limitSnapshotCode(code: string): { text: string; truncated: boolean } {
+  const lines = code.split(/\r?\n/);
+  let text = lines.slice(0, MAX_SNAPSHOT_LINES).join('\n');
+  if (text.length > MAX_SNAPSHOT_CHARS) {
+    // 尽量在行尾截断, 第一行就超出上限时截断该行
+    const lastBreak = text.lastIndexOf('\n', MAX_SNAPSHOT_CHARS);
+    text = text.slice(0, lastBreak > 0 ? lastBreak : MAX_SNAPSHOT_CHARS);
+  }
+  return { text, truncated: text.length < code.length };
+}
+
+/**
+ * 代码内容的 hash, 忽略缩进和空白的变化. 用于快速判断代码是否变化
+ */
+export function hashSnapshotCode(code: string): string {
+  const normalized = code.split(/\r?\n/).map(normalizeLine).join('\n');
+  return crypto.createHash('sha1').update(normalized).digest('hex').slice(0, 16);
+}
+
+/**
+ * 在文件内容中查找快照的位置
+ */
+export function relocateSnapshot(content: string, target: SnapshotTarget): RelocationResult {
+  const snapshot = target.codeSnapshot.split(/\r?\n/).map(normalizeLine);
+  // 快照全是空行时无从比较
+  if (snapshot.every(line => !line)) {
+    return { kind: 'unchanged' };
+  }
+
+  const matcher = new WindowMatcher(content.split(/\r?\n/).map(normalizeLine), snapshot, target);
+  const current = target.startLine - 1;
+  const currentScore = matcher.score(current);
+  if (currentScore === 1) {
+    return { kind: 'unchanged' };
+  }
+
+  const ranked = matcher.rank();
+  const best = ranked[0];
+  if (!best || best.similarity < CANDIDATE_THRESHOLD) {
+    return { kind: 'not-found' };
+  }
+
+  // 当前位置与最佳位置不相上下时保持不动
+  if (currentScore >= MOVE_THRESHOLD && currentScore >= best.similarity - AMBIGUITY_MARGIN) {
+    return { kind: 'unchanged' };
+  }
+
+  const runnerUp = ranked[1];
+  if (best.similarity >= MOVE_THRESHOLD && (!runnerUp || best.similarity - runnerUp.similarity >= AMBIGUITY_MARGIN)) {
+    return { kind: 'moved', startLine: best.startLine, similarity: best.similarity };
+  }
+
+  return { kind: 'review', candidates: ranked.slice(0, MAX_CANDIDATES) };
+}
+
+/**
+ * 快照与文件中某个位置 (窗口) 的相似度计算, 缓存每行的 bigram
+ */
+class WindowMatcher {
+  private readonly bigramCache = new Map<string, Map<string, number>>();
+  private readonly contextBefore: string[];
+  private readonly contextAfter: string[];
+
+  constructor(
+    private readonly lines: string[],
+    private readonly snapshot: string[],
+    target: SnapshotTarget
+  ) {
+    this.contextBefore = target.contextBefore?.split(/\r?\n/).map(normalizeLine) ?? [];
+    this.contextAfter = target.contextAfter?.split(/\r?\n/).map(normalizeLine) ?? [];
+  }
+
+  /** 起始于 start (0-based) 的窗口的相似度. 快照中的空行不计分 */
+  score(start: number): number {
+    if (start < 0 || start >= this.lines.length) {
+      return 0;
+    }
+
+    const body = this.compare(this.snapshot, start);
+    if (body === undefined) {
+      return 0;
+    }
+
+    const before = this.compare(this.contextBefore, start - this.contextBefore.length);
+    const after = this.compare(this.contextAfter, start + this.snapshot.length);
+    const context = [before, after].filter((value): value is number => value !== undefined);
+    if (context.length === 0) {
+      return body;
+    }
+
+    const contextScore = context.reduce((sum, value) => sum + value, 0) / context.length;
+    return body * (1 - CONTEXT_WEIGHT) + contextScore * CONTEXT_WEIGHT;
+  }
+
+  /**
+   * 候选位置按相似度排序. 窗口互相重叠的候选只保留相似度最高的一个
+   */
+  rank(): RelocationCandidate[] {
+    const scored = [...this.getCandidateStarts()]
+      .map(start => ({ start, similarity: this.score(start) }))
+      .filter(c => c.similarity >= CANDIDATE_THRESHOLD)
+      .sort((a, b) => b.similarity - a.similarity || a.start - b.start);
+
+    const result: RelocationCandidate[] = [];
+    for (const candidate of scored) {
+      const overlaps = result.some(r => Math.abs(r.startLine - 1 - candidate.start) < this.snapshot.length);
+      if (!overlaps) {
+        result.push({ startLine: candidate.start + 1, similarity: candidate.similarity });
+      }
+    }
+    return result;
+  }
+
+  /** 以完全相同的行为线索; 没有线索且文件不大时比较所有位置 */
+  private getCandidateStarts(): Set<number> {
+    const lineIndex = new Map<string, number[]>();
+    this.lines.forEach((line, i) => {
+      if (line) {
+        const list = lineIndex.get(line);
+        if (list) {
+          list.push(i);
+        } else {
+          lineIndex.set(line, [i]);
+        }
+      }
+    });
+
+    const starts = new Set<number>();
+    this.snapshot.forEach((line, offset) => {
+      for (const i of (line && lineIndex.get(line)) || []) {
+        if (i - offset >= 0) {
+          starts.add(i - offset);
+        }
+      }
+    });
+
+    if (starts.size === 0 && this.lines.length * this.snapshot.length <= MAX_SCAN_COST) {
+      for (let i = 0; i < this.lines.length; i++) {
+        starts.add(i);
+      }
+    }
+    return starts;
+  }
+
+  /** 逐行比较 expected 与从 start 开始的行, 返回平均相似度; expected 没有非空行时返回 undefined */
+  private compare(expected: string[], start: number): number | undefined {
+    let total = 0;
+    let count = 0;
+    expected.forEach((line, i) => {
+      if (!line) {
+        return;
+      }
+      count++;
+      const actual = this.lines[start + i];
+      if (actual !== undefined) {
+        total += this.lineSimilarity(line, actual);
+      }
+    });
+    return count === 0 ? undefined : total / count;
+  }
+
+  /** 字符 bigram 的 Dice 系数 */
+  private lineSimilarity(a: string, b: string): number {
+    if (a === b) {
+      return 1;
+    }
+    if (a.length < 2 || b.length < 2) {
+      return 0;
+    }
+
+    const bigramsA = this.getBigrams(a);
+    const bigramsB = this.getBigrams(b);
+    let overlap = 0;
+    for (const [bigram, count] of bigramsA) {
+      overlap += Math.min(count, bigramsB.get(bigram) ?? 0);
+    }
+    return (2 * overlap) / (a.length - 1 + b.length - 1);
+  }
+
+  private getBigrams(line: string): Map<string, number> {
+    let bigrams = this.bigramCache.get(line);
+    if (!bigrams) {
+      bigrams = new Map();
+      for (let i = 0; i < line.length - 1; i++) {
+        const bigram = line.slice(i, i + 2);
+        bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+      }
+      this.bigramCache.set(line, bigrams);
+    }
+    return bigrams;
+  }
+}
+
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
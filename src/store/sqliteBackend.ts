@@ -0,0 +1,344 @@
+/**
+ * SQLite 存储后端: .vscode/mcp-bookmarks.sqlite
+ *
+ * 使用 sql.js (WASM, 不依赖本机编译的模块, extension 和 standalone server 都能加载).
+ * 每个分组/书签/回收站条目存为一行 JSON, 书签额外保存 parent_id 和 file_path 列, 便于删除子树和外部工具按文件查询.
+ * commit 只写入与磁盘版本不同的行, 然后导出数据库原子替换文件.
+ * 数据库在两次读取之间保持打开, 文件未被其他进程替换时不会重新加载.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import initSqlJs, { Database, SqlJsStatic, SqlValue, BindParams } from 'sql.js';
+import { Bookmark, BookmarkGroup, BookmarkStore, TrashItem } from './types';
+import { StorageBackend } from './storageBackend';
+import { GroupMeta } from './operationJournal';
+import { writeFileAtomic } from './storeIO';
+import { parseLocation } from '../utils';
+
+export const SQLITE_FILE_NAME = 'mcp-bookmarks.sqlite';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS bookmark_groups (id TEXT PRIMARY KEY, position INTEGER NOT NULL, data TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS bookmarks (
+    group_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    parent_id TEXT,
+    file_path TEXT,
+    position INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (group_id, id)
+  );
+  CREATE INDEX IF NOT EXISTS bookmarks_by_parent ON bookmarks (group_id, parent_id);
+  CREATE INDEX IF NOT EXISTS bookmarks_by_file ON bookmarks (file_path);
+  CREATE TABLE IF NOT EXISTS trash (id TEXT PRIMARY KEY, position INTEGER NOT NULL, data TEXT NOT NULL);
+`;
+
+// store 顶层字段 (不含 groups/trash) 在 meta 表中的 key
+const STORE_META_KEY = 'store';
+
+// 各行在数据库中的内容, 用于与要写入的 store 比较
+interface BookmarkRow {
+  id: string;
+  parentId: string | null;
+  data: string;
+}
+
+interface GroupRows {
+  id: string;
+  data: string;
+  bookmarks: BookmarkRow[];
+}
+
+interface StoreRows {
+  top: string;
+  groups: GroupRows[];
+  trash: Array<{ id: string; data: string }>;
+}
+
+let sqlJs: SqlJsStatic | undefined;
+let loading: Promise<void> | undefined;
+
+/**
+ * 加载 sql.js 的 WASM 模块. store 的读写都是同步的, 使用 SQLite 后端之前必须先完成加载.
+ * sql-wasm.wasm 在打包时复制到 dist/, 与打包后的脚本位于同一目录.
+ */
+export function initSqlite(): Promise<void> {
+  if (!loading) {
+    loading = initSqlJs({ locateFile: (file: string) => path.join(__dirname, file) }).then(module => {
+      sqlJs = module;
+    });
+    // 加载失败后允许重试
+    loading.catch(() => {
+      loading = undefined;
+    });
+  }
+  return loading;
+}
+
+export function getSqliteFilePath(storeDir: string): string {
+  return path.join(storeDir, SQLITE_FILE_NAME);
+}
+
+export class SqliteStorageBackend implements StorageBackend {
+  readonly kind = 'sqlite' as const;
+  readonly location: string;
+
+  private db?: Database;
+  /** 打开 db 时文件的 inode/mtime/size, 变化说明文件被其他进程替换 */
+  private fileSignature?: string;
+  /** 与 fileSignature 对应的磁盘内容 */
+  private rows?: StoreRows;
+
+  constructor(storeDir: string) {
+    if (!sqlJs) {
+      throw new Error('SQLite storage is not available: the sql.js module has not been loaded');
+    }
+    this.location = getSqliteFilePath(storeDir);
+  }
+
+  exists(): boolean {
+    return fs.existsSync(this.location);
+  }
+
+  load(): { store: BookmarkStore } | undefined {
+    if (!this.exists()) {
+      return undefined;
+    }
+
+    const rows = this.readRows();
+    const store = {
+      ...JSON.parse(rows.top),
+      groups: rows.groups.map(group => ({
+        ...JSON.parse(group.data),
+        bookmarks: group.bookmarks.map(b => JSON.parse(b.data) as Bookmark)
+      }))
+    } as BookmarkStore;
+    if (rows.trash.length > 0) {
+      store.trash = rows.trash.map(item => JSON.parse(item.data) as TrashItem);
+    }
+    return { store };
+  }
+
+  /**
+   * 与磁盘上的各行比较, 只写入新增、修改或位置变化的行, 删除不再存在的行.
+   * 被整棵删除但仍然存在的后代 (如被移到顶层的子书签) 会重新写入.
+   */
+  save(store: BookmarkStore): BookmarkStore {
+    const next = toRows(store);
+
+    this.transaction(db => {
+      const current = this.readRows();
+      if (current.top !== next.top) {
+        db.run('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', [STORE_META_KEY, next.top]);
+      }
+
+      const currentGroups = new Map(current.groups.map((group, position) => [group.id, { group, position }]));
+      const groupIds = new Set(next.groups.map(g => g.id));
+      for (const group of current.groups) {
+        if (!groupIds.has(group.id)) {
+          this.deleteGroup(db, group.id);
+        }
+      }
+
+      next.groups.forEach((group, position) => {
+        const previous = currentGroups.get(group.id);
+        if (!previous || previous.position !== position || previous.group.data !== group.data) {
+          db.run('INSERT OR REPLACE INTO bookmark_groups (id, position, data) VALUES (?, ?, ?)', [group.id, position, group.data]);
+        }
+        this.saveBookmarks(db, group, previous?.group.bookmarks ?? []);
+      });
+
+      const currentTrash = new Map(current.trash.map((item, position) => [item.id, { item, position }]));
+      const trashIds = new Set(next.trash.map(item => item.id));
+      for (const item of current.trash) {
+        if (!trashIds.has(item.id)) {
+          db.run('DELETE FROM trash WHERE id = ?', [item.id]);
+        }
+      }
+      next.trash.forEach((item, position) => {
+        const previous = currentTrash.get(item.id);
+        if (!previous || previous.position !== position || previous.item.data !== item.data) {
+          db.run('INSERT OR REPLACE INTO trash (id, position, data) VALUES (?, ?, ?)', [item.id, position, item.data]);
+        }
+      });
+    });
+
+    // 写入后磁盘上的各行即为 next, 下次读取或写入不必重新查询
+    this.rows = next;
+    return toStoredForm(store);
+  }
+
+  remove(): void {
+    this.dispose();
+    fs.rmSync(this.location, { force: true });
+  }
+
+  dispose(): void {
+    this.db?.close();
+    this.db = undefined;
+    this.fileSignature = undefined;
+    this.rows = undefined;
+  }
+
+  // --- 私有方法 ---
+
+  private saveBookmarks(db: Database, group: GroupRows, currentBookmarks: BookmarkRow[]): void {
+    const current = new Map(currentBookmarks.map((bookmark, position) => [bookmark.id, { bookmark, position }]));
+    const ids = new Set(group.bookmarks.map(b => b.id));
+
+    const removed = new Set<string>();
+    for (const bookmark of currentBookmarks) {
+      // 只从被删除子树的根开始删除
+      const parentRemoved = bookmark.parentId !== null && current.has(bookmark.parentId) && !ids.has(bookmark.parentId);
+      if (!ids.has(bookmark.id) && !parentRemoved) {
+        this.deleteSubtree(db, group.id, bookmark.id).forEach(id => removed.add(id));
+      }
+    }
+
+    group.bookmarks.forEach((bookmark, position) => {
+      const previous = current.get(bookmark.id);
+      if (!previous || removed.has(bookmark.id) || previous.position !== position || previous.bookmark.data !== bookmark.data) {
+        db.run(
+          'INSERT OR REPLACE INTO bookmarks (group_id, id, parent_id, file_path, position, data) VALUES (?, ?, ?, ?, ?, ?)',
+          [group.id, bookmark.id, bookmark.parentId, getFilePath(JSON.parse(bookmark.data) as Bookmark), position, bookmark.data]
+        );
+      }
+    });
+  }
+
+  private deleteGroup(db: Database, groupId: string): void {
+    db.run('DELETE FROM bookmarks WHERE group_id = ?', [groupId]);
+    db.run('DELETE FROM bookmark_groups WHERE id = ?', [groupId]);
+  }
+
+  /** 删除书签及其所有后代, 返回被删除的书签 id */
+  private deleteSubtree(db: Database, groupId: string, bookmarkId: string): string[] {
+    const subtree = `
+      WITH RECURSIVE subtree(id) AS (
+        SELECT id FROM bookmarks WHERE group_id = :group AND id = :id
+        UNION SELECT b.id FROM bookmarks b JOIN subtree s ON b.parent_id = s.id WHERE b.group_id = :group
+      )`;
+    const params = { ':group': groupId, ':id': bookmarkId };
+    const removed = this.query(`${subtree} SELECT id FROM subtree`, params).map(([id]) => id as string);
+    db.run(`${subtree} DELETE FROM bookmarks WHERE group_id = :group AND id IN (SELECT id FROM subtree)`, params);
+    return removed;
+  }
+
+  /** 磁盘上的各行, 按顺序. 文件未被替换时使用缓存 */
+  private readRows(): StoreRows {
+    this.open();
+    if (this.rows) {
+      return this.rows;
+    }
+
+    const [meta] = this.query('SELECT value FROM meta WHERE key = ?', [STORE_META_KEY]);
+    const groups = new Map<string, GroupRows>();
+    for (const [id, data] of this.query('SELECT id, data FROM bookmark_groups ORDER BY position, rowid')) {
+      groups.set(id as string, { id: id as string, data: data as string, bookmarks: [] });
+    }
+    for (const [groupId, id, parentId, data] of this.query(
+      'SELECT group_id, id, parent_id, data FROM bookmarks ORDER BY position, rowid'
+    )) {
+      // 没有对应分组的行 (不应出现) 直接忽略
+      groups.get(groupId as string)?.bookmarks.push({ id: id as string, parentId: parentId as string | null, data: data as string });
+    }
+    const trash = this.query('SELECT id, data FROM trash ORDER BY position, rowid')
+      .map(([id, data]) => ({ id: id as string, data: data as string }));
+
+    this.rows = { top: meta ? meta[0] as string : '{}', groups: [...groups.values()], trash };
+    return this.rows;
+  }
+
+  /** 在事务中执行 fn, 提交后写入文件 */
+  private transaction<T>(fn: (db: Database) => T): T {
+    const db = this.open();
+    db.run('BEGIN');
+    try {
+      const result = fn(db);
+      db.run('COMMIT');
+      this.persist();
+      return result;
+    } catch (error) {
+      db.run('ROLLBACK');
+      // 内存中的数据库可能与文件不一致, 下次使用时重新加载
+      this.dispose();
+      throw error;
+    }
+  }
+
+  private query(sql: string, params?: BindParams): SqlValue[][] {
+    const [result] = this.open().exec(sql, params);
+    return result ? result.values : [];
+  }
+
+  private open(): Database {
+    const signature = this.readSignature();
+    if (this.db && signature === this.fileSignature) {
+      return this.db;
+    }
+
+    this.db?.close();
+    this.db = new sqlJs!.Database(signature ? fs.readFileSync(this.location) : null);
+    this.db.run(SCHEMA);
+    this.fileSignature = signature;
+    this.rows = undefined;
+    return this.db;
+  }
+
+  private persist(): void {
+    writeFileAtomic(this.location, this.db!.export());
+    this.fileSignature = this.readSignature();
+  }
+
+  private readSignature(): string | undefined {
+    const stat = fs.statSync(this.location, { throwIfNoEntry: false });
+    // 写入总是替换文件 (rename), inode 变化即说明被其他进程写入过
+    return stat ? `${stat.ino}:${stat.mtimeMs}:${stat.size}` : undefined;
+  }
+}
+
+function toGroupMeta(group: BookmarkGroup): GroupMeta {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { bookmarks, ...meta } = group;
+  return meta;
+}
+
+function toRows(store: BookmarkStore): StoreRows {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { groups, trash, ...top } = store;
+  return {
+    top: JSON.stringify(top),
+    groups: groups.map(group => ({
+      id: group.id,
+      data: JSON.stringify(toGroupMeta(group)),
+      bookmarks: group.bookmarks.map(bookmark => ({
+        id: bookmark.id,
+        parentId: bookmark.parentId ?? null,
+        data: JSON.stringify(bookmark)
+      }))
+    })),
+    trash: (trash ?? []).map(item => ({ id: item.id, data: JSON.stringify(item) }))
+  };
+}
+
+/** 与 load() 重新读取时相同的结构和 key 顺序, 便于与磁盘内容直接比较 */
+function toStoredForm(store: BookmarkStore): BookmarkStore {
+  // 书签和回收站条目整体存为 JSON, 重新读取时 key 顺序不变, 可以直接复用
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { groups, trash, ...top } = store;
+  const stored = { ...top, groups: groups.map(g => ({ ...toGroupMeta(g), bookmarks: g.bookmarks })) } as BookmarkStore;
+  if (trash && trash.length > 0) {
+    stored.trash = trash;
+  }
+  return stored;
+}
+
+function getFilePath(bookmark: Bookmark): string | null {
+  try {
+    return parseLocation(bookmark.location).filePath;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Store 存储后端 - VSCode 版与 Standalone 版共用
+ *
+ * - json:   .vscode/mcp-bookmarks.json 或 split 布局 (见 storeLayout), 每次写入重写整个 store
+ * - sqlite: .vscode/mcp-bookmarks.sqlite, 分组/书签/回收站各占一行, 只写入发生变化的行
+ *
+ * BookmarkStoreBase 以完整的 BookmarkStore 作为内存副本做合并和撤销, 后端只负责读写完整的 store;
+ * 只写入变化的部分是后端内部的优化. 两种后端不会同时存在, 磁盘上已有的后端决定当前工作区使用哪一种.
+ */
+
+import * as fs from 'fs';
+import { BookmarkStore } from './types';
+import { RepairReport } from './storeRepair';
+import { StorageLayout, detectLayout } from './storeLayout';
+import { JsonStorageBackend } from './jsonBackend';
+import { SqliteStorageBackend, getSqliteFilePath } from './sqliteBackend';
+
+export type StorageBackendKind = 'json' | 'sqlite';
+
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  /** 用于展示和打开的存储文件 */
+  readonly location: string;
+
+  /** 磁盘上是否已有数据 */
+  exists(): boolean;
+  /** 读取完整 store. 不存在时返回 undefined, 无法读取时抛出异常. 返回 report 时修复结果尚未写回 */
+  load(): { store: BookmarkStore; report?: RepairReport } | undefined;
+  /**
+   * 写入完整 store, 后端可以只写入与磁盘不同的部分.
+   * 返回实际写入的 store (重新读取时得到的形式), 调用方应当用它替换内存副本.
+   */
+  save(store: BookmarkStore): BookmarkStore;
+
+  /** 删除后端的所有文件 (切换后端之后) */
+  remove(): void;
+  dispose(): void;
+}
+
+/**
+ * 检测磁盘上实际使用的后端. 都不存在时返回 undefined.
+ */
+export function detectBackend(storeDir: string): StorageBackendKind | undefined {
+  if (fs.existsSync(getSqliteFilePath(storeDir))) {
+    return 'sqlite';
+  }
+  return detectLayout(storeDir) ? 'json' : undefined;
+}
+
+/**
+ * @param getLayout json 后端写入时使用的布局, 每次写入时获取
+ */
+export function createStorageBackend(
+  kind: StorageBackendKind,
+  storeDir: string,
+  getLayout: () => StorageLayout
+): StorageBackend {
+  return kind === 'sqlite'
+    ? new SqliteStorageBackend(storeDir)
+    : new JsonStorageBackend(storeDir, getLayout);
+}
+
+/**
+ * 将磁盘上的 store 转换到目标后端, 并删除原后端的文件. 调用方必须持有 store 锁.
+ *
+ * @returns 是否发生了转换
+ */
+export function convertBackend(storeDir: string, target: StorageBackendKind, layout: StorageLayout): boolean {
+  const current = detectBackend(storeDir);
+  if (!current || current === target) {
+    return false;
+  }
+
+  const source = createStorageBackend(current, storeDir, () => layout);
+  const destination = createStorageBackend(target, storeDir, () => layout);
+  try {
+    // 原文件损坏时由下一次正常读取负责修复, 这里不做转换
+    const loaded = source.load();
+    if (!loaded || loaded.report) {
+      throw new Error(`Bookmarks in ${source.location} need to be repaired before switching storage backend`);
+    }
+    destination.save(loaded.store);
+    source.remove();
+    return true;
+  } finally {
+    source.dispose();
+    destination.dispose();
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Store 自动备份 - VSCode 版与 Standalone 版共用
+ *
+ * 清空、删除分组、批量删除和 schema 迁移之前, 把当时的 store 完整写入
+ * .vscode/mcp-bookmarks.backups/<时间戳>.<原因>.json, 超过保留数量时删除最旧的备份.
+ * 备份始终是单个 JSON 文件 (与存储布局无关), 可以直接打开或对比.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BookmarkStore } from './types';
+import { stringifyWithUnicode } from '../utils';
+import { writeFileAtomic } from './storeIO';
+
+export const BACKUP_DIR_NAME = 'mcp-bookmarks.backups';
+export const DEFAULT_BACKUP_RETENTION = 20;
+
+// 备份原因, 作为文件名的一部分
+export type BackupReason = 'clear-all' | 'remove-group' | 'batch-remove' | 'migration' | 'restore';
+
+export interface BackupInfo {
+  id: string;                    // 备份文件名
+  path: string;
+  createdAt: string;             // ISO timestamp
+  reason: string;
+  groupCount: number;
+  bookmarkCount: number;
+}
+
+// 20261019T021748123Z.clear-all.json, 同一毫秒内的后续备份为 20261019T021748123Z-2.clear-all.json
+const BACKUP_FILE_PATTERN = /^(\d{8}T\d{9}Z)(?:-(\d+))?\.([\w-]+)\.json$/;
+
+/**
+ * 写入备份并按保留数量清理旧备份.
+ *
+ * @returns 备份文件路径
+ */
+export function writeBackup(storeDir: string, store: BookmarkStore, reason: BackupReason, retention: number): string {
+  const dir = path.join(storeDir, BACKUP_DIR_NAME);
+  const timestamp = new Date().toISOString().replace(/[-:.]/g, '');
+
+  let backupPath = path.join(dir, `${timestamp}.${reason}.json`);
+  for (let n = 2; fs.existsSync(backupPath); n++) {
+    backupPath = path.join(dir, `${timestamp}-${n}.${reason}.json`);
+  }
+  writeFileAtomic(backupPath, stringifyWithUnicode(store, 2));
+
+  pruneBackups(dir, Math.max(1, retention));
+  return backupPath;
+}
+
+/** 列出备份, 最新的在前. 无法读取的备份文件计数为 0 */
+export function listBackups(storeDir: string): BackupInfo[] {
+  const dir = path.join(storeDir, BACKUP_DIR_NAME);
+  return listBackupFiles(dir).reverse().map(fileName => {
+    const match = BACKUP_FILE_PATTERN.exec(fileName)!;
+    const filePath = path.join(dir, fileName);
+    const store = readBackupFile(filePath);
+    const groups = Array.isArray(store?.groups) ? store!.groups : [];
+
+    return {
+      id: fileName,
+      path: filePath,
+      createdAt: parseTimestamp(match[1]),
+      reason: match[3],
+      groupCount: groups.length,
+      bookmarkCount: groups.reduce((sum, g) => sum + (Array.isArray(g.bookmarks) ? g.bookmarks.length : 0), 0)
+    };
+  });
+}
+
+/** 读取备份内容, 不存在或无法解析时返回 undefined */
+export function readBackup(storeDir: string, backupId: string): BookmarkStore | undefined {
+  // backupId 来自调用方 (MCP 参数), 只接受备份目录中的文件名
+  if (!BACKUP_FILE_PATTERN.test(backupId)) {
+    return undefined;
+  }
+  return readBackupFile(path.join(storeDir, BACKUP_DIR_NAME, backupId));
+}
+
+function readBackupFile(filePath: string): BookmarkStore | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as BookmarkStore;
+  } catch {
+    return undefined;
+  }
+}
+
+function listBackupFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir).filter(name => BACKUP_FILE_PATTERN.test(name)).sort(compareBackupNames);
+}
+
+/**
+ * 按 (时间戳, 序号) 排序, 从旧到新. 不能直接比较字典序:
+ * "-2" 会排在没有序号的同一时间戳之前, "-10" 会排在 "-2" 之前
+ */
+function compareBackupNames(a: string, b: string): number {
+  const [, timeA, seqA = '1'] = BACKUP_FILE_PATTERN.exec(a)!;
+  const [, timeB, seqB = '1'] = BACKUP_FILE_PATTERN.exec(b)!;
+  if (timeA !== timeB) {
+    return timeA < timeB ? -1 : 1;
+  }
+  return Number(seqA) - Number(seqB) || (a < b ? -1 : a > b ? 1 : 0);
+}
+
+function pruneBackups(dir: string, retention: number): void {
+  const files = listBackupFiles(dir);
+  for (const fileName of files.slice(0, Math.max(0, files.length - retention))) {
+    fs.rmSync(path.join(dir, fileName), { force: true });
+  }
+}
+
+function parseTimestamp(compact: string): string {
+  // 20261019T021748123Z -> 2026-10-19T02:17:48.123Z
+  const m = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z$/.exec(compact)!;
+  return `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}.${m[7]}Z`;
+}
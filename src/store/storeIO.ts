@@ -0,0 +1,156 @@
+/**
+ * Store 文件 I/O 工具 - VSCode 版与 Standalone 版共用
+ *
+ * - writeFileAtomic: 先写临时文件再 rename, 读者永远不会读到写了一半的 JSON
+ * - withFileLock: 基于 lock 文件的跨进程互斥锁, 保护 "读取-修改-写回" 周期
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// 其他机器上的锁超过这个时间没有释放, 视为持有者已崩溃
+const LOCK_STALE_MS = 10000;
+// 获取锁的默认超时
+const LOCK_TIMEOUT_MS = 5000;
+// 重试间隔
+const LOCK_RETRY_MS = 20;
+
+interface LockInfo {
+  pid: number;
+  hostname: string;
+  acquiredAt: number;
+}
+
+/**
+ * 原子写入文件: 写入同目录下的临时文件, fsync 后 rename 覆盖目标
+ */
+export function writeFileAtomic(filePath: string, content: string | Uint8Array): void {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  const fd = fs.openSync(tmpPath, 'w');
+  try {
+    if (typeof content === 'string') {
+      fs.writeSync(fd, content, null, 'utf-8');
+    } else {
+      fs.writeSync(fd, content);
+    }
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  try {
+    fs.renameSync(tmpPath, filePath);
+  } catch (error) {
+    fs.rmSync(tmpPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * 在跨进程文件锁内同步执行 fn.
+ * lock 文件记录持有者 pid, 持有者进程已退出或锁超时未释放时会被强制接管.
+ */
+export function withFileLock<T>(lockPath: string, fn: () => T, timeoutMs: number = LOCK_TIMEOUT_MS): T {
+  acquireLock(lockPath, timeoutMs);
+  try {
+    return fn();
+  } finally {
+    releaseLock(lockPath);
+  }
+}
+
+function acquireLock(lockPath: string, timeoutMs: number): void {
+  const dir = path.dirname(lockPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const deadline = Date.now() + timeoutMs;
+  const info: LockInfo = { pid: process.pid, hostname: os.hostname(), acquiredAt: Date.now() };
+
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      try {
+        fs.writeSync(fd, JSON.stringify(info));
+      } finally {
+        fs.closeSync(fd);
+      }
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    if (isLockStale(lockPath)) {
+      fs.rmSync(lockPath, { force: true });
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for bookmark store lock: ${lockPath}`);
+    }
+    sleepSync(LOCK_RETRY_MS);
+  }
+}
+
+function releaseLock(lockPath: string): void {
+  try {
+    const holder = readLockInfo(lockPath);
+    // 只删除自己持有的锁, 避免误删被接管后的新锁
+    if (!holder || holder.pid === process.pid) {
+      fs.rmSync(lockPath, { force: true });
+    }
+  } catch (error) {
+    console.error('Failed to release bookmark store lock:', error);
+  }
+}
+
+function isLockStale(lockPath: string): boolean {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(lockPath);
+  } catch {
+    // 锁刚被释放
+    return false;
+  }
+
+  // 本机的持有者以进程是否存在为准: 持有时间较长 (如大文件写盘) 的锁不能被接管
+  const holder = readLockInfo(lockPath);
+  if (holder && holder.hostname === os.hostname()) {
+    return !isProcessAlive(holder.pid);
+  }
+
+  // 其他机器 (共享目录) 上的持有者无法检查进程, 按锁文件的修改时间判断
+  return Date.now() - stat.mtimeMs > LOCK_STALE_MS;
+}
+
+function readLockInfo(lockPath: string): LockInfo | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, 'utf-8')) as LockInfo;
+  } catch {
+    // 锁文件可能正在被写入, 或已被删除
+    return undefined;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM 说明进程存在但属于其他用户
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
@@ -0,0 +1,132 @@
+/**
+ * Store 内存索引 - VSCode 版与 Standalone 版共用
+ *
+ * 按 id、parentId 和文件路径索引书签, provider 每次刷新 (按键、切换编辑器) 时不必遍历全部书签.
+ * 写盘和重新加载可能替换 store 中的对象, BookmarkStoreBase 在之后丢弃索引, 下次查询时重建;
+ * 只修改内存的行号漂移由 updateFiles 就地更新, 按键时不必重建.
+ */
+
+import { Bookmark, BookmarkGroup, BookmarkStore } from './types';
+import { parseBookmarkLocations } from '../utils';
+
+export interface IndexedBookmark {
+  bookmark: Bookmark;
+  group: BookmarkGroup;
+  /** 在 store 中的遍历顺序 (分组顺序, 再按分组内顺序), 用于还原线性扫描的结果顺序 */
+  seq: number;
+}
+
+export class StoreIndex {
+  private readonly groups = new Map<string, BookmarkGroup>();
+  private readonly byId = new Map<string, IndexedBookmark>();
+  private readonly byParent = new Map<string, IndexedBookmark[]>();
+  private readonly byFile = new Map<string, IndexedBookmark[]>();
+
+  constructor(store: BookmarkStore) {
+    let seq = 0;
+    for (const group of store.groups) {
+      if (!this.groups.has(group.id)) {
+        this.groups.set(group.id, group);
+      }
+
+      for (const bookmark of group.bookmarks) {
+        const entry: IndexedBookmark = { bookmark, group, seq: seq++ };
+
+        // id 重复时与线性查找一致, 保留第一个
+        if (!this.byId.has(bookmark.id)) {
+          this.byId.set(bookmark.id, entry);
+        }
+        if (bookmark.parentId) {
+          append(this.byParent, bookmark.parentId, entry);
+        }
+
+        for (const file of getBookmarkFiles(bookmark)) {
+          append(this.byFile, file, entry);
+        }
+      }
+    }
+  }
+
+  /**
+   * 书签的位置修改后更新文件索引. 行号漂移不改变文件, 不需要任何修改
+   * @param previousFiles 修改前位置所在的文件 (getBookmarkFiles)
+   * @returns 是否已更新; 书签不在索引中 (如 id 重复) 时返回 false, 调用方应丢弃索引
+   */
+  updateFiles(bookmark: Bookmark, previousFiles: Set<string>): boolean {
+    const entry = this.byId.get(bookmark.id);
+    if (entry?.bookmark !== bookmark) {
+      return false;
+    }
+
+    const files = getBookmarkFiles(bookmark);
+    for (const file of previousFiles) {
+      if (!files.has(file)) {
+        const entries = this.byFile.get(file)?.filter(e => e !== entry) ?? [];
+        if (entries.length > 0) {
+          this.byFile.set(file, entries);
+        } else {
+          this.byFile.delete(file);
+        }
+      }
+    }
+    for (const file of files) {
+      if (!previousFiles.has(file)) {
+        const entries = this.byFile.get(file) ?? [];
+        const position = entries.findIndex(e => e.seq > entry.seq);
+        entries.splice(position === -1 ? entries.length : position, 0, entry);
+        this.byFile.set(file, entries);
+      }
+    }
+    return true;
+  }
+
+  getGroup(groupId: string): BookmarkGroup | undefined {
+    return this.groups.get(groupId);
+  }
+
+  getBookmark(bookmarkId: string): IndexedBookmark | undefined {
+    return this.byId.get(bookmarkId);
+  }
+
+  /** 直接子书签 (所有分组), 按遍历顺序 */
+  getChildren(parentId: string): IndexedBookmark[] {
+    return this.byParent.get(parentId) ?? [];
+  }
+
+  /**
+   * 位于指定文件的书签, 按遍历顺序.
+   * 与 listBookmarks 的 filePath 过滤一致: 路径互相包含即视为匹配. 只需比较不同的文件路径, 不必遍历书签.
+   *
+   * @param filePath 已经 normalizePath 的路径
+   */
+  getByFile(filePath: string): IndexedBookmark[] {
+    const matches: IndexedBookmark[] = [];
+    let keyCount = 0;
+    for (const [key, entries] of this.byFile) {
+      if (key.includes(filePath) || filePath.includes(key)) {
+        matches.push(...entries);
+        keyCount++;
+      }
+    }
+
+    if (keyCount <= 1) {
+      return matches;
+    }
+    // 多位置书签可能同时出现在多个匹配的文件中
+    return [...new Set(matches)].sort((a, b) => a.seq - b.seq);
+  }
+}
+
+/** 书签位置所在的文件. 多位置书签属于其所有位置所在的文件, 无法解析的位置不属于任何文件 */
+export function getBookmarkFiles(bookmark: Bookmark): Set<string> {
+  return new Set(parseBookmarkLocations(bookmark).map(parsed => parsed.filePath));
+}
+
+function append<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const list = map.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * Store 存储布局 - VSCode 版与 Standalone 版共用
+ *
+ * - single: 整个 store 保存在 .vscode/mcp-bookmarks.json
+ * - split:  .vscode/mcp-bookmarks/ 目录, 每个分组一个 <group-id>.json, 加上 index.json 和 trash.json
+ *
+ * split 布局面向 git 合并: 不同分支新增/修改不同分组时只会改动不同的文件.
+ * 为此 index.json 不保存分组列表 (分组按 createdAt 排序), 修订号写在不纳入版本控制的 .revision 中,
+ * 文件内容按固定的 key 顺序输出, 书签按 id 排序.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BookmarkGroup, BookmarkStore, TrashItem } from './types';
+import { stringifyWithUnicode } from '../utils';
+import { writeFileAtomic } from './storeIO';
+
+export type StorageLayout = 'single' | 'split';
+
+/** store 由哪些文件组成: 单文件布局为 store, split 布局为 index / group / trash */
+export type StoreFileKind = 'store' | 'index' | 'group' | 'trash';
+
+/** 解析单个 store 文件, 默认为 JSON.parse. 修复逻辑 (storeRepair) 通过它介入 */
+export type StoreFileParser = (content: string, filePath: string, kind: StoreFileKind) => unknown;
+
+const parseJson: StoreFileParser = content => JSON.parse(content);
+
+export const STORE_FILE_NAME = 'mcp-bookmarks.json';
+export const SPLIT_DIR_NAME = 'mcp-bookmarks';
+export const INDEX_FILE_NAME = 'index.json';
+const TRASH_FILE_NAME = 'trash.json';
+const REVISION_FILE_NAME = '.revision';
+const GITIGNORE_FILE_NAME = '.gitignore';
+
+// 输出 JSON 时优先使用的 key 顺序, 其余 key 按字母序排在后面, 数组字段 (groups/bookmarks) 放在最后
+const KEY_ORDER = [
+  'version', 'revision', 'projectName',
+  'id', 'kind', 'parentId', 'order', 'location', 'title', 'description', 'category', 'query',
+  'groupId', 'groupTitle', 'deletedAt', 'deletedBy',
+  'createdAt', 'updatedAt', 'createdBy'
+];
+const TRAILING_KEYS = ['group', 'bookmarks', 'groups', 'trash'];
+
+/** 单文件布局的 store 文件路径 */
+export function getSingleFilePath(storeDir: string): string {
+  return path.join(storeDir, STORE_FILE_NAME);
+}
+
+/** split 布局的目录路径 */
+export function getSplitDir(storeDir: string): string {
+  return path.join(storeDir, SPLIT_DIR_NAME);
+}
+
+/** 用于展示和打开的 store 入口文件: split 布局为 index.json, 否则为单文件 */
+export function getStoreEntryPath(storeDir: string): string {
+  return detectLayout(storeDir) === 'split'
+    ? path.join(getSplitDir(storeDir), INDEX_FILE_NAME)
+    : getSingleFilePath(storeDir);
+}
+
+/**
+ * 检测磁盘上实际使用的布局. 两种都不存在时返回 undefined.
+ * split 目录的 index.json 存在即视为 split 布局.
+ */
+export function detectLayout(storeDir: string): StorageLayout | undefined {
+  if (fs.existsSync(path.join(getSplitDir(storeDir), INDEX_FILE_NAME))) {
+    return 'split';
+  }
+  if (fs.existsSync(getSingleFilePath(storeDir))) {
+    return 'single';
+  }
+  return undefined;
+}
+
+/**
+ * 按磁盘上的布局读取 store. 不存在时返回 undefined, 解析失败时抛出异常 (由 parse 决定).
+ */
+export function readStore(storeDir: string, parse: StoreFileParser = parseJson): BookmarkStore | undefined {
+  const layout = detectLayout(storeDir);
+  if (layout === 'split') {
+    return readSplitStore(getSplitDir(storeDir), parse);
+  }
+  if (layout === 'single') {
+    const filePath = getSingleFilePath(storeDir);
+    return parse(fs.readFileSync(filePath, 'utf-8'), filePath, 'store') as BookmarkStore;
+  }
+  return undefined;
+}
+
+/**
+ * 按指定布局写入 store. split 布局会先把 store 转为规范形式,
+ * 返回实际写入的 store, 调用方应当用它替换内存副本, 以便与重新读取的结果保持一致.
+ */
+export function writeStore(storeDir: string, store: BookmarkStore, layout: StorageLayout): BookmarkStore {
+  if (layout === 'single') {
+    writeFileAtomic(getSingleFilePath(storeDir), stringifyWithUnicode(store, 2));
+    return store;
+  }
+
+  const canonical = canonicalizeStore(store);
+  writeSplitStore(getSplitDir(storeDir), canonical);
+  return canonical;
+}
+
+/**
+ * 将磁盘上的 store 转换为目标布局, 并删除旧布局的文件. 调用方必须持有 store 锁.
+ *
+ * @returns 是否发生了转换
+ */
+export function convertLayout(storeDir: string, target: StorageLayout): boolean {
+  const current = detectLayout(storeDir);
+  if (!current || current === target) {
+    return false;
+  }
+
+  const store = readStore(storeDir)!;
+  writeStore(storeDir, store, target);
+
+  if (current === 'single') {
+    fs.rmSync(getSingleFilePath(storeDir), { force: true });
+  } else {
+    removeSplitStore(getSplitDir(storeDir));
+  }
+  return true;
+}
+
+/** 删除两种布局的 store 文件 (切换到其他存储后端之后) */
+export function removeStore(storeDir: string): void {
+  removeSplitStore(getSplitDir(storeDir));
+  fs.rmSync(getSingleFilePath(storeDir), { force: true });
+}
+
+/**
+ * 规范形式: 分组按 createdAt 排序, 书签按 id 排序, 回收站按 deletedAt 排序, key 顺序固定.
+ */
+export function canonicalizeStore(store: BookmarkStore): BookmarkStore {
+  const groups = store.groups
+    .map(group => ({ ...group, bookmarks: [...group.bookmarks].sort(compareById) }))
+    .sort(compareGroups);
+  const trash = store.trash
+    ? [...store.trash].sort((a, b) => a.deletedAt.localeCompare(b.deletedAt) || compareById(a, b))
+    : undefined;
+
+  return sortKeys({ ...store, groups, trash }) as BookmarkStore;
+}
+
+// --- split 布局读写 ---
+
+function readSplitStore(splitDir: string, parse: StoreFileParser): BookmarkStore {
+  const read = (fileName: string, kind: StoreFileKind): unknown => {
+    const filePath = path.join(splitDir, fileName);
+    return parse(fs.readFileSync(filePath, 'utf-8'), filePath, kind);
+  };
+
+  const index = read(INDEX_FILE_NAME, 'index') as Partial<BookmarkStore>;
+
+  const groups: BookmarkGroup[] = [];
+  for (const fileName of listGroupFiles(splitDir)) {
+    groups.push(read(fileName, 'group') as BookmarkGroup);
+  }
+
+  const store: BookmarkStore = {
+    ...index,
+    version: index.version ?? 1,
+    projectName: index.projectName ?? '',
+    groups
+  };
+
+  const trashPath = path.join(splitDir, TRASH_FILE_NAME);
+  if (fs.existsSync(trashPath)) {
+    store.trash = read(TRASH_FILE_NAME, 'trash') as TrashItem[];
+  }
+
+  const revisionPath = path.join(splitDir, REVISION_FILE_NAME);
+  if (fs.existsSync(revisionPath)) {
+    const revision = parseInt(fs.readFileSync(revisionPath, 'utf-8').trim(), 10);
+    if (!isNaN(revision)) {
+      store.revision = revision;
+    }
+  }
+
+  return canonicalizeStore(store);
+}
+
+function writeSplitStore(splitDir: string, store: BookmarkStore): void {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { groups, trash, revision, ...index } = store;
+
+  // .revision 只用于本地检测外部修改, 不应提交, 否则每次合并都会冲突
+  writeIfChanged(path.join(splitDir, GITIGNORE_FILE_NAME), `${REVISION_FILE_NAME}\n*.tmp\n`);
+
+  const expectedFiles = new Set<string>();
+  for (const group of groups) {
+    const fileName = getGroupFileName(group.id);
+    expectedFiles.add(fileName);
+    writeIfChanged(path.join(splitDir, fileName), stringifyWithUnicode(group, 2) + '\n');
+  }
+
+  // 删除已被移除的分组文件
+  for (const fileName of listGroupFiles(splitDir)) {
+    if (!expectedFiles.has(fileName)) {
+      fs.rmSync(path.join(splitDir, fileName), { force: true });
+    }
+  }
+
+  const trashPath = path.join(splitDir, TRASH_FILE_NAME);
+  if (trash && trash.length > 0) {
+    writeIfChanged(trashPath, stringifyWithUnicode(trash, 2) + '\n');
+  } else {
+    fs.rmSync(trashPath, { force: true });
+  }
+
+  if (revision !== undefined) {
+    writeIfChanged(path.join(splitDir, REVISION_FILE_NAME), `${revision}\n`);
+  }
+
+  // index.json 最后写入: 其存在与否决定了布局检测结果
+  writeIfChanged(path.join(splitDir, INDEX_FILE_NAME), stringifyWithUnicode(index, 2) + '\n');
+}
+
+function removeSplitStore(splitDir: string): void {
+  // 先删除 index.json, 中途失败时也不会被误判为 split 布局
+  fs.rmSync(path.join(splitDir, INDEX_FILE_NAME), { force: true });
+  for (const fileName of listGroupFiles(splitDir)) {
+    fs.rmSync(path.join(splitDir, fileName), { force: true });
+  }
+  for (const fileName of [TRASH_FILE_NAME, REVISION_FILE_NAME, GITIGNORE_FILE_NAME]) {
+    fs.rmSync(path.join(splitDir, fileName), { force: true });
+  }
+
+  // 目录中还有其他文件时保留
+  if (fs.existsSync(splitDir) && fs.readdirSync(splitDir).length === 0) {
+    fs.rmdirSync(splitDir);
+  }
+}
+
+function listGroupFiles(splitDir: string): string[] {
+  if (!fs.existsSync(splitDir)) {
+    return [];
+  }
+  return fs.readdirSync(splitDir)
+    .filter(name => name.endsWith('.json') && name !== INDEX_FILE_NAME && name !== TRASH_FILE_NAME)
+    .sort();
+}
+
+/** 分组文件名对应的分组 id (getGroupFileName 的逆运算) */
+export function getGroupIdFromFileName(fileName: string): string {
+  return decodeURIComponent(path.basename(fileName, '.json'));
+}
+
+function getGroupFileName(groupId: string): string {
+  // 分组 id 通常是 UUID, 手动编辑过的 id 需要转义成合法的文件名
+  return /^[\w-]+$/.test(groupId) ? `${groupId}.json` : `${encodeURIComponent(groupId)}.json`;
+}
+
+/** 内容未变化时不重写, 避免无意义的文件变更和 watcher 事件 */
+function writeIfChanged(filePath: string, content: string): void {
+  try {
+    if (fs.readFileSync(filePath, 'utf-8') === content) {
+      return;
+    }
+  } catch {
+    // 文件不存在
+  }
+  writeFileAtomic(filePath, content);
+}
+
+function compareById(a: { id: string }, b: { id: string }): number {
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function compareGroups(a: BookmarkGroup, b: BookmarkGroup): number {
+  return (a.createdAt ?? '').localeCompare(b.createdAt ?? '') || compareById(a, b);
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+  const rank = (key: string): number => {
+    const trailing = TRAILING_KEYS.indexOf(key);
+    if (trailing !== -1) {
+      return KEY_ORDER.length + 1 + trailing;
+    }
+    const index = KEY_ORDER.indexOf(key);
+    return index === -1 ? KEY_ORDER.length : index;
+  };
+
+  const keys = Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+
+  const sorted: Record<string, unknown> = {};
+  for (const key of keys) {
+    sorted[key] = sortKeys(record[key]);
+  }
+  return sorted;
+}
@@ -0,0 +1,53 @@
+/**
+ * Store 位置 - VSCode 版与 Standalone 版共用
+ *
+ * 共享 store 的目录 (默认 .vscode) 依次由以下来源决定:
+ *   1. VSCode 设置 mcpBookmarks.storeDirectory, 或 standalone server 的 --store-dir 参数
+ *   2. 环境变量 MCP_BOOKMARKS_STORE_DIR
+ *   3. 默认的 .vscode
+ * 相对路径相对于工作区根目录, 同一个 server 服务多个工作区时各自解析.
+ *
+ * 私有 store 保存在用户目录下 (~/.mcp-bookmarks/private/<工作区名>-<路径哈希>), 不进入仓库.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export const DEFAULT_STORE_DIR = '.vscode';
+export const STORE_DIR_ENV = 'MCP_BOOKMARKS_STORE_DIR';
+
+const PRIVATE_STORE_ROOT = path.join('.mcp-bookmarks', 'private');
+
+/**
+ * 解析共享 store 的目录
+ *
+ * @param configured 设置或命令行参数, 为空时使用环境变量, 再退回默认值
+ */
+export function resolveStoreDir(workspaceRoot: string, configured?: string): string {
+  const dir = configured?.trim() || process.env[STORE_DIR_ENV]?.trim() || DEFAULT_STORE_DIR;
+  return path.resolve(workspaceRoot, expandHome(dir));
+}
+
+/**
+ * 私有 store 的目录. 以工作区的真实路径区分仓库, 同名仓库的不同 clone 互不影响.
+ */
+export function getPrivateStoreDir(workspaceRoot: string): string {
+  let root = path.resolve(workspaceRoot);
+  try {
+    root = fs.realpathSync(root);
+  } catch {
+    // 工作区不存在时按原路径计算
+  }
+
+  const hash = crypto.createHash('sha1').update(root).digest('hex').slice(0, 12);
+  return path.join(os.homedir(), PRIVATE_STORE_ROOT, `${path.basename(root)}-${hash}`);
+}
+
+function expandHome(dir: string): string {
+  if (dir === '~' || dir.startsWith('~/') || dir.startsWith('~\\')) {
+    return path.join(os.homedir(), dir.slice(1));
+  }
+  return dir;
+}
@@ -0,0 +1,269 @@
+/**
+ * BookmarkStore 三方合并
+ *
+ * 以分组和书签的 UUID 为单位合并两份基于同一 base 的修改:
+ * - 新增: 两边的新增取并集
+ * - 编辑: 逐字段合并, 只有一边改动的字段直接采用
+ * - 删除: 只有另一边没有编辑过该条目时删除才生效
+ * 两边把同一字段改成不同的值时记为冲突, 按 prefer 决定保留哪一边.
+ */
+
+import { Bookmark, BookmarkGroup, BookmarkStore, StoreConflict } from './types';
+
+export interface MergeResult {
+  store: BookmarkStore;
+  conflicts: StoreConflict[];
+}
+
+// 删除/编辑冲突使用的字段名
+export const REMOVED_FIELD = 'removed';
+
+/**
+ * 三方合并 store.
+ *
+ * @param base 双方共同的祖先版本, 不存在时传 undefined (两边都视为新增)
+ * @param ours 本方版本
+ * @param theirs 对方版本
+ * @param prefer 字段冲突时保留哪一边, 默认保留对方 (即不覆盖外部修改)
+ */
+export function mergeStores(
+  base: BookmarkStore | undefined,
+  ours: BookmarkStore,
+  theirs: BookmarkStore,
+  prefer: 'ours' | 'theirs' = 'theirs'
+): MergeResult {
+  const conflicts: StoreConflict[] = [];
+
+  const groups = mergeById(
+    base?.groups ?? [],
+    ours.groups,
+    theirs.groups,
+    (b, o, t) => mergeGroup(b, o, t, prefer, conflicts),
+    (item, side) => conflicts.push(removedConflict('group', item.id, item.title, side))
+  );
+
+  dedupeBookmarkIds(groups);
+
+  const store: BookmarkStore = {
+    ...theirs,
+    version: Math.max(ours.version ?? 1, theirs.version ?? 1),
+    projectName: theirs.projectName || ours.projectName,
+    groups
+  };
+
+  // 回收站条目不会被修改: 两边的新增取并集, 任一边恢复/清除即移除
+  if (ours.trash || theirs.trash) {
+    store.trash = mergeById(base?.trash ?? [], ours.trash ?? [], theirs.trash ?? [], (_b, _o, t) => t, () => {});
+  }
+
+  const revision = Math.max(ours.revision ?? 0, theirs.revision ?? 0);
+  if (revision > 0) {
+    store.revision = revision;
+  }
+
+  return { store, conflicts };
+}
+
+/**
+ * 格式化冲突, 用于通知和 MCP 错误信息
+ */
+export function formatConflict(conflict: StoreConflict): string {
+  const subject = `${conflict.kind === 'group' ? 'Group' : 'Bookmark'} "${conflict.title}"`;
+  const kept = conflict.kept === 'theirs' ? 'external' : 'local';
+
+  if (conflict.field === REMOVED_FIELD) {
+    return `${subject}: removed on one side but edited on the other, kept the edited version`;
+  }
+  return `${subject}: "${conflict.field}" changed on both sides, kept the ${kept} value`;
+}
+
+function mergeGroup(
+  base: BookmarkGroup | undefined,
+  ours: BookmarkGroup,
+  theirs: BookmarkGroup,
+  prefer: 'ours' | 'theirs',
+  conflicts: StoreConflict[]
+): BookmarkGroup {
+  // 分组 updatedAt 未变时, 该分组只在一边被修改过, 整体采用另一边
+  if (base && ours.updatedAt === base.updatedAt && isEqual(ours, base)) {
+    return theirs;
+  }
+  if (base && theirs.updatedAt === base.updatedAt && isEqual(theirs, base)) {
+    return ours;
+  }
+
+  const merged = mergeFields(base, ours, theirs, ['bookmarks'], prefer, (field, o, t) => {
+    conflicts.push({ kind: 'group', id: ours.id, title: theirs.title, field, ours: o, theirs: t, kept: prefer });
+  });
+
+  merged.bookmarks = mergeById(
+    base?.bookmarks ?? [],
+    ours.bookmarks,
+    theirs.bookmarks,
+    (b, o, t) => mergeFields(b, o, t, [], prefer, (field, ov, tv) => {
+      conflicts.push({ kind: 'bookmark', id: o.id, title: t.title, field, ours: ov, theirs: tv, kept: prefer });
+    }),
+    (item, side) => conflicts.push(removedConflict('bookmark', item.id, item.title, side))
+  );
+
+  // 父书签被删除后, 另一边保留下来的子书签提升为顶层
+  const ids = new Set(merged.bookmarks.map(b => b.id));
+  for (const bookmark of merged.bookmarks) {
+    if (bookmark.parentId && !ids.has(bookmark.parentId)) {
+      delete bookmark.parentId;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * 按 id 合并列表. 结果顺序: 对方的顺序, 再追加本方新增的条目.
+ */
+function mergeById<T extends { id: string }>(
+  base: T[],
+  ours: T[],
+  theirs: T[],
+  mergeItem: (base: T | undefined, ours: T, theirs: T) => T,
+  onRemoveConflict: (kept: T, editedSide: 'ours' | 'theirs') => void
+): T[] {
+  const baseMap = new Map(base.map(item => [item.id, item]));
+  const oursMap = new Map(ours.map(item => [item.id, item]));
+  const theirsIds = new Set(theirs.map(item => item.id));
+  const result: T[] = [];
+
+  for (const t of theirs) {
+    const o = oursMap.get(t.id);
+    const b = baseMap.get(t.id);
+
+    if (o) {
+      result.push(mergeItem(b, o, t));
+    } else if (!b) {
+      // 对方新增
+      result.push(t);
+    } else if (!isEqual(t, b)) {
+      // 本方删除, 但对方编辑过: 保留编辑
+      result.push(t);
+      onRemoveConflict(t, 'theirs');
+    }
+  }
+
+  for (const o of ours) {
+    if (theirsIds.has(o.id)) {
+      continue;
+    }
+
+    const b = baseMap.get(o.id);
+    if (!b) {
+      // 本方新增
+      result.push(o);
+    } else if (!isEqual(o, b)) {
+      // 对方删除, 但本方编辑过: 保留编辑
+      result.push(o);
+      onRemoveConflict(o, 'ours');
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 逐字段合并. skip 中的字段由调用方自行处理.
+ */
+function mergeFields<T extends object>(
+  base: T | undefined,
+  ours: T,
+  theirs: T,
+  skip: string[],
+  prefer: 'ours' | 'theirs',
+  onConflict: (field: string, ours: unknown, theirs: unknown) => void
+): T {
+  const b = (base ?? {}) as Record<string, unknown>;
+  const o = ours as Record<string, unknown>;
+  const t = theirs as Record<string, unknown>;
+  const merged: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(b), ...Object.keys(o), ...Object.keys(t)]);
+
+  for (const key of keys) {
+    if (skip.includes(key)) {
+      continue;
+    }
+
+    let value: unknown;
+    if (isEqual(o[key], t[key])) {
+      value = o[key];
+    } else if (base && isEqual(o[key], b[key])) {
+      value = t[key];
+    } else if (base && isEqual(t[key], b[key])) {
+      value = o[key];
+    } else if (key === 'updatedAt') {
+      // 时间戳不算冲突, 取较新的一个
+      value = String(o[key] ?? '') > String(t[key] ?? '') ? o[key] : t[key];
+    } else {
+      value = prefer === 'ours' ? o[key] : t[key];
+      onConflict(key, o[key], t[key]);
+    }
+
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+
+  return merged as T;
+}
+
+/**
+ * 书签在一边被移动到其他分组, 另一边又在原分组编辑时, 同一个 id 会出现在两个分组中.
+ * 只保留第一次出现的那个.
+ */
+function dedupeBookmarkIds(groups: BookmarkGroup[]): void {
+  const seen = new Set<string>();
+  for (const group of groups) {
+    group.bookmarks = group.bookmarks.filter((bookmark: Bookmark) => {
+      if (seen.has(bookmark.id)) {
+        return false;
+      }
+      seen.add(bookmark.id);
+      return true;
+    });
+  }
+}
+
+function removedConflict(
+  kind: 'group' | 'bookmark',
+  id: string,
+  title: string,
+  editedSide: 'ours' | 'theirs'
+): StoreConflict {
+  return {
+    kind,
+    id,
+    title,
+    field: REMOVED_FIELD,
+    ours: editedSide === 'ours' ? 'edited' : 'removed',
+    theirs: editedSide === 'theirs' ? 'edited' : 'removed',
+    kept: editedSide
+  };
+}
+
+/** 深比较, 与对象 key 的顺序无关 (手动编辑过的 JSON 可能调整了 key 顺序) */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const ra = a as Record<string, unknown>;
+  const rb = b as Record<string, unknown>;
+  const keysA = Object.keys(ra).filter(k => ra[k] !== undefined);
+  const keysB = Object.keys(rb).filter(k => rb[k] !== undefined);
+  if (keysA.length !== keysB.length) {
+    return false;
+  }
+  return keysA.every(key => isEqual(ra[key], rb[key]));
+}
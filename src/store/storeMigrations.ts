@@ -0,0 +1,153 @@
+/**
+ * Store schema 迁移 - VSCode 版与 Standalone 版共用
+ *
+ * MIGRATIONS 按版本号顺序登记, 每一步把 store 从 version - 1 升级到 version.
+ * 读取旧版本文件时依次执行尚未执行的迁移, 每一步之后校验结构, 失败时中止且不写回.
+ * 比 STORE_SCHEMA_VERSION 更新的文件不做任何迁移, 也不允许写入, 避免被旧版本降级.
+ */
+
+import * as path from 'path';
+import { BookmarkGroup, BookmarkStore, STORE_SCHEMA_VERSION } from './types';
+
+export interface StoreMigration {
+  version: number;               // 迁移后的版本
+  description: string;
+  up(store: BookmarkStore): void;   // 原地修改
+}
+
+export interface AppliedMigration {
+  version: number;
+  description: string;
+}
+
+export interface MigrationResult {
+  store: BookmarkStore;
+  fromVersion: number;
+  applied: AppliedMigration[];
+  /** 文件版本比当前支持的版本更新 (此时 store 原样返回) */
+  newerThanSupported: boolean;
+  /** 迁移前的备份文件 (见 storeBackups), 由调用方写入备份后填写 */
+  backupPath?: string;
+}
+
+export const MIGRATIONS: StoreMigration[] = [
+  {
+    version: 2,
+    description: 'Rename group "name" to "title" and fill in missing group and bookmark lists',
+    up(store) {
+      if (!Array.isArray(store.groups)) {
+        store.groups = [];
+      }
+
+      for (const group of store.groups) {
+        const legacyGroup = group as BookmarkGroup & { name?: string };
+        if (!legacyGroup.title || typeof legacyGroup.title !== 'string') {
+          legacyGroup.title = typeof legacyGroup.name === 'string' && legacyGroup.name.trim().length > 0
+            ? legacyGroup.name
+            : 'Untitled group';
+        }
+        delete legacyGroup.name;
+
+        if (!Array.isArray(group.bookmarks)) {
+          group.bookmarks = [];
+        }
+      }
+    }
+  }
+];
+
+/**
+ * 将 store 升级到 STORE_SCHEMA_VERSION. 不修改传入的对象.
+ *
+ * @throws 某一步迁移之后校验失败
+ */
+export function migrateStore(store: BookmarkStore): MigrationResult {
+  const fromVersion = typeof store.version === 'number' ? store.version : 1;
+
+  if (fromVersion > STORE_SCHEMA_VERSION) {
+    return { store, fromVersion, applied: [], newerThanSupported: true };
+  }
+
+  const pending = MIGRATIONS.filter(m => m.version > fromVersion);
+  if (pending.length === 0) {
+    return { store, fromVersion, applied: [], newerThanSupported: false };
+  }
+
+  const migrated = JSON.parse(JSON.stringify(store)) as BookmarkStore;
+  const applied: AppliedMigration[] = [];
+  for (const migration of pending) {
+    migration.up(migrated);
+    migrated.version = migration.version;
+
+    const errors = validateStore(migrated);
+    if (errors.length > 0) {
+      throw new Error(`Migration to schema v${migration.version} produced an invalid store: ${errors.join('; ')}`);
+    }
+    applied.push({ version: migration.version, description: migration.description });
+  }
+
+  return { store: migrated, fromVersion, applied, newerThanSupported: false };
+}
+
+/**
+ * 结构校验: 只检查读写 store 所依赖的字段. 返回错误列表, 为空表示通过.
+ */
+export function validateStore(store: BookmarkStore): string[] {
+  const errors: string[] = [];
+
+  if (typeof store.version !== 'number') {
+    errors.push('"version" is not a number');
+  }
+  if (!Array.isArray(store.groups)) {
+    errors.push('"groups" is not an array');
+    return errors;
+  }
+
+  store.groups.forEach((group, i) => {
+    if (typeof group !== 'object' || group === null) {
+      errors.push(`groups[${i}] is not an object`);
+      return;
+    }
+    if (typeof group.id !== 'string' || typeof group.title !== 'string') {
+      errors.push(`groups[${i}] is missing "id" or "title"`);
+    }
+    if (!Array.isArray(group.bookmarks)) {
+      errors.push(`groups[${i}].bookmarks is not an array`);
+      return;
+    }
+    group.bookmarks.forEach((bookmark, j) => {
+      if (typeof bookmark !== 'object' || bookmark === null ||
+          typeof bookmark.id !== 'string' || typeof bookmark.location !== 'string') {
+        errors.push(`groups[${i}].bookmarks[${j}] is missing "id" or "location"`);
+      }
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * 写入比当前支持的版本更新的文件前抛出异常
+ */
+export function assertSupportedVersion(store: BookmarkStore): void {
+  if ((store.version ?? 1) > STORE_SCHEMA_VERSION) {
+    throw new Error(
+      `Bookmarks were saved by a newer version of MCP Bookmarks (schema v${store.version}, ` +
+      `this version supports v${STORE_SCHEMA_VERSION}). Update the extension before editing bookmarks.`
+    );
+  }
+}
+
+/**
+ * 格式化迁移结果, 用于通知和日志
+ */
+export function formatMigrationResult(result: MigrationResult): string {
+  if (result.newerThanSupported) {
+    return `Bookmarks file uses schema v${result.fromVersion}, newer than supported v${STORE_SCHEMA_VERSION}. ` +
+      'Bookmarks are read-only until the extension is updated.';
+  }
+
+  const steps = result.applied.map(m => `v${m.version}: ${m.description}`).join('; ');
+  const backup = result.backupPath ? ` Backup: ${path.basename(result.backupPath)}` : '';
+  return `Upgraded bookmarks from schema v${result.fromVersion} to v${STORE_SCHEMA_VERSION} (${steps}).${backup}`;
+}
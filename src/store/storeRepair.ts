@@ -0,0 +1,492 @@
+/**
+ * 损坏 store 的校验与修复 - VSCode 版与 Standalone 版共用
+ *
+ * 读取时逐个文件校验. 无法解析或结构不合法的文件:
+ * 1. 原始内容复制到 .vscode/mcp-bookmarks.quarantine/ 隔离保存
+ * 2. 尽量抢救其中合法的分组和书签 (JSON 语法错误时按对象逐个解析)
+ * 3. 生成修复报告, 由调用方写回修复结果并通知用户
+ * 这样手动编辑时的一个拼写错误不会导致整个文件被空 store 覆盖.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Bookmark, BookmarkGroup, BookmarkStore, TrashItem } from './types';
+import { nowISO } from '../utils';
+import { StoreFileKind, readStore, getGroupIdFromFileName } from './storeLayout';
+
+const QUARANTINE_DIR_NAME = 'mcp-bookmarks.quarantine';
+// 抢救出的、找不到所属分组的书签放入这个分组
+const RECOVERED_GROUP_TITLE = 'Recovered bookmarks';
+
+export interface RepairedFile {
+  path: string;                  // 被修复的文件
+  quarantinePath: string;        // 原始内容的隔离副本
+}
+
+export interface RepairReport {
+  files: RepairedFile[];
+  repairs: string[];             // 每一处修复的说明
+}
+
+/**
+ * 读取 store, 必要时修复. 不存在时返回 undefined.
+ * 返回 report 时修复结果尚未写回, 调用方应立即写回, 避免每次读取都重复修复.
+ */
+export function readStoreWithRepair(storeDir: string): { store: BookmarkStore; report?: RepairReport } | undefined {
+  const repairs: string[] = [];
+  const damaged: Array<{ path: string; content: string }> = [];
+
+  const store = readStore(storeDir, (content, filePath, kind) => {
+    const fileRepairs: string[] = [];
+    const value = parseAndRepair(content, kind, filePath, fileRepairs);
+    if (fileRepairs.length > 0) {
+      damaged.push({ path: filePath, content });
+      repairs.push(...fileRepairs.map(repair => `${path.basename(filePath)}: ${repair}`));
+    }
+    return value;
+  });
+
+  if (!store) {
+    return undefined;
+  }
+  if (damaged.length === 0) {
+    return { store };
+  }
+
+  const files = damaged.map(file => ({
+    path: file.path,
+    quarantinePath: quarantine(storeDir, file.path, file.content)
+  }));
+  return { store, report: { files, repairs } };
+}
+
+/**
+ * 格式化修复报告, 用于通知和 MCP 错误信息
+ */
+export function formatRepairReport(report: RepairReport): string {
+  const originals = report.files.map(file => path.basename(file.quarantinePath)).join(', ');
+  return `Bookmark file was damaged and has been repaired (${report.repairs.join('; ')}). ` +
+    `The original content was saved to .vscode/${QUARANTINE_DIR_NAME}/${originals}`;
+}
+
+// --- 解析与抢救 ---
+
+function parseAndRepair(content: string, kind: StoreFileKind, filePath: string, repairs: string[]): unknown {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripBom(content));
+  } catch (error) {
+    value = tryWithoutTrailingCommas(content);
+    if (value !== undefined) {
+      repairs.push('removed trailing commas');
+    } else {
+      repairs.push(`invalid JSON (${error instanceof Error ? error.message : error}), salvaged readable entries`);
+      value = salvage(content, kind, filePath, repairs);
+    }
+  }
+
+  switch (kind) {
+    case 'store':
+      return sanitizeStore(value, repairs);
+    case 'group':
+      return sanitizeGroup(value, 'group', repairs, getGroupIdFromFileName(filePath)) ?? emptyGroup(getGroupIdFromFileName(filePath));
+    case 'trash':
+      return sanitizeTrash(value, repairs);
+    case 'index':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        repairs.push('index is not an object, reset it');
+        return {};
+      }
+      return value;
+  }
+}
+
+function stripBom(content: string): string {
+  return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+}
+
+function tryWithoutTrailingCommas(content: string): unknown {
+  try {
+    return JSON.parse(stripBom(content).replace(/,(\s*[}\]])/g, '$1'));
+  } catch {
+    return undefined;
+  }
+}
+
+interface Salvaged {
+  fields: Record<string, unknown>;   // 最外层对象中能读出的标量字段
+  store?: Record<string, unknown>;   // 完整可解析的 store 对象
+  groups: Record<string, unknown>[];
+  bookmarks: Record<string, unknown>[];  // 找不到所属分组的书签
+  trash: Record<string, unknown>[];
+}
+
+/**
+ * 从语法错误的 JSON 中抢救对象: 按花括号配对切出每个对象单独解析,
+ * 解析失败的分组退化为 "标量字段 + 其中可解析的书签".
+ */
+function salvage(content: string, kind: StoreFileKind, filePath: string, repairs: string[]): unknown {
+  const text = stripBom(content);
+  const scanner = new ObjectScanner(text);
+  const result: Salvaged = { fields: {}, groups: [], bookmarks: [], trash: [] };
+
+  // 最外层对象的标量字段 (version, projectName 或分组的元数据); 最外层花括号可能因截断而不配对
+  const open = text.indexOf('{');
+  result.fields = extractScalarFields(scanner.headAt(open));
+  scanner.salvageChildren(Math.max(open, 0), text.length, result, repairs);
+
+  switch (kind) {
+    case 'store': {
+      if (result.store) {
+        return result.store;
+      }
+      const groups: unknown[] = [...result.groups];
+      if (result.bookmarks.length > 0) {
+        groups.push({ ...emptyGroup(uuidv4()), title: RECOVERED_GROUP_TITLE, bookmarks: result.bookmarks });
+        repairs.push(`moved ${result.bookmarks.length} bookmark(s) without a readable group to "${RECOVERED_GROUP_TITLE}"`);
+      }
+      return { ...pickStoreFields(result.fields), groups, trash: result.trash };
+    }
+    case 'group': {
+      if (result.groups.length > 0) {
+        return result.groups[0];
+      }
+      return { ...result.fields, id: result.fields.id ?? getGroupIdFromFileName(filePath), bookmarks: result.bookmarks };
+    }
+    case 'trash':
+      return result.trash;
+    case 'index':
+      return pickStoreFields(result.fields);
+  }
+}
+
+function pickStoreFields(fields: Record<string, unknown>): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  if (typeof fields.version === 'number') {
+    picked.version = fields.version;
+  }
+  if (typeof fields.projectName === 'string') {
+    picked.projectName = fields.projectName;
+  }
+  return picked;
+}
+
+/** 字符串感知的花括号配对, 一次扫描得到所有对象的范围 */
+class ObjectScanner {
+  private readonly starts: number[] = [];
+  private readonly ends = new Map<number, number>();
+
+  constructor(private readonly text: string) {
+    const stack: number[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (ch === '\\') {
+          escaped = true;
+        } else if (ch === '"' || ch === '\n') {
+          // 字符串不会跨行, 遇到换行说明引号缺失, 结束字符串以免吞掉后面的内容
+          inString = false;
+        }
+      } else if (ch === '"') {
+        inString = true;
+      } else if (ch === '{') {
+        stack.push(i);
+        this.starts.push(i);
+      } else if (ch === '}' && stack.length > 0) {
+        this.ends.set(stack.pop()!, i);
+      }
+    }
+  }
+
+  /** 从 start 处的 { 到第一个嵌套的 [ 或 { 之间的部分, 即标量字段所在的位置 */
+  headAt(start: number, end: number = this.text.length): string {
+    const body = this.text.slice(start + 1, end);
+    const nested = body.search(/[[{]/);
+    return nested === -1 ? body : body.slice(0, nested);
+  }
+
+  /** 抢救 [from, to) 范围内的顶层对象 */
+  salvageChildren(from: number, to: number, out: Salvaged, repairs: string[]): void {
+    for (let i = this.firstStartAtOrAfter(from); i < this.starts.length; i++) {
+      const start = this.starts[i];
+      if (start < from) {
+        continue;
+      }
+      if (start >= to) {
+        break;
+      }
+
+      const end = this.ends.get(start);
+      if (end === undefined || end >= to) {
+        continue;
+      }
+
+      this.salvageObject({ start, end }, out, repairs);
+      from = end + 1;
+    }
+  }
+
+  private firstStartAtOrAfter(position: number): number {
+    let low = 0;
+    let high = this.starts.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.starts[mid] < position) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  private salvageObject(span: { start: number; end: number }, out: Salvaged, repairs: string[]): void {
+    const source = this.text.slice(span.start, span.end + 1);
+    let value: unknown;
+    try {
+      value = JSON.parse(source);
+    } catch {
+      value = undefined;
+    }
+
+    if (isRecord(value)) {
+      if (Array.isArray(value.groups)) {
+        out.store = value;
+      } else if (typeof value.deletedAt === 'string') {
+        out.trash.push(value);
+      } else if (Array.isArray(value.bookmarks)) {
+        out.groups.push(value);
+      } else if (typeof value.location === 'string') {
+        out.bookmarks.push(value);
+      } else {
+        this.salvageChildren(span.start + 1, span.end, out, repairs);
+      }
+      return;
+    }
+
+    // 对象本身无法解析
+    const fields = extractScalarFields(this.headAt(span.start, span.end));
+    if (typeof fields.deletedAt === 'string') {
+      // 回收站条目中的书签已被删除, 不能抢救到分组里
+      repairs.push('dropped an unreadable trash item');
+    } else if (typeof fields.id === 'string' && /"bookmarks"\s*:/.test(source)) {
+      const group: Salvaged = { fields: {}, groups: [], bookmarks: [], trash: [] };
+      this.salvageChildren(span.start + 1, span.end, group, repairs);
+      out.groups.push({ ...fields, bookmarks: group.bookmarks });
+      repairs.push(`partially recovered group "${fields.title ?? fields.id}"`);
+    } else if (typeof fields.id === 'string' && typeof fields.location === 'string') {
+      out.bookmarks.push(fields);
+      repairs.push(`partially recovered bookmark "${fields.title ?? fields.id}"`);
+    } else {
+      this.salvageChildren(span.start + 1, span.end, out, repairs);
+    }
+  }
+}
+
+/** 用正则读出 "key": value 形式的标量字段, 用于无法整体解析的对象 */
+function extractScalarFields(fragment: string): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  const pattern = /"(\w+)"\s*:\s*("(?:[^"\\\n]|\\.)*"|-?\d+(?:\.\d+)?|true|false|null)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(fragment)) !== null) {
+    if (!(match[1] in fields)) {
+      try {
+        fields[match[1]] = JSON.parse(match[2]);
+      } catch {
+        // 忽略无法解析的值
+      }
+    }
+  }
+  return fields;
+}
+
+// --- 结构校验 ---
+
+function sanitizeStore(value: unknown, repairs: string[]): BookmarkStore {
+  if (!isRecord(value)) {
+    repairs.push('content is not an object, started from an empty store');
+    value = {};
+  }
+  const raw = value as Record<string, unknown>;
+  const store = { ...raw } as unknown as BookmarkStore;
+
+  if (typeof raw.version !== 'number') {
+    repairs.push('missing "version", assumed 1');
+    store.version = 1;
+  }
+  if (typeof raw.projectName !== 'string') {
+    store.projectName = '';
+  }
+
+  if (!Array.isArray(raw.groups)) {
+    repairs.push('"groups" is not a list, reset it');
+    store.groups = [];
+  } else {
+    store.groups = raw.groups
+      .map((group, i) => sanitizeGroup(group, `groups[${i}]`, repairs))
+      .filter((group): group is BookmarkGroup => group !== undefined);
+  }
+  dedupeIds(store.groups, repairs);
+
+  if (raw.trash !== undefined) {
+    store.trash = sanitizeTrash(raw.trash, repairs);
+  }
+  return store;
+}
+
+function sanitizeGroup(value: unknown, where: string, repairs: string[], fallbackId?: string): BookmarkGroup | undefined {
+  if (!isRecord(value)) {
+    repairs.push(`dropped ${where}: not an object`);
+    return undefined;
+  }
+
+  const group = { ...value } as unknown as BookmarkGroup & { name?: unknown };
+  const label = typeof group.title === 'string' ? `group "${group.title}"` : where;
+
+  if (typeof group.id !== 'string' || group.id === '') {
+    group.id = fallbackId ?? uuidv4();
+    repairs.push(`${label}: assigned a missing id`);
+  }
+  // 旧版的 name 字段由 schema 迁移处理
+  if (typeof group.title !== 'string' && typeof group.name !== 'string') {
+    group.title = 'Untitled group';
+    repairs.push(`${label}: missing title`);
+  }
+  if (!Array.isArray(group.bookmarks)) {
+    if (group.bookmarks !== undefined) {
+      repairs.push(`${label}: "bookmarks" is not a list, reset it`);
+    }
+    group.bookmarks = [];
+    return group;
+  }
+
+  group.bookmarks = group.bookmarks
+    .map((bookmark, i) => sanitizeBookmark(bookmark, `${label} bookmarks[${i}]`, i, repairs))
+    .filter((bookmark): bookmark is Bookmark => bookmark !== undefined);
+
+  // 父书签丢失时, 子书签提升为顶层
+  const ids = new Set(group.bookmarks.map(b => b.id));
+  for (const bookmark of group.bookmarks) {
+    if (bookmark.parentId !== undefined && !ids.has(bookmark.parentId)) {
+      delete bookmark.parentId;
+      repairs.push(`bookmark "${bookmark.title}": parent is missing, moved to top level`);
+    }
+  }
+  return group;
+}
+
+function sanitizeBookmark(value: unknown, where: string, index: number, repairs: string[]): Bookmark | undefined {
+  if (!isRecord(value) || typeof value.location !== 'string') {
+    repairs.push(`dropped ${where}: missing location`);
+    return undefined;
+  }
+
+  const bookmark = { ...value } as unknown as Bookmark;
+  const label = typeof bookmark.title === 'string' ? `bookmark "${bookmark.title}"` : where;
+
+  if (typeof bookmark.id !== 'string' || bookmark.id === '') {
+    bookmark.id = uuidv4();
+    repairs.push(`${label}: assigned a missing id`);
+  }
+  if (typeof bookmark.title !== 'string') {
+    bookmark.title = 'Untitled bookmark';
+    repairs.push(`${label}: missing title`);
+  }
+  if (typeof bookmark.description !== 'string') {
+    bookmark.description = '';
+  }
+  if (typeof bookmark.order !== 'number') {
+    bookmark.order = index + 1;
+    repairs.push(`${label}: missing order`);
+  }
+  return bookmark;
+}
+
+function sanitizeTrash(value: unknown, repairs: string[]): TrashItem[] {
+  if (!Array.isArray(value)) {
+    repairs.push('trash is not a list, emptied it');
+    return [];
+  }
+
+  return value.filter((item): item is TrashItem => {
+    const valid = isRecord(item) &&
+      typeof item.id === 'string' &&
+      typeof item.deletedAt === 'string' &&
+      (item.kind === 'group' ? isRecord(item.group) : Array.isArray(item.bookmarks));
+    if (!valid) {
+      repairs.push('dropped an invalid trash item');
+    }
+    return valid;
+  });
+}
+
+/**
+ * 同一 id 出现多次 (如文件中残留 git 冲突标记时抢救出两个版本):
+ * 内容相同的只保留一个, 不同的分配新 id 保留下来.
+ */
+function dedupeIds(groups: BookmarkGroup[], repairs: string[]): void {
+  const seenGroups = new Map<string, BookmarkGroup>();
+  const seenBookmarks = new Map<string, string>();
+
+  for (let i = 0; i < groups.length; i++) {
+    const group = groups[i];
+    const existing = seenGroups.get(group.id);
+    if (existing) {
+      // 同一分组的两个版本: 书签合并到先出现的版本中, 由下面的书签去重处理
+      existing.bookmarks.push(...group.bookmarks);
+      groups.splice(i--, 1);
+      repairs.push(`group "${group.title}": merged a duplicate copy`);
+      continue;
+    }
+    seenGroups.set(group.id, group);
+  }
+
+  for (const group of groups) {
+    group.bookmarks = group.bookmarks.filter(bookmark => {
+      const serialized = JSON.stringify(bookmark);
+      const existing = seenBookmarks.get(bookmark.id);
+      if (existing === undefined) {
+        seenBookmarks.set(bookmark.id, serialized);
+        return true;
+      }
+      if (existing === serialized) {
+        repairs.push(`bookmark "${bookmark.title}": removed a duplicate copy`);
+        return false;
+      }
+      bookmark.id = uuidv4();
+      seenBookmarks.set(bookmark.id, serialized);
+      repairs.push(`bookmark "${bookmark.title}": kept a conflicting copy with a new id`);
+      return true;
+    });
+  }
+}
+
+function emptyGroup(id: string): BookmarkGroup {
+  const now = nowISO();
+  return { id, title: 'Untitled group', createdAt: now, updatedAt: now, createdBy: 'user', bookmarks: [] };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// --- 隔离 ---
+
+function quarantine(storeDir: string, filePath: string, content: string): string {
+  const dir = path.join(storeDir, QUARANTINE_DIR_NAME);
+  fs.mkdirSync(dir, { recursive: true });
+
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  let quarantinePath = path.join(dir, `${timestamp}.${path.basename(filePath)}`);
+  for (let n = 2; fs.existsSync(quarantinePath); n++) {
+    quarantinePath = path.join(dir, `${timestamp}-${n}.${path.basename(filePath)}`);
+  }
+  fs.writeFileSync(quarantinePath, content, 'utf-8');
+  return quarantinePath;
+}
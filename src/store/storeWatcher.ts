@@ -0,0 +1,148 @@
+/**
+ * Store 文件监听 - Standalone 版使用 (VSCode 版使用 FileSystemWatcher)
+ *
+ * 用 fs.watch 监听共享 store 目录 (及 split 布局的子目录) 和私有 store 目录,
+ * 相关文件变化后防抖触发 onChange. 一次保存可能写入多个文件, 多个事件只触发一次.
+ *
+ * 自身写入产生的事件通过文件签名 (inode/mtime/size) 过滤: 写入完成后 (仍持有 store 锁)
+ * 调用 markSelfWrite() 记录签名, 事件触发时签名与之相同则忽略, 不必重新读取和解析整个 store.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { STORE_FILE_NAME, SPLIT_DIR_NAME, getSplitDir } from './storeLayout';
+import { SQLITE_FILE_NAME } from './sqliteBackend';
+
+// 同一次保存产生的多个事件合并为一次
+const DEBOUNCE_MS = 100;
+
+export class StoreWatcher {
+  private readonly watchers = new Map<string, fs.FSWatcher>();
+  private timer?: NodeJS.Timeout;
+  /** 最近一次自身写入或处理变化时的文件签名 */
+  private knownSignature: string;
+  private disposed = false;
+
+  constructor(
+    private readonly storeDir: string,
+    private readonly privateStoreDir: string,
+    private readonly onChange: () => void
+  ) {
+    this.knownSignature = this.getSignature();
+    this.attach();
+  }
+
+  /** 自身写入完成后调用, 之后由这次写入产生的事件不会触发 onChange */
+  markSelfWrite(): void {
+    this.knownSignature = this.getSignature();
+    // 首次写入可能刚刚创建了 store 目录
+    this.attach();
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+  }
+
+  /**
+   * 监听已存在的目录. 目录可能在首次写入或切换布局之后才出现, 写入和处理变化时都会重新检查.
+   */
+  private attach(): void {
+    if (this.disposed) {
+      return;
+    }
+
+    for (const dir of [this.storeDir, getSplitDir(this.storeDir), this.privateStoreDir]) {
+      if (this.watchers.has(dir) || !fs.existsSync(dir)) {
+        continue;
+      }
+
+      try {
+        const watcher = fs.watch(dir, (_event, filename) => this.handleEvent(dir, filename));
+        // 目录被删除 (如切换回单文件布局) 时停止监听, 重新出现后再次添加
+        watcher.on('error', () => {
+          watcher.close();
+          this.watchers.delete(dir);
+        });
+        // 监听不应阻止进程退出
+        watcher.unref();
+        this.watchers.set(dir, watcher);
+      } catch (error) {
+        console.error(`Failed to watch ${dir}:`, error);
+      }
+    }
+  }
+
+  private handleEvent(dir: string, filename: string | null): void {
+    // 部分平台不提供文件名, 此时无法过滤
+    if (filename !== null && !this.isStoreFile(dir, filename)) {
+      return;
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.flush(), DEBOUNCE_MS);
+    this.timer.unref();
+  }
+
+  private flush(): void {
+    this.timer = undefined;
+    if (this.disposed) {
+      return;
+    }
+
+    this.attach();
+    const signature = this.getSignature();
+    if (signature === this.knownSignature) {
+      return;
+    }
+    this.knownSignature = signature;
+    this.onChange();
+  }
+
+  /** 原子写入的临时文件、历史记录、锁文件和备份都不算 store 文件 */
+  private isStoreFile(dir: string, filename: string): boolean {
+    if (filename.endsWith('.tmp')) {
+      return false;
+    }
+    if (dir === getSplitDir(this.storeDir)) {
+      return true;
+    }
+    return filename === STORE_FILE_NAME || filename === SQLITE_FILE_NAME || filename === SPLIT_DIR_NAME;
+  }
+
+  /** 所有 store 文件的 inode/mtime/size, 原子写入 (rename) 总会改变 inode */
+  private getSignature(): string {
+    const splitDir = getSplitDir(this.storeDir);
+    let splitFiles: string[] = [];
+    try {
+      splitFiles = fs.readdirSync(splitDir).filter(name => !name.endsWith('.tmp')).sort();
+    } catch {
+      // 不是 split 布局
+    }
+
+    const files = [
+      path.join(this.storeDir, STORE_FILE_NAME),
+      path.join(this.storeDir, SQLITE_FILE_NAME),
+      ...splitFiles.map(name => path.join(splitDir, name)),
+      path.join(this.privateStoreDir, STORE_FILE_NAME)
+    ];
+
+    return files.map(file => {
+      try {
+        const stat = fs.statSync(file);
+        return `${file}:${stat.ino}:${stat.mtimeMs}:${stat.size}`;
+      } catch {
+        return `${file}:-`;
+      }
+    }).join('|');
+  }
+}
@@ -1,9 +1,32 @@
-// Bookmark category types (精简为4个)
-export type BookmarkCategory =
-  | 'entry-point'    // 入口点
-  | 'core-logic'     // 核心逻辑
-  | 'issue'          // 问题/待办 (合并 todo, bug, warning)
-  | 'note';          // 备注/说明 (合并 explanation, reference, optimization)
+// Bookmark category: 分类定义的 id, 由工作区配置决定 (见 categoryConfig.ts, 默认 entry-point / core-logic / issue / note)
+export type BookmarkCategory = string;
+
+// Issue status: 问题的处理进度, 通常用于 issue 分类的书签; resolved / wontfix 视为已关闭
+export type BookmarkStatus = 'open' | 'in-progress' | 'resolved' | 'wontfix';
+
+export const BOOKMARK_STATUSES: BookmarkStatus[] = ['open', 'in-progress', 'resolved', 'wontfix'];
+
+export function isClosedStatus(status: BookmarkStatus | undefined): boolean {
+  return status === 'resolved' || status === 'wontfix';
+}
+
+// Link type: 书签之间的关系, 可以跨分组
+export type BookmarkLinkType = 'calls' | 'see-also' | 'implements' | 'caused-by';
+
+export const BOOKMARK_LINK_TYPES: BookmarkLinkType[] = ['calls', 'see-also', 'implements', 'caused-by'];
+
+// 保存在源书签上的链接, 反向链接 (backlinks) 在查询时计算
+export interface BookmarkLink {
+  type: BookmarkLinkType;
+  targetId: string;              // 目标书签ID, 可以在其他分组
+  note?: string;                 // 关系说明
+}
+
+// 书签的一个位置. 一个概念可能分布在多处, 如接口、实现和注册调用
+export interface BookmarkLocation {
+  location: string;              // 格式同 Bookmark.location
+  label?: string;                // 位置说明, 如 "interface"、"registration"
+}
 
 // Single bookmark
 export interface Bookmark {
@@ -11,19 +34,68 @@ export interface Bookmark {
   parentId?: string;             // 父书签ID, undefined表示顶层书签
   order: number;                 // 同级排序 (1, 2, 3...)
   location: string;              // 位置，格式: path/to/file:line 或 path/to/file:start-end
+  locations?: BookmarkLocation[]; // 多位置书签的全部位置 (有序, 第一个即 location); 只有一个位置且没有标签时不保存
+  symbol?: string;               // 符号锚点 (可选), 如 BetService.placeBet. 文件打开时据此重新定位 location
+  symbolOffset?: number;         // location 起始行相对符号声明行的偏移 (行数)
 
   // AI 生成的内容
   title: string;                 // 简短标题
   description: string;           // 详细说明
   category?: BookmarkCategory;   // 分类
+  tags?: string[];               // 自由标签 (小写, 无重复), 见 normalizeTags
+
+  // 问题状态 (可选)
+  status?: BookmarkStatus;
+  resolution?: string;           // 处理说明, 如修复方式或不修复的原因
+  statusChangedAt?: string;      // ISO timestamp, 最近一次修改状态的时间
+  resolvedAt?: string;           // ISO timestamp, 关闭 (resolved / wontfix) 的时间, 重新打开时清除
+
+  // 关系 (可选), 同一目标的同一类型只有一条
+  links?: BookmarkLink[];
 
   // 漂移检测(可选)
   codeSnapshot?: string;         // 创建时的代码快照
+  contextBefore?: string;        // 快照前后的几行代码, 重新定位时用于区分相同的代码
+  contextAfter?: string;
+  codeHash?: string;             // 完整代码的 hash (忽略空白), 快照被截断时同样覆盖截断的部分
+  snapshotTruncated?: boolean;   // 代码超出大小上限, codeSnapshot 只保存了开头部分
+  needsReview?: BookmarkReview;  // 按快照重新定位时无法确定位置, 等待用户确认
+  orphaned?: BookmarkOrphan;     // 位置所在的文件已被删除, 等待重新关联或移除
+
+  // 来源 (可选, 旧书签没有)
+  createdAt?: string;            // ISO timestamp
+  updatedAt?: string;            // ISO timestamp, 修改内容、标签、状态或链接时更新
+  createdBy?: 'ai' | 'user';
+  author?: string;               // 创建时的 git user.name
+  client?: string;               // 创建书签的 MCP 客户端 (initialize 握手中的 clientInfo.name)
 
   // UI状态
   collapsed?: boolean;           // 折叠状态
 }
 
+// 按代码快照重新定位失败的原因 (见 snapshotRelocation)
+export interface BookmarkReview {
+  reason: 'ambiguous' | 'low-confidence' | 'not-found';
+  message: string;               // 显示给用户的说明
+  candidates?: string[];         // 候选位置, 按相似度排序
+  flaggedAt: string;             // ISO timestamp
+}
+
+// 书签位置所在的文件已不存在 (见 BookmarkStoreBase.reconcileFiles)
+export interface BookmarkOrphan {
+  files: string[];               // 已删除的文件 (相对路径), 可能包括其他位置的文件
+  orphanedAt: string;            // ISO timestamp
+}
+
+// 代码快照及上下文 (见 captureSnapshot), 与 Bookmark 中的同名字段对应
+export interface CodeSnapshot {
+  codeSnapshot: string;
+  codeHash: string;
+  snapshotTruncated?: boolean;
+  contextBefore?: string;
+  contextAfter?: string;
+}
+
 // 带子书签的书签(用于树形渲染)
 export interface BookmarkWithChildren extends Bookmark {
   children: BookmarkWithChildren[];
@@ -38,14 +110,42 @@ export interface BookmarkGroup {
   createdAt: string;             // ISO timestamp
   updatedAt: string;
   createdBy: 'ai' | 'user';
+  private?: boolean;             // 保存在本机的私有 store 中, 不写入共享的 store 文件
   bookmarks: Bookmark[];         // 有序的书签列表
 }
 
+// 回收站条目: 被删除的分组, 或被删除的书签及其所有后代
+export interface TrashItem {
+  id: string;                    // UUID (回收站条目自身的 ID)
+  kind: 'group' | 'bookmark';
+  deletedAt: string;             // ISO timestamp
+  deletedBy: 'ai' | 'user';
+  groupId: string;               // 被删除的分组, 或书签原来所在的分组
+  groupTitle: string;
+  private?: boolean;             // 来自私有分组, 保存在私有 store 的回收站中
+  group?: BookmarkGroup;         // kind === 'group': 完整分组 (含书签)
+  bookmarks?: Bookmark[];        // kind === 'bookmark': 被删除的书签 (第一个) 及其后代
+  backlinks?: Array<BookmarkLink & { sourceId: string }>; // 删除时从其他书签上移除的指向被删书签的链接, 恢复时重新添加
+}
+
 // Complete store structure
 export interface BookmarkStore {
-  version: number;
+  version: number;               // schema 版本
+  revision?: number;             // 数据修订号, 每次写盘递增, 用于检测内存副本是否过期
   projectName: string;
   groups: BookmarkGroup[];       // 所有分组
+  trash?: TrashItem[];           // 回收站, 超过保留期限后自动清除
+}
+
+// 三方合并时两边修改了同一字段 (或一边删除, 一边编辑) 产生的冲突
+export interface StoreConflict {
+  kind: 'group' | 'bookmark';
+  id: string;
+  title: string;
+  field: string;                 // 冲突字段, 删除/编辑冲突时为 'removed'
+  ours: unknown;                 // 本进程的值
+  theirs: unknown;               // 外部 (磁盘上) 的值
+  kept: 'ours' | 'theirs';       // 最终保留的一边
 }
 
 // Parsed location
@@ -54,32 +154,53 @@ export interface ParsedLocation {
   startLine: number;
   endLine: number;
   isRange: boolean;
+  startColumn?: number;          // 列范围 (file:line:col-line:col), 从 1 开始, 与 VSCode 状态栏的 Col 一致
+  endColumn?: number;            // 范围在 endColumn 之前结束; 两个列同时存在或同时省略
+  label?: string;                // 多位置书签中该位置的说明
+}
+
+// 一次文本编辑: 将 [start, end) 替换为 text. 行列从 1 开始
+export interface LocationEdit {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  text: string;
 }
 
 // MCP tool arguments
 export interface CreateGroupArgs {
   title: string;
   description?: string;
+  private?: boolean;             // 保存在私有 store
   name?: string; // Deprecated: legacy clients may still send name.
 }
 
 export interface AddBookmarkArgs {
   groupId: string;
   parentId?: string;             // 父书签ID, 不填则为顶层书签
-  location: string;
+  location?: string;             // 与 locations 二选一
+  locations?: BookmarkLocation[];
+  symbol?: string;               // 符号锚点; location 只写文件路径时按符号定位行号
+  symbolOffset?: number;         // 相对符号声明行的偏移, 默认 0
   title: string;
   description: string;
   order?: number;
   category?: BookmarkCategory;
+  tags?: string[];
 }
 
 export interface AddChildBookmarkArgs {
   parentBookmarkId: string;      // 父书签ID
-  location: string;
+  location?: string;             // 与 locations 二选一
+  locations?: BookmarkLocation[];
+  symbol?: string;               // 符号锚点; location 只写文件路径时按符号定位行号
+  symbolOffset?: number;         // 相对符号声明行的偏移, 默认 0
   title: string;
   description: string;
   order?: number;
   category?: BookmarkCategory;
+  tags?: string[];
 }
 
 export interface ListGroupsArgs {
@@ -92,6 +213,20 @@ export interface ListBookmarksArgs {
   includeDescendants?: boolean;  // 是否包含所有后代
   filePath?: string;
   category?: BookmarkCategory;
+  tags?: string[];               // 只列出包含所有这些标签的书签
+  status?: BookmarkStatus[];     // 只列出状态为其中之一的书签
+  createdBy?: 'ai' | 'user';
+  createdSince?: string;         // ISO 时间或相对时长 (如 "24h", "7d"), 见 parseSince
+  updatedSince?: string;
+  sortBy?: BookmarkSortBy;
+  limit?: number;
+}
+
+// 书签排序: order 为分组内的顺序, created / updated 为最近的在前
+export type BookmarkSortBy = 'order' | 'created' | 'updated';
+
+export interface ListTagsArgs {
+  groupId?: string;              // 只统计指定分组
 }
 
 export interface GetBookmarkTreeArgs {
@@ -103,22 +238,66 @@ export interface UpdateGroupArgs {
   groupId: string;
   title?: string;
   description?: string;
+  private?: boolean;             // true 移入私有 store, false 移回共享 store
   name?: string; // Deprecated: legacy clients may still send name.
 }
 
 export interface UpdateBookmarkArgs {
   bookmarkId: string;
   parentId?: string | null;      // 父书签ID, null表示移到顶层
-  location?: string;
+  location?: string;             // 只替换第一个位置
+  locations?: BookmarkLocation[]; // 替换全部位置
+  symbol?: string | null;        // null 表示移除符号锚点
+  symbolOffset?: number;
   title?: string;
   description?: string;
   order?: number;
   category?: BookmarkCategory;
+  tags?: string[];               // 替换全部标签, 空数组表示清除
+  addTags?: string[];
+  removeTags?: string[];
+  status?: BookmarkStatus | null; // null 表示清除状态及处理说明
+  resolution?: string;           // 空字符串表示清除
+}
+
+export interface LinkBookmarksArgs {
+  sourceId: string;
+  targetId: string;
+  type: BookmarkLinkType;
+  note?: string;
 }
 
+export interface UnlinkBookmarksArgs {
+  sourceId: string;
+  targetId: string;
+  type?: BookmarkLinkType;       // 不填则删除两者之间的所有链接
+}
+
+// linkBookmarks 返回类型
+export type LinkBookmarksResult = true | 'source_not_found' | 'target_not_found' | 'self_link';
+
 // updateBookmark 返回类型
 export type UpdateBookmarkResult = true | 'not_found' | 'circular_reference' | 'parent_not_found';
 
+// restoreFromTrash 返回类型
+export type RestoreFromTrashResult =
+  | { groupId: string; restoredCount: number }
+  | 'not_found'                  // 回收站中没有该条目
+  | 'group_not_found';           // 书签原来所在的分组已不存在
+
+// 文件重命名或删除后更新的书签 (书签 ID)
+export interface FileChangeSummary {
+  renamed: string[];             // 位置改为新路径的书签
+  orphaned: string[];            // 新标记为 orphaned 的书签
+  restored: string[];            // 文件重新出现, 清除了标记的书签
+}
+
+// 按代码快照重新定位的结果 (书签 ID)
+export interface RelocationSummary {
+  moved: string[];
+  flagged: string[];             // 新标记或仍然需要确认的书签
+}
+
 export interface RemoveBookmarkArgs {
   bookmarkId: string;
 }
@@ -139,11 +318,13 @@ export interface BatchAddBookmarksArgs {
   groupId: string;
   parentId?: string;             // 父书签ID, 不填则为顶层书签
   bookmarks: Array<{
-    location: string;
+    location?: string;
+    locations?: BookmarkLocation[];
     title: string;
     description: string;
     order?: number;
     category?: BookmarkCategory;
+    tags?: string[];
   }>;
 }
 
@@ -155,10 +336,18 @@ export interface BatchRemoveBookmarksArgs {
   bookmarkIds: string[];  // 要删除的书签ID列表
 }
 
+export interface RestoreFromTrashArgs {
+  trashId: string;
+  targetGroupId?: string;        // 恢复书签到指定分组, 默认恢复到原分组
+}
+
+// 当前 schema 版本, 升级步骤见 storeMigrations.ts
+export const STORE_SCHEMA_VERSION = 2;
+
 // Default store factory
 export function createDefaultStore(projectName: string): BookmarkStore {
   return {
-    version: 1,
+    version: STORE_SCHEMA_VERSION,
     projectName,
     groups: []
   };
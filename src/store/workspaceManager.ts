@@ -12,7 +12,10 @@ export class WorkspaceManager {
   private stores: Map<string, BookmarkStoreManagerStandalone> = new Map();
   private defaultWorkspace: string;
 
-  constructor(defaultWorkspace?: string) {
+  /**
+   * @param storeDir --store-dir 参数, 相对路径按各个工作区分别解析 (见 storeLocation)
+   */
+  constructor(defaultWorkspace?: string, private readonly storeDir?: string) {
     // 默认使用环境变量或当前目录
     this.defaultWorkspace = defaultWorkspace || process.env.WORKSPACE_ROOT || process.cwd();
   }
@@ -30,7 +33,7 @@ export class WorkspaceManager {
       }
 
       // 创建新的 store
-      const store = new BookmarkStoreManagerStandalone(workspace);
+      const store = new BookmarkStoreManagerStandalone(workspace, this.storeDir);
       this.stores.set(workspace, store);
     }
 
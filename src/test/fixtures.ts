@@ -0,0 +1,28 @@
+/**
+ * 测试用的 store 构造函数
+ */
+
+import { Bookmark, BookmarkGroup, BookmarkStore } from '../store/types';
+
+const TIME = '2026-01-01T00:00:00.000Z';
+
+export function makeBookmark(id: string, fields: Partial<Bookmark> = {}): Bookmark {
+  return { id, order: 1, location: `src/${id}.ts:1`, title: id, description: '', ...fields };
+}
+
+export function makeGroup(id: string, bookmarks: Bookmark[] = [], fields: Partial<BookmarkGroup> = {}): BookmarkGroup {
+  return { id, title: id, createdAt: TIME, updatedAt: TIME, createdBy: 'ai', bookmarks, ...fields };
+}
+
+export function makeStore(groups: BookmarkGroup[]): BookmarkStore {
+  return { version: 1, projectName: 'test', groups };
+}
+
+export function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/** 书签 id 所在的分组 id, 按分组顺序 */
+export function findBookmarkGroups(store: BookmarkStore, bookmarkId: string): string[] {
+  return store.groups.filter(g => g.bookmarks.some(b => b.id === bookmarkId)).map(g => g.id);
+}
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { adjustLocationForEdit, formatLocation, parseLocation } from '../utils';
+
+test('parses single lines, line ranges and column ranges', () => {
+  assert.deepEqual(parseLocation('src/a.ts:45'), { filePath: 'src/a.ts', startLine: 45, endLine: 45, isRange: false });
+  assert.deepEqual(parseLocation('src/a.ts:78-92'), { filePath: 'src/a.ts', startLine: 78, endLine: 92, isRange: true });
+  assert.deepEqual(parseLocation('src/a.ts:45:10-46:3', 'call'), {
+    filePath: 'src/a.ts', startLine: 45, endLine: 46, isRange: true, startColumn: 10, endColumn: 3, label: 'call'
+  });
+});
+
+test('keeps colons in the file path', () => {
+  assert.equal(parseLocation('C:/src/a.ts:3').filePath, 'C:/src/a.ts');
+  assert.equal(parseLocation('C:/src/a.ts:3:1-3:5').filePath, 'C:/src/a.ts');
+});
+
+test('rejects malformed locations', () => {
+  assert.throws(() => parseLocation('src/a.ts'), /Invalid location format/);
+  assert.throws(() => parseLocation('src/a.ts:x'), /Invalid line number/);
+  assert.throws(() => parseLocation('src/a.ts:1-x'), /Invalid line range/);
+  assert.throws(() => parseLocation('src/a.ts:5:10-5:3'), /Invalid column range/);
+  assert.throws(() => parseLocation('src/a.ts:5:1-4:1'), /Invalid column range/);
+});
+
+test('formats parsed locations back to the same string', () => {
+  for (const location of ['src/a.ts:45', 'src/a.ts:78-92', 'src/a.ts:45:10-46:3']) {
+    assert.equal(formatLocation(parseLocation(location)), location);
+  }
+  // 起止相同的行范围格式化为单行
+  assert.equal(formatLocation(parseLocation('src/a.ts:7-7')), 'src/a.ts:7');
+});
+
+const edit = (startLine: number, startColumn: number, endLine: number, endColumn: number, text: string) =>
+  ({ startLine, startColumn, endLine, endColumn, text });
+
+const adjust = (location: string, e: ReturnType<typeof edit>) => formatLocation(adjustLocationForEdit(parseLocation(location), e));
+
+test('moves line locations by the lines inserted or removed above them', () => {
+  assert.equal(adjust('a.ts:10-12', edit(2, 1, 2, 1, 'x\ny\n')), 'a.ts:12-14');
+  assert.equal(adjust('a.ts:10-12', edit(3, 1, 5, 1, '')), 'a.ts:8-10');
+  assert.equal(adjust('a.ts:10-12', edit(20, 1, 20, 1, 'x\n')), 'a.ts:10-12');
+  // 范围内的编辑只移动结束行
+  assert.equal(adjust('a.ts:10-12', edit(11, 1, 11, 1, 'x\n')), 'a.ts:10-13');
+});
+
+test('shifts column ranges for edits earlier on the same line', () => {
+  assert.equal(adjust('a.ts:5:10-5:20', edit(5, 3, 5, 3, 'abc')), 'a.ts:5:13-5:23');
+  assert.equal(adjust('a.ts:5:10-5:20', edit(5, 3, 5, 6, '')), 'a.ts:5:7-5:17');
+  assert.equal(adjust('a.ts:5:10-5:20', edit(5, 25, 5, 25, 'abc')), 'a.ts:5:10-5:20');
+});
+
+test('moves column ranges to the following line when a line break is inserted before them', () => {
+  assert.equal(adjust('a.ts:5:10-5:20', edit(2, 1, 2, 1, 'x\n')), 'a.ts:6:10-6:20');
+  assert.equal(adjust('a.ts:5:10-5:20', edit(5, 4, 5, 4, '\n  ')), 'a.ts:6:9-6:19');
+});
+
+test('does not grow a column range for insertions at its edges', () => {
+  // 在起点插入: 插入的文本不属于范围
+  assert.equal(adjust('a.ts:5:10-5:20', edit(5, 10, 5, 10, 'ab')), 'a.ts:5:12-5:22');
+  // 在终点插入: 范围不扩大
+  assert.equal(adjust('a.ts:5:10-5:20', edit(5, 20, 5, 20, 'ab')), 'a.ts:5:10-5:20');
+  // 范围内插入: 终点后移
+  assert.equal(adjust('a.ts:5:10-5:20', edit(5, 15, 5, 15, 'ab')), 'a.ts:5:10-5:22');
+});
+
+test('collapses a column range whose text was deleted', () => {
+  assert.equal(adjust('a.ts:5:10-5:20', edit(5, 8, 5, 22, '')), 'a.ts:5:8-5:8');
+});
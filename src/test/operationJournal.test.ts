@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { applyChanges, diffStores } from '../store/operationJournal';
+import { BookmarkStore } from '../store/types';
+import { makeBookmark, makeGroup, makeStore, clone } from './fixtures';
+
+/** 撤销/重做会刷新分组的 updatedAt, 比较时忽略 */
+function withoutGroupTimes(store: BookmarkStore): BookmarkStore {
+  const copy = clone(store);
+  copy.groups.forEach(g => g.updatedAt = '');
+  return copy;
+}
+
+function makeBefore(): BookmarkStore {
+  return makeStore([
+    makeGroup('g1', [makeBookmark('a'), makeBookmark('b', { parentId: 'a' }), makeBookmark('c')]),
+    makeGroup('g2', [makeBookmark('d')])
+  ]);
+}
+
+test('undo and redo round-trip edits, additions and removals', () => {
+  const before = makeBefore();
+  const after = clone(before);
+  after.groups[0].bookmarks[0].title = 'edited';
+  after.groups[0].bookmarks.splice(2, 1);
+  after.groups[0].bookmarks.push(makeBookmark('e'));
+  after.groups.splice(1, 1);
+  after.groups.push(makeGroup('g3', [makeBookmark('f')]));
+  after.trash = [{ id: 't1', kind: 'group', deletedAt: '', deletedBy: 'ai', groupId: 'g2', groupTitle: 'g2', group: before.groups[1] }];
+
+  const changes = diffStores(before, after);
+
+  const undone = clone(after);
+  assert.deepEqual(applyChanges(undone, changes, 'undo'), { applied: changes.length, skipped: 0 });
+  assert.deepEqual(withoutGroupTimes({ ...undone, trash: undefined }), withoutGroupTimes(before));
+  assert.deepEqual(undone.trash, []);
+
+  const redone = clone(undone);
+  assert.deepEqual(applyChanges(redone, changes, 'redo'), { applied: changes.length, skipped: 0 });
+  assert.deepEqual(withoutGroupTimes(redone), withoutGroupTimes(after));
+});
+
+test('undo restores a removed subtree at its original position', () => {
+  const before = makeBefore();
+  const after = clone(before);
+  after.groups[0].bookmarks.splice(0, 2);
+
+  const changes = diffStores(before, after);
+  applyChanges(after, changes, 'undo');
+
+  assert.deepEqual(after.groups[0].bookmarks.map(b => b.id), ['a', 'b', 'c']);
+  assert.equal(after.groups[0].bookmarks[1].parentId, 'a');
+});
+
+test('diff ignores group updatedAt', () => {
+  const before = makeBefore();
+  const after = clone(before);
+  after.groups[0].updatedAt = '2026-02-01T00:00:00.000Z';
+
+  assert.deepEqual(diffStores(before, after), []);
+});
+
+test('undo skips bookmarks changed again since', () => {
+  const before = makeBefore();
+  const after = clone(before);
+  after.groups[0].bookmarks[0].title = 'edited';
+  const changes = diffStores(before, after);
+
+  after.groups[0].bookmarks[0].title = 'edited again';
+  const result = applyChanges(after, changes, 'undo');
+
+  assert.deepEqual(result, { applied: 0, skipped: 1 });
+  assert.equal(after.groups[0].bookmarks[0].title, 'edited again');
+});
+
+test('undo applies to bookmarks whose lines drifted since and keeps the drifted location', () => {
+  const before = makeBefore();
+  const after = clone(before);
+  after.groups[0].bookmarks[0].title = 'edited';
+  const changes = diffStores(before, after);
+
+  // 之后文件被编辑, 书签随之漂移
+  after.groups[0].bookmarks[0].location = 'src/a.ts:5';
+  after.groups[0].bookmarks[0].updatedAt = '2026-02-01T00:00:00.000Z';
+  const result = applyChanges(after, changes, 'undo');
+
+  assert.deepEqual(result, { applied: 1, skipped: 0 });
+  assert.equal(after.groups[0].bookmarks[0].title, 'a');
+  assert.equal(after.groups[0].bookmarks[0].location, 'src/a.ts:5');
+});
+
+test('undo of a move restores the recorded location', () => {
+  const before = makeBefore();
+  const after = clone(before);
+  after.groups[0].bookmarks[0].location = 'src/other.ts:10';
+  const changes = diffStores(before, after);
+
+  applyChanges(after, changes, 'undo');
+
+  assert.equal(after.groups[0].bookmarks[0].location, 'src/a.ts:1');
+});
+
+test('undo of a group removal keeps the group when bookmarks were added to it since', () => {
+  const before = makeBefore();
+  const after = clone(before);
+  after.groups.push(makeGroup('g3'));
+  const changes = diffStores(before, after);
+
+  after.groups[2].bookmarks.push(makeBookmark('x'));
+  const result = applyChanges(after, changes, 'undo');
+
+  assert.deepEqual(result, { applied: 0, skipped: 1 });
+  assert.deepEqual(after.groups.map(g => g.id), ['g1', 'g2', 'g3']);
+});
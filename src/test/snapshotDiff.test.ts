@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { compareSnapshot } from '../store/snapshotDiff';
+
+const SNAPSHOT = [
+  'function placeBet(amount) {',
+  '  if (amount <= 0) {',
+  '    throw new Error("invalid");',
+  '  }',
+  '  return submit(amount);',
+  '}'
+].join('\n');
+
+test('identical code is fully similar with no changes', () => {
+  const result = compareSnapshot(SNAPSHOT, SNAPSHOT);
+
+  assert.equal(result.similarity, 1);
+  assert.deepEqual(result.changedLines, []);
+  assert.equal(result.removedCount, 0);
+  assert.ok(result.lines.every(line => line.kind === 'equal'));
+});
+
+test('ignores whitespace and line ending changes', () => {
+  const reindented = SNAPSHOT.split('\n').map(line => '\t' + line.trim()).join('\r\n');
+
+  const result = compareSnapshot(SNAPSHOT, reindented);
+
+  assert.equal(result.similarity, 1);
+  assert.deepEqual(result.changedLines, []);
+});
+
+test('pairs a modified line and marks the changed token', () => {
+  const current = SNAPSHOT.replace('amount <= 0', 'amount < 0');
+
+  const result = compareSnapshot(SNAPSHOT, current);
+
+  assert.deepEqual(result.changedLines, [2]);
+  assert.equal(result.removedCount, 1);
+  assert.ok(result.similarity > 0.9 && result.similarity < 1);
+
+  const added = result.lines.find(line => line.kind === 'added')!;
+  assert.deepEqual(added.segments!.filter(s => s.changed).map(s => s.text.trim()), ['<']);
+  const removed = result.lines.find(line => line.kind === 'removed')!;
+  assert.deepEqual(removed.segments!.filter(s => s.changed).map(s => s.text.trim()), ['<=']);
+});
+
+test('reports inserted lines by their line in the current code', () => {
+  const lines = SNAPSHOT.split('\n');
+  lines.splice(4, 0, '  log(amount);');
+
+  const result = compareSnapshot(SNAPSHOT, lines.join('\n'));
+
+  assert.deepEqual(result.changedLines, [5]);
+  assert.equal(result.removedCount, 0);
+  assert.deepEqual(result.lines.filter(line => line.kind === 'equal').map(line => line.newLine), [1, 2, 3, 4, 6, 7]);
+});
+
+test('does not pair unrelated lines', () => {
+  const current = SNAPSHOT.replace('return submit(amount);', 'const x = [1, 2, 3];');
+
+  const result = compareSnapshot(SNAPSHOT, current);
+
+  assert.deepEqual(result.changedLines, [5]);
+  assert.ok(result.lines.filter(line => line.kind !== 'equal').every(line => line.segments === undefined));
+});
+
+test('swapping lines lowers the similarity', () => {
+  const lines = SNAPSHOT.split('\n');
+  [lines[1], lines[4]] = [lines[4], lines[1]];
+
+  assert.ok(compareSnapshot(SNAPSHOT, lines.join('\n')).similarity < 1);
+});
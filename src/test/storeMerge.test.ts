@@ -0,0 +1,134 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { mergeStores, REMOVED_FIELD } from '../store/storeMerge';
+import { makeBookmark, makeGroup, makeStore, clone, findBookmarkGroups } from './fixtures';
+
+test('merges edits of different fields from both sides', () => {
+  const base = makeStore([makeGroup('g1', [makeBookmark('a')])]);
+  const ours = clone(base);
+  ours.groups[0].bookmarks[0].title = 'ours title';
+  const theirs = clone(base);
+  theirs.groups[0].bookmarks[0].description = 'theirs description';
+
+  const { store, conflicts } = mergeStores(base, ours, theirs);
+
+  assert.deepEqual(conflicts, []);
+  assert.equal(store.groups[0].bookmarks[0].title, 'ours title');
+  assert.equal(store.groups[0].bookmarks[0].description, 'theirs description');
+});
+
+test('keeps the preferred side when both change the same field', () => {
+  const base = makeStore([makeGroup('g1', [makeBookmark('a')])]);
+  const ours = clone(base);
+  ours.groups[0].bookmarks[0].title = 'ours';
+  const theirs = clone(base);
+  theirs.groups[0].bookmarks[0].title = 'theirs';
+
+  const preferTheirs = mergeStores(base, ours, theirs);
+  assert.equal(preferTheirs.store.groups[0].bookmarks[0].title, 'theirs');
+  assert.equal(preferTheirs.conflicts.length, 1);
+  assert.equal(preferTheirs.conflicts[0].field, 'title');
+  assert.equal(preferTheirs.conflicts[0].kept, 'theirs');
+
+  const preferOurs = mergeStores(base, ours, theirs, 'ours');
+  assert.equal(preferOurs.store.groups[0].bookmarks[0].title, 'ours');
+  assert.equal(preferOurs.conflicts[0].kept, 'ours');
+});
+
+test('removal wins over an unchanged bookmark', () => {
+  const base = makeStore([makeGroup('g1', [makeBookmark('a'), makeBookmark('b')])]);
+  const ours = clone(base);
+  ours.groups[0].bookmarks.splice(0, 1);
+  const theirs = clone(base);
+
+  const { store, conflicts } = mergeStores(base, ours, theirs);
+
+  assert.deepEqual(store.groups[0].bookmarks.map(b => b.id), ['b']);
+  assert.deepEqual(conflicts, []);
+});
+
+test('keeps a bookmark removed on one side but edited on the other', () => {
+  const base = makeStore([makeGroup('g1', [makeBookmark('a')])]);
+  const ours = clone(base);
+  ours.groups[0].bookmarks = [];
+  const theirs = clone(base);
+  theirs.groups[0].bookmarks[0].title = 'edited';
+
+  const { store, conflicts } = mergeStores(base, ours, theirs);
+
+  assert.equal(store.groups[0].bookmarks[0].title, 'edited');
+  assert.equal(conflicts.length, 1);
+  assert.equal(conflicts[0].field, REMOVED_FIELD);
+  assert.equal(conflicts[0].kept, 'theirs');
+
+  // 反过来: 对方删除, 本方编辑
+  const reversed = mergeStores(base, theirs, ours);
+  assert.equal(reversed.store.groups[0].bookmarks[0].title, 'edited');
+  assert.equal(reversed.conflicts[0].kept, 'ours');
+});
+
+test('keeps a group removed on one side when a bookmark was added to it on the other', () => {
+  const base = makeStore([makeGroup('g1', [makeBookmark('a')])]);
+  const ours = clone(base);
+  ours.groups = [];
+  const theirs = clone(base);
+  theirs.groups[0].bookmarks.push(makeBookmark('b'));
+
+  const { store, conflicts } = mergeStores(base, ours, theirs);
+
+  assert.deepEqual(store.groups[0].bookmarks.map(b => b.id), ['a', 'b']);
+  assert.equal(conflicts[0].kind, 'group');
+  assert.equal(conflicts[0].field, REMOVED_FIELD);
+});
+
+test('follows a bookmark moved to another group', () => {
+  const base = makeStore([makeGroup('g1', [makeBookmark('a')]), makeGroup('g2')]);
+  const ours = clone(base);
+  ours.groups[1].bookmarks.push(ours.groups[0].bookmarks.pop()!);
+  const theirs = clone(base);
+  theirs.groups[1].title = 'renamed';
+
+  const { store, conflicts } = mergeStores(base, ours, theirs);
+
+  assert.deepEqual(findBookmarkGroups(store, 'a'), ['g2']);
+  assert.equal(store.groups[1].title, 'renamed');
+  assert.deepEqual(conflicts, []);
+});
+
+test('keeps a single copy of a bookmark moved on one side and edited in place on the other', () => {
+  const base = makeStore([makeGroup('g1', [makeBookmark('a')]), makeGroup('g2')]);
+  const ours = clone(base);
+  ours.groups[1].bookmarks.push(ours.groups[0].bookmarks.pop()!);
+  const theirs = clone(base);
+  theirs.groups[0].bookmarks[0].title = 'edited';
+
+  const { store } = mergeStores(base, ours, theirs);
+
+  assert.equal(findBookmarkGroups(store, 'a').length, 1);
+  const [bookmark] = store.groups.flatMap(g => g.bookmarks).filter(b => b.id === 'a');
+  assert.equal(bookmark.title, 'edited');
+});
+
+test('promotes children whose parent was removed on the other side', () => {
+  const base = makeStore([makeGroup('g1', [makeBookmark('parent')])]);
+  const ours = clone(base);
+  ours.groups[0].bookmarks = [];
+  const theirs = clone(base);
+  theirs.groups[0].bookmarks.push(makeBookmark('child', { parentId: 'parent' }));
+
+  const { store } = mergeStores(base, ours, theirs);
+
+  const ids = store.groups[0].bookmarks.map(b => b.id);
+  assert.deepEqual(ids, ['child']);
+  assert.equal(store.groups[0].bookmarks[0].parentId, undefined);
+});
+
+test('treats both sides as additions without a base', () => {
+  const ours = makeStore([makeGroup('g1', [makeBookmark('a')])]);
+  const theirs = makeStore([makeGroup('g2', [makeBookmark('b')])]);
+
+  const { store, conflicts } = mergeStores(undefined, ours, theirs);
+
+  assert.deepEqual(store.groups.map(g => g.id), ['g2', 'g1']);
+  assert.deepEqual(conflicts, []);
+});
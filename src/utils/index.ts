@@ -1,13 +1,36 @@
 import * as path from 'path';
-import { ParsedLocation } from '../store/types';
+import { Bookmark, BookmarkLocation, BookmarkLinkType, BookmarkStatus, LocationEdit, ParsedLocation } from '../store/types';
+
+// path/to/file:line:col-line:col
+const COLUMN_RANGE_PATTERN = /^(.+):(\d+):(\d+)-(\d+):(\d+)$/;
 
 /**
  * Parse location string to structured format
  * Location format:
  *   Single line: path/to/file:45
  *   Range: path/to/file:78-92
+ *   Column range: path/to/file:45:10-45:32 (columns are 1-based, the range ends before the end column)
+ * The optional label (of a multi-location bookmark) is carried over to the result.
  */
-export function parseLocation(location: string): ParsedLocation {
+export function parseLocation(location: string, label?: string): ParsedLocation {
+  const columnRange = location.match(COLUMN_RANGE_PATTERN);
+  if (columnRange) {
+    const [startLine, startColumn, endLine, endColumn] = columnRange.slice(2).map(n => parseInt(n, 10));
+    if (endLine < startLine || (endLine === startLine && endColumn < startColumn)) {
+      throw new Error(`Invalid column range: ${location}`);
+    }
+
+    return {
+      filePath: columnRange[1],
+      startLine,
+      endLine,
+      isRange: true,
+      startColumn,
+      endColumn,
+      ...(label ? { label } : {})
+    };
+  }
+
   // 找最后一个 : 分割
   const lastColonIndex = location.lastIndexOf(':');
   if (lastColonIndex === -1) {
@@ -31,7 +54,8 @@ export function parseLocation(location: string): ParsedLocation {
       filePath,
       startLine,
       endLine,
-      isRange: true
+      isRange: true,
+      ...(label ? { label } : {})
     };
   }
 
@@ -45,20 +69,71 @@ export function parseLocation(location: string): ParsedLocation {
     filePath,
     startLine: line,
     endLine: line,
-    isRange: false
+    isRange: false,
+    ...(label ? { label } : {})
   };
 }
 
 /**
- * Format location from parsed structure
+ * Format location from parsed structure (the label is not part of the location string)
  */
 export function formatLocation(parsed: ParsedLocation): string {
+  if (parsed.startColumn !== undefined && parsed.endColumn !== undefined) {
+    return `${parsed.filePath}:${parsed.startLine}:${parsed.startColumn}-${parsed.endLine}:${parsed.endColumn}`;
+  }
   if (parsed.isRange && parsed.startLine !== parsed.endLine) {
     return `${parsed.filePath}:${parsed.startLine}-${parsed.endLine}`;
   }
   return `${parsed.filePath}:${parsed.startLine}`;
 }
 
+/**
+ * All locations of a bookmark in order. Single-location bookmarks only have `location`.
+ */
+export function getBookmarkLocations(bookmark: Pick<Bookmark, 'location' | 'locations'>): BookmarkLocation[] {
+  return bookmark.locations && bookmark.locations.length > 0
+    ? bookmark.locations
+    : [{ location: bookmark.location }];
+}
+
+/**
+ * Parse all locations of a bookmark, keeping each location's index in the list.
+ * Locations that can't be parsed are skipped.
+ */
+export function parseBookmarkLocations(
+  bookmark: Pick<Bookmark, 'location' | 'locations'>
+): Array<ParsedLocation & { index: number }> {
+  const result: Array<ParsedLocation & { index: number }> = [];
+  getBookmarkLocations(bookmark).forEach((entry, index) => {
+    try {
+      result.push({ ...parseLocation(entry.location, entry.label), index });
+    } catch {
+      // 无法解析的位置不显示
+    }
+  });
+  return result;
+}
+
+/**
+ * Parsed locations of a bookmark that lie in the given (normalized) file.
+ * Paths match like getBookmarksByFile: either path contains the other.
+ */
+export function getLocationsInFile(
+  bookmark: Pick<Bookmark, 'location' | 'locations'>,
+  filePath: string
+): Array<ParsedLocation & { index: number }> {
+  return parseBookmarkLocations(bookmark).filter(parsed =>
+    parsed.filePath.includes(filePath) || filePath.includes(parsed.filePath)
+  );
+}
+
+/**
+ * Text shown for one location of a multi-location bookmark: "label (path:line)" or just the location
+ */
+export function describeLocation(entry: BookmarkLocation): string {
+  return entry.label ? `${entry.label} (${entry.location})` : entry.location;
+}
+
 /**
  * Normalize file path for consistent comparison
  */
@@ -121,6 +196,60 @@ export function locationsOverlap(loc1: ParsedLocation, loc2: ParsedLocation): bo
   return !(loc1.endLine < loc2.startLine || loc2.endLine < loc1.startLine);
 }
 
+/**
+ * Adjust a location for a document edit.
+ * Line-only locations follow adjustLineNumbers; column ranges move their start and end positions precisely,
+ * so edits earlier on the same line shift the columns.
+ */
+export function adjustLocationForEdit(location: ParsedLocation, edit: LocationEdit): ParsedLocation {
+  const insertedLines = edit.text.split('\n');
+  const lineDelta = insertedLines.length - 1 - (edit.endLine - edit.startLine);
+
+  if (location.startColumn === undefined || location.endColumn === undefined) {
+    return lineDelta === 0 ? location : adjustLineNumbers(location, edit.startLine, lineDelta);
+  }
+
+  // 插入文本之后的位置
+  const insertedEnd = insertedLines.length === 1
+    ? { line: edit.startLine, column: edit.startColumn + edit.text.length }
+    : { line: edit.startLine + insertedLines.length - 1, column: insertedLines[insertedLines.length - 1].length + 1 };
+  const isInsertion = edit.startLine === edit.endLine && edit.startColumn === edit.endColumn;
+
+  const movePosition = (line: number, column: number, isStart: boolean): { line: number; column: number } => {
+    const compareStart = comparePositions(line, column, edit.startLine, edit.startColumn);
+    // 编辑之前的位置不变; 在起点处插入时范围起点后移 (插入的文本不属于范围), 终点不动 (范围不扩大)
+    if (compareStart < 0 || (compareStart === 0 && !(isStart && isInsertion))) {
+      return { line, column };
+    }
+    // 位于被替换的文本中: 起点移到编辑起点, 终点移到插入文本之后
+    if (comparePositions(line, column, edit.endLine, edit.endColumn) < 0) {
+      return isStart ? { line: edit.startLine, column: edit.startColumn } : insertedEnd;
+    }
+    // 编辑之后: 与编辑终点同一行时平移列, 其余只平移行
+    return line === edit.endLine
+      ? { line: insertedEnd.line, column: insertedEnd.column + column - edit.endColumn }
+      : { line: line + lineDelta, column };
+  };
+
+  const start = movePosition(location.startLine, location.startColumn, true);
+  let end = movePosition(location.endLine, location.endColumn, false);
+  if (comparePositions(end.line, end.column, start.line, start.column) < 0) {
+    end = start;
+  }
+
+  return {
+    ...location,
+    startLine: start.line,
+    startColumn: start.column,
+    endLine: end.line,
+    endColumn: end.column
+  };
+}
+
+function comparePositions(lineA: number, columnA: number, lineB: number, columnB: number): number {
+  return lineA !== lineB ? lineA - lineB : columnA - columnB;
+}
+
 /**
  * Adjust line numbers based on document edit
  */
@@ -150,6 +279,64 @@ export function adjustLineNumbers(
   };
 }
 
+/**
+ * Split a symbol name into path segments: "BetService.placeBet" -> ["BetService", "placeBet"].
+ * Also accepts names as reported by symbol providers, e.g. "(*BetService).PlaceBet" or "placeBet(amount)".
+ */
+export function splitSymbolPath(name: string): string[] {
+  return name
+    .replace(/^\(\*?([^)]*)\)\./, '$1.')   // Go 方法的接收者
+    .replace(/\(.*$/, '')                  // 参数列表
+    .split(/\.|::/)
+    .map(segment => segment.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Find the line (1-based) declaring a symbol by scanning the file text.
+ * Used where no language service is available (the standalone MCP server); each path segment
+ * is searched after the line of the previous one. Returns undefined if it is not found.
+ */
+export function findSymbolLine(content: string, symbol: string): number | undefined {
+  const lines = content.split(/\r?\n/);
+  let from = 0;
+  let found: number | undefined;
+
+  for (const name of splitSymbolPath(symbol)) {
+    const isDeclaration = getDeclarationMatcher(name);
+    found = undefined;
+    for (let i = from; i < lines.length; i++) {
+      if (isDeclaration(lines[i])) {
+        found = i + 1;
+        break;
+      }
+    }
+    if (found === undefined) {
+      return undefined;
+    }
+    from = found;
+  }
+
+  return found;
+}
+
+// 控制语句和调用不是声明
+const NON_DECLARATION_PATTERN = /^\s*(?:if|for|while|switch|catch|return|await|throw|new|else)\b/;
+
+function getDeclarationMatcher(name: string): (line: string) => boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const keyword = new RegExp(
+    `\\b(?:class|interface|struct|enum|trait|impl|type|namespace|module|object|record|protocol|extension|def|fn|func|function|fun|sub)\\s+${escaped}\\b`
+  );
+  // Go 方法: func (s *BetService) PlaceBet(
+  const receiver = new RegExp(`\\bfunc\\s*\\([^)]*\\)\\s*${escaped}\\b`);
+  // 方法或属性声明: "async placeBet(amount: number) {", "public void placeBet(", "placeBet = (" 等
+  const member = new RegExp(`^\\s*(?:[\\w$<>\\[\\],?]+\\s+)*${escaped}\\s*(?:<[^>]*>)?\\s*(?:\\(|[:=]\\s*(?:async\\s*)?(?:function\\b|\\())`);
+
+  return line => keyword.test(line) || receiver.test(line) ||
+    (member.test(line) && !NON_DECLARATION_PATTERN.test(line) && !/;\s*$/.test(line));
+}
+
 /**
  * Generate ISO timestamp
  */
@@ -189,27 +376,75 @@ export function debounce<T extends (...args: unknown[]) => unknown>(
 }
 
 /**
- * Get category display name
+ * Parse a recency filter: an ISO date/timestamp or a relative duration such as "30m", "24h", "7d" or "2w".
+ * Returns the cutoff as an ISO timestamp, or undefined when the value can't be parsed.
+ */
+export function parseSince(value: string, now: number = Date.now()): string | undefined {
+  const units: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+  const relative = value.trim().match(/^(\d+)\s*([mhdw])$/i);
+  if (relative) {
+    return new Date(now - parseInt(relative[1], 10) * units[relative[2].toLowerCase()]).toISOString();
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Get issue status display name
+ */
+export function getStatusDisplayName(status: BookmarkStatus): string {
+  const names: Record<BookmarkStatus, string> = {
+    'open': 'Open',
+    'in-progress': 'In Progress',
+    'resolved': 'Resolved',
+    'wontfix': "Won't Fix"
+  };
+  return names[status] || status;
+}
+
+/**
+ * Get issue status codicon name
  */
-export function getCategoryDisplayName(category: string): string {
-  const names: Record<string, string> = {
-    'entry-point': 'Entry Point',
-    'core-logic': 'Core Logic',
-    'issue': 'Issue',
-    'note': 'Note'
+export function getStatusIcon(status: BookmarkStatus): string {
+  const icons: Record<BookmarkStatus, string> = {
+    'open': 'circle-large-outline',
+    'in-progress': 'clock',
+    'resolved': 'pass',
+    'wontfix': 'circle-slash'
   };
-  return names[category] || category;
+  return icons[status] || 'circle-large-outline';
 }
 
 /**
- * Get category icon
+ * Get link type display name, read from the source ("Calls") or from the target ("Called by")
  */
-export function getCategoryIcon(category?: string): string {
-  const icons: Record<string, string> = {
-    'entry-point': 'entry-point',
-    'core-logic': 'core-logic',
-    'issue': 'issue',
-    'note': 'note'
+export function getLinkTypeDisplayName(type: BookmarkLinkType, direction: 'outgoing' | 'incoming'): string {
+  const names: Record<BookmarkLinkType, [string, string]> = {
+    'calls': ['Calls', 'Called by'],
+    'see-also': ['See also', 'See also'],
+    'implements': ['Implements', 'Implemented by'],
+    'caused-by': ['Caused by', 'Causes']
   };
-  return icons[category || ''] || 'bookmark';
+  const [outgoing, incoming] = names[type] ?? [type, type];
+  return direction === 'outgoing' ? outgoing : incoming;
+}
+
+/**
+ * Normalize bookmark tags: trim, strip leading '#', lowercase, drop empties and duplicates.
+ * Returns undefined when no tag is left, so the field is omitted from the store.
+ */
+export function normalizeTags(tags: readonly string[] | undefined): string[] | undefined {
+  if (!tags) {
+    return undefined;
+  }
+
+  const result: string[] = [];
+  for (const raw of tags) {
+    const tag = String(raw).trim().replace(/^#+/, '').trim().toLowerCase();
+    if (tag && !result.includes(tag)) {
+      result.push(tag);
+    }
+  }
+  return result.length > 0 ? result : undefined;
 }
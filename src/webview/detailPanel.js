@@ -7,6 +7,14 @@
   // 当前书签数据
   let currentBookmark = null;
 
+  // 问题状态的显示名称和图标, 与 utils 中的 getStatusDisplayName / getStatusIcon 一致
+  const STATUS_INFO = {
+    'open': { label: 'Open', icon: 'circle-large-outline' },
+    'in-progress': { label: 'In Progress', icon: 'clock' },
+    'resolved': { label: 'Resolved', icon: 'pass' },
+    'wontfix': { label: "Won't Fix", icon: 'circle-slash' }
+  };
+
   /**
    * 监听来自扩展的消息
    */
@@ -20,6 +28,12 @@
         renderBookmark(message.data);
         break;
 
+      case 'snapshot':
+        if (currentBookmark && currentBookmark.bookmark.id === message.data.bookmarkId) {
+          renderSnapshot(message.data);
+        }
+        break;
+
       default:
         console.warn('Unknown message type:', message.type);
     }
@@ -37,16 +51,32 @@
 
     // Location
     document.getElementById('bookmark-location').textContent = bookmark.location;
+    renderLocations(bookmark);
+
+    // Code snapshot (差异由扩展端随后通过 snapshot 消息发送)
+    document.getElementById('snapshot-card').style.display = bookmark.hasSnapshot ? 'block' : 'none';
 
     // Description (核心: 多行显示)
     document.getElementById('bookmark-description').textContent = bookmark.description || 'No description provided.';
 
     // Category
-    renderCategory(bookmark.category);
+    renderCategory(bookmark.category, data.categoryInfo);
+
+    // Status
+    renderStatus(bookmark);
+
+    // Tags
+    renderTags(bookmark.tags || []);
+
+    // Links
+    renderLinks(data.links || [], data.backlinks || []);
 
     // Hierarchy
     renderHierarchy(parent, children, hasChildren);
 
+    // History
+    renderProvenance(bookmark);
+
     // Group
     document.getElementById('group-name').textContent = group.title;
     const createdByBadge = document.getElementById('group-created-by');
@@ -61,39 +91,235 @@
   }
 
   /**
-   * 渲染分类徽章
+   * 渲染多位置书签的全部位置, 点击跳转到对应位置
    */
-  function renderCategory(category) {
+  function renderLocations(bookmark) {
+    const locationsElement = document.getElementById('bookmark-locations');
+    locationsElement.replaceChildren();
+
+    const locations = bookmark.locations || [];
+    if (locations.length < 2) {
+      locationsElement.style.display = 'none';
+      return;
+    }
+
+    locationsElement.style.display = 'flex';
+    locations.forEach((entry, index) => {
+      const element = document.createElement('div');
+      element.className = 'bookmark-link';
+      const icon = document.createElement('span');
+      icon.className = 'codicon codicon-location';
+      const body = document.createElement('div');
+      body.style.flex = '1';
+      const title = document.createElement('div');
+      title.className = 'bookmark-link-title';
+      title.textContent = entry.label || `Location ${index + 1}`;
+      const location = document.createElement('div');
+      location.className = 'bookmark-link-location';
+      location.textContent = entry.location;
+      body.append(title, location);
+      element.append(icon, body);
+      element.onclick = () => vscode.postMessage({ type: 'jumpToCode', bookmarkId: bookmark.id, locationIndex: index });
+      locationsElement.appendChild(element);
+    });
+  }
+
+  /**
+   * 渲染代码快照与当前代码的差异. 修改的行中变化的部分单独高亮
+   */
+  function renderSnapshot(data) {
+    const similarityElement = document.getElementById('snapshot-similarity');
+    const statusElement = document.getElementById('snapshot-status');
+    const diffElement = document.getElementById('snapshot-diff');
+    diffElement.replaceChildren();
+
+    const comparison = data.comparison;
+    if (!comparison) {
+      // 与快照一致, 或无法比较 (文件不存在、行号超出范围)
+      similarityElement.textContent = data.valid ? '100%' : '';
+      similarityElement.className = data.valid ? 'snapshot-similarity card-header-action' : 'snapshot-similarity card-header-action invalid';
+      statusElement.textContent = data.valid ? 'Matches the current code' : data.reason;
+      diffElement.style.display = 'none';
+      return;
+    }
+
+    similarityElement.textContent = `${Math.round(comparison.similarity * 100)}% similar`;
+    similarityElement.className = `snapshot-similarity card-header-action ${data.valid ? 'changed' : 'invalid'}`;
+    statusElement.textContent = data.reason || '';
+    diffElement.style.display = 'block';
+
+    comparison.lines.forEach(line => {
+      const row = document.createElement('div');
+      row.className = `diff-line ${line.kind}`;
+
+      const gutter = document.createElement('span');
+      gutter.className = 'diff-gutter';
+      gutter.textContent = line.newLine !== undefined ? String(line.newLine + data.startLine - 1) : '';
+      const marker = document.createElement('span');
+      marker.className = 'diff-marker';
+      marker.textContent = line.kind === 'removed' ? '-' : line.kind === 'added' ? '+' : ' ';
+
+      const code = document.createElement('span');
+      if (line.segments) {
+        line.segments.forEach(segment => {
+          const part = document.createElement('span');
+          if (segment.changed) {
+            part.className = 'diff-changed';
+          }
+          part.textContent = segment.text;
+          code.appendChild(part);
+        });
+      } else {
+        code.textContent = line.text;
+      }
+
+      row.append(gutter, marker, code);
+      diffElement.appendChild(row);
+    });
+  }
+
+  /**
+   * 渲染分类徽章, categoryInfo 来自工作区分类配置, 未配置的分类显示原始 id
+   */
+  function renderCategory(category, categoryInfo) {
     const categoryElement = document.getElementById('bookmark-category');
 
     if (!category) {
       categoryElement.innerHTML = '<span class="codicon codicon-tag"></span><span>No category</span>';
       categoryElement.className = 'category-badge';
+      categoryElement.style.removeProperty('--category-color');
+      return;
+    }
+
+    const icon = categoryInfo ? categoryInfo.icon : 'tag';
+    const label = categoryInfo ? categoryInfo.label : category;
+
+    const iconElement = document.createElement('span');
+    iconElement.className = `codicon codicon-${icon}`;
+    const labelElement = document.createElement('span');
+    labelElement.className = 'category-label';
+    labelElement.textContent = label;
+    categoryElement.replaceChildren(iconElement, labelElement);
+    categoryElement.className = 'category-badge categorized';
+    categoryElement.title = categoryInfo && categoryInfo.description ? categoryInfo.description : '';
+    if (categoryInfo) {
+      categoryElement.style.setProperty('--category-color', categoryInfo.color);
+    } else {
+      categoryElement.style.removeProperty('--category-color');
+    }
+  }
+
+  /**
+   * 渲染问题状态、处理说明和时间
+   */
+  function renderStatus(bookmark) {
+    const statusElement = document.getElementById('bookmark-status');
+    statusElement.replaceChildren();
+
+    if (!bookmark.status) {
+      statusElement.innerHTML = '<span class="no-data">No status</span>';
+      return;
+    }
+
+    const info = STATUS_INFO[bookmark.status] || { label: bookmark.status, icon: 'issues' };
+    const badge = document.createElement('div');
+    badge.className = `status-badge status-${bookmark.status}`;
+    const icon = document.createElement('span');
+    icon.className = `codicon codicon-${info.icon}`;
+    const label = document.createElement('span');
+    label.textContent = info.label;
+    badge.append(icon, label);
+    statusElement.appendChild(badge);
+
+    if (bookmark.resolution) {
+      const resolution = document.createElement('div');
+      resolution.className = 'status-resolution';
+      resolution.textContent = bookmark.resolution;
+      statusElement.appendChild(resolution);
+    }
+
+    const times = [];
+    if (bookmark.resolvedAt) {
+      times.push(`Closed ${formatTime(bookmark.resolvedAt)}`);
+    } else if (bookmark.statusChangedAt) {
+      times.push(`Updated ${formatTime(bookmark.statusChangedAt)}`);
+    }
+    if (times.length > 0) {
+      const meta = document.createElement('div');
+      meta.className = 'status-meta';
+      meta.textContent = times.join(' · ');
+      statusElement.appendChild(meta);
+    }
+  }
+
+  /**
+   * 渲染创建/修改时间、创建者、作者和 MCP 客户端, 旧书签没有这些字段
+   */
+  function renderProvenance(bookmark) {
+    const provenanceElement = document.getElementById('bookmark-provenance');
+    provenanceElement.replaceChildren();
+
+    const items = [];
+    if (bookmark.createdAt) {
+      items.push(['Created', formatTime(bookmark.createdAt)]);
+    }
+    if (bookmark.updatedAt && bookmark.updatedAt !== bookmark.createdAt) {
+      items.push(['Updated', formatTime(bookmark.updatedAt)]);
+    }
+    if (bookmark.createdBy) {
+      items.push(['Created by', bookmark.createdBy === 'ai' ? 'AI' : 'User']);
+    }
+    if (bookmark.author) {
+      items.push(['Author', bookmark.author]);
+    }
+    if (bookmark.client) {
+      items.push(['MCP client', bookmark.client]);
+    }
+
+    if (items.length === 0) {
+      provenanceElement.innerHTML = '<span class="no-data">Not recorded (created before history tracking)</span>';
       return;
     }
 
-    const icons = {
-      'entry-point': 'codicon-rocket',
-      'core-logic': 'codicon-gear',
-      'issue': 'codicon-warning',
-      'note': 'codicon-note'
-    };
+    items.forEach(([labelText, valueText]) => {
+      const item = document.createElement('div');
+      item.className = 'metadata-item';
+      const label = document.createElement('span');
+      label.className = 'metadata-label';
+      label.textContent = labelText;
+      const value = document.createElement('span');
+      value.className = 'metadata-value';
+      value.textContent = valueText;
+      item.append(label, value);
+      provenanceElement.appendChild(item);
+    });
+  }
 
-    const labels = {
-      'entry-point': 'Entry Point',
-      'core-logic': 'Core Logic',
-      'issue': 'Issue',
-      'note': 'Note'
-    };
+  function formatTime(iso) {
+    const date = new Date(iso);
+    return isNaN(date.getTime()) ? iso : date.toLocaleString();
+  }
+
+  /**
+   * 渲染标签, 点击后在侧边栏中按标签过滤
+   */
+  function renderTags(tags) {
+    const tagsElement = document.getElementById('bookmark-tags');
+    tagsElement.innerHTML = '';
 
-    const icon = icons[category] || 'codicon-tag';
-    const label = labels[category] || category;
+    if (tags.length === 0) {
+      tagsElement.innerHTML = '<span class="no-data">No tags</span>';
+      return;
+    }
 
-    categoryElement.innerHTML = `
-      <span class="codicon ${icon}"></span>
-      <span class="category-label">${label}</span>
-    `;
-    categoryElement.className = `category-badge ${category}`;
+    tags.forEach(tag => {
+      const chip = document.createElement('span');
+      chip.className = 'tag-chip';
+      chip.textContent = `#${tag}`;
+      chip.title = `Show bookmarks tagged #${tag} in the sidebar`;
+      chip.onclick = () => filterByTag(tag);
+      tagsElement.appendChild(chip);
+    });
   }
 
   /**
@@ -152,6 +378,56 @@
     }
   }
 
+  /**
+   * 渲染出链和反向链接, 点击跳转到对应书签的详情
+   */
+  function renderLinks(links, backlinks) {
+    const linksElement = document.getElementById('bookmark-links');
+    linksElement.replaceChildren();
+
+    if (links.length === 0 && backlinks.length === 0) {
+      linksElement.innerHTML = '<span class="no-data">No links</span>';
+      return;
+    }
+
+    links.forEach(link => linksElement.appendChild(createLinkElement(link, 'arrow-right')));
+    backlinks.forEach(link => linksElement.appendChild(createLinkElement(link, 'arrow-left')));
+  }
+
+  function createLinkElement(link, icon) {
+    const element = document.createElement('div');
+    element.className = link.missing ? 'bookmark-link missing' : 'bookmark-link';
+
+    const iconElement = document.createElement('span');
+    iconElement.className = `codicon codicon-${icon}`;
+
+    const body = document.createElement('div');
+    body.style.flex = '1';
+    const title = document.createElement('div');
+    title.className = 'bookmark-link-title';
+    const typeElement = document.createElement('span');
+    typeElement.className = 'link-type';
+    typeElement.textContent = link.typeLabel;
+    title.append(typeElement, link.missing ? 'Missing bookmark' : link.title);
+    const location = document.createElement('div');
+    location.className = 'bookmark-link-location';
+    location.textContent = link.missing ? link.id : `${link.groupTitle} · ${link.location}`;
+    body.append(title, location);
+
+    if (link.note) {
+      const note = document.createElement('div');
+      note.className = 'link-note';
+      note.textContent = link.note;
+      body.appendChild(note);
+    }
+
+    element.append(iconElement, body);
+    if (!link.missing) {
+      element.onclick = () => navigateToBookmark(link.id);
+    }
+    return element;
+  }
+
   /**
    * 设置事件监听器
    */
@@ -163,6 +439,14 @@
     // Copy Location 按钮
     const btnCopyLocation = document.getElementById('btn-copy-location');
     btnCopyLocation.onclick = () => copyLocation();
+
+    // 修改状态 (由扩展端弹出选择)
+    const btnSetStatus = document.getElementById('btn-set-status');
+    btnSetStatus.onclick = () => vscode.postMessage({ type: 'setStatus', bookmarkId: bookmarkId });
+
+    // 代码快照: 接受当前代码 / 按快照重新定位
+    document.getElementById('btn-accept-snapshot').onclick = () => vscode.postMessage({ type: 'acceptSnapshot', bookmarkId: bookmarkId });
+    document.getElementById('btn-relocate').onclick = () => vscode.postMessage({ type: 'relocateBookmark', bookmarkId: bookmarkId });
   }
 
   /**
@@ -185,6 +469,16 @@
     });
   }
 
+  /**
+   * 在侧边栏中按标签过滤
+   */
+  function filterByTag(tag) {
+    vscode.postMessage({
+      type: 'filterByTag',
+      tag: tag
+    });
+  }
+
   /**
    * 复制位置到剪贴板
    */
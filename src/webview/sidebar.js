@@ -24,6 +24,9 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
   const groupsList = document.getElementById('groups-list');
   const searchResults = document.getElementById('search-results');
   const contextMenu = document.getElementById('context-menu');
+  const trashSection = document.getElementById('trash-section');
+  const orphanedSection = document.getElementById('orphaned-section');
+  const tagFilterBar = document.getElementById('tag-filter-bar');
 
   if (!bookmarksContainer || !loadingState || !emptyState || !noResultsState || !groupsList || !searchResults || !contextMenu) {
     console.error('Required DOM elements not found');
@@ -44,9 +47,23 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
    *     description?: string;
    *   }>;
    *   viewMode: string;
+   *   tagFilter?: string | null;
+   *   sortBy?: 'order' | 'created' | 'updated';
+   *   recencyFilter?: { label: string; since?: string } | null;
    * }}
    */
   let currentData = { groups: [], viewMode: 'group' };
+  /** @type {any[]} 工作区分类配置 (id, label, color, icon, description) */
+  let categories = [];
+
+  /** 问题状态的显示名称和图标, 与 utils 中的 getStatusDisplayName / getStatusIcon 一致 */
+  /** @type {Record<string, { label: string, icon: string }>} */
+  const STATUS_INFO = {
+    'open': { label: 'Open', icon: 'circle-large-outline' },
+    'in-progress': { label: 'In Progress', icon: 'clock' },
+    'resolved': { label: 'Resolved', icon: 'pass' },
+    'wontfix': { label: "Won't Fix", icon: 'circle-slash' }
+  };
   
   /** @type {{ viewMode: 'nested' | 'tree' }} */
   let uiState = { viewMode: 'tree' }; // nested | tree
@@ -65,6 +82,12 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
   /** @type {Set<string>} */
   let collapsedBookmarks = new Set(savedState?.collapsedBookmarks || []);
 
+  /** @type {boolean} 回收站默认折叠 */
+  let trashCollapsed = savedState?.trashCollapsed ?? true;
+
+  /** @type {boolean} 文件已删除的书签需要处理, 默认展开 */
+  let orphanedCollapsed = savedState?.orphanedCollapsed ?? false;
+
   /**
    * 保存完整状态到 VSCode webview state
    * 包括: viewMode, collapsedGroups, collapsedBookmarks, scrollPosition
@@ -74,6 +97,8 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
       viewMode: uiState.viewMode,
       collapsedGroups: Array.from(collapsedGroups),
       collapsedBookmarks: Array.from(collapsedBookmarks),
+      trashCollapsed,
+      orphanedCollapsed,
       scrollPosition: bookmarksContainer?.scrollTop || 0,
       timestamp: Date.now()
     };
@@ -328,6 +353,27 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
     if (groupsList) {
       groupsList.addEventListener('click', handleBookmarkClick);
     }
+
+    // 清除标签或时间过滤
+    if (tagFilterBar) {
+      tagFilterBar.addEventListener('click', (e) => {
+        const clearBtn = /** @type {HTMLElement} */ (e.target).closest('.tag-filter-clear');
+        if (!clearBtn) return;
+        if (clearBtn.getAttribute('data-filter') === 'recency') {
+          vscode.postMessage({ type: 'filterByRecency' });
+        } else {
+          vscode.postMessage({ type: 'filterByTag', tag: null });
+        }
+      });
+    }
+
+    // 回收站的点击同样使用事件委托
+    if (trashSection) {
+      trashSection.addEventListener('click', handleTrashClick);
+    }
+    if (orphanedSection) {
+      orphanedSection.addEventListener('click', handleOrphanedClick);
+    }
   }
 
   // 处理来自 Extension 的消息
@@ -449,7 +495,11 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
       loadModeSpecificCSS(uiState.viewMode);
       loadModeSpecificJS(uiState.viewMode).then(() => {
         currentData = data;
-        renderGroups(data.groups);
+        applyCategoryStyles(data.categories);
+        renderFilterBar(data.tagFilter, data.recencyFilter);
+        renderGroups(applyFilters(data));
+        renderOrphaned(data.orphaned);
+        renderTrash(data.trash);
       });
 
       // 更新容器 class
@@ -464,7 +514,261 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
     }
 
     currentData = data;
-    renderGroups(data.groups);
+    applyCategoryStyles(data.categories);
+    renderFilterBar(data.tagFilter, data.recencyFilter);
+    renderGroups(applyFilters(data));
+    renderOrphaned(data.orphaned);
+    renderTrash(data.trash);
+  }
+
+  // 渲染过滤栏 (标签和最近修改时间)
+  /**
+   * @param {string|null|undefined} tag
+   * @param {{ label: string; since?: string } | null | undefined} recency
+   */
+  function renderFilterBar(tag, recency) {
+    if (!tagFilterBar) return;
+
+    if (!tag && !recency) {
+      tagFilterBar.style.display = 'none';
+      tagFilterBar.innerHTML = '';
+      return;
+    }
+
+    const parts = [];
+    if (tag) {
+      parts.push(`
+        <span class="tag-filter-label">Tag:</span>
+        <span class="tag-chip active">#${escapeHtml(tag)}</span>
+        <button class="tag-filter-clear" data-filter="tag" title="Clear Tag Filter">
+          <span class="codicon codicon-close"></span>
+        </button>
+      `);
+    }
+    if (recency) {
+      parts.push(`
+        <span class="tag-filter-label">Changed:</span>
+        <span class="tag-chip active">${escapeHtml(recency.label)}</span>
+        <button class="tag-filter-clear" data-filter="recency" title="Clear Recency Filter">
+          <span class="codicon codicon-close"></span>
+        </button>
+      `);
+    }
+
+    tagFilterBar.style.display = 'flex';
+    tagFilterBar.innerHTML = `<span class="codicon codicon-filter"></span>${parts.join('')}`;
+  }
+
+  /**
+   * 依次应用已关闭问题、标签和最近修改时间过滤
+   * @param {any} data
+   * @returns {any[]}
+   */
+  function applyFilters(data) {
+    const groups = filterResolved(data.groups, data.hideResolved);
+    return filterGroupsByRecency(filterGroupsByTag(groups, data.tagFilter), data.recencyFilter);
+  }
+
+  /**
+   * 保留匹配的书签及其祖先 (维持树形结构)
+   * @param {any[]} bookmarks
+   * @param {(bookmark: any) => boolean} matches
+   * @returns {any[]}
+   */
+  function keepWithAncestors(bookmarks, matches) {
+    const byId = new Map(bookmarks.map((/** @type {any} */ b) => [b.id, b]));
+    /** @type {Set<string>} */
+    const keep = new Set();
+
+    for (const bookmark of bookmarks) {
+      if (!matches(bookmark)) continue;
+      let current = bookmark;
+      while (current && !keep.has(current.id)) {
+        keep.add(current.id);
+        current = current.parentId ? byId.get(current.parentId) : undefined;
+      }
+    }
+
+    return bookmarks.filter((/** @type {any} */ b) => keep.has(b.id));
+  }
+
+  /**
+   * 按标签过滤分组: 保留带该标签的书签及其祖先, 去掉没有匹配的分组
+   * @param {any[]} groups
+   * @param {string|null|undefined} tag
+   * @returns {any[]}
+   */
+  function filterGroupsByTag(groups, tag) {
+    if (!tag || !groups) return groups;
+
+    return groups
+      .map(group => ({ ...group, bookmarks: keepWithAncestors(group.bookmarks || [], b => (b.tags || []).includes(tag)) }))
+      .filter(group => group.bookmarks.length > 0);
+  }
+
+  /**
+   * 只保留在截止时间之后创建或修改过的书签及其祖先, 没有记录时间的旧书签不匹配
+   * @param {any[]} groups
+   * @param {{ since?: string } | null | undefined} recency
+   * @returns {any[]}
+   */
+  function filterGroupsByRecency(groups, recency) {
+    if (!recency || !recency.since || !groups) return groups;
+    const since = recency.since;
+
+    return groups
+      .map(group => ({
+        ...group,
+        bookmarks: keepWithAncestors(group.bookmarks || [], b => {
+          const changedAt = b.updatedAt || b.createdAt;
+          return Boolean(changedAt) && changedAt >= since;
+        })
+      }))
+      .filter(group => group.bookmarks.length > 0);
+  }
+
+  /**
+   * 隐藏已关闭 (resolved / wontfix) 的书签. 仍有未关闭后代的书签保留, 维持树形结构; 分组本身不隐藏
+   * @param {any[]} groups
+   * @param {boolean|undefined} hideResolved
+   * @returns {any[]}
+   */
+  function filterResolved(groups, hideResolved) {
+    if (!hideResolved || !groups) return groups;
+
+    return groups.map(group => ({
+      ...group,
+      bookmarks: keepWithAncestors(group.bookmarks || [], b => !isClosedStatus(b.status))
+    }));
+  }
+
+  /**
+   * 同级书签的排序: 默认按 order, 按时间排序时最近的在前, 没有时间的旧书签排在最后
+   * @param {any} a
+   * @param {any} b
+   * @returns {number}
+   */
+  function compareBookmarks(a, b) {
+    const sortBy = currentData.sortBy;
+    if (sortBy === 'created' || sortBy === 'updated') {
+      /** @param {any} bookmark */
+      const key = bookmark => (sortBy === 'created' ? bookmark.createdAt : bookmark.updatedAt || bookmark.createdAt) || '';
+      const diff = key(b).localeCompare(key(a));
+      if (diff !== 0) return diff;
+    }
+    return (a.order || 0) - (b.order || 0);
+  }
+
+  /**
+   * @param {string|undefined} status
+   * @returns {boolean}
+   */
+  function isClosedStatus(status) {
+    return status === 'resolved' || status === 'wontfix';
+  }
+
+  /**
+   * 渲染问题状态 chip
+   * @param {string|undefined} status
+   * @returns {string}
+   */
+  function renderStatusChip(status) {
+    const info = status ? STATUS_INFO[status] : undefined;
+    if (!info) return '';
+
+    return `<span class="status-chip status-${escapeHtml(status || '')}"><span class="codicon codicon-${info.icon}"></span>${info.label}</span>`;
+  }
+
+  /**
+   * 渲染标签 chips, 点击按标签过滤
+   * @param {string[]|undefined} tags
+   * @returns {string}
+   */
+  function renderTagChips(tags) {
+    if (!tags || tags.length === 0) return '';
+
+    return tags.map(tag => `<span class="tag-chip" data-tag="${escapeHtml(tag)}" title="Show bookmarks tagged #${escapeHtml(tag)}">#${escapeHtml(tag)}</span>`).join('');
+  }
+
+  /**
+   * 渲染分类 chip (图标 + 名称). 未在分类配置中的分类显示原始 id
+   * @param {string|undefined} categoryId
+   * @returns {string}
+   */
+  function renderCategoryChip(categoryId) {
+    if (!categoryId) return '';
+
+    const category = categories.find(c => c.id === categoryId);
+    const icon = category ? category.icon : 'bookmark';
+    const label = category ? category.label : categoryId;
+    const title = category && category.description ? category.description : label;
+    return `<span class="category-chip" title="${escapeHtml(title)}"><span class="codicon codicon-${escapeHtml(icon)}"></span>${escapeHtml(label)}</span>`;
+  }
+
+  /**
+   * 多位置书签的位置数 chip, 悬停显示全部位置. 点击书签时由扩展弹出位置选择
+   * @param {Array<{ location: string, label?: string }>|undefined} locations
+   * @returns {string}
+   */
+  function renderLocationsChip(locations) {
+    if (!locations || locations.length < 2) return '';
+
+    const title = locations.map(entry => entry.label ? `${entry.label}: ${entry.location}` : entry.location).join('\n');
+    return `<span class="locations-chip" title="${escapeHtml(title)}"><span class="codicon codicon-location"></span>${locations.length} locations</span>`;
+  }
+
+  /**
+   * 按代码快照重新定位时无法确定位置的书签, 悬停显示原因和候选位置
+   * @param {{ message: string, candidates?: string[] }|undefined} review
+   * @returns {string}
+   */
+  function renderReviewChip(review) {
+    if (!review) return '';
+
+    const title = [review.message, ...(review.candidates || []).map(location => `• ${location}`)].join('\n');
+    return `<span class="review-chip" title="${escapeHtml(title)}"><span class="codicon codicon-warning"></span>Check location</span>`;
+  }
+
+  /**
+   * 位置所在的文件已被删除
+   * @param {any} orphaned
+   * @returns {string}
+   */
+  function renderOrphanedChip(orphaned) {
+    if (!orphaned) return '';
+
+    const title = `File deleted: ${orphaned.files.join(', ')}`;
+    return `<span class="review-chip" title="${escapeHtml(title)}"><span class="codicon codicon-warning"></span>File missing</span>`;
+  }
+
+  /**
+   * 渲染书签的分类和标签行
+   * @param {any} bookmark
+   * @returns {string}
+   */
+  function renderBookmarkMeta(bookmark) {
+    const html = renderCategoryChip(bookmark.category) + renderStatusChip(bookmark.status) +
+      renderReviewChip(bookmark.needsReview) + renderOrphanedChip(bookmark.orphaned) + renderLocationsChip(bookmark.locations) + renderTagChips(bookmark.tags);
+    return html ? `<div class="bookmark-tags">${html}</div>` : '';
+  }
+
+  /**
+   * 根据分类配置生成每个分类的 --category-color
+   * @param {any[]|undefined} list
+   */
+  function applyCategoryStyles(list) {
+    categories = list || [];
+
+    let styleEl = document.getElementById('category-styles');
+    if (!styleEl) {
+      styleEl = document.createElement('style');
+      styleEl.id = 'category-styles';
+      document.head.appendChild(styleEl);
+    }
+    styleEl.textContent = categories.map(c => {
+      const selector = `[data-category="${CSS.escape(c.id)}"]`;
+      return `.bookmark-item${selector}, .search-result-item${selector} { --category-color: ${c.color}; }`;
+    }).join('\n');
   }
 
   // 渲染分组列表
@@ -479,7 +783,8 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
     searchResults.style.display = 'none';
 
     if (!groups || groups.length === 0) {
-      emptyState.style.display = 'flex';
+      // 标签或时间过滤后没有匹配时显示 "No results"
+      (currentData.tagFilter || currentData.recencyFilter ? noResultsState : emptyState).style.display = 'flex';
       groupsList.style.display = 'none';
       return;
     }
@@ -531,6 +836,11 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
               </div>
             ` : ''}
           </div>
+          ${group.private ? `
+            <span class="group-private-badge" title="Private: stored only on this machine, not in the shared bookmark file">
+              <span class="codicon codicon-lock"></span>
+            </span>
+          ` : ''}
           <span class="group-count">${bookmarkCount}</span>
         </div>
         <div class="bookmarks-list ${isCollapsed ? 'collapsed' : ''}" data-group-id="${escapeHtml(group.id)}">
@@ -540,6 +850,158 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
     `;
   }
 
+  // 渲染文件已删除的书签, 可以重新关联到其他文件或移除
+  /** @param {any[]} items */
+  function renderOrphaned(items) {
+    if (!orphanedSection) return;
+
+    if (!items || items.length === 0) {
+      orphanedSection.style.display = 'none';
+      orphanedSection.innerHTML = '';
+      return;
+    }
+
+    orphanedSection.style.display = 'block';
+    orphanedSection.innerHTML = `
+      <div class="trash-header ${orphanedCollapsed ? 'collapsed' : ''}">
+        <span class="group-chevron">
+          <span class="codicon codicon-chevron-down"></span>
+        </span>
+        <span class="codicon codicon-warning trash-header-icon"></span>
+        <span class="trash-header-title">Missing Files</span>
+        <span class="trash-count">${items.length}</span>
+      </div>
+      <div class="trash-list ${orphanedCollapsed ? 'collapsed' : ''}">
+        ${items.map(item => `
+          <div class="trash-item" data-bookmark-id="${escapeHtml(item.id)}">
+            <span class="codicon codicon-bookmark trash-item-icon"></span>
+            <div class="trash-item-info">
+              <div class="trash-item-title">${escapeHtml(item.title)}</div>
+              <div class="trash-item-meta" title="${escapeHtml(item.files.join('\n'))}">${escapeHtml(item.files.join(', '))} · in ${escapeHtml(item.groupTitle)}</div>
+            </div>
+            <button class="trash-action-btn" data-action="reattachBookmark" title="Reattach to Another File">
+              <span class="codicon codicon-link"></span>
+            </button>
+            <button class="trash-action-btn" data-action="deleteBookmark" title="Remove Bookmark">
+              <span class="codicon codicon-close"></span>
+            </button>
+          </div>
+        `).join('')}
+      </div>
+    `;
+  }
+
+  // 处理文件已删除书签的点击 (事件委托)
+  /** @param {MouseEvent} e */
+  function handleOrphanedClick(e) {
+    hideContextMenu();
+
+    const actionBtn = /** @type {HTMLElement} */ (e.target).closest('.trash-action-btn');
+    if (actionBtn) {
+      e.stopPropagation();
+      const action = actionBtn.getAttribute('data-action');
+      const bookmarkId = actionBtn.closest('.trash-item')?.getAttribute('data-bookmark-id');
+      if (action && bookmarkId) {
+        vscode.postMessage({ type: action, bookmarkId });
+      }
+      return;
+    }
+
+    const header = /** @type {HTMLElement} */ (e.target).closest('.trash-header');
+    if (header) {
+      orphanedCollapsed = !orphanedCollapsed;
+      header.classList.toggle('collapsed', orphanedCollapsed);
+      orphanedSection?.querySelector('.trash-list')?.classList.toggle('collapsed', orphanedCollapsed);
+      saveState();
+    }
+  }
+
+  // 渲染回收站
+  /** @param {any[]} items */
+  function renderTrash(items) {
+    if (!trashSection) return;
+
+    if (!items || items.length === 0) {
+      trashSection.style.display = 'none';
+      trashSection.innerHTML = '';
+      return;
+    }
+
+    trashSection.style.display = 'block';
+    trashSection.innerHTML = `
+      <div class="trash-header ${trashCollapsed ? 'collapsed' : ''}">
+        <span class="group-chevron">
+          <span class="codicon codicon-chevron-down"></span>
+        </span>
+        <span class="codicon codicon-trash trash-header-icon"></span>
+        <span class="trash-header-title">Trash</span>
+        <span class="trash-count">${items.length}</span>
+        <button class="trash-action-btn" data-action="emptyTrash" title="Empty Trash">
+          <span class="codicon codicon-clear-all"></span>
+        </button>
+      </div>
+      <div class="trash-list ${trashCollapsed ? 'collapsed' : ''}">
+        ${items.map(item => renderTrashItem(item)).join('')}
+      </div>
+    `;
+  }
+
+  // 渲染回收站条目
+  /** @param {any} item */
+  function renderTrashItem(item) {
+    const icon = item.kind === 'group' ? 'codicon-folder' : 'codicon-bookmark';
+    const details = item.kind === 'group'
+      ? `${item.bookmarkCount} bookmark(s)`
+      : `in ${escapeHtml(item.groupTitle)}${item.bookmarkCount > 1 ? ` · +${item.bookmarkCount - 1} child(ren)` : ''}`;
+    const deletedBy = item.deletedBy === 'ai' ? ' by AI' : '';
+
+    return `
+      <div class="trash-item" data-trash-id="${escapeHtml(item.id)}">
+        <span class="codicon ${icon} trash-item-icon"></span>
+        <div class="trash-item-info">
+          <div class="trash-item-title">${escapeHtml(item.title)}</div>
+          <div class="trash-item-meta">${details} · deleted${deletedBy} ${escapeHtml(new Date(item.deletedAt).toLocaleString())}</div>
+        </div>
+        <button class="trash-action-btn" data-action="restoreFromTrash" title="Restore">
+          <span class="codicon codicon-discard"></span>
+        </button>
+        <button class="trash-action-btn" data-action="deleteFromTrash" title="Delete Permanently">
+          <span class="codicon codicon-close"></span>
+        </button>
+      </div>
+    `;
+  }
+
+  // 处理回收站点击 (事件委托)
+  /** @param {MouseEvent} e */
+  function handleTrashClick(e) {
+    hideContextMenu();
+
+    const actionBtn = /** @type {HTMLElement} */ (e.target).closest('.trash-action-btn');
+    if (actionBtn) {
+      e.stopPropagation();
+      const action = actionBtn.getAttribute('data-action');
+      if (action === 'emptyTrash') {
+        vscode.postMessage({ type: 'emptyTrash' });
+        return;
+      }
+
+      const trashId = actionBtn.closest('.trash-item')?.getAttribute('data-trash-id');
+      if (action && trashId) {
+        vscode.postMessage({ type: action, trashId });
+      }
+      return;
+    }
+
+    const header = /** @type {HTMLElement} */ (e.target).closest('.trash-header');
+    if (header) {
+      trashCollapsed = !trashCollapsed;
+      header.classList.toggle('collapsed', trashCollapsed);
+      trashSection?.querySelector('.trash-list')?.classList.toggle('collapsed', trashCollapsed);
+      saveState();
+    }
+  }
+
   // 递归统计书签数量
   /** @param {any[]} bookmarks */
   function countAllBookmarks(bookmarks) {
@@ -569,8 +1031,8 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
       parentId ? b.parentId === parentId : !b.parentId
     );
 
-    // 按 order 排序
-    currentLevelBookmarks.sort((a, b) => (a.order || 0) - (b.order || 0));
+    // 按 order 或时间排序
+    currentLevelBookmarks.sort(compareBookmarks);
 
     return currentLevelBookmarks.map((bookmark, index) => {
       const hasChildren = bookmarks.some(b => b.parentId === bookmark.id);
@@ -601,7 +1063,7 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
    * @returns {string}
    */
   function renderBookmark(bookmark, groupId, depth, hasChildren, isCollapsed, childrenHtml) {
-    const category = bookmark.category || 'note';
+    const category = bookmark.category || '';
     const displayOrder = getBookmarkDisplayOrder(bookmark);
     const orderBadgeHtml = Number.isFinite(displayOrder)
       ? `<span class="order-badge">${displayOrder}</span>`
@@ -654,11 +1116,12 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
            data-group-id="${escapeHtml(groupId)}"
            data-depth="${depth}"
            style="--indent-level: ${depth}">
-        <div class="bookmark-item"
+        <div class="bookmark-item ${isClosedStatus(bookmark.status) ? 'status-closed' : ''}"
              data-category="${escapeHtml(category)}">
 
           <div class="bookmark-content">
             ${headerHtml}
+            ${renderBookmarkMeta(bookmark)}
             ${bookmark.description ? `
               <div class="bookmark-description-wrapper">
                 <div class="bookmark-action-buttons">
@@ -749,6 +1212,15 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
       return;
     }
 
+    // 检查是否点击了标签 chip (按标签过滤)
+    const tagChip = /** @type {HTMLElement} */ (e.target).closest('.tag-chip[data-tag]');
+    if (tagChip) {
+      e.preventDefault();
+      e.stopPropagation();
+      vscode.postMessage({ type: 'filterByTag', tag: tagChip.getAttribute('data-tag') });
+      return;
+    }
+
     // 🚀 事件委托优化: 检查是否点击了 group header
     const groupHeader = /** @type {HTMLElement} */ (e.target).closest('.group-header');
     if (groupHeader) {
@@ -1005,9 +1477,10 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
     const cancelBtn = /** @type {HTMLButtonElement} */ (bookmarkContent.querySelector('.form-btn-cancel'));
     const titleInput = /** @type {HTMLInputElement} */ (bookmarkContent.querySelector('#edit-title'));
     const locationInput = /** @type {HTMLInputElement} */ (bookmarkContent.querySelector('#edit-location'));
+    const tagsInput = /** @type {HTMLInputElement} */ (bookmarkContent.querySelector('#edit-tags'));
     const descriptionTextarea = /** @type {HTMLTextAreaElement} */ (bookmarkContent.querySelector('#edit-description'));
 
-    if (!saveBtn || !cancelBtn || !titleInput || !locationInput || !descriptionTextarea) {
+    if (!saveBtn || !cancelBtn || !titleInput || !locationInput || !tagsInput || !descriptionTextarea) {
       console.warn('Cannot find form elements');
       bookmarkContent.innerHTML = originalHTML;
       return;
@@ -1018,6 +1491,8 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
       const title = titleInput.value.trim();
       const location = locationInput.value.trim();
       const description = descriptionTextarea.value.trim();
+      // 逗号分隔, 由扩展端规范化 (去掉 #、转小写、去重)
+      const tags = tagsInput.value.split(',');
 
       // 前端验证
       const validation = validateInputs(title, location, description);
@@ -1040,7 +1515,7 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
       vscode.postMessage({
         type: 'updateBookmarkFull',
         bookmarkId: bookmarkId,
-        updates: { title, location, description }
+        updates: { title, location, description, tags }
       });
 
       // 注意: 成功后会收到 refresh 消息，不需要手动恢复
@@ -1073,6 +1548,7 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
 
     titleInput.addEventListener('keydown', handleKeyDown);
     locationInput.addEventListener('keydown', handleKeyDown);
+    tagsInput.addEventListener('keydown', handleKeyDown);
     descriptionTextarea.addEventListener('keydown', handleKeyDown);
 
     // 自适应高度
@@ -1109,6 +1585,11 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
           <div class="form-error" id="error-location"></div>
         </div>
 
+        <div class="form-field">
+          <label class="form-label">Tags</label>
+          <input type="text" class="form-input" id="edit-tags" value="${escapeHtml((bookmark.tags || []).join(', '))}" placeholder="comma, separated">
+        </div>
+
         <div class="form-field">
           <label class="form-label">Description</label>
           <textarea class="form-textarea" id="edit-description" maxlength="10000">${escapeHtml(bookmark.description || '')}</textarea>
@@ -1145,15 +1626,18 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
     if (!location) {
       errors.location = 'Location is required';
     } else {
-      // 格式: file:line 或 file:start-end
+      // 格式: file:line, file:start-end 或 file:line:col-line:col
       const locationRegex = /^.+:\d+(-\d+)?$/;
-      if (!locationRegex.test(location)) {
-        errors.location = 'Invalid format. Use "file:line" or "file:start-end"';
+      const columnRangeRegex = /^.+:(\d+):(\d+)-(\d+):(\d+)$/;
+      const columnMatch = location.match(columnRangeRegex);
+      if (!columnMatch && !locationRegex.test(location)) {
+        errors.location = 'Invalid format. Use "file:line", "file:start-end" or "file:line:col-line:col"';
       } else {
-        // 检查行号 >= 1
-        const parts = location.split(':');
-        const linePart = parts[parts.length - 1];
-        const lineNumbers = linePart.split('-').map(n => parseInt(n, 10));
+        // 检查行号 (和列号) >= 1
+        const numberParts = columnMatch
+          ? columnMatch.slice(1)
+          : location.split(':').pop().split('-');
+        const lineNumbers = numberParts.map(n => parseInt(n, 10));
         if (lineNumbers.some(n => n < 1)) {
           errors.location = 'Line numbers must be >= 1';
         }
@@ -1433,6 +1917,8 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
   function showGroupContextMenu(e, groupId) {
     if (!contextMenu) return;
     contextMenuTarget = { type: 'group', id: groupId };
+    const group = currentData.groups.find(g => g.id === groupId);
+    const isPrivate = !!(group && group.private);
     contextMenu.innerHTML = `
       <div class="context-menu-item" data-action="editGroup">
         <span class="codicon codicon-edit"></span>
@@ -1455,6 +1941,10 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
         <span class="codicon codicon-add"></span>
         <span>Add Bookmark</span>
       </div>
+      <div class="context-menu-item" data-action="toggleGroupPrivate">
+        <span class="codicon ${isPrivate ? 'codicon-unlock' : 'codicon-lock'}"></span>
+        <span>${isPrivate ? 'Move to Shared Bookmarks' : 'Move to Private Bookmarks'}</span>
+      </div>
       <div class="context-menu-separator"></div>
       <div class="context-menu-item danger" data-action="deleteGroup">
         <span class="codicon codicon-trash"></span>
@@ -1500,6 +1990,21 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
       </div>
     `;
 
+    // 有状态的书签提供 Resolve / Reopen 快捷操作
+    const bookmark = group ? findBookmarkById(bookmarkId, group.bookmarks || []) : null;
+    const status = bookmark ? bookmark.status : undefined;
+    const statusMenuItems = !status ? '' : isClosedStatus(status) ? `
+      <div class="context-menu-item" data-action="reopenIssue">
+        <span class="codicon codicon-issue-reopened"></span>
+        <span>Reopen</span>
+      </div>
+    ` : `
+      <div class="context-menu-item" data-action="resolveIssue">
+        <span class="codicon codicon-pass"></span>
+        <span>Mark as Resolved</span>
+      </div>
+    `;
+
     contextMenu.innerHTML = `
       <div class="context-menu-item" data-action="editBookmark">
         <span class="codicon codicon-edit"></span>
@@ -1528,6 +2033,12 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
         <span>Add Child Bookmark</span>
       </div>
       <div class="context-menu-separator"></div>
+      ${statusMenuItems}
+      <div class="context-menu-item" data-action="setStatus">
+        <span class="codicon codicon-issues"></span>
+        <span>Set Status...</span>
+      </div>
+      <div class="context-menu-separator"></div>
       <div class="context-menu-item danger" data-action="deleteBookmark">
         <span class="codicon codicon-trash"></span>
         <span>Delete Bookmark</span>
@@ -1661,7 +2172,15 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
   function bookmarkToMarkdown(bookmark, allBookmarks, level = 2, includeChildren = true) {
     const heading = '#'.repeat(level);
     let md = `${heading} ${bookmark.title}\n\n`;
-    md += `**Location**: [${bookmark.location}](${bookmark.location})\n\n`;
+    if (bookmark.locations && bookmark.locations.length > 1) {
+      md += '**Locations**:\n';
+      for (const entry of bookmark.locations) {
+        md += `- ${entry.label ? `${entry.label}: ` : ''}[${entry.location}](${entry.location})\n`;
+      }
+      md += '\n';
+    } else {
+      md += `**Location**: [${bookmark.location}](${bookmark.location})\n\n`;
+    }
 
     if (bookmark.description) {
       md += `${bookmark.description}\n`;
@@ -2004,8 +2523,7 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
         bookmark: {
           title,
           location,
-          description: description || '',
-          category: 'note'
+          description: description || ''
         }
       }
     });
@@ -2040,6 +2558,15 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
       case 'deleteBookmark':
         vscode.postMessage({ type: 'deleteBookmark', bookmarkId: contextMenuTarget.id });
         break;
+      case 'setStatus':
+        vscode.postMessage({ type: 'setStatus', bookmarkId: contextMenuTarget.id });
+        break;
+      case 'resolveIssue':
+        vscode.postMessage({ type: 'setStatus', bookmarkId: contextMenuTarget.id, status: 'resolved' });
+        break;
+      case 'reopenIssue':
+        vscode.postMessage({ type: 'setStatus', bookmarkId: contextMenuTarget.id, status: 'open' });
+        break;
       case 'copyBookmarkInfo':
         copyBookmarkInfo(contextMenuTarget.id);
         break;
@@ -2083,6 +2610,9 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
       case 'copyGroupInfoAsMarkdown':
         copyGroupAsMarkdown(contextMenuTarget.id, false);
         break;
+      case 'toggleGroupPrivate':
+        vscode.postMessage({ type: 'toggleGroupPrivate', groupId: contextMenuTarget.id });
+        break;
       case 'deleteGroup':
         vscode.postMessage({ type: 'deleteGroup', groupId: contextMenuTarget.id });
         break;
@@ -2099,6 +2629,9 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
     loadingState.style.display = 'none';
     emptyState.style.display = 'none';
     groupsList.style.display = 'none';
+    if (trashSection) {
+      trashSection.style.display = 'none';
+    }
 
     if (!data.results || data.results.length === 0) {
       noResultsState.style.display = 'flex';
@@ -2112,7 +2645,12 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
 
     // 绑定搜索结果点击事件
     searchResults.querySelectorAll('.search-result-item').forEach(item => {
-      item.addEventListener('click', () => {
+      item.addEventListener('click', (e) => {
+        const tagChip = /** @type {HTMLElement} */ (e.target).closest('.tag-chip[data-tag]');
+        if (tagChip) {
+          vscode.postMessage({ type: 'filterByTag', tag: tagChip.getAttribute('data-tag') });
+          return;
+        }
         const bookmarkId = item.getAttribute('data-bookmark-id');
         if (bookmarkId) {
           vscode.postMessage({ type: 'jumpToBookmark', bookmarkId });
@@ -2125,7 +2663,7 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
   /** @param {any} result */
   function renderSearchResult(result) {
     const { bookmark, group } = result;
-    const category = bookmark.category || 'note';
+    const category = bookmark.category || '';
 
     return `
       <div class="search-result-item"
@@ -2134,6 +2672,7 @@ const DOMPurify = /** @type {any} */ (window).DOMPurify;
         <div class="search-result-title">${escapeHtml(bookmark.title)}</div>
         <div class="search-result-group">${escapeHtml(group.title)}</div>
         <div class="search-result-location">${escapeHtml(formatLocation(bookmark.location))}</div>
+        ${renderBookmarkMeta(bookmark)}
       </div>
     `;
   }